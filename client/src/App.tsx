@@ -6,148 +6,116 @@
  * @author Lindsey Stead
  */
 
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { HelmetProvider } from "react-helmet-async";
+import { Helmet, HelmetProvider } from "react-helmet-async";
 import { useEffect } from "react";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { useColorMode } from "@/hooks/useColorMode";
 import { SEOHead } from "@/components/SEOHead";
 import { Analytics } from "@/components/Analytics";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ConfigPreviewBanner } from "@/components/ConfigPreviewBanner";
+import { captureAttribution } from "@/lib/attribution";
+import { getRememberedColorModeSetting, rememberColorModeSetting } from "@/lib/colorMode";
+import {
+  applyThemeVariables,
+  getColorThemeVariables,
+  getDesignTokenVariables,
+  removeThemeVariables,
+} from "@/lib/colorTheme";
+import { googleFontsUrl } from "@shared/theme";
 import Home from "@/pages/Home";
 import NotFound from "@/pages/not-found";
 import Setup from "@/pages/Setup";
 import Embed from "@/pages/Embed";
 
-function FaviconUpdater(): null {
+/**
+ * Points the favicon at the configured one and adds the Apple touch icon
+ * generated from an uploaded logo.
+ */
+function FaviconUpdater(): JSX.Element | null {
   const { data: config } = useAppConfig();
+  const appleTouchIcon = config?.branding?.appleTouchIcon;
 
   useEffect(() => {
     if (config?.branding?.favicon) {
       const link = document.getElementById('favicon-link') as HTMLLinkElement | null;
       if (link) {
         link.href = config.branding.favicon;
+        // index.html declares a PNG, but generated favicons are ICO files
+        link.removeAttribute('type');
       }
     }
   }, [config]);
 
-  return null;
+  if (!appleTouchIcon) return null;
+
+  return (
+    <Helmet>
+      <link rel="apple-touch-icon" href={appleTouchIcon} />
+    </Helmet>
+  );
 }
 
 /**
- * Converts hex color to HSL format for Tailwind CSS variables.
+ * Applies the light or dark mode, the brand colors and the theme's design
+ * tokens to the document, and loads the theme's fonts. The embed page
+ * picks its own mode for its wrapper, so the document stays light there.
  */
-function hexToHsl(hex: string): string | null {
-  try {
-    let r = 0, g = 0, b = 0;
-
-    if (hex.length === 4) {
-      // Short hex (#RGB)
-      r = parseInt(hex[1] + hex[1], 16);
-      g = parseInt(hex[2] + hex[2], 16);
-      b = parseInt(hex[3] + hex[3], 16);
-    } else if (hex.length === 7) {
-      // Full hex (#RRGGBB)
-      r = parseInt(hex.slice(1, 3), 16);
-      g = parseInt(hex.slice(3, 5), 16);
-      b = parseInt(hex.slice(5, 7), 16);
-    } else {
-      return null;
-    }
-
-    // Convert RGB to HSL
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-      let h = 0, s = 0;
-      const l = (max + min) / 2;
+function ThemeUpdater(): JSX.Element | null {
+  const { data: config } = useAppConfig();
+  const theme = config?.theme;
+  const [location] = useLocation();
+  // Until the config loads, the mode index.html applied from the last visit
+  const { mode: siteMode } = useColorMode(config ? theme?.mode : getRememberedColorModeSetting());
+  const mode = location.startsWith('/embed') ? 'light' : siteMode;
 
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  useEffect(() => {
+    if (config) rememberColorModeSetting(config.theme?.mode);
+  }, [config]);
 
-      switch (max) {
-        case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break;
-        case g: h = ((b - r) / d + 2) / 6; break;
-        case b: h = ((r - g) / d + 4) / 6; break;
-      }
+  useEffect(() => {
+    const root = document.documentElement;
+    root.classList.toggle('dark', mode === 'dark');
+    let applied: string[] = [];
+    try {
+      const variables = {
+        ...getColorThemeVariables(config?.branding?.primaryColor, config?.branding?.secondaryColor, mode),
+        ...getDesignTokenVariables(config?.theme, mode),
+      };
+      applyThemeVariables(root, variables);
+      applied = Object.keys(variables);
+    } catch (error) {
+      console.warn('Failed to apply theme:', error);
     }
+    // Tokens the next config or mode leaves out go back to their defaults
+    return () => removeThemeVariables(root, applied);
+  }, [config, mode]);
 
-    return `${Math.round(h * 360)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%`;
-  } catch {
-    return null;
-  }
-}
+  const fontsUrl = googleFontsUrl([theme?.bodyFont, theme?.headingFont]);
+  if (!fontsUrl) return null;
 
-/**
- * Calculates appropriate foreground color based on luminance.
- */
-function getForegroundColor(hsl: string): string {
-  const l = parseFloat(hsl.split(' ')[2].replace('%', ''));
-  return l > 50 ? '222 47% 11%' : '210 40% 98%';
-}
-
-/**
- * Validates hex color format.
- */
-function isValidHexColor(color: string): boolean {
-  return /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(color);
+  return (
+    <Helmet>
+      <link rel="stylesheet" href={fontsUrl} />
+    </Helmet>
+  );
 }
 
 /**
- * Applies a color theme to CSS variables.
+ * Records the visitor's landing for lead attribution, once per page load.
+ * The embed page captures its host page's URL itself.
  */
-function applyColorTheme(
-  color: string | undefined,
-  defaultColor: string,
-  cssVar: '--primary' | '--secondary',
-  cssVarForeground: '--primary-foreground' | '--secondary-foreground'
-): void {
-  const defaultHsl = hexToHsl(defaultColor);
-  if (!defaultHsl) return;
-
-  if (color && isValidHexColor(color)) {
-    const hsl = hexToHsl(color);
-    if (hsl) {
-      document.documentElement.style.setProperty(cssVar, hsl);
-      document.documentElement.style.setProperty(cssVarForeground, getForegroundColor(hsl));
-      return;
-    }
-  }
-
-  // Apply default
-  document.documentElement.style.setProperty(cssVar, defaultHsl);
-  document.documentElement.style.setProperty(cssVarForeground, '210 40% 98%');
-}
-
-function ColorSchemeUpdater(): null {
-  const { data: config } = useAppConfig();
-
+function AttributionTracker(): null {
   useEffect(() => {
-    try {
-      applyColorTheme(
-        config?.branding?.primaryColor,
-        "#2563eb",
-        '--primary',
-        '--primary-foreground'
-      );
-
-      applyColorTheme(
-        config?.branding?.secondaryColor,
-        "#10B981",
-        '--secondary',
-        '--secondary-foreground'
-      );
-    } catch (error) {
-      console.warn('Failed to apply branding colors:', error);
+    if (!window.location.pathname.startsWith('/embed')) {
+      captureAttribution();
     }
-  }, [config]);
+  }, []);
 
   return null;
 }
@@ -172,9 +140,11 @@ function App(): JSX.Element {
             <SEOHead />
             <Analytics />
             <FaviconUpdater />
-            <ColorSchemeUpdater />
+            <ThemeUpdater />
+            <AttributionTracker />
             <Toaster />
             <Router />
+            <ConfigPreviewBanner />
           </TooltipProvider>
         </QueryClientProvider>
       </HelmetProvider>
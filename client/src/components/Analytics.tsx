@@ -2,7 +2,7 @@
  * Analytics Component
  *
  * Dynamically injects analytics scripts based on configuration
- * from the setup wizard.
+ * from the setup wizard. Nothing is tracked on preview links.
  *
  * @author Lindsey Stead
  * @module client/components/Analytics
@@ -10,10 +10,12 @@
 
 import { useEffect } from "react";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { getConfigPreviewToken } from "@shared/configPublishing";
 
 export function Analytics(): null {
   const { data: config } = useAppConfig();
-  const analytics = config?.analytics;
+  // Reviewing a draft is not a visit
+  const analytics = getConfigPreviewToken(window.location.search) ? undefined : config?.analytics;
 
   useEffect(() => {
     // Track injected scripts for cleanup
@@ -0,0 +1,29 @@
+/**
+ * Config Preview Banner Component
+ *
+ * Tells whoever opened a preview link (`/?preview=<token>`) that they are
+ * looking at unpublished changes, with a link back to the live site.
+ *
+ * @author Lindsey Stead
+ * @module client/components/ConfigPreviewBanner
+ */
+
+import { Eye } from "lucide-react";
+import { getConfigPreviewToken } from "@shared/configPublishing";
+
+export function ConfigPreviewBanner(): JSX.Element | null {
+  if (!getConfigPreviewToken(window.location.search)) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-full border bg-background/95 px-4 py-2 text-sm shadow-lg backdrop-blur"
+    >
+      <Eye className="h-4 w-4 text-primary" />
+      <span>Previewing unpublished changes</span>
+      <a href={window.location.pathname} className="font-medium text-primary hover:underline">
+        Exit preview
+      </a>
+    </div>
+  );
+}
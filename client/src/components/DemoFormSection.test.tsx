@@ -290,6 +290,48 @@ describe("DemoFormSection", () => {
       });
     });
 
+    it("should choose the error message by code, not by the server's wording", async () => {
+      const user = userEvent.setup();
+      mockApiRequest.mockRejectedValue(
+        Object.assign(new Error("Something the backend says"), { status: 412, code: "SETUP_INCOMPLETE" })
+      );
+
+      renderComponent();
+
+      await user.type(screen.getByLabelText(/name/i), "John Doe");
+      await user.type(screen.getByLabelText(/email/i), "john@example.com");
+      await user.type(screen.getByLabelText(/message/i), "Test message");
+      await user.click(screen.getByRole("button", { name: /send message/i }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId("error-message")).toHaveTextContent(/complete the setup wizard at \/setup/i);
+      });
+    });
+
+    it("should show server field errors on the matching input", async () => {
+      const user = userEvent.setup();
+      mockApiRequest.mockRejectedValue(
+        Object.assign(new Error("This email domain is not accepted"), {
+          status: 400,
+          code: "VALIDATION_ERROR",
+          fieldErrors: { email: ["This email domain is not accepted"], attribution: ["Ignored"] },
+        })
+      );
+
+      renderComponent();
+
+      await user.type(screen.getByLabelText(/name/i), "John Doe");
+      await user.type(screen.getByLabelText(/email/i), "john@example.com");
+      await user.type(screen.getByLabelText(/message/i), "Test message");
+      await user.click(screen.getByRole("button", { name: /send message/i }));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/email/i)).toHaveAttribute("aria-invalid", "true");
+      });
+      expect(screen.getByText("This email domain is not accepted")).toBeInTheDocument();
+      expect(screen.getByTestId("error-message")).toHaveTextContent(/correct the highlighted fields/i);
+    });
+
     it("should disable submit button while submitting", async () => {
       const user = userEvent.setup();
       // Mock a delayed response to test loading state
@@ -16,30 +16,37 @@
  * @module client/components/DemoFormSection
  */
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "@/components/ui/form";
+import { Form } from "@/components/ui/form";
 import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { leadSubmissionSchema, type LeadSubmission, type LeadSubmissionResponse } from "@shared/schema";
+import type { LeadSubmissionResponse, SetupStatus } from "@shared/schema";
+import {
+  buildLeadSchema,
+  getDefaultFormValues,
+  resolveFormFields,
+  type LeadFormSubmission,
+  type LeadFormValues,
+} from "@shared/formDefinition";
 import { apiRequest, getCsrfToken } from "@/lib/queryClient";
+import { getAttribution } from "@/lib/attribution";
+import { applyLeadSubmitError, type LeadErrorMessages } from "@/lib/leadFormErrors";
 import type { ApiError, LeadSubmissionWithHoneypot } from "@/lib/types";
 import { CheckCircle2, Loader2, MessageSquare, Sparkles, ArrowRight, AlertCircle } from "lucide-react";
 import { motion } from "framer-motion";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { LeadFormFields } from "@/components/LeadFormFields";
+
+// This form is on the owner's own site, so setup problems can point at /setup
+const OWNER_ERROR_MESSAGES: LeadErrorMessages = {
+  SETUP_INCOMPLETE: "Setup incomplete. Please complete the setup wizard at /setup to enable form submissions.",
+  GOOGLE_AUTH_FAILED: "Google authentication failed. Please go to /setup and re-authenticate with Google.",
+};
 
 /**
  * Demo Form Section Component
@@ -56,12 +63,6 @@ import { useAppConfig } from "@/hooks/useAppConfig";
  *
  * @returns {JSX.Element} Lead submission form section
  */
-interface SetupStatus {
-  configured: boolean;
-  missing: string[];
-  details: Record<string, boolean>;
-}
-
 export function DemoFormSection(): JSX.Element {
   const [isSuccess, setIsSuccess] = useState(false);
   const [, setLocation] = useLocation();
@@ -87,14 +88,13 @@ export function DemoFormSection(): JSX.Element {
   // Get form submit text from config, fallback to default
   const submitText = config?.content?.form?.submitText || "Send Message";
 
-  const form = useForm<LeadSubmission>({
-    resolver: zodResolver(leadSubmissionSchema),
-    defaultValues: {
-      name: "",
-      email: "",
-      phone: "",
-      message: "",
-    },
+  // Fields designed in the setup wizard; the schema is rebuilt when they change
+  const fields = useMemo(() => resolveFormFields(config?.content?.form?.fields), [config?.content?.form?.fields]);
+  const schema = useMemo(() => buildLeadSchema(fields), [fields]);
+
+  const form = useForm<LeadFormValues, unknown, LeadFormSubmission>({
+    resolver: zodResolver(schema),
+    defaultValues: getDefaultFormValues(fields),
   });
 
   // Fetch CSRF token on component mount
@@ -105,7 +105,7 @@ export function DemoFormSection(): JSX.Element {
     retry: 2,
   });
 
-  const mutation = useMutation<LeadSubmissionResponse, Error, LeadSubmission>({
+  const mutation = useMutation<LeadSubmissionResponse, Error, LeadSubmissionWithHoneypot>({
     mutationFn: async (data) => {
       // Ensure we have a CSRF token before submitting
       let token = csrfToken;
@@ -135,35 +135,12 @@ export function DemoFormSection(): JSX.Element {
       refetchCsrfToken();
     },
     onError: (error: Error) => {
-      // If CSRF error, refresh token and show helpful message
       const apiError = error as ApiError;
-      if (error.message.includes('CSRF') || apiError.status === 403) {
+      // A rejected token is replaced before the visitor submits again
+      if (apiError.code === "CSRF_INVALID") {
         refetchCsrfToken();
       }
-
-      // Show setup/configuration errors clearly
-      if (apiError.status === 412 || error.message.includes('Setup incomplete') || error.message.includes('SETUP_INCOMPLETE')) {
-        form.setError("root", {
-          message: "Setup incomplete. Please complete the setup wizard at /setup to enable form submissions.",
-        });
-      } else if (error.message.includes('Google authentication not configured') ||
-          error.message.includes('not configured')) {
-        form.setError("root", {
-          message: "Google authentication not configured. Please complete setup at /setup",
-        });
-      } else if (error.message.includes('OAuth') ||
-          error.message.includes('Google authentication') ||
-          error.message.includes('refresh token') ||
-          error.message.includes('invalid_grant')) {
-        form.setError("root", {
-          message: "Google authentication failed. Please go to /setup and re-authenticate with Google (Step 2).",
-        });
-      } else {
-        // Show other errors
-        form.setError("root", {
-          message: error.message || "Failed to submit form. Please try again.",
-        });
-      }
+      applyLeadSubmitError(form, fields, apiError, OWNER_ERROR_MESSAGES);
     },
   });
 
@@ -176,7 +153,7 @@ export function DemoFormSection(): JSX.Element {
     };
   }, []);
 
-  const onSubmit = (data: LeadSubmission) => {
+  const onSubmit = (data: LeadFormSubmission) => {
     // Don't submit if CSRF token is not available
     if (!csrfToken) {
       form.setError("root", {
@@ -190,10 +167,11 @@ export function DemoFormSection(): JSX.Element {
     const honeypotInput = document.querySelector('input[name="_honeypot"]') as HTMLInputElement;
     const honeypotValue = honeypotInput?.value || '';
 
-    // Submit with honeypot field included
+    // Submit with honeypot field and first/last-touch attribution included
     const submission: LeadSubmissionWithHoneypot = {
       ...data,
       _honeypot: honeypotValue,
+      attribution: getAttribution(),
     };
     mutation.mutate(submission);
   };
@@ -317,99 +295,13 @@ export function DemoFormSection(): JSX.Element {
                 noValidate
                 data-testid="lead-submission-form"
               >
-                {/* Name Field: Required, validated by Zod schema */}
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium uppercase tracking-wide">
-                        Name *
-                      </FormLabel>
-                      <FormControl>
-                            <Input
-                              placeholder="John Smith"
-                              {...field}
-                              data-testid="input-name"
-                              className="h-12 rounded-xl border-border/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 bg-background/50 hover:bg-background"
-                            />
-                      </FormControl>
-                      {/* Error message displayed automatically if validation fails */}
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Email Field: Required, validated for email format by Zod */}
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium uppercase tracking-wide">
-                        Email *
-                      </FormLabel>
-                      <FormControl>
-                            <Input
-                              type="email"
-                              placeholder="john@example.com"
-                              {...field}
-                              data-testid="input-email"
-                              className="h-12 rounded-xl border-border/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 bg-background/50 hover:bg-background"
-                            />
-                      </FormControl>
-                      {/* Error message displayed automatically if validation fails */}
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Phone Field: Optional, validated for phone format if provided */}
-                <FormField
-                  control={form.control}
-                  name="phone"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium uppercase tracking-wide">
-                        Phone <span className="text-muted-foreground text-xs normal-case">(Optional)</span>
-                      </FormLabel>
-                      <FormControl>
-                            <Input
-                              type="tel"
-                              placeholder="+1 (555) 123-4567"
-                              {...field}
-                              data-testid="input-phone"
-                              className="h-12 rounded-xl border-border/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 bg-background/50 hover:bg-background"
-                            />
-                      </FormControl>
-                      {/* Error message displayed automatically if validation fails */}
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {/* Message Field: Required, validated by Zod schema */}
-                <FormField
+                {/* Fields from the form definition; errors are displayed under each input */}
+                <LeadFormFields
                   control={form.control}
-                  name="message"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium uppercase tracking-wide">
-                        Message *
-                      </FormLabel>
-                      <FormControl>
-                            <Textarea
-                              placeholder="Tell us about your project or inquiry..."
-                              rows={4}
-                              {...field}
-                              data-testid="input-message"
-                              className="resize-none rounded-xl border-border/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 bg-background/50 hover:bg-background"
-                            />
-                      </FormControl>
-                      {/* Error message displayed automatically if validation fails */}
-                      <FormMessage />
-                    </FormItem>
-                  )}
+                  fields={fields}
+                  labelClassName="text-sm font-medium uppercase tracking-wide"
+                  inputClassName="h-12 rounded-xl border-border/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 bg-background/50 hover:bg-background"
+                  textareaClassName="resize-none rounded-xl border-border/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-300 bg-background/50 hover:bg-background"
                 />
 
                 {/* ======================================================================== */}
@@ -2,25 +2,28 @@
  * Embeddable Form Component
  */
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "@/components/ui/form";
+import { Form } from "@/components/ui/form";
 import { Card } from "@/components/ui/card";
-import { leadSubmissionSchema, type LeadSubmission, type LeadSubmissionResponse } from "@shared/schema";
+import type { LeadSubmissionResponse } from "@shared/schema";
+import {
+  buildLeadSchema,
+  getDefaultFormValues,
+  resolveFormFields,
+  type FormFieldDefinition,
+  type LeadFormSubmission,
+  type LeadFormValues,
+} from "@shared/formDefinition";
+import { LeadFormFields } from "@/components/LeadFormFields";
 import { apiRequest, getCsrfToken } from "@/lib/queryClient";
-import type { ApiError } from "@/lib/types";
+import { getAttribution } from "@/lib/attribution";
+import { applyLeadSubmitError } from "@/lib/leadFormErrors";
+import { cn } from "@/lib/utils";
+import type { ApiError, LeadSubmissionWithHoneypot } from "@/lib/types";
 import { CheckCircle2, Loader2 } from "lucide-react";
 
 interface EmbeddableFormProps {
@@ -29,15 +32,16 @@ interface EmbeddableFormProps {
   description?: string;
   submitText?: string;
   className?: string;
-}
-
-function getErrorMessage(error: ApiError): string {
-  if (error.status === 412 || 
-      error.message?.includes('Setup incomplete') || 
-      error.message?.includes('SETUP_INCOMPLETE')) {
-    return "Setup incomplete. Please complete the setup wizard to enable form submissions.";
-  }
-  return error.message || "Failed to send message. Please try again.";
+  /** Form definition from the app config; the default form when omitted */
+  fields?: FormFieldDefinition[];
+  /** Called after the server accepted a lead */
+  onSubmitSuccess?: (response: LeadSubmissionResponse) => void;
+  /** Called when a submission failed */
+  onSubmitError?: (error: ApiError) => void;
+  /** Tighter padding and spacing for small placements */
+  compact?: boolean;
+  /** Replaces the default thank-you message */
+  successMessage?: string;
 }
 
 export function EmbeddableForm({
@@ -46,18 +50,21 @@ export function EmbeddableForm({
   description = "Fill out the form below and we'll get back to you as soon as possible",
   submitText = "Send Message",
   className = "",
+  fields: fieldDefinitions,
+  onSubmitSuccess,
+  onSubmitError,
+  compact = false,
+  successMessage = "Thank you! Your message has been sent successfully.",
 }: EmbeddableFormProps): JSX.Element {
   const [isSuccess, setIsSuccess] = useState(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const form = useForm<LeadSubmission>({
-    resolver: zodResolver(leadSubmissionSchema),
-    defaultValues: {
-      name: "",
-      email: "",
-      phone: "",
-      message: "",
-    },
+  const fields = useMemo(() => resolveFormFields(fieldDefinitions), [fieldDefinitions]);
+  const schema = useMemo(() => buildLeadSchema(fields), [fields]);
+
+  const form = useForm<LeadFormValues, unknown, LeadFormSubmission>({
+    resolver: zodResolver(schema),
+    defaultValues: getDefaultFormValues(fields),
   });
 
   const { data: csrfToken, refetch: refetchCsrfToken } = useQuery({
@@ -67,7 +74,7 @@ export function EmbeddableForm({
     retry: 2,
   });
 
-  const mutation = useMutation<LeadSubmissionResponse, Error, LeadSubmission>({
+  const mutation = useMutation<LeadSubmissionResponse, Error, LeadSubmissionWithHoneypot>({
     mutationFn: async (data) => {
       let token = csrfToken;
       if (!token) {
@@ -76,7 +83,7 @@ export function EmbeddableForm({
       const response = await apiRequest("POST", "/api/v1/submit-lead", data, token, apiUrl || undefined);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (response) => {
       setIsSuccess(true);
       form.reset();
       // Clear any existing timeout
@@ -85,6 +92,16 @@ export function EmbeddableForm({
       }
       timeoutRef.current = setTimeout(() => setIsSuccess(false), 5000);
       refetchCsrfToken();
+      onSubmitSuccess?.(response);
+    },
+    onError: (error) => {
+      const apiError = error as ApiError;
+      // A rejected token is replaced before the visitor submits again
+      if (apiError.code === "CSRF_INVALID") {
+        refetchCsrfToken();
+      }
+      applyLeadSubmitError(form, fields, apiError);
+      onSubmitError?.(apiError);
     },
   });
 
@@ -98,61 +115,32 @@ export function EmbeddableForm({
   }, []);
 
   return (
-    <Card className={`p-6 ${className}`}>
-      <div className="space-y-6">
-        <div className="space-y-2">
-          <h2 className="text-2xl font-semibold">{title}</h2>
+    <Card className={cn(compact ? "p-4" : "p-6", className)}>
+      <div className={compact ? "space-y-4" : "space-y-6"}>
+        <div className={compact ? "space-y-1" : "space-y-2"}>
+          <h2 className={cn("font-semibold", compact ? "text-xl" : "text-2xl")}>{title}</h2>
           {description && <p className="text-muted-foreground">{description}</p>}
         </div>
 
         {isSuccess ? (
           <div className="flex items-center gap-2 text-primary">
             <CheckCircle2 className="w-5 h-5" />
-            <p>Thank you! Your message has been sent successfully.</p>
+            <p>{successMessage}</p>
           </div>
         ) : (
           <Form {...form}>
             <form
-              onSubmit={form.handleSubmit((data) => {
-                const honeypotInput = document.querySelector('input[name="_honeypot"]') as HTMLInputElement;
+              onSubmit={form.handleSubmit((data, event) => {
+                // Look up the honeypot through the form: inside <lead-capture-form> it isn't reachable from document
+                const honeypotInput = (event?.target as HTMLFormElement | undefined)?.elements.namedItem("_honeypot") as HTMLInputElement | null;
                 if (honeypotInput?.value) return;
-                mutation.mutate(data);
+                mutation.mutate({ ...data, attribution: getAttribution() });
               })}
-              className="space-y-4"
+              className={compact ? "space-y-3" : "space-y-4"}
             >
               <input type="text" name="_honeypot" tabIndex={-1} autoComplete="off" className="absolute -left-[9999px] opacity-0" aria-hidden="true" />
 
-              <FormField control={form.control} name="name" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Name *</FormLabel>
-                  <FormControl><Input placeholder="John Doe" {...field} /></FormControl>
-                  <FormMessage />
-                </FormItem>
-              )} />
-
-              <FormField control={form.control} name="email" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Email *</FormLabel>
-                  <FormControl><Input type="email" placeholder="john@example.com" {...field} /></FormControl>
-                  <FormMessage />
-                </FormItem>
-              )} />
-
-              <FormField control={form.control} name="phone" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Phone</FormLabel>
-                  <FormControl><Input type="tel" placeholder="(555) 123-4567" {...field} /></FormControl>
-                  <FormMessage />
-                </FormItem>
-              )} />
-
-              <FormField control={form.control} name="message" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Message *</FormLabel>
-                  <FormControl><Textarea placeholder="Your message here..." className="min-h-[120px]" {...field} /></FormControl>
-                  <FormMessage />
-                </FormItem>
-              )} />
+              <LeadFormFields control={form.control} fields={fields} textareaClassName={compact ? "min-h-[80px]" : "min-h-[120px]"} />
 
               <Button type="submit" className="w-full" disabled={mutation.isPending}>
                 {mutation.isPending ? (
@@ -162,9 +150,9 @@ export function EmbeddableForm({
                 )}
               </Button>
 
-              {mutation.isError && (
+              {form.formState.errors.root && (
                 <p className="text-sm text-destructive">
-                  {getErrorMessage(mutation.error as ApiError)}
+                  {form.formState.errors.root.message}
                 </p>
               )}
             </form>
@@ -0,0 +1,60 @@
+/**
+ * FAQ section component.
+ *
+ * Displays the questions of a FAQ section from the page layout as an
+ * accordion, with answers written in Markdown. SEOHead publishes the same
+ * questions as FAQPage structured data.
+ *
+ * @author Lindsey Stead
+ * @module client/components/FaqSection
+ */
+
+import { motion } from "framer-motion";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Markdown } from "@/components/Markdown";
+import { ANIMATION_VARIANTS } from "@/lib/constants";
+import type { FaqLayoutSection } from "@shared/pageLayout";
+
+export function FaqSection({ section }: { section: FaqLayoutSection }): JSX.Element | null {
+  if (section.items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section id={section.id} className="py-20 md:py-28 px-4 sm:px-6">
+      <div className="max-w-3xl mx-auto">
+        <motion.div
+          className="text-center mb-10 md:mb-12"
+          variants={ANIMATION_VARIANTS.fadeIn}
+          initial="initial"
+          whileInView="animate"
+          viewport={{ once: true, margin: "-50px" }}
+        >
+          <h2 className="text-2xl sm:text-3xl md:text-4xl font-semibold tracking-tight">
+            {section.title || "Frequently Asked Questions"}
+          </h2>
+        </motion.div>
+
+        <Accordion type="single" collapsible className="w-full">
+          {section.items.map((item, index) => (
+            <AccordionItem
+              key={index}
+              value={`item-${index}`}
+              data-testid={`faq-${section.id}-${index}`}
+            >
+              <AccordionTrigger className="text-left text-base">{item.question}</AccordionTrigger>
+              <AccordionContent>
+                <Markdown markdown={item.answer} className="text-muted-foreground" />
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </div>
+    </section>
+  );
+}
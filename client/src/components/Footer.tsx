@@ -11,6 +11,7 @@ import { Button } from "@/components/ui/button";
 import { Zap } from "lucide-react";
 import { SiGithub, SiX, SiLinkedin, SiFacebook, SiInstagram, SiYoutube, SiTiktok, SiPinterest, SiSnapchat, SiDiscord } from "react-icons/si";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { linksOnPage, resolveLayout } from "@shared/pageLayout";
 import { motion } from "framer-motion";
 import { ANIMATION_VARIANTS, TRANSITIONS } from "@/lib/constants";
 
@@ -45,8 +46,8 @@ export function Footer(): JSX.Element {
     discord: { icon: SiDiscord, label: "Discord Server" },
   };
 
-  // Use quickLinks from config only - no hardcoded fallbacks
-  const quickLinks = footerConfig?.quickLinks || [];
+  // Use quickLinks from config only - no hardcoded fallbacks, and no links to sections the page doesn't show
+  const quickLinks = linksOnPage(footerConfig?.quickLinks || [], resolveLayout(config ?? {}));
 
   const resources = footerConfig?.resources || [];
 
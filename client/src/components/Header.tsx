@@ -1,16 +1,19 @@
 /**
  * Header component.
  *
- * Displays navigation, logo, and CTA button with branding support.
+ * Displays navigation, logo, and CTA button with branding support, and a
+ * light/dark switch that remembers the visitor's choice.
  *
  * @author Lindsey Stead
  * @module client/components/Header
  */
 
 import { Button } from "@/components/ui/button";
-import { Zap } from "lucide-react";
+import { Moon, Sun, Zap } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { useColorMode } from "@/hooks/useColorMode";
+import { linksOnPage, resolveLayout } from "@shared/pageLayout";
 import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 
@@ -18,13 +21,15 @@ export function Header(): JSX.Element {
   const [, setLocation] = useLocation();
   const { data: config, isLoading } = useAppConfig();
   const [logoError, setLogoError] = useState(false);
+  const { mode, setMode } = useColorMode(config?.theme?.mode);
+  const showModeToggle = config?.theme?.showModeToggle !== false;
 
   // Use config with fallbacks - always have valid values even if config fails
   const companyName = config?.branding?.companyName || "SmartSheetConnect";
   const headerConfig = config?.header;
 
-  // Use navigation from config only - no hardcoded fallbacks
-  const navigation = headerConfig?.navigation || [];
+  // Use navigation from config only - no hardcoded fallbacks, and no links to sections the page doesn't show
+  const navigation = linksOnPage(headerConfig?.navigation || [], resolveLayout(config ?? {}));
 
   const ctaText = headerConfig?.ctaText || "Get Started";
 
@@ -100,6 +105,7 @@ export function Header(): JSX.Element {
           {hasCustomLogo && !logoError ? (
             <motion.img
               src={config.branding.logo}
+              srcSet={config.branding.logoRetina ? `${config.branding.logo} 1x, ${config.branding.logoRetina} 2x` : undefined}
               alt={companyName}
               className="w-9 h-9 rounded-xl object-contain shadow-sm"
               onError={() => setLogoError(true)}
@@ -152,6 +158,28 @@ export function Header(): JSX.Element {
         )}
 
         <div className="flex items-center gap-3">
+          {showModeToggle && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.3 }}
+            >
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setMode(mode === "dark" ? "light" : "dark")}
+                data-testid="button-color-mode"
+                className="rounded-xl"
+                aria-label={mode === "dark" ? "Switch to light mode" : "Switch to dark mode"}
+              >
+                {mode === "dark" ? (
+                  <Sun className="w-5 h-5" aria-hidden="true" />
+                ) : (
+                  <Moon className="w-5 h-5" aria-hidden="true" />
+                )}
+              </Button>
+            </motion.div>
+          )}
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
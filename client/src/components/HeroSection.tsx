@@ -41,7 +41,7 @@ export function HeroSection(): JSX.Element {
   };
 
   return (
-    <section className="pt-28 sm:pt-36 lg:pt-48 pb-20 md:pb-28 px-4 sm:px-6 relative">
+    <section id="hero" className="pt-28 sm:pt-36 lg:pt-48 pb-20 md:pb-28 px-4 sm:px-6 relative">
       {/* Enhanced background gradient decoration */}
       <div className="absolute inset-0 -z-10">
         <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-primary/10 dark:from-primary/10 dark:via-transparent dark:to-primary/5" />
@@ -1,7 +1,8 @@
 /**
  * How It Works section component.
  *
- * Displays the step-by-step process of how the application works.
+ * Displays the steps from the app config (content.howItWorks), or the
+ * default steps when none are configured, next to a sample lead.
  *
  * @author Lindsey Stead
  * @module client/components/HowItWorksSection
@@ -10,40 +11,18 @@
 import { FileText, Sparkles, TrendingUp, Database, Mail, BarChart3, MapPin, Building2, Users, Globe, ExternalLink } from "lucide-react";
 import { motion } from "framer-motion";
 import { LEAD_DEMO, ANIMATION_VARIANTS, TRANSITIONS } from "@/lib/constants";
+import { useAppConfig } from "@/hooks/useAppConfig";
+import { getSectionIcon } from "@/lib/sectionIcons";
+import { DEFAULT_SCORING_WEIGHTS } from "@shared/scoring";
+import { resolveHowItWorks } from "@shared/landingSections";
 
-export function HowItWorksSection(): JSX.Element {
-  const steps = [
-    {
-      number: "01",
-      icon: FileText,
-      title: "Customer Submits Form",
-      description: "A potential customer fills out your professional lead capture form with their contact information, needs, and message. Source tracking automatically captures UTM parameters and referrer data.",
-    },
-    {
-      number: "02",
-      icon: Sparkles,
-      title: "Automatically Enriches the Lead",
-      description: "The system automatically extracts company data from the email domain - company name and website. This happens instantly using intelligent domain parsing to identify company information.",
-    },
-    {
-      number: "03",
-      icon: TrendingUp,
-      title: "Intelligently Scores the Lead (0-100)",
-      description: "Using the enriched company data and message content, the system analyzes buying intent, urgency, message quality, and company size to generate an intelligent lead score. Optional AI enhancement available for deeper sentiment analysis. High-scoring leads are prioritized automatically.",
-    },
-    {
-      number: "04",
-      icon: Database,
-      title: "Data Logged to Google Sheets",
-      description: "All lead data, enrichment, score, reasoning, and source tracking are instantly logged to Google Sheets with 21 columns of intelligence. Your spreadsheet becomes a powerful CRM automatically.",
-    },
-    {
-      number: "05",
-      icon: Mail,
-      title: "Team Gets Notified with Intelligence",
-      description: "Your team receives immediate email and Slack notifications with the complete lead intelligence card - including score, enrichment data, source tracking, and score reasoning for smart prioritization.",
-    },
-  ];
+export function HowItWorksSection(): JSX.Element | null {
+  const { data: config } = useAppConfig();
+  const { title, description, steps } = resolveHowItWorks(config?.content);
+
+  if (steps.length === 0) {
+    return null;
+  }
 
   return (
     <section id="how-it-works" className="py-20 md:py-28 px-4 sm:px-6 relative overflow-hidden">
@@ -68,48 +47,53 @@ export function HowItWorksSection(): JSX.Element {
               variants={ANIMATION_VARIANTS.fadeIn}
             >
               <h2 className="text-2xl sm:text-3xl md:text-4xl font-semibold tracking-tight">
-                How It Works
+                {title}
               </h2>
-              <p className="text-sm sm:text-base md:text-lg text-muted-foreground leading-relaxed">
-                Simple automated workflow for capturing and managing leads
-              </p>
+              {description && (
+                <p className="text-sm sm:text-base md:text-lg text-muted-foreground leading-relaxed">
+                  {description}
+                </p>
+              )}
             </motion.div>
 
             <motion.div
               className="space-y-6 md:space-y-8"
               variants={ANIMATION_VARIANTS.staggerContainer}
             >
-              {steps.map((step, index) => (
-                <motion.div
-                  key={index}
-                  className="flex gap-4 md:gap-6 group"
-                  data-testid={`step-${index}`}
-                  variants={ANIMATION_VARIANTS.staggerItem}
-                  whileHover={{ x: 4 }}
-                  transition={TRANSITIONS.smooth}
-                >
-                  <div className="flex-shrink-0">
-                    <motion.div
-                      className="w-14 h-14 md:w-16 md:h-16 bg-gradient-to-br from-primary/15 to-primary/10 dark:from-primary/20 dark:to-primary/15 rounded-2xl flex items-center justify-center transition-all duration-500 group-hover:from-primary/20 group-hover:to-primary/15 dark:group-hover:from-primary/25 dark:group-hover:to-primary/20 group-hover:scale-110 shadow-elevated group-hover:shadow-primary-glow"
-                      whileHover={{ rotate: 5, scale: 1.1 }}
-                      transition={TRANSITIONS.spring}
-                    >
-                      <step.icon className="w-7 h-7 md:w-8 md:h-8 text-primary" />
-                    </motion.div>
-                  </div>
-                  <div className="space-y-2 flex-1 min-w-0">
-                    <div className="flex items-center gap-2 md:gap-3 flex-wrap">
-                      <span className="text-3xl md:text-4xl font-bold text-muted-foreground/40 dark:text-muted-foreground/50">
-                        {step.number}
-                      </span>
-                      <h3 className="text-base md:text-lg font-semibold">{step.title}</h3>
+              {steps.map((step, index) => {
+                const Icon = getSectionIcon(step.icon);
+                return (
+                  <motion.div
+                    key={index}
+                    className="flex gap-4 md:gap-6 group"
+                    data-testid={`step-${index}`}
+                    variants={ANIMATION_VARIANTS.staggerItem}
+                    whileHover={{ x: 4 }}
+                    transition={TRANSITIONS.smooth}
+                  >
+                    <div className="flex-shrink-0">
+                      <motion.div
+                        className="w-14 h-14 md:w-16 md:h-16 bg-gradient-to-br from-primary/15 to-primary/10 dark:from-primary/20 dark:to-primary/15 rounded-2xl flex items-center justify-center transition-all duration-500 group-hover:from-primary/20 group-hover:to-primary/15 dark:group-hover:from-primary/25 dark:group-hover:to-primary/20 group-hover:scale-110 shadow-elevated group-hover:shadow-primary-glow"
+                        whileHover={{ rotate: 5, scale: 1.1 }}
+                        transition={TRANSITIONS.spring}
+                      >
+                        <Icon className="w-7 h-7 md:w-8 md:h-8 text-primary" />
+                      </motion.div>
                     </div>
-                    <p className="text-sm md:text-base text-muted-foreground leading-relaxed">
-                      {step.description}
-                    </p>
-                  </div>
-                </motion.div>
-              ))}
+                    <div className="space-y-2 flex-1 min-w-0">
+                      <div className="flex items-center gap-2 md:gap-3 flex-wrap">
+                        <span className="text-3xl md:text-4xl font-bold text-muted-foreground/40 dark:text-muted-foreground/50">
+                          {String(index + 1).padStart(2, "0")}
+                        </span>
+                        <h3 className="text-base md:text-lg font-semibold">{step.title}</h3>
+                      </div>
+                      <p className="text-sm md:text-base text-muted-foreground leading-relaxed">
+                        {step.description}
+                      </p>
+                    </div>
+                  </motion.div>
+                );
+              })}
             </motion.div>
           </motion.div>
 
@@ -250,13 +234,7 @@ export function HowItWorksSection(): JSX.Element {
                   <p className="text-xs font-medium text-muted-foreground mb-2">Score Breakdown</p>
                   <div className="space-y-1.5">
                     {Object.entries(LEAD_DEMO.score.factors).map(([key, value], idx) => {
-                      const maxScores: Record<string, number> = {
-                        messageIntent: 40,
-                        messageUrgency: 20,
-                        emailDomain: 20,
-                        messageLength: 10,
-                        phoneProvided: 10,
-                      };
+                      const maxScores: Record<string, number> = DEFAULT_SCORING_WEIGHTS;
                       const label = key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
                       const numValue = typeof value === 'number' ? value : 0;
                       return (
@@ -0,0 +1,155 @@
+/**
+ * Lead Form Fields Component
+ *
+ * Renders the inputs of a lead form from its form definition (see
+ * shared/formDefinition.ts). Used by DemoFormSection and EmbeddableForm so
+ * fields designed in the setup wizard show up in both.
+ *
+ * @author Lindsey Stead
+ * @module client/components/LeadFormFields
+ */
+
+import type { Control, FieldPath } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  getFieldPath,
+  type FormFieldDefinition,
+  type FormFieldKind,
+  type LeadFormSubmission,
+  type LeadFormValues,
+} from "@shared/formDefinition";
+
+interface LeadFormFieldsProps {
+  control: Control<LeadFormValues, unknown, LeadFormSubmission>;
+  fields: readonly FormFieldDefinition[];
+  /** Classes for labels */
+  labelClassName?: string;
+  /** Classes for single-line inputs and select triggers */
+  inputClassName?: string;
+  /** Classes for textareas */
+  textareaClassName?: string;
+}
+
+const INPUT_TYPES: Partial<Record<FormFieldKind, string>> = {
+  email: "email",
+  phone: "tel",
+  number: "number",
+};
+
+export function LeadFormFields({
+  control,
+  fields,
+  labelClassName,
+  inputClassName,
+  textareaClassName,
+}: LeadFormFieldsProps): JSX.Element {
+  return (
+    <>
+      {fields.map((definition) => (
+        <FormField
+          key={definition.id}
+          control={control}
+          name={getFieldPath(definition) as FieldPath<LeadFormValues>}
+          render={({ field }) => {
+            const label = (
+              <>
+                {definition.label}
+                {definition.required ? (
+                  " *"
+                ) : (
+                  <>
+                    {" "}
+                    <span className="text-muted-foreground text-xs normal-case">(Optional)</span>
+                  </>
+                )}
+              </>
+            );
+
+            if (definition.kind === "checkbox") {
+              return (
+                <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value === true}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      data-testid={`input-${definition.id}`}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>{label}</FormLabel>
+                    {definition.helpText && <FormDescription>{definition.helpText}</FormDescription>}
+                    <FormMessage />
+                  </div>
+                </FormItem>
+              );
+            }
+
+            const value = typeof field.value === "string" ? field.value : "";
+
+            return (
+              <FormItem>
+                <FormLabel className={labelClassName}>{label}</FormLabel>
+                {definition.kind === "select" ? (
+                  <Select value={value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className={inputClassName} data-testid={`input-${definition.id}`}>
+                        <SelectValue placeholder={definition.placeholder || "Select an option"} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {definition.options?.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <FormControl>
+                    {definition.kind === "textarea" ? (
+                      <Textarea
+                        placeholder={definition.placeholder}
+                        rows={4}
+                        {...field}
+                        value={value}
+                        maxLength={definition.maxLength}
+                        data-testid={`input-${definition.id}`}
+                        className={textareaClassName}
+                      />
+                    ) : (
+                      <Input
+                        type={INPUT_TYPES[definition.kind] ?? "text"}
+                        placeholder={definition.placeholder}
+                        {...field}
+                        value={value}
+                        maxLength={definition.maxLength}
+                        min={definition.min}
+                        max={definition.max}
+                        data-testid={`input-${definition.id}`}
+                        className={inputClassName}
+                      />
+                    )}
+                  </FormControl>
+                )}
+                {definition.helpText && <FormDescription>{definition.helpText}</FormDescription>}
+                {/* Error message displayed automatically if validation fails */}
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+      ))}
+    </>
+  );
+}
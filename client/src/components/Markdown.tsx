@@ -0,0 +1,30 @@
+/**
+ * Markdown component.
+ *
+ * Renders configured Markdown (FAQ answers, rich-text sections) as
+ * sanitized HTML; see shared/markdown.ts for what is allowed through.
+ *
+ * @author Lindsey Stead
+ * @module client/components/Markdown
+ */
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { renderMarkdown } from "@shared/markdown";
+
+interface MarkdownProps {
+  markdown: string;
+  className?: string;
+}
+
+export function Markdown({ markdown, className }: MarkdownProps): JSX.Element {
+  const html = useMemo(() => renderMarkdown(markdown), [markdown]);
+
+  return (
+    <div
+      className={cn("prose prose-sm sm:prose-base dark:prose-invert max-w-none", className)}
+      // Sanitized by renderMarkdown
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Rich text section component.
+ *
+ * Displays free-form Markdown copy from the page layout, such as an
+ * "About us" section.
+ *
+ * @author Lindsey Stead
+ * @module client/components/RichTextSection
+ */
+
+import { motion } from "framer-motion";
+import { Markdown } from "@/components/Markdown";
+import { ANIMATION_VARIANTS } from "@/lib/constants";
+import type { RichTextLayoutSection } from "@shared/pageLayout";
+
+export function RichTextSection({
+  section,
+}: {
+  section: RichTextLayoutSection;
+}): JSX.Element | null {
+  if (!section.markdown.trim()) {
+    return null;
+  }
+
+  return (
+    <section id={section.id} className="py-20 md:py-28 px-4 sm:px-6">
+      <motion.div
+        className="max-w-3xl mx-auto space-y-6"
+        variants={ANIMATION_VARIANTS.fadeIn}
+        initial="initial"
+        whileInView="animate"
+        viewport={{ once: true, margin: "-50px" }}
+      >
+        {section.title && (
+          <h2 className="text-2xl sm:text-3xl md:text-4xl font-semibold tracking-tight text-center">
+            {section.title}
+          </h2>
+        )}
+        <Markdown markdown={section.markdown} />
+      </motion.div>
+    </section>
+  );
+}
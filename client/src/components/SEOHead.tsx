@@ -2,17 +2,22 @@
  * SEO Head Component
  *
  * Dynamically renders meta tags, Open Graph tags, and Twitter Card tags
- * based on configuration from the setup wizard.
+ * based on configuration from the setup wizard. On the landing page, the
+ * questions of its FAQ sections are also published as FAQPage structured
+ * data.
  *
  * @author Lindsey Stead
  * @module client/components/SEOHead
  */
 
 import { Helmet } from "react-helmet-async";
+import { useLocation } from "wouter";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { faqPageJsonLd, resolveLayout } from "@shared/pageLayout";
 
 export function SEOHead(): JSX.Element {
   const { data: config } = useAppConfig();
+  const [location] = useLocation();
   const seo = config?.seo;
   const branding = config?.branding;
 
@@ -24,6 +29,7 @@ export function SEOHead(): JSX.Element {
   const ogDescription = seo?.ogDescription || metaDescription;
   const canonicalUrl = seo?.canonicalUrl || branding?.siteUrl;
   const keywords = seo?.keywords;
+  const faqJsonLd = location === "/" ? faqPageJsonLd(resolveLayout(config ?? {})) : null;
 
   return (
     <Helmet>
@@ -46,6 +52,9 @@ export function SEOHead(): JSX.Element {
       <meta name="twitter:title" content={ogTitle} />
       <meta name="twitter:description" content={ogDescription} />
       <meta name="twitter:image" content={seo?.twitterImage || ogImage} />
+
+      {/* Structured data */}
+      {faqJsonLd && <script type="application/ld+json">{faqJsonLd}</script>}
     </Helmet>
   );
 }
@@ -1,13 +1,23 @@
 /**
  * Live Preview Component for Setup Wizard
  *
- * Displays a lightweight preview of the homepage as the user edits fields.
+ * Displays a lightweight preview of the homepage as the user edits fields,
+ * with its sections in the order of the page layout and the theme's
+ * colors, fonts, corners and shadows applied to it alone, in light or
+ * dark mode.
  *
  * @author Lindsey Stead
  */
 
-import { useMemo, useState, useEffect, useRef } from "react";
+import { useMemo, useState, useEffect, useRef, type CSSProperties } from "react";
+import { Helmet } from "react-helmet-async";
 import { Zap } from "lucide-react";
+import { getColorThemeVariables, getDesignTokenVariables, type ColorMode } from "@/lib/colorTheme";
+import { darkModeVariant } from "@/lib/palette";
+import { cn } from "@/lib/utils";
+import type { ThemeConfig } from "@shared/appConfig";
+import { googleFontsUrl } from "@shared/theme";
+import { layoutSectionId, layoutSectionLabel, resolveLayout, type LayoutSection } from "@shared/pageLayout";
 
 interface PreviewProps {
   branding: {
@@ -28,9 +38,15 @@ interface PreviewProps {
   headerFooter?: {
     headerCtaText?: string;
   };
+  /** Section order and visibility; the default layout when left out */
+  layout?: LayoutSection[];
+  /** Design tokens being edited; the site's own theme when left out */
+  theme?: ThemeConfig;
+  /** Whether to preview the light or the dark theme (default light) */
+  mode?: ColorMode;
 }
 
-export function SetupPreview({ branding, content, headerFooter }: PreviewProps): JSX.Element {
+export function SetupPreview({ branding, content, headerFooter, layout = resolveLayout({}), theme, mode = "light" }: PreviewProps): JSX.Element {
   const previewData = useMemo(() => {
     return {
       companyName: branding.companyName || "Your Company",
@@ -84,11 +100,34 @@ export function SetupPreview({ branding, content, headerFooter }: PreviewProps):
     stableLogoUrl.trim() !== "" &&
     !hasLogoError;
 
+  // The dark theme shows the brand colors' dark variants, as the site does
+  const primaryColor =
+    mode === "dark" ? (darkModeVariant(previewData.primaryColor) ?? previewData.primaryColor) : previewData.primaryColor;
+  const secondaryColor =
+    mode === "dark" ? (darkModeVariant(previewData.secondaryColor) ?? previewData.secondaryColor) : previewData.secondaryColor;
+
+  const themeStyle = {
+    ...getColorThemeVariables(previewData.primaryColor, previewData.secondaryColor, mode),
+    ...getDesignTokenVariables(theme, mode),
+  } as CSSProperties;
+  const fontsUrl = googleFontsUrl([theme?.bodyFont, theme?.headingFont]);
+
   return (
-    <div className="w-full h-full bg-white rounded-lg border border-border shadow-lg overflow-hidden">
+    <div
+      className={cn(
+        "w-full h-full bg-background text-foreground font-sans rounded-lg border border-border shadow-lg overflow-hidden",
+        mode
+      )}
+      style={themeStyle}
+    >
+      {fontsUrl && (
+        <Helmet>
+          <link rel="stylesheet" href={fontsUrl} />
+        </Helmet>
+      )}
       <div className="h-full overflow-y-auto">
         {/* Header Preview */}
-        <header className="border-b border-border bg-white p-4">
+        <header className="border-b border-border bg-background p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 min-w-0 flex-1">
               {hasValidLogo ? (
@@ -112,8 +151,8 @@ export function SetupPreview({ branding, content, headerFooter }: PreviewProps):
                 <div
                   className="h-8 w-8 rounded-lg flex items-center justify-center flex-shrink-0"
                   style={{
-                    backgroundColor: `${previewData.primaryColor}15`,
-                    color: previewData.primaryColor
+                    backgroundColor: `${primaryColor}15`,
+                    color: primaryColor
                   }}
                 >
                   <Zap className="h-4 w-4" />
@@ -126,7 +165,7 @@ export function SetupPreview({ branding, content, headerFooter }: PreviewProps):
             <button
               className="text-xs px-3 py-1 rounded-md"
               style={{
-                backgroundColor: previewData.primaryColor,
+                backgroundColor: primaryColor,
                 color: "white"
               }}
             >
@@ -135,67 +174,87 @@ export function SetupPreview({ branding, content, headerFooter }: PreviewProps):
           </div>
         </header>
 
-        {/* Hero Section Preview */}
-        <section className="p-6 text-center space-y-4" style={{ backgroundColor: `${previewData.primaryColor}10` }}>
-          <h1
-            className="text-2xl font-bold"
-            style={{ color: previewData.primaryColor }}
-          >
-            {previewData.heroTitle}
-          </h1>
-          <p className="text-sm text-muted-foreground line-clamp-3">
-            {previewData.heroDescription}
-          </p>
-          <div className="flex gap-2 justify-center">
-            <button
-              className="text-xs px-4 py-2 rounded-md text-white"
-              style={{ backgroundColor: previewData.primaryColor }}
-            >
-              {previewData.heroCtaText}
-            </button>
-            {previewData.heroSecondaryCtaText && (
-              <button
-                className="text-xs px-4 py-2 rounded-md border"
-                style={{
-                  borderColor: previewData.secondaryColor,
-                  color: previewData.secondaryColor
-                }}
-              >
-                {previewData.heroSecondaryCtaText}
-              </button>
-            )}
-          </div>
-        </section>
-
-        {/* Form Section Preview */}
-        <section className="p-6 space-y-4">
-          <div className="text-center space-y-2">
-            <h2 className="font-semibold text-lg">{previewData.formTitle}</h2>
-            <p className="text-xs text-muted-foreground line-clamp-2">
-              {previewData.formDescription}
-            </p>
-          </div>
-          <div className="space-y-3 border border-border rounded-lg p-4">
-            <div className="space-y-1">
-              <div className="text-xs text-muted-foreground">Name</div>
-              <div className="h-8 bg-muted rounded border"></div>
-            </div>
-            <div className="space-y-1">
-              <div className="text-xs text-muted-foreground">Email</div>
-              <div className="h-8 bg-muted rounded border"></div>
-            </div>
-            <div className="space-y-1">
-              <div className="text-xs text-muted-foreground">Message</div>
-              <div className="h-16 bg-muted rounded border"></div>
-            </div>
-            <button
-              className="w-full text-xs py-2 rounded-md text-white"
-              style={{ backgroundColor: previewData.primaryColor }}
-            >
-              {previewData.formSubmitText}
-            </button>
-          </div>
-        </section>
+        {layout.map((section) => {
+          if (section.hidden) return null;
+          const { type } = section;
+          if (type === "hero") {
+            return (
+              <section key={type} className="p-6 text-center space-y-4" style={{ backgroundColor: `${primaryColor}10` }}>
+                <h1
+                  className="text-2xl font-bold"
+                  style={{ color: primaryColor }}
+                >
+                  {previewData.heroTitle}
+                </h1>
+                <p className="text-sm text-muted-foreground line-clamp-3">
+                  {previewData.heroDescription}
+                </p>
+                <div className="flex gap-2 justify-center">
+                  <button
+                    className="text-xs px-4 py-2 rounded-md text-white"
+                    style={{ backgroundColor: primaryColor }}
+                  >
+                    {previewData.heroCtaText}
+                  </button>
+                  {previewData.heroSecondaryCtaText && (
+                    <button
+                      className="text-xs px-4 py-2 rounded-md border"
+                      style={{
+                        borderColor: secondaryColor,
+                        color: secondaryColor
+                      }}
+                    >
+                      {previewData.heroSecondaryCtaText}
+                    </button>
+                  )}
+                </div>
+              </section>
+            );
+          }
+          if (type === "demo-form") {
+            return (
+              <section key={type} className="p-6 space-y-4">
+                <div className="text-center space-y-2">
+                  <h2 className="font-semibold text-lg">{previewData.formTitle}</h2>
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {previewData.formDescription}
+                  </p>
+                </div>
+                <div className="space-y-3 border border-border rounded-lg p-4">
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">Name</div>
+                    <div className="h-8 bg-muted rounded border"></div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">Email</div>
+                    <div className="h-8 bg-muted rounded border"></div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">Message</div>
+                    <div className="h-16 bg-muted rounded border"></div>
+                  </div>
+                  <button
+                    className="w-full text-xs py-2 rounded-md text-white"
+                    style={{ backgroundColor: primaryColor }}
+                  >
+                    {previewData.formSubmitText}
+                  </button>
+                </div>
+              </section>
+            );
+          }
+          // Other sections are only outlined
+          return (
+            <section key={layoutSectionId(section)} className="p-6 space-y-3 border-t border-border/50">
+              <h2 className="font-semibold text-sm text-center">{layoutSectionLabel(section)}</h2>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="h-10 bg-muted rounded" />
+                <div className="h-10 bg-muted rounded" />
+                <div className="h-10 bg-muted rounded" />
+              </div>
+            </section>
+          );
+        })}
 
         {/* Footer Preview */}
         <footer className="border-t border-border p-4 bg-muted/30">
@@ -0,0 +1,38 @@
+/**
+ * embed.js entry point
+ *
+ * Mounts the placeholders once the page has parsed and exposes
+ * `window.SmartSheetConnect.mount()` for pages that add placeholders later
+ * (single-page apps, modals).
+ *
+ * @author Lindsey Stead
+ * @module client/embed
+ */
+
+import { mountEmbeds } from "./loader";
+
+declare global {
+  interface Window {
+    SmartSheetConnect?: {
+      /** Mounts placeholders added since the last call */
+      mount: () => HTMLIFrameElement[];
+    };
+  }
+}
+
+// Captured now: document.currentScript is only set while the script first runs
+const script = document.currentScript as HTMLScriptElement | null;
+const scriptOrigin = script?.src ? new URL(script.src).origin : window.location.origin;
+
+// Including the script twice must not mount every form twice
+if (!window.SmartSheetConnect) {
+  window.SmartSheetConnect = {
+    mount: () => mountEmbeds(scriptOrigin),
+  };
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", () => mountEmbeds(scriptOrigin));
+  } else {
+    mountEmbeds(scriptOrigin);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * <lead-capture-form> Tests
+ *
+ * Covers rendering into the shadow root, attribute overrides and the
+ * scoped theme variables.
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
+import { defineLeadCaptureForm, LEAD_CAPTURE_FORM_TAG } from "./leadCaptureForm";
+
+vi.mock("@/hooks/useAppConfig", () => ({
+  useAppConfig: vi.fn(() => ({
+    data: {
+      branding: { companyName: "Acme", primaryColor: "#2563eb" },
+      content: {
+        form: {
+          title: "Get in Touch",
+          description: "Configured description",
+          submitText: "Send Message",
+        },
+      },
+    },
+    isLoading: false,
+  })),
+}));
+
+vi.mock("@/lib/queryClient", async () => {
+  const { QueryClient } =
+    await vi.importActual<typeof import("@tanstack/react-query")>("@tanstack/react-query");
+  return {
+    queryClient: new QueryClient(),
+    apiRequest: vi.fn(),
+    getCsrfToken: vi.fn(() => Promise.resolve("mock-csrf-token")),
+  };
+});
+
+function mount(attributes: Record<string, string> = {}): HTMLElement {
+  const element = document.createElement(LEAD_CAPTURE_FORM_TAG);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+  document.body.appendChild(element);
+  return element;
+}
+
+beforeAll(() => {
+  defineLeadCaptureForm();
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("<lead-capture-form>", () => {
+  it("renders the form inside its shadow root", async () => {
+    const element = mount();
+    const shadow = element.shadowRoot!;
+
+    await vi.waitFor(() => expect(shadow.querySelector("h2")?.textContent).toBe("Get in Touch"));
+    expect(shadow.querySelector("style")).not.toBeNull();
+    expect(shadow.querySelector('[data-testid="input-email"]')).not.toBeNull();
+    expect(document.querySelector('[data-testid="input-email"]')).toBeNull();
+  });
+
+  it("lets attributes override the app config", async () => {
+    const element = mount({
+      "form-title": "Request a Quote",
+      description: "",
+      "submit-text": "Get my quote",
+    });
+    const shadow = element.shadowRoot!;
+
+    await vi.waitFor(() => expect(shadow.querySelector("h2")?.textContent).toBe("Request a Quote"));
+    expect(shadow.textContent).not.toContain("Configured description");
+    expect(shadow.querySelector('button[type="submit"]')?.textContent).toBe("Get my quote");
+
+    element.setAttribute("form-title", "Talk to Sales");
+    await vi.waitFor(() => expect(shadow.querySelector("h2")?.textContent).toBe("Talk to Sales"));
+  });
+
+  it("scopes theme variables to the element", async () => {
+    const element = mount({ "primary-color": "#ffffff" });
+    const shadow = element.shadowRoot!;
+
+    await vi.waitFor(() => expect(shadow.querySelector("h2")).not.toBeNull());
+    const wrapper = shadow.querySelector<HTMLElement>("[style]")!;
+    expect(wrapper.style.getPropertyValue("--primary")).toBe("0 0% 100%");
+    expect(wrapper.style.getPropertyValue("--primary-foreground")).toBe("222 47% 11%");
+    expect(document.documentElement.style.getPropertyValue("--primary")).toBe("");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * <lead-capture-form> Custom Element
+ *
+ * Mounts EmbeddableForm inside a shadow root with its own copy of the
+ * stylesheet, so the form can sit directly on a customer's page without an
+ * iframe: host page CSS doesn't reach the form, and the form's Tailwind
+ * classes and theme variables don't reach the host page.
+ *
+ *   <lead-capture-form api-url="https://forms.example.com" primary-color="#7c3aed"></lead-capture-form>
+ *   <script src="https://forms.example.com/lead-capture-form.js" async></script>
+ *
+ * Attributes (each overrides the app config loaded from `api-url`):
+ * - `api-url` — base URL of the app; the page's own origin when omitted
+ * - `form-title` — heading (not `title`, which browsers show as a tooltip)
+ * - `description` — text under the heading
+ * - `submit-text` — submit button label
+ * - `primary-color`, `secondary-color` — hex brand colors
+ *
+ * The host page's origin must be listed in the server's ALLOWED_ORIGINS.
+ * Sizes are in rem, so they still follow the host page's root font size.
+ *
+ * @author Lindsey Stead
+ * @module client/embed/leadCaptureForm
+ */
+
+import { useState, type CSSProperties } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { EmbeddableForm } from "@/components/EmbeddableForm";
+import { useAppConfig } from "@/hooks/useAppConfig";
+import { PortalContainerContext } from "@/hooks/usePortalContainer";
+import { queryClient } from "@/lib/queryClient";
+import { captureAttribution } from "@/lib/attribution";
+import { getColorThemeVariables, getDesignTokenVariables } from "@/lib/colorTheme";
+import stylesheet from "./leadCaptureForm.css?inline";
+
+export const LEAD_CAPTURE_FORM_TAG = "lead-capture-form";
+
+const OBSERVED_ATTRIBUTES = [
+  "api-url",
+  "form-title",
+  "description",
+  "submit-text",
+  "primary-color",
+  "secondary-color",
+] as const;
+
+type LeadCaptureFormAttribute = (typeof OBSERVED_ATTRIBUTES)[number];
+
+// Theme variables are declared on :root in index.css; inside the shadow root
+// they belong on the host element.
+const shadowStylesheet = stylesheet.replace(/:root\b/g, ":host");
+
+let attributionCaptured = false;
+
+interface LeadCaptureFormProps {
+  apiUrl?: string;
+  title?: string;
+  description?: string;
+  submitText?: string;
+  primaryColor?: string;
+  secondaryColor?: string;
+}
+
+function LeadCaptureForm({
+  apiUrl,
+  title,
+  description,
+  submitText,
+  primaryColor,
+  secondaryColor,
+}: LeadCaptureFormProps): JSX.Element {
+  const { data: config, isLoading } = useAppConfig(apiUrl);
+  const [portalContainer, setPortalContainer] = useState<HTMLDivElement | null>(null);
+
+  const themeStyle = {
+    ...getColorThemeVariables(
+      primaryColor || config?.branding?.primaryColor,
+      secondaryColor || config?.branding?.secondaryColor
+    ),
+    ...getDesignTokenVariables(config?.theme),
+  } as CSSProperties;
+
+  return (
+    <div style={themeStyle} className="font-sans text-foreground">
+      {isLoading ? (
+        <p className="p-6 text-sm text-muted-foreground">Loading form...</p>
+      ) : (
+        <PortalContainerContext.Provider value={portalContainer}>
+          <EmbeddableForm
+            apiUrl={apiUrl}
+            title={title || config?.content?.form?.title || undefined}
+            description={description ?? config?.content?.form?.description}
+            submitText={submitText || config?.content?.form?.submitText || undefined}
+            fields={config?.content?.form?.fields}
+          />
+        </PortalContainerContext.Provider>
+      )}
+      {/* Select menus render here so they pick up the shadow stylesheet and theme */}
+      <div ref={setPortalContainer} />
+    </div>
+  );
+}
+
+export class LeadCaptureFormElement extends HTMLElement {
+  static observedAttributes = [...OBSERVED_ATTRIBUTES];
+
+  private root: Root | null = null;
+
+  connectedCallback(): void {
+    if (!attributionCaptured) {
+      // The element runs on the host page, so its URL is the landing page
+      captureAttribution();
+      attributionCaptured = true;
+    }
+
+    if (!this.root) {
+      const shadow = this.shadowRoot ?? this.attachShadow({ mode: "open" });
+      const style = document.createElement("style");
+      style.textContent = shadowStylesheet;
+      const mountPoint = document.createElement("div");
+      shadow.replaceChildren(style, mountPoint);
+      this.root = createRoot(mountPoint);
+    }
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  private attribute(name: LeadCaptureFormAttribute): string | undefined {
+    return this.getAttribute(name) ?? undefined;
+  }
+
+  private render(): void {
+    if (!this.root) return;
+
+    const apiUrl = this.attribute("api-url")?.replace(/\/+$/, "");
+    this.root.render(
+      <QueryClientProvider client={queryClient}>
+        <LeadCaptureForm
+          apiUrl={apiUrl || undefined}
+          title={this.attribute("form-title")}
+          description={this.attribute("description")}
+          submitText={this.attribute("submit-text")}
+          primaryColor={this.attribute("primary-color")}
+          secondaryColor={this.attribute("secondary-color")}
+        />
+      </QueryClientProvider>
+    );
+  }
+}
+
+/**
+ * Registers <lead-capture-form>. Safe to call more than once.
+ */
+export function defineLeadCaptureForm(): void {
+  if (!customElements.get(LEAD_CAPTURE_FORM_TAG)) {
+    customElements.define(LEAD_CAPTURE_FORM_TAG, LeadCaptureFormElement);
+  }
+}
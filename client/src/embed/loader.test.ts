@@ -0,0 +1,122 @@
+/**
+ * Embed Loader Tests
+ *
+ * Covers iframe injection, resizing from height messages and the DOM
+ * events re-dispatched for host pages.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { buildEmbedUrl, mountEmbeds } from "./loader";
+
+const BASE_URL = "https://forms.example.com";
+
+function post(iframe: HTMLIFrameElement, data: unknown, origin: string = BASE_URL): void {
+  window.dispatchEvent(new MessageEvent("message", { data, origin, source: iframe.contentWindow }));
+}
+
+function frameId(iframe: HTMLIFrameElement): string {
+  return new URL(iframe.src).searchParams.get("frameId")!;
+}
+
+beforeEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("buildEmbedUrl", () => {
+  it("passes the frame id and host page to /embed", () => {
+    const url = buildEmbedUrl(
+      BASE_URL,
+      "ssc-1",
+      {},
+      "https://customer.com/contact?utm_source=bing",
+      "https://www.bing.com/"
+    );
+
+    expect(url.origin + url.pathname).toBe("https://forms.example.com/embed");
+    expect(url.searchParams.get("frameId")).toBe("ssc-1");
+    expect(url.searchParams.get("pageUrl")).toBe("https://customer.com/contact?utm_source=bing");
+    expect(url.searchParams.get("pageReferrer")).toBe("https://www.bing.com/");
+  });
+});
+
+describe("mountEmbeds", () => {
+  it("injects one iframe per placeholder and skips mounted ones", () => {
+    document.body.innerHTML = `
+      <div data-smartsheetconnect></div>
+      <div data-smartsheetconnect="https://other.example.com" data-height="400" data-title="Quote"></div>
+    `;
+
+    const [first, second] = mountEmbeds(BASE_URL);
+
+    expect(new URL(first.src).origin).toBe(BASE_URL);
+    expect(first.style.height).toBe("640px");
+    expect(new URL(second.src).origin).toBe("https://other.example.com");
+    expect(second.style.height).toBe("400px");
+    expect(second.title).toBe("Quote");
+    expect(mountEmbeds(BASE_URL)).toHaveLength(0);
+  });
+
+  it("forwards the token and appearance options from data attributes", () => {
+    document.body.innerHTML = `
+      <div data-smartsheetconnect data-token="abc.def" data-primary-color="7c3aed" data-compact></div>
+    `;
+
+    const [iframe] = mountEmbeds(BASE_URL);
+    const params = new URL(iframe.src).searchParams;
+
+    expect(params.get("token")).toBe("abc.def");
+    expect(params.get("primaryColor")).toBe("7c3aed");
+    expect(params.get("compact")).toBe("");
+    expect(params.has("theme")).toBe(false);
+  });
+
+  it("resizes the iframe from height messages", () => {
+    document.body.innerHTML = `<div data-smartsheetconnect></div>`;
+    const [iframe] = mountEmbeds(BASE_URL);
+
+    post(iframe, {
+      source: "smartsheetconnect",
+      frameId: frameId(iframe),
+      type: "resize",
+      height: 512.4,
+    });
+
+    expect(iframe.style.height).toBe("513px");
+  });
+
+  it("re-dispatches form events on the placeholder", () => {
+    document.body.innerHTML = `<div data-smartsheetconnect></div>`;
+    const [iframe] = mountEmbeds(BASE_URL);
+    const listener = vi.fn();
+    document.addEventListener("smartsheetconnect:submit-success", listener);
+
+    const message = {
+      source: "smartsheetconnect",
+      frameId: frameId(iframe),
+      type: "submit-success",
+      isDuplicate: false,
+      score: 72,
+    };
+    post(iframe, message);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual(message);
+    document.removeEventListener("smartsheetconnect:submit-success", listener);
+  });
+
+  it("ignores messages from other origins or unknown shapes", () => {
+    document.body.innerHTML = `<div data-smartsheetconnect></div>`;
+    const [iframe] = mountEmbeds(BASE_URL);
+    const id = frameId(iframe);
+
+    post(
+      iframe,
+      { source: "smartsheetconnect", frameId: id, type: "resize", height: 10 },
+      "https://evil.example"
+    );
+    post(iframe, { source: "smartsheetconnect", frameId: id, type: "resize", height: "10" });
+    post(iframe, { source: "other", frameId: id, type: "resize", height: 10 });
+
+    expect(iframe.style.height).toBe("640px");
+  });
+});
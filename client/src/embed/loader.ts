@@ -0,0 +1,176 @@
+/**
+ * Embed Loader
+ *
+ * Turns placeholder elements on a customer's page into /embed iframes:
+ *
+ *   <div data-smartsheetconnect></div>
+ *   <script src="https://forms.example.com/embed.js" async></script>
+ *
+ * The iframe follows the height the form reports, so it never shows a
+ * scrollbar, and the form's ready / submit-success / submit-error messages
+ * are re-dispatched on the placeholder as bubbling `smartsheetconnect:<type>`
+ * DOM events for conversion tracking.
+ *
+ * Placeholder attributes:
+ * - `data-smartsheetconnect` — base URL of the app; defaults to where embed.js was loaded from
+ * - `data-height` — height in pixels before the form reports its own (default 640)
+ * - `data-title` — accessible title of the iframe (default "Contact form")
+ * - `data-token` — signed appearance options from POST /api/v1/embed/token
+ * - `data-primary-color`, `data-radius`, `data-font`, `data-theme`, `data-compact`,
+ *   `data-hide-description`, `data-success-message` — appearance options
+ *   (see shared/embedOptions.ts), passed to /embed as query parameters
+ *
+ * This file is bundled on its own (vite.embed.config.ts) and runs on
+ * third-party pages, so it must not import React or anything large.
+ *
+ * @author Lindsey Stead
+ * @module client/embed/loader
+ */
+
+import {
+  EMBED_ATTRIBUTE,
+  EMBED_DOM_EVENT_PREFIX,
+  EMBED_FRAME_ID_PARAM,
+  EMBED_OPTION_KEYS,
+  EMBED_TOKEN_PARAM,
+  isEmbedMessage,
+  type EmbedReadyMessage,
+  type EmbedSubmitErrorMessage,
+  type EmbedSubmitSuccessMessage,
+} from "@shared/embed";
+import { EMBED_PAGE_URL_PARAM, EMBED_REFERRER_PARAM } from "@shared/attribution";
+
+const MOUNTED_ATTRIBUTE = `${EMBED_ATTRIBUTE}-mounted`;
+const DEFAULT_HEIGHT = 640;
+const DEFAULT_TITLE = "Contact form";
+
+/** Detail of the DOM events dispatched on the placeholder, by event name. */
+export interface EmbedEventMap {
+  "smartsheetconnect:ready": CustomEvent<EmbedReadyMessage>;
+  "smartsheetconnect:submit-success": CustomEvent<EmbedSubmitSuccessMessage>;
+  "smartsheetconnect:submit-error": CustomEvent<EmbedSubmitErrorMessage>;
+}
+
+interface MountedFrame {
+  element: HTMLElement;
+  iframe: HTMLIFrameElement;
+  origin: string;
+}
+
+const frames = new Map<string, MountedFrame>();
+let frameCount = 0;
+let listening = false;
+
+/**
+ * Builds the iframe URL for a placeholder.
+ *
+ * @param baseUrl - App URL the iframe points at
+ * @param frameId - Id echoed back in every message from this iframe
+ * @param options - Token and appearance options, keyed by query parameter
+ * @param pageUrl - Host page URL, used for lead attribution
+ * @param referrer - Host page referrer, used for lead attribution
+ */
+export function buildEmbedUrl(
+  baseUrl: string,
+  frameId: string,
+  options: Record<string, string | undefined> = {},
+  pageUrl: string = window.location.href,
+  referrer: string = document.referrer
+): URL {
+  const url = new URL("/embed", baseUrl);
+  for (const [name, value] of Object.entries(options)) {
+    if (value !== undefined) url.searchParams.set(name, value);
+  }
+  url.searchParams.set(EMBED_FRAME_ID_PARAM, frameId);
+  url.searchParams.set(EMBED_PAGE_URL_PARAM, pageUrl);
+  if (referrer) url.searchParams.set(EMBED_REFERRER_PARAM, referrer);
+  return url;
+}
+
+function handleMessage(event: MessageEvent): void {
+  if (!isEmbedMessage(event.data)) return;
+
+  const frame = frames.get(event.data.frameId);
+  if (!frame || event.source !== frame.iframe.contentWindow || event.origin !== frame.origin) {
+    return;
+  }
+
+  const message = event.data;
+  if (message.type === "resize") {
+    frame.iframe.style.height = `${Math.max(0, Math.ceil(message.height))}px`;
+    return;
+  }
+
+  frame.element.dispatchEvent(
+    new CustomEvent(`${EMBED_DOM_EVENT_PREFIX}${message.type}`, { bubbles: true, detail: message })
+  );
+}
+
+/**
+ * Reads the token and appearance options from the placeholder's data
+ * attributes. /embed validates them.
+ */
+function readOptions(element: HTMLElement): Record<string, string | undefined> {
+  const options: Record<string, string | undefined> = {
+    [EMBED_TOKEN_PARAM]: element.dataset.token,
+  };
+  for (const key of EMBED_OPTION_KEYS) {
+    // dataset maps data-primary-color to primaryColor
+    options[key] = element.dataset[key];
+  }
+  return options;
+}
+
+function mountElement(element: HTMLElement, defaultBaseUrl: string): HTMLIFrameElement | null {
+  let url: URL;
+  const frameId = `ssc-${++frameCount}`;
+  try {
+    url = buildEmbedUrl(
+      element.getAttribute(EMBED_ATTRIBUTE) || defaultBaseUrl,
+      frameId,
+      readOptions(element)
+    );
+  } catch {
+    console.error(`SmartSheetConnect: invalid ${EMBED_ATTRIBUTE} URL`, element);
+    return null;
+  }
+
+  const height = Number(element.getAttribute("data-height"));
+  const iframe = document.createElement("iframe");
+  iframe.src = url.toString();
+  iframe.title = element.getAttribute("data-title") || DEFAULT_TITLE;
+  iframe.style.cssText = "display:block;width:100%;border:0;overflow:hidden;";
+  iframe.style.height = `${height > 0 ? height : DEFAULT_HEIGHT}px`;
+  iframe.setAttribute("scrolling", "no");
+
+  frames.set(frameId, { element, iframe, origin: url.origin });
+  element.setAttribute(MOUNTED_ATTRIBUTE, "");
+  element.appendChild(iframe);
+  return iframe;
+}
+
+/**
+ * Mounts an iframe into every placeholder that doesn't have one yet.
+ * Safe to call again after adding placeholders to the page.
+ *
+ * @param defaultBaseUrl - App URL for placeholders without their own
+ * @param root - Where to look for placeholders
+ * @returns The iframes created by this call
+ */
+export function mountEmbeds(
+  defaultBaseUrl: string = window.location.origin,
+  root: ParentNode = document
+): HTMLIFrameElement[] {
+  if (!listening) {
+    window.addEventListener("message", handleMessage);
+    listening = true;
+  }
+
+  const mounted: HTMLIFrameElement[] = [];
+  const selector = `[${EMBED_ATTRIBUTE}]:not([${MOUNTED_ATTRIBUTE}])`;
+  root.querySelectorAll<HTMLElement>(selector).forEach((element) => {
+    const iframe = mountElement(element, defaultBaseUrl);
+    if (iframe) mounted.push(iframe);
+  });
+  return mounted;
+}
@@ -0,0 +1,12 @@
+/**
+ * lead-capture-form.js entry point
+ *
+ * Registers the <lead-capture-form> custom element.
+ *
+ * @author Lindsey Stead
+ * @module client/embed/webComponent
+ */
+
+import { defineLeadCaptureForm } from "./leadCaptureForm";
+
+defineLeadCaptureForm();
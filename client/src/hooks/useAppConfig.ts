@@ -2,99 +2,18 @@
  * useAppConfig Hook
  *
  * Fetches application configuration (branding, content) from the API.
+ * On a preview link (`?preview=<token>`) the unpublished draft is fetched
+ * instead; see shared/configPublishing.ts.
  *
  * @author Lindsey Stead
  * @module client/hooks/useAppConfig
  */
 
 import { useQuery } from "@tanstack/react-query";
+import { parseAppConfig, type AppConfig } from "@shared/appConfig";
+import { CONFIG_PREVIEW_PARAM, getConfigPreviewToken } from "@shared/configPublishing";
 
-export interface AppConfig {
-  branding: {
-    companyName: string;
-    logo?: string;
-    favicon?: string;
-    primaryColor?: string;
-    secondaryColor?: string;
-    siteUrl?: string;
-  };
-  content: {
-    hero: {
-      title: string;
-      description: string;
-      ctaText: string;
-      secondaryCtaText?: string;
-      tertiaryCtaText?: string;
-      benefits?: Array<{
-        text: string;
-      }>;
-    };
-    form: {
-      title: string;
-      description: string;
-      submitText: string;
-    };
-    features?: Array<{
-      title: string;
-      description: string;
-      icon?: string;
-    }>;
-  };
-  header?: {
-    navigation?: Array<{
-      label: string;
-      sectionId?: string;
-      href?: string;
-    }>;
-    ctaText?: string;
-  };
-  footer?: {
-    description?: string;
-    socialLinks?: {
-      github?: string;
-      twitter?: string;
-      linkedin?: string;
-      facebook?: string;
-      instagram?: string;
-      youtube?: string;
-      tiktok?: string;
-      pinterest?: string;
-      snapchat?: string;
-      discord?: string;
-      [key: string]: string | undefined;
-    };
-    quickLinks?: Array<{
-      label: string;
-      href?: string;
-      sectionId?: string;
-    }>;
-    resources?: Array<{
-      label: string;
-      href: string;
-    }>;
-    copyright?: string;
-    privacyPolicyUrl?: string;
-    termsOfServiceUrl?: string;
-  };
-  seo?: {
-    pageTitle?: string;
-    metaDescription?: string;
-    ogImage?: string;
-    ogTitle?: string;
-    ogDescription?: string;
-    twitterCard?: string;
-    twitterImage?: string;
-    canonicalUrl?: string;
-    keywords?: string;
-  };
-  analytics?: {
-    googleAnalyticsId?: string;
-    googleTagManagerId?: string;
-    facebookPixelId?: string;
-    linkedinInsightTag?: string;
-    customAnalyticsScript?: string;
-  };
-}
+export type { AppConfig };
 
 /**
  * Default configuration fallback when API fails.
@@ -141,15 +60,20 @@ const DEFAULT_CONFIG: AppConfig = {
  * - Fallback to default config if API fails
  * - Proper error handling and logging
  * - Request timeout protection
+ * - Draft configuration on preview links (not for embeds on other sites)
  *
  * @param {string} baseUrl - Optional base URL for API (for embedding)
  * @returns {Object} Configuration data and loading state
  */
 export function useAppConfig(baseUrl?: string) {
-  const url = baseUrl ? `${baseUrl}/api/v1/config` : "/api/v1/config";
+  const publishedUrl = baseUrl ? `${baseUrl}/api/v1/config` : "/api/v1/config";
+  const previewToken = baseUrl ? null : getConfigPreviewToken(window.location.search);
+  const url = previewToken
+    ? `${publishedUrl}?${CONFIG_PREVIEW_PARAM}=${encodeURIComponent(previewToken)}`
+    : publishedUrl;
 
   return useQuery<AppConfig>({
-    queryKey: ["app-config", baseUrl],
+    queryKey: ["app-config", baseUrl, previewToken],
     queryFn: async ({ signal }) => {
       // Use the signal from React Query for cancellation
       // Create AbortController for timeout that respects React Query's signal
@@ -165,13 +89,24 @@ export function useAppConfig(baseUrl?: string) {
       }
 
       try {
-        const res = await fetch(url, {
+        let res = await fetch(url, {
           signal: controller.signal,
           headers: {
             'Accept': 'application/json',
           },
         });
 
+        // An expired or tampered preview link shows the published site instead
+        if (previewToken && res.status === 400) {
+          console.warn('Preview link is invalid or has expired, using the published config');
+          res = await fetch(publishedUrl, {
+            signal: controller.signal,
+            headers: {
+              'Accept': 'application/json',
+            },
+          });
+        }
+
         // Clear timeout on successful fetch
         if (timeoutId) {
           clearTimeout(timeoutId);
@@ -195,19 +130,13 @@ export function useAppConfig(baseUrl?: string) {
 
         const data = await res.json();
 
-        // Validate response structure
-        if (!data || typeof data !== 'object') {
-          console.warn('Invalid config response, using default config');
-          return DEFAULT_CONFIG;
-        }
-
-        // Ensure required fields exist
-        if (!data.branding || !data.content) {
-          console.warn('Config missing required fields, using default config');
-          return { ...DEFAULT_CONFIG, ...data };
+        // Validate each section; one that doesn't parse falls back to its default
+        const { config, invalid } = parseAppConfig(data, DEFAULT_CONFIG);
+        if (invalid.length > 0) {
+          console.warn(`Invalid config sections (${invalid.join(', ')}), using defaults for them`);
         }
 
-        return data as AppConfig;
+        return config;
       } catch (error) {
         // Clear timeout in case of error
         if (timeoutId) {
@@ -0,0 +1,55 @@
+/**
+ * Color mode hooks.
+ *
+ * Resolve the light or dark mode to render from the theme's mode, the
+ * system color scheme and the visitor's stored choice (see lib/colorMode),
+ * re-rendering when any of them changes.
+ *
+ * @author Lindsey Stead
+ * @module client/hooks/useColorMode
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { ColorModeSetting } from "@shared/theme";
+import {
+  getStoredColorMode,
+  resolveColorMode,
+  storeColorMode,
+  subscribeStoredColorMode,
+  subscribeSystemColorScheme,
+  systemPrefersDark,
+} from "@/lib/colorMode";
+import type { ColorMode } from "@/lib/colorTheme";
+
+/**
+ * Whether the visitor's system asks for a dark color scheme.
+ */
+export function useSystemPrefersDark(): boolean {
+  return useSyncExternalStore(subscribeSystemColorScheme, systemPrefersDark, () => false);
+}
+
+/**
+ * The mode the public site renders in, and a setter that remembers the
+ * visitor's choice.
+ *
+ * @param setting - The theme's mode; light when left out
+ */
+export function useColorMode(setting: ColorModeSetting | undefined): {
+  mode: ColorMode;
+  setMode: (mode: ColorMode) => void;
+} {
+  const prefersDark = useSystemPrefersDark();
+  const stored = useSyncExternalStore(subscribeStoredColorMode, getStoredColorMode, () => null);
+  const mode = resolveColorMode(setting, prefersDark, stored);
+
+  // Picking what the theme would show anyway drops the choice, so the site
+  // follows later changes to the theme (or the system, for "auto")
+  const setMode = useCallback(
+    (next: ColorMode) => {
+      storeColorMode(next === resolveColorMode(setting, systemPrefersDark()) ? null : next);
+    },
+    [setting]
+  );
+
+  return { mode, setMode };
+}
@@ -0,0 +1,62 @@
+/**
+ * useEmbedOptions Hook
+ *
+ * Reads the appearance options of this /embed placement from the query
+ * string and, when a signed `token` is present, from the server. Signed
+ * options win over query parameters. See shared/embedOptions.ts.
+ *
+ * @author Lindsey Stead
+ * @module client/hooks/useEmbedOptions
+ */
+
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { EMBED_TOKEN_PARAM } from "@shared/embed";
+import { parseEmbedOptionsQuery, type EmbedOptions } from "@shared/embedOptions";
+import { fetchEmbedOptions } from "@/lib/apiClient";
+
+export function useEmbedOptions(search: string = window.location.search): {
+  options: EmbedOptions;
+  isLoading: boolean;
+} {
+  const {
+    options: queryOptions,
+    invalid,
+    token,
+  } = useMemo(() => {
+    const params = new URLSearchParams(search);
+    return { ...parseEmbedOptionsQuery(params), token: params.get(EMBED_TOKEN_PARAM) };
+  }, [search]);
+
+  useEffect(() => {
+    if (invalid.length > 0) {
+      console.warn(`Ignoring invalid embed options: ${invalid.join(", ")}`);
+    }
+  }, [invalid]);
+
+  const {
+    data: signedOptions,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ["embed-options", token],
+    queryFn: async () => (await fetchEmbedOptions(token ?? "")).options,
+    enabled: Boolean(token),
+    // A token always decodes to the same options
+    staleTime: Infinity,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    if (isError) {
+      console.warn("Embed token could not be verified; using query parameters only");
+    }
+  }, [isError]);
+
+  const options = useMemo(
+    () => ({ ...queryOptions, ...signedOptions }),
+    [queryOptions, signedOptions]
+  );
+
+  return { options, isLoading: Boolean(token) && isLoading };
+}
@@ -0,0 +1,22 @@
+/**
+ * usePortalContainer Hook
+ *
+ * Popups (select menus) render through portals, by default into
+ * document.body. Inside <lead-capture-form> that would place them outside
+ * the shadow root and its stylesheet, so the element provides a container
+ * inside the shadow root instead.
+ *
+ * @author Lindsey Stead
+ * @module client/hooks/usePortalContainer
+ */
+
+import { createContext, useContext } from "react";
+
+export const PortalContainerContext = createContext<HTMLElement | null>(null);
+
+/**
+ * Returns the element portals should render into, or undefined for document.body.
+ */
+export function usePortalContainer(): HTMLElement | undefined {
+  return useContext(PortalContainerContext) ?? undefined;
+}
@@ -0,0 +1,135 @@
+/**
+ * API Client Tests
+ *
+ * Covers CSRF token reuse and retry, and the error codes thrown for server
+ * errors, HTML pages and failed connections.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  clearCsrfToken,
+  fetchSetupStatus,
+  isApiErrorCode,
+  saveCredentials,
+  testWebhook,
+  uploadLogo,
+} from "./apiClient";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function html(status = 200): Response {
+  return new Response("<!DOCTYPE html><html></html>", {
+    status,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  clearCsrfToken();
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function headersOf(call: number): Record<string, string> {
+  return (fetchMock.mock.calls[call][1]?.headers ?? {}) as Record<string, string>;
+}
+
+describe("apiClient", () => {
+  it("fetches the CSRF token once and reuses it", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ token: "token-1" }))
+      .mockResolvedValueOnce(json({ valid: true }))
+      .mockResolvedValueOnce(json({ valid: false, error: "Webhook URL is required" }));
+
+    await expect(testWebhook({ webhookUrl: "https://hooks.example.com/a" })).resolves.toEqual({
+      valid: true,
+    });
+    await testWebhook({ webhookUrl: "" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][0]).toBe("/api/v1/csrf-token");
+    expect(headersOf(1)["X-CSRF-Token"]).toBe("token-1");
+    expect(headersOf(2)["X-CSRF-Token"]).toBe("token-1");
+  });
+
+  it("fetches a new token and retries once when the server rejects it", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ token: "expired" }))
+      .mockResolvedValueOnce(
+        json({ success: false, code: "CSRF_INVALID", message: "Invalid CSRF token" }, 403)
+      )
+      .mockResolvedValueOnce(json({ token: "fresh" }))
+      .mockResolvedValueOnce(json({ success: true, message: "Credentials saved", status: {} }));
+
+    await expect(saveCredentials({ NOTIFICATION_EMAIL: "a@b.com" })).resolves.toMatchObject({
+      success: true,
+    });
+    expect(headersOf(3)["X-CSRF-Token"]).toBe("fresh");
+  });
+
+  it("keeps the server's code and details", async () => {
+    fetchMock.mockResolvedValueOnce(json({ token: "t" })).mockResolvedValueOnce(
+      json(
+        {
+          success: false,
+          code: "MISSING_FIELDS",
+          message: "Missing required fields: Notification Email",
+          details: { missing: ["Notification Email"] },
+        },
+        400
+      )
+    );
+
+    const error = await saveCredentials({}).catch((e: unknown) => e);
+    expect(isApiErrorCode(error, "MISSING_FIELDS")).toBe(true);
+    expect(error).toMatchObject({ status: 400, details: { missing: ["Notification Email"] } });
+  });
+
+  it("reports BACKEND_UNAVAILABLE when the frontend host answers with HTML", async () => {
+    fetchMock.mockResolvedValueOnce(html());
+    await expect(fetchSetupStatus()).rejects.toMatchObject({ code: "BACKEND_UNAVAILABLE" });
+
+    fetchMock.mockResolvedValueOnce(html(404));
+    await expect(uploadLogo(new File(["x"], "logo.png"))).rejects.toMatchObject({
+      code: "BACKEND_UNAVAILABLE",
+    });
+  });
+
+  it("reports NETWORK_ERROR when the request fails", async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    await expect(fetchSetupStatus()).rejects.toMatchObject({ code: "NETWORK_ERROR" });
+  });
+
+  it("reports RATE_LIMITED for a 429 without a JSON body", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("Too many requests", { status: 429 }));
+    await expect(fetchSetupStatus()).rejects.toMatchObject({ code: "RATE_LIMITED", status: 429 });
+  });
+
+  it("sends logos as multipart form data", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ token: "t" }))
+      .mockResolvedValueOnce(json({ success: true, url: "/uploads/logo-1.png" }));
+
+    await expect(
+      uploadLogo(new File(["x"], "logo.png", { type: "image/png" }), { companyName: "Acme" })
+    ).resolves.toEqual({
+      success: true,
+      url: "/uploads/logo-1.png",
+    });
+    const init = fetchMock.mock.calls[1][1];
+    expect(init?.body).toBeInstanceOf(FormData);
+    expect((init?.body as FormData).get("companyName")).toBe("Acme");
+    expect(headersOf(1)["Content-Type"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * API Client
+ *
+ * Typed functions for the setup wizard and embed endpoints, built on
+ * apiRequest and getCsrfToken. Request and response types come from
+ * shared/api.ts and shared/embedOptions.ts.
+ *
+ * Every failure is thrown as an ApiError with a `code`: the server's own
+ * (VALIDATION_ERROR, MISSING_FIELDS, RATE_LIMITED, ...) or one of
+ * CLIENT_ERROR_CODES, so callers branch on codes instead of message text.
+ *
+ * State-changing requests carry a CSRF token that is fetched once and
+ * reused. When the server rejects it (403 CSRF_INVALID, e.g. after the
+ * cookie expired) a fresh token is fetched and the request is retried once.
+ *
+ * Setup, preview and embed-token endpoints fail with 401 UNAUTHORIZED until
+ * the owner signs in with signInToSetup, which sets a session cookie.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/apiClient
+ */
+
+import type {
+  ConfigPreviewTokenResponse,
+  ConfigRevisionResponse,
+  ConfigRevisionsResponse,
+  CredentialsPayload,
+  DeleteSetupDraftResponse,
+  ExportConfigResponse,
+  ImportConfigResponse,
+  PublishConfigResponse,
+  ResetCredentialsResponse,
+  RestoreConfigRevisionResponse,
+  SaveBrandingResponse,
+  SaveCredentialsResponse,
+  SaveSetupDraftResponse,
+  SetupDraftResponse,
+  SetupSessionResponse,
+  TestWebhookRequest,
+  UnpublishedChangesResponse,
+  UploadLogoFields,
+  UploadLogoResponse,
+  ValidationResult,
+} from "@shared/api";
+import type { ApiErrorCode, SetupStatus } from "@shared/schema";
+import { EMBED_TOKEN_PARAM } from "@shared/embed";
+import type { EmbedOptions, EmbedOptionsResponse, EmbedTokenResponse } from "@shared/embedOptions";
+import type { ConfigImportRequest } from "@shared/configBundle";
+import { CONFIG_AUTHOR_HEADER } from "@shared/configHistory";
+import type { SetupDraft } from "@shared/setupDraft";
+import { apiRequest, backendUnavailableError, getCsrfToken, isHtmlResponse } from "./queryClient";
+import type { ApiError, BrandingConfigPayload } from "./types";
+
+/**
+ * Codes for failures detected in the browser rather than reported by the server.
+ *
+ * - BACKEND_UNAVAILABLE: The frontend host answered instead of the API server
+ * - NETWORK_ERROR: The request never reached a server
+ * - INVALID_RESPONSE: The server answered with something other than JSON
+ * - HTTP_ERROR: An error response without a code
+ */
+export const CLIENT_ERROR_CODES = [
+  "BACKEND_UNAVAILABLE",
+  "NETWORK_ERROR",
+  "INVALID_RESPONSE",
+  "HTTP_ERROR",
+] as const;
+
+export type ClientErrorCode = (typeof CLIENT_ERROR_CODES)[number];
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+function createError(
+  message: string,
+  code: ApiErrorCode | ClientErrorCode,
+  status?: number
+): ApiError {
+  const error = new Error(message) as ApiError;
+  error.code = code;
+  error.status = status;
+  return error;
+}
+
+/**
+ * Whether `error` is an ApiError with the given code.
+ *
+ * @example
+ * if (isApiErrorCode(error, "MISSING_FIELDS")) showMissing(error.details);
+ */
+export function isApiErrorCode(
+  error: unknown,
+  code: ApiErrorCode | ClientErrorCode
+): error is ApiError {
+  return error instanceof Error && (error as ApiError).code === code;
+}
+
+// Gives every thrown error a code
+function toApiError(error: unknown): ApiError {
+  if (error instanceof Error && (error as ApiError).code) {
+    return error as ApiError;
+  }
+  // fetch rejects with a TypeError when the connection fails
+  if (error instanceof TypeError) {
+    return createError(
+      "Could not reach the server. Check your connection and try again.",
+      "NETWORK_ERROR"
+    );
+  }
+
+  const status = error instanceof Error ? (error as ApiError).status : undefined;
+  if (status === 429) {
+    // Rate limits from a proxy in front of the API come without our JSON body
+    return createError(
+      "Too many requests. Please wait a few minutes and try again.",
+      "RATE_LIMITED",
+      status
+    );
+  }
+  const message = error instanceof Error ? error.message : "Request failed";
+  return createError(message, "HTTP_ERROR", status);
+}
+
+// ============================================================================
+// CSRF TOKEN
+// ============================================================================
+
+let csrfToken: Promise<string> | null = null;
+
+function getToken(): Promise<string> {
+  csrfToken ??= getCsrfToken().catch((error: unknown) => {
+    // Try again on the next request instead of caching the failure
+    csrfToken = null;
+    throw error;
+  });
+  return csrfToken;
+}
+
+/**
+ * Forgets the cached CSRF token, so the next state-changing request fetches a new one.
+ */
+export function clearCsrfToken(): void {
+  csrfToken = null;
+}
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+async function readJson<T>(res: Response): Promise<T> {
+  if (isHtmlResponse(res)) {
+    throw backendUnavailableError(res.status);
+  }
+  try {
+    return (await res.json()) as T;
+  } catch {
+    throw createError("The server returned an unexpected response", "INVALID_RESPONSE", res.status);
+  }
+}
+
+async function send<T>(
+  method: Method,
+  url: string,
+  body?: unknown,
+  headers?: Record<string, string>
+): Promise<T> {
+  const needsCsrf = method !== "GET";
+  try {
+    let res: Response;
+    try {
+      res = await apiRequest(
+        method,
+        url,
+        body,
+        needsCsrf ? await getToken() : undefined,
+        undefined,
+        headers
+      );
+    } catch (error) {
+      if (!needsCsrf || !isApiErrorCode(error, "CSRF_INVALID")) throw error;
+      clearCsrfToken();
+      res = await apiRequest(method, url, body, await getToken(), undefined, headers);
+    }
+    return await readJson<T>(res);
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+// ============================================================================
+// SETUP ENDPOINTS
+// ============================================================================
+
+export function fetchSetupStatus(): Promise<SetupStatus> {
+  return send("GET", "/api/v1/setup/status");
+}
+
+export function fetchSetupSession(): Promise<SetupSessionResponse> {
+  return send("GET", "/api/v1/setup/session");
+}
+
+/** Fails with UNAUTHORIZED when `token` isn't the setup token. */
+export function signInToSetup(token: string): Promise<SetupSessionResponse> {
+  return send("POST", "/api/v1/setup/session", { token });
+}
+
+/** Checks the stored Google authorization. */
+export function validateSetup(): Promise<ValidationResult> {
+  return send("POST", "/api/v1/setup/validate");
+}
+
+/** `fields` style the generated Open Graph card; the saved branding fills any left out. */
+export function uploadLogo(file: File, fields: UploadLogoFields = {}): Promise<UploadLogoResponse> {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value) formData.append(name, value);
+  }
+  formData.append("logo", file);
+  return send("POST", "/api/v1/setup/upload-logo", formData);
+}
+
+// Names who made a configuration change in its history; URI-encoded since headers are Latin-1
+function authorHeaders(author?: string): Record<string, string> | undefined {
+  return author ? { [CONFIG_AUTHOR_HEADER]: encodeURIComponent(author) } : undefined;
+}
+
+/** `author` is recorded in the configuration history. */
+export function saveBranding(
+  config: BrandingConfigPayload,
+  author?: string
+): Promise<SaveBrandingResponse> {
+  return send("POST", "/api/v1/setup/branding", config, authorHeaders(author));
+}
+
+/** Fails with MISSING_FIELDS (details: MissingFieldsDetails) when required fields are empty. */
+export function saveCredentials(credentials: CredentialsPayload): Promise<SaveCredentialsResponse> {
+  return send("POST", "/api/v1/setup/credentials", credentials);
+}
+
+export function resetCredentials(): Promise<ResetCredentialsResponse> {
+  return send("DELETE", "/api/v1/setup/credentials");
+}
+
+export function testWebhook(request: TestWebhookRequest): Promise<ValidationResult> {
+  return send("POST", "/api/v1/setup/test-webhook", request);
+}
+
+export function fetchSetupDraft(): Promise<SetupDraftResponse> {
+  return send("GET", "/api/v1/setup/draft");
+}
+
+export function saveSetupDraft(draft: SetupDraft): Promise<SaveSetupDraftResponse> {
+  return send("PUT", "/api/v1/setup/draft", draft);
+}
+
+export function deleteSetupDraft(): Promise<DeleteSetupDraftResponse> {
+  return send("DELETE", "/api/v1/setup/draft");
+}
+
+export function exportConfig(): Promise<ExportConfigResponse> {
+  return send("GET", "/api/v1/setup/config/export");
+}
+
+/** Fails with VALIDATION_ERROR when the bundle doesn't match the schema or lacks a chosen section. */
+export function importConfig(
+  request: ConfigImportRequest,
+  author?: string
+): Promise<ImportConfigResponse> {
+  return send("POST", "/api/v1/setup/config/import", request, authorHeaders(author));
+}
+
+export function fetchConfigRevisions(): Promise<ConfigRevisionsResponse> {
+  return send("GET", "/api/v1/setup/config/revisions");
+}
+
+export function fetchConfigRevision(id: number): Promise<ConfigRevisionResponse> {
+  return send("GET", `/api/v1/setup/config/revisions/${id}`);
+}
+
+/** Saves an earlier revision's configuration as a new revision and publishes it. */
+export function restoreConfigRevision(
+  id: number,
+  author?: string
+): Promise<RestoreConfigRevisionResponse> {
+  return send(
+    "POST",
+    `/api/v1/setup/config/revisions/${id}/restore`,
+    undefined,
+    authorHeaders(author)
+  );
+}
+
+export function fetchUnpublishedChanges(): Promise<UnpublishedChangesResponse> {
+  return send("GET", "/api/v1/setup/config/unpublished");
+}
+
+export function publishConfig(): Promise<PublishConfigResponse> {
+  return send("POST", "/api/v1/setup/config/publish");
+}
+
+/** Signs a token for a link that shows the site with the draft configuration. */
+export function createConfigPreviewToken(): Promise<ConfigPreviewTokenResponse> {
+  return send("POST", "/api/v1/config/preview-token");
+}
+
+// ============================================================================
+// EMBED ENDPOINTS
+// ============================================================================
+
+export function createEmbedToken(options: EmbedOptions): Promise<EmbedTokenResponse> {
+  return send("POST", "/api/v1/embed/token", options);
+}
+
+export function fetchEmbedOptions(token: string): Promise<EmbedOptionsResponse> {
+  return send("GET", `/api/v1/embed/options?${EMBED_TOKEN_PARAM}=${encodeURIComponent(token)}`);
+}
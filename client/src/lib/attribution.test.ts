@@ -0,0 +1,77 @@
+/**
+ * Attribution Tests
+ *
+ * Covers first-touch / last-touch capture across page loads and the
+ * host-page parameters read by /embed.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  ATTRIBUTION_STORAGE_KEY,
+  captureAttribution,
+  captureEmbedAttribution,
+  getAttribution,
+} from "./attribution";
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe("captureAttribution", () => {
+  it("records the first landing as both first and last touch", () => {
+    const attribution = captureAttribution(
+      "https://example.com/pricing?utm_source=Google&utm_medium=cpc&utm_campaign=spring-sale&email=a@b.com",
+      "https://www.google.com/search?q=leads"
+    );
+
+    expect(attribution.firstTouch).toEqual(attribution.lastTouch);
+    expect(attribution.lastTouch).toMatchObject({
+      utmSource: "Google",
+      utmCampaign: "spring-sale",
+      landingPage: "https://example.com/pricing",
+      referrer: "https://www.google.com/search",
+      source: "google / cpc (spring-sale)",
+    });
+    expect(JSON.parse(localStorage.getItem(ATTRIBUTION_STORAGE_KEY)!)).toEqual(attribution);
+  });
+
+  it("keeps the first touch and moves the last touch on a new campaign", () => {
+    captureAttribution("https://example.com/", "https://news.ycombinator.com/item?id=1");
+    const attribution = captureAttribution("https://example.com/?utm_source=newsletter&utm_medium=email", "");
+
+    expect(attribution.firstTouch.source).toBe("news.ycombinator.com / referral");
+    expect(attribution.lastTouch.source).toBe("newsletter / email");
+  });
+
+  it("ignores direct visits and same-site referrers after the first landing", () => {
+    captureAttribution("https://example.com/?utm_source=linkedin", "");
+    captureAttribution("https://example.com/", "");
+    captureAttribution("https://example.com/about", "https://www.example.com/");
+
+    expect(getAttribution()?.lastTouch.source).toBe("linkedin");
+  });
+
+  it("records a direct first visit", () => {
+    expect(captureAttribution("https://example.com/", "").firstTouch.source).toBe("direct");
+  });
+
+  it("ignores tampered storage", () => {
+    localStorage.setItem(ATTRIBUTION_STORAGE_KEY, "{not json");
+    expect(captureAttribution("https://example.com/?utm_source=x", "").firstTouch.source).toBe("x");
+  });
+});
+
+describe("captureEmbedAttribution", () => {
+  it("reads the host page URL and referrer from the embed query", () => {
+    const search = new URLSearchParams({
+      pageUrl: "https://customer.com/contact?utm_source=bing&utm_medium=cpc",
+      pageReferrer: "https://www.bing.com/",
+    }).toString();
+
+    expect(captureEmbedAttribution(`?${search}`).lastTouch).toMatchObject({
+      landingPage: "https://customer.com/contact",
+      referrer: "https://www.bing.com/",
+      source: "bing / cpc",
+    });
+  });
+});
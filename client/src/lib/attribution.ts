@@ -0,0 +1,87 @@
+/**
+ * First-touch / last-touch lead attribution.
+ *
+ * Records where a visitor came from when they land on the site (or on a
+ * page hosting the /embed iframe) and keeps it in localStorage across page
+ * views, so the lead form can send it with the submission.
+ *
+ * - First touch is recorded once and never replaced.
+ * - Last touch is replaced whenever a landing carries UTM tags or an
+ *   outside referrer; direct visits keep the earlier campaign.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/attribution
+ */
+
+import { leadAttributionSchema, type LeadAttribution } from "@shared/schema";
+import {
+  EMBED_PAGE_URL_PARAM,
+  EMBED_REFERRER_PARAM,
+  hasCampaignSignal,
+  normalizeAttribution,
+  sourceFromUrl,
+} from "@shared/attribution";
+import { safeLocalStorage } from "./safeLocalStorage";
+
+export const ATTRIBUTION_STORAGE_KEY = "smartsheetconnect-attribution";
+
+// Fallback for when localStorage is unavailable (private mode, blocked third-party storage)
+let memoryAttribution: LeadAttribution | undefined;
+
+/**
+ * Returns the stored attribution, or undefined before the first landing was captured.
+ */
+export function getAttribution(): LeadAttribution | undefined {
+  const stored = safeLocalStorage.getItem(ATTRIBUTION_STORAGE_KEY);
+  if (!stored) return memoryAttribution;
+
+  try {
+    const parsed = leadAttributionSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? normalizeAttribution(parsed.data) : memoryAttribution;
+  } catch {
+    return memoryAttribution;
+  }
+}
+
+/**
+ * Records a landing. Call once per page load, not on client-side navigation,
+ * because document.referrer doesn't change when the SPA changes routes.
+ *
+ * @param pageUrl - URL the visitor landed on
+ * @param referrer - Page that linked to it ("" when unknown)
+ * @returns The attribution after this landing
+ */
+export function captureAttribution(
+  pageUrl: string = window.location.href,
+  referrer: string = document.referrer
+): LeadAttribution {
+  const touch = sourceFromUrl(pageUrl, referrer);
+  const current = getAttribution();
+
+  if (current && !hasCampaignSignal(touch)) {
+    return current;
+  }
+
+  const next: LeadAttribution = {
+    firstTouch: current?.firstTouch ?? touch,
+    lastTouch: touch,
+  };
+  if (!safeLocalStorage.setItem(ATTRIBUTION_STORAGE_KEY, JSON.stringify(next))) {
+    memoryAttribution = next;
+  }
+  return next;
+}
+
+/**
+ * Records a landing from inside the /embed iframe.
+ *
+ * The host page passes its own URL and referrer as query parameters. When
+ * they are missing, the iframe's referrer is the best available guess for
+ * the host page (browsers often trim it to the origin).
+ */
+export function captureEmbedAttribution(search: string = window.location.search): LeadAttribution {
+  const params = new URLSearchParams(search);
+  const pageUrl = params.get(EMBED_PAGE_URL_PARAM) || document.referrer;
+  const referrer = params.get(EMBED_REFERRER_PARAM) || "";
+  return captureAttribution(pageUrl, referrer);
+}
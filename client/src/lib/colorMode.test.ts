@@ -0,0 +1,79 @@
+/**
+ * Color Mode Tests
+ *
+ * Covers resolving the light or dark mode from the theme, the system
+ * setting and the visitor's stored choice, and remembering the theme's
+ * mode for the next page load.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  COLOR_MODE_SETTING_STORAGE_KEY,
+  COLOR_MODE_STORAGE_KEY,
+  getRememberedColorModeSetting,
+  getStoredColorMode,
+  rememberColorModeSetting,
+  resolveColorMode,
+  storeColorMode,
+  subscribeStoredColorMode,
+} from "./colorMode";
+
+beforeEach(() => {
+  storeColorMode(null);
+});
+
+describe("resolveColorMode", () => {
+  it("follows the theme, with auto following the system", () => {
+    expect(resolveColorMode(undefined, true)).toBe("light");
+    expect(resolveColorMode("dark", false)).toBe("dark");
+    expect(resolveColorMode("auto", true)).toBe("dark");
+    expect(resolveColorMode("auto", false)).toBe("light");
+  });
+
+  it("lets the visitor's choice win", () => {
+    expect(resolveColorMode("dark", true, "light")).toBe("light");
+    expect(resolveColorMode("auto", false, "dark")).toBe("dark");
+  });
+});
+
+describe("storeColorMode", () => {
+  it("keeps the choice across page loads and forgets it with null", () => {
+    storeColorMode("dark");
+    expect(localStorage.getItem(COLOR_MODE_STORAGE_KEY)).toBe("dark");
+    expect(getStoredColorMode()).toBe("dark");
+
+    storeColorMode(null);
+    expect(localStorage.getItem(COLOR_MODE_STORAGE_KEY)).toBeNull();
+    expect(getStoredColorMode()).toBeNull();
+  });
+
+  it("ignores stored values that aren't a mode", () => {
+    localStorage.setItem(COLOR_MODE_STORAGE_KEY, "sepia");
+    expect(getStoredColorMode()).toBeNull();
+  });
+
+  it("notifies subscribers until they unsubscribe", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeStoredColorMode(listener);
+    storeColorMode("dark");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    storeColorMode("light");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("rememberColorModeSetting", () => {
+  it("keeps the theme's mode for the next page load", () => {
+    rememberColorModeSetting("auto");
+    expect(localStorage.getItem(COLOR_MODE_SETTING_STORAGE_KEY)).toBe("auto");
+    expect(getRememberedColorModeSetting()).toBe("auto");
+
+    rememberColorModeSetting(undefined);
+    expect(getRememberedColorModeSetting()).toBeUndefined();
+
+    localStorage.setItem(COLOR_MODE_SETTING_STORAGE_KEY, "sepia");
+    expect(getRememberedColorModeSetting()).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Color Mode
+ *
+ * Decides whether the site renders light or dark. The theme's mode
+ * (shared/theme.ts) is the default; "auto" follows the visitor's system
+ * setting, and a visitor who flips the header switch keeps their choice in
+ * localStorage across visits. Listeners hear about both, so every tab
+ * follows along. The theme's mode is remembered too, so the script in
+ * index.html can apply the dark mode before the app and its config load.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/colorMode
+ */
+
+import { COLOR_MODES, type ColorModeSetting } from "@shared/theme";
+import { safeLocalStorage } from "./safeLocalStorage";
+import type { ColorMode } from "./colorTheme";
+
+export const COLOR_MODE_STORAGE_KEY = "smartsheetconnect-color-mode";
+
+/** The theme's mode as last served; read by the inline script in index.html. */
+export const COLOR_MODE_SETTING_STORAGE_KEY = "smartsheetconnect-theme-mode";
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Fallback for when localStorage is unavailable (private mode, blocked storage)
+let memoryColorMode: ColorMode | null = null;
+
+function isColorMode(value: unknown): value is ColorMode {
+  return value === "light" || value === "dark";
+}
+
+/**
+ * Returns the mode the visitor picked, or null when they haven't.
+ */
+export function getStoredColorMode(): ColorMode | null {
+  const stored = safeLocalStorage.getItem(COLOR_MODE_STORAGE_KEY);
+  return isColorMode(stored) ? stored : memoryColorMode;
+}
+
+/**
+ * Keeps the visitor's choice, or forgets it with null so the theme's mode
+ * applies again.
+ */
+export function storeColorMode(mode: ColorMode | null): void {
+  memoryColorMode = mode;
+  if (mode) {
+    safeLocalStorage.setItem(COLOR_MODE_STORAGE_KEY, mode);
+  } else {
+    safeLocalStorage.removeItem(COLOR_MODE_STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the theme's mode as last served, or undefined on a first visit.
+ */
+export function getRememberedColorModeSetting(): ColorModeSetting | undefined {
+  const setting = safeLocalStorage.getItem(COLOR_MODE_SETTING_STORAGE_KEY);
+  return COLOR_MODES.find((mode) => mode === setting);
+}
+
+/**
+ * Remembers the theme's mode for the next page load; undefined forgets it.
+ */
+export function rememberColorModeSetting(setting: ColorModeSetting | undefined): void {
+  if (setting) {
+    safeLocalStorage.setItem(COLOR_MODE_SETTING_STORAGE_KEY, setting);
+  } else {
+    safeLocalStorage.removeItem(COLOR_MODE_SETTING_STORAGE_KEY);
+  }
+}
+
+/**
+ * Calls `listener` whenever the stored choice changes, in this tab or
+ * another one.
+ *
+ * @returns A function that stops listening
+ */
+export function subscribeStoredColorMode(listener: Listener): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === COLOR_MODE_STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+/**
+ * Whether the visitor's system asks for a dark color scheme.
+ */
+export function systemPrefersDark(): boolean {
+  return typeof window.matchMedia === "function" && window.matchMedia(DARK_SCHEME_QUERY).matches;
+}
+
+/**
+ * Calls `listener` when the system color scheme changes.
+ *
+ * @returns A function that stops listening
+ */
+export function subscribeSystemColorScheme(listener: Listener): () => void {
+  if (typeof window.matchMedia !== "function") return () => {};
+  const query = window.matchMedia(DARK_SCHEME_QUERY);
+  query.addEventListener("change", listener);
+  return () => query.removeEventListener("change", listener);
+}
+
+/**
+ * The mode to render: the visitor's choice when there is one, else the
+ * theme's mode, with "auto" (and no mode at all) resolved against the
+ * system setting and light respectively.
+ */
+export function resolveColorMode(
+  setting: ColorModeSetting | undefined,
+  prefersDark: boolean,
+  stored: ColorMode | null = null
+): ColorMode {
+  if (stored) return stored;
+  if (setting === "auto") return prefersDark ? "dark" : "light";
+  return setting ?? "light";
+}
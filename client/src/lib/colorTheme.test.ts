@@ -0,0 +1,58 @@
+/**
+ * Color Theme Tests
+ *
+ * Covers turning the theme's design tokens into CSS variables and the
+ * hex/HSL conversions behind them.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getDesignTokenVariables, hexToHsl, hslToHex } from "./colorTheme";
+import { THEME_FONTS } from "@shared/theme";
+
+describe("getDesignTokenVariables", () => {
+  it("sets only the tokens the theme has", () => {
+    expect(getDesignTokenVariables(undefined)).toEqual({});
+    expect(getDesignTokenVariables({ colors: { background: "#ffffff" }, radius: 0 })).toEqual({
+      "--background": "0 0% 100%",
+      "--radius": "0px",
+    });
+  });
+
+  it("gives headings the body font unless they have their own", () => {
+    expect(getDesignTokenVariables({ bodyFont: "lora" })).toEqual({
+      "--font-sans": THEME_FONTS.lora.stack,
+      "--font-heading": THEME_FONTS.lora.stack,
+    });
+    expect(
+      getDesignTokenVariables({ bodyFont: "lora", headingFont: "poppins" })["--font-heading"]
+    ).toBe(THEME_FONTS.poppins.stack);
+  });
+
+  it("takes the dark colors in dark mode", () => {
+    const theme = { colors: { background: "#ffffff" }, darkColors: { background: "#000000" } };
+    expect(getDesignTokenVariables(theme, "dark")).toEqual({ "--background": "0 0% 0%" });
+    expect(getDesignTokenVariables({ colors: theme.colors }, "dark")).toEqual({});
+  });
+
+  it("scales shadows by the intensity", () => {
+    expect(getDesignTokenVariables({ shadow: "none" })).toEqual({ "--shadow-strength": "0" });
+    expect(getDesignTokenVariables({ shadow: "strong" })).toEqual({ "--shadow-strength": "1.75" });
+  });
+});
+
+describe("hslToHex", () => {
+  it("round-trips hex colors through HSL", () => {
+    for (const hex of ["#ffffff", "#000000", "#2563eb", "#10b981"]) {
+      const back = hslToHex(hexToHsl(hex)!);
+      // HSL is rounded to whole numbers, so allow a channel to drift by a little
+      const channels = (value: string) => [1, 3, 5].map((i) => parseInt(value.slice(i, i + 2), 16));
+      channels(back!).forEach((channel, i) =>
+        expect(Math.abs(channel - channels(hex)[i])).toBeLessThan(4)
+      );
+    }
+  });
+
+  it("rejects values that aren't HSL", () => {
+    expect(hslToHex("red")).toBeNull();
+  });
+});
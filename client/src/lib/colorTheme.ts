@@ -0,0 +1,238 @@
+/**
+ * Brand Color Theme
+ *
+ * Turns the hex brand colors and the design tokens of the theme
+ * (shared/theme.ts) from the app config into the values the Tailwind
+ * theme variables (--primary, --background, --radius, ...) expect. The app
+ * applies them to the document; <lead-capture-form> scopes them to its
+ * shadow root, and the setup preview to itself. Foregrounds are picked by
+ * contrast ratio, and the dark mode gets the brand colors' dark variants
+ * (see palette.ts).
+ *
+ * @author Lindsey Stead
+ * @module client/lib/colorTheme
+ */
+
+import type { ThemeConfig } from "@shared/appConfig";
+import { SHADOW_INTENSITIES, THEME_FONTS } from "@shared/theme";
+import { DARK_FOREGROUND_HEX, darkModeVariant, pickForeground } from "./palette";
+
+export const DEFAULT_PRIMARY_COLOR = "#2563eb";
+export const DEFAULT_SECONDARY_COLOR = "#10B981";
+
+const LIGHT_FOREGROUND = "210 40% 98%";
+const DARK_FOREGROUND = "222 47% 11%";
+
+/**
+ * Converts hex color to HSL format for Tailwind CSS variables.
+ */
+export function hexToHsl(hex: string): string | null {
+  try {
+    let r = 0,
+      g = 0,
+      b = 0;
+
+    if (hex.length === 4) {
+      // Short hex (#RGB)
+      r = parseInt(hex[1] + hex[1], 16);
+      g = parseInt(hex[2] + hex[2], 16);
+      b = parseInt(hex[3] + hex[3], 16);
+    } else if (hex.length === 7) {
+      // Full hex (#RRGGBB)
+      r = parseInt(hex.slice(1, 3), 16);
+      g = parseInt(hex.slice(3, 5), 16);
+      b = parseInt(hex.slice(5, 7), 16);
+    } else {
+      return null;
+    }
+
+    // Convert RGB to HSL
+    r /= 255;
+    g /= 255;
+    b /= 255;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    let h = 0,
+      s = 0;
+    const l = (max + min) / 2;
+
+    if (max !== min) {
+      const d = max - min;
+      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+      switch (max) {
+        case r:
+          h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+          break;
+        case g:
+          h = ((b - r) / d + 2) / 6;
+          break;
+        case b:
+          h = ((r - g) / d + 4) / 6;
+          break;
+      }
+    }
+
+    return `${Math.round(h * 360)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts an HSL theme variable value ("221 83% 53%") back to hex, e.g.
+ * to show a theme color in a color input.
+ */
+export function hslToHex(hsl: string): string | null {
+  const match = /^(-?[\d.]+)\s+([\d.]+)%\s+([\d.]+)%$/.exec(hsl.trim());
+  if (!match) return null;
+
+  const h = (((Number(match[1]) % 360) + 360) % 360) / 360;
+  const s = Number(match[2]) / 100;
+  const l = Number(match[3]) / 100;
+
+  const channel = (t: number) => {
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return `#${[h + 1 / 3, h, h - 1 / 3]
+    .map((t) =>
+      Math.round(channel(t) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+}
+
+// The foreground variable for a hex color, by WCAG contrast ratio
+function foregroundFor(hex: string): string {
+  return pickForeground(hex) === DARK_FOREGROUND_HEX ? DARK_FOREGROUND : LIGHT_FOREGROUND;
+}
+
+/**
+ * The light or dark foreground for an HSL color, whichever has the higher
+ * WCAG contrast ratio with it.
+ */
+export function getForegroundColor(hsl: string): string {
+  const hex = hslToHex(hsl);
+  return hex ? foregroundFor(hex) : LIGHT_FOREGROUND;
+}
+
+/**
+ * Validates hex color format.
+ */
+export function isValidHexColor(color: string): boolean {
+  return /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(color);
+}
+
+export type ColorMode = "light" | "dark";
+
+/**
+ * Returns a color and its foreground as CSS variables, falling back to
+ * the default color when the configured one is missing or invalid. The
+ * dark mode uses the color's dark variant (see palette.ts).
+ */
+function colorVariables(
+  color: string | undefined,
+  defaultColor: string,
+  mode: ColorMode,
+  cssVar: "--primary" | "--secondary",
+  cssVarForeground: "--primary-foreground" | "--secondary-foreground"
+): Record<string, string> {
+  const base = color && isValidHexColor(color) ? color : defaultColor;
+  const hex = mode === "dark" ? (darkModeVariant(base) ?? base) : base;
+  const hsl = hexToHsl(hex);
+  return hsl ? { [cssVar]: hsl, [cssVarForeground]: foregroundFor(hex) } : {};
+}
+
+/**
+ * Theme variables for the brand colors.
+ *
+ * @param primaryColor - Hex primary color (default blue when missing)
+ * @param secondaryColor - Hex secondary color (default green when missing)
+ * @param mode - Whether the colors go on the light or the dark theme
+ */
+export function getColorThemeVariables(
+  primaryColor?: string,
+  secondaryColor?: string,
+  mode: ColorMode = "light"
+): Record<string, string> {
+  return {
+    ...colorVariables(
+      primaryColor,
+      DEFAULT_PRIMARY_COLOR,
+      mode,
+      "--primary",
+      "--primary-foreground"
+    ),
+    ...colorVariables(
+      secondaryColor,
+      DEFAULT_SECONDARY_COLOR,
+      mode,
+      "--secondary",
+      "--secondary-foreground"
+    ),
+  };
+}
+
+/**
+ * Theme variables for the design tokens of a theme. Only the tokens the
+ * theme sets are returned, so the others keep the defaults in index.css.
+ * The dark mode takes the theme's dark colors instead of its light ones.
+ */
+export function getDesignTokenVariables(
+  theme: ThemeConfig | undefined,
+  mode: ColorMode = "light"
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  const colors = mode === "dark" ? theme?.darkColors : theme?.colors;
+  for (const [token, color] of Object.entries(colors ?? {})) {
+    const hsl = color && isValidHexColor(color) ? hexToHsl(color) : null;
+    if (hsl) variables[`--${token}`] = hsl;
+  }
+
+  if (theme?.bodyFont) {
+    variables["--font-sans"] = THEME_FONTS[theme.bodyFont].stack;
+  }
+  // Headings follow the body font unless they have their own
+  const headingFont = theme?.headingFont ?? theme?.bodyFont;
+  if (headingFont) {
+    variables["--font-heading"] = THEME_FONTS[headingFont].stack;
+  }
+  if (theme?.radius !== undefined) {
+    variables["--radius"] = `${theme.radius}px`;
+  }
+  if (theme?.shadow) {
+    variables["--shadow-strength"] = String(SHADOW_INTENSITIES[theme.shadow]);
+  }
+
+  return variables;
+}
+
+/**
+ * Sets theme variables as inline custom properties on an element.
+ */
+export function applyThemeVariables(element: HTMLElement, variables: Record<string, string>): void {
+  for (const [name, value] of Object.entries(variables)) {
+    element.style.setProperty(name, value);
+  }
+}
+
+/**
+ * Removes theme variables set by applyThemeVariables, so the element goes
+ * back to the stylesheet's values.
+ */
+export function removeThemeVariables(element: HTMLElement, names: readonly string[]): void {
+  for (const name of names) {
+    element.style.removeProperty(name);
+  }
+}
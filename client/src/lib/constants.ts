@@ -8,39 +8,25 @@
  * @module client/lib/constants
  */
 
-import type { EnrichmentData, LeadScore, SourceData } from "@shared/schema";
+import { DEMO_LEAD } from "@shared/demoLead";
+import type { EnrichmentData, SourceData } from "@shared/schema";
 
 /**
  * Demo lead data for UI demonstrations.
  * Matches the structure of actual lead submissions with enrichment, scoring, and source tracking.
  */
 export const LEAD_DEMO = {
-  name: "John Smith",
-  email: "john@acme.com",
-  phone: "+1 (555) 123-4567",
-  message: "I'm interested in your services, ready to discuss pricing and implementation timeline.",
+  ...DEMO_LEAD,
 
   enrichment: {
     companyName: "Acme",
     companyDomain: "acme.com",
-    industry: null,
-    employeeCount: null,
-    location: null,
+    industry: "Manufacturing",
+    employeeCount: "51-200",
+    location: "Phoenix, AZ, USA",
     website: "https://acme.com",
   } as EnrichmentData,
 
-  score: {
-    score: 85,
-    factors: {
-      messageIntent: 25,
-      messageUrgency: 10,
-      emailDomain: 20,
-      messageLength: 10,
-      phoneProvided: 10,
-    },
-    reasoning: "High buying intent, urgent request, company email, phone provided, detailed message",
-  } as LeadScore,
-
   source: {
     utmSource: "google",
     utmMedium: "cpc",
@@ -129,4 +115,3 @@ export const TRANSITIONS = {
     ease: [0.25, 0.1, 0.25, 1],
   },
 } as const;
-
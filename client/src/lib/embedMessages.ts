@@ -0,0 +1,36 @@
+/**
+ * Messages from the /embed iframe to its host page.
+ *
+ * Implements the sending side of the protocol in shared/embed.ts. Messages
+ * are posted with targetOrigin "*" because the host can be any customer
+ * site; they only carry status and never the visitor's answers.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/embedMessages
+ */
+
+import {
+  EMBED_FRAME_ID_PARAM,
+  EMBED_MESSAGE_SOURCE,
+  type EmbedMessage,
+  type EmbedMessagePayload,
+} from "@shared/embed";
+
+/**
+ * Posts a message to the page hosting the iframe.
+ * Does nothing when /embed is opened on its own.
+ */
+export function postEmbedMessage(
+  payload: EmbedMessagePayload,
+  search: string = window.location.search
+): void {
+  if (window.parent === window) return;
+
+  const message = {
+    ...payload,
+    source: EMBED_MESSAGE_SOURCE,
+    frameId: new URLSearchParams(search).get(EMBED_FRAME_ID_PARAM) || "",
+  } as EmbedMessage;
+
+  window.parent.postMessage(message, "*");
+}
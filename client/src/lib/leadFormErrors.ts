@@ -0,0 +1,70 @@
+/**
+ * Lead Form Errors
+ *
+ * Turns a failed lead submission into what the form shows: the server's
+ * per-field messages on the inputs they belong to, and a form-level message
+ * chosen by error code rather than by reading the server's wording.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/leadFormErrors
+ */
+
+import type { Path, UseFormReturn } from "react-hook-form";
+import type { ApiErrorCode } from "@shared/schema";
+import {
+  getFieldPath,
+  type FormFieldDefinition,
+  type LeadFormSubmission,
+  type LeadFormValues,
+} from "@shared/formDefinition";
+import type { ClientErrorCode } from "./apiClient";
+import type { ApiError } from "./types";
+
+/** Form-level messages by error code. */
+export type LeadErrorMessages = Partial<Record<ApiErrorCode | ClientErrorCode, string>>;
+
+const DEFAULT_MESSAGES: LeadErrorMessages = {
+  VALIDATION_ERROR: "Please correct the highlighted fields.",
+  SETUP_INCOMPLETE:
+    "Setup incomplete. Please complete the setup wizard to enable form submissions.",
+  GOOGLE_AUTH_FAILED: "This form can't save messages right now. Please try again later.",
+  LEAD_STORAGE_FAILED: "We couldn't save your message. Please try again.",
+  CSRF_INVALID: "Your session expired. Please submit the form again.",
+  RATE_LIMITED: "Too many submissions. Please wait a few minutes and try again.",
+};
+
+/**
+ * The form-level message for a failed submission.
+ *
+ * @param overrides - Replaces the default text for some codes
+ */
+export function getLeadErrorMessage(error: ApiError, overrides: LeadErrorMessages = {}): string {
+  const byCode = error.code ? (overrides[error.code] ?? DEFAULT_MESSAGES[error.code]) : undefined;
+  return byCode || error.message || "Failed to send message. Please try again.";
+}
+
+/**
+ * Shows a failed submission on the form: each field error from the server
+ * goes to its input, and the form-level message goes to `root`.
+ */
+export function applyLeadSubmitError(
+  form: UseFormReturn<LeadFormValues, unknown, LeadFormSubmission>,
+  fields: readonly FormFieldDefinition[],
+  error: ApiError,
+  overrides: LeadErrorMessages = {}
+): void {
+  const known = new Set(fields.map(getFieldPath));
+  let marked = false;
+
+  for (const [path, messages] of Object.entries(error.fieldErrors ?? {})) {
+    if (!known.has(path) || !messages[0]) continue;
+    form.setError(path as Path<LeadFormValues>, { type: "server", message: messages[0] });
+    marked = true;
+  }
+
+  // A validation error that no input can show explains itself
+  const unplaced = error.code === "VALIDATION_ERROR" && !marked;
+  form.setError("root", {
+    message: unplaced && error.message ? error.message : getLeadErrorMessage(error, overrides),
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Logo Colors Tests
+ *
+ * Covers finding a logo's dominant colors in its pixels and proposing
+ * contrast-safe brand colors from them.
+ */
+
+import { describe, it, expect } from "vitest";
+import { dominantColors, proposeBrandColors } from "./logoColors";
+import { checkBrandContrast, contrastRatio, hueDistance, WCAG_AA_TEXT } from "./palette";
+
+// RGBA pixels with `count` copies of each color
+function pixels(...runs: [hex: string, count: number, alpha?: number][]): Uint8ClampedArray {
+  const data: number[] = [];
+  for (const [hex, count, alpha = 255] of runs) {
+    const rgb = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+    for (let i = 0; i < count; i++) data.push(...rgb, alpha);
+  }
+  return new Uint8ClampedArray(data);
+}
+
+describe("dominantColors", () => {
+  it("orders colors by how much of the logo they cover, skipping transparency", () => {
+    const colors = dominantColors(pixels(["#ff0000", 30], ["#0000ff", 10], ["#00ff00", 100, 0]));
+
+    expect(colors.map((color) => color.hex)).toEqual(["#ff0000", "#0000ff"]);
+    expect(colors[0].share).toBeCloseTo(0.75);
+  });
+
+  it("groups near-identical pixels into their average", () => {
+    expect(dominantColors(pixels(["#2563eb", 1], ["#2665ea", 1]))).toEqual([
+      { hex: "#2664eb", share: 1 },
+    ]);
+  });
+});
+
+describe("proposeBrandColors", () => {
+  it("uses the logo's main hues, adjusted to pass the contrast checks", () => {
+    const palette = proposeBrandColors(
+      dominantColors(pixels(["#ffffff", 500], ["#f97316", 200], ["#0ea5e9", 100]))
+    )!;
+
+    expect(hueDistance(palette.primary, "#f97316")!).toBeLessThan(5);
+    expect(hueDistance(palette.secondary, "#0ea5e9")!).toBeLessThan(5);
+    expect(checkBrandContrast(palette.primary)).toEqual([]);
+    expect(checkBrandContrast(palette.secondary)).toEqual([]);
+    expect(contrastRatio(palette.accent, palette.accentForeground)!).toBeGreaterThanOrEqual(
+      WCAG_AA_TEXT
+    );
+  });
+
+  it("completes single-hue logos from the color wheel", () => {
+    const palette = proposeBrandColors([{ hex: "#1d4ed8", share: 1 }])!;
+
+    expect(palette.primary).toBe("#1d4ed8");
+    expect(hueDistance(palette.secondary, "#1d4ed8")!).toBeGreaterThan(170);
+  });
+
+  it("has nothing to offer for logos without color", () => {
+    expect(proposeBrandColors(dominantColors(pixels(["#000000", 50], ["#f5f5f5", 50])))).toBeNull();
+  });
+});
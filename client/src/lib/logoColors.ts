@@ -0,0 +1,172 @@
+/**
+ * Logo Colors
+ *
+ * Reads a logo's dominant colors from a canvas and proposes brand colors
+ * from them: a primary, a secondary of a different hue and an accent,
+ * each adjusted to the nearest shade that passes the WCAG checks of
+ * palette.ts. Logos with a single hue get the rest from the color wheel;
+ * logos without any color (black, white, gray) get no proposal.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/logoColors
+ */
+
+import {
+  DARK_FOREGROUND_HEX,
+  generateScale,
+  hueDistance,
+  nearestBrandSafeShade,
+  nearestCompliantShade,
+  rotateHue,
+  WCAG_AA_TEXT,
+} from "./palette";
+
+export interface DominantColor {
+  hex: string;
+  /** Fraction of the logo's opaque pixels in this color, 0-1 */
+  share: number;
+}
+
+export interface LogoPalette {
+  primary: string;
+  secondary: string;
+  /** Light tint for hover and highlight backgrounds (--accent) */
+  accent: string;
+  /** Text on the accent, passing WCAG AA on it (--accent-foreground) */
+  accentForeground: string;
+}
+
+// Longest side the logo is scaled to before sampling; plenty for its main colors
+const SAMPLE_SIZE = 64;
+
+// Pixels more transparent than this are background, not logo
+const MIN_ALPHA = 128;
+
+// Bits kept per channel when grouping similar pixels
+const QUANTIZE_BITS = 4;
+
+// Colors with less chroma than this read as black, white or gray
+const MIN_CHROMA = 0.15;
+
+// Colors that cover less of the logo than this are anti-aliasing or specks
+const MIN_SHARE = 0.02;
+
+// Hues closer than this are the same color for a brand
+const MIN_HUE_DISTANCE = 30;
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * The main colors of an image's RGBA pixels (as from getImageData), most
+ * common first. Similar pixels are grouped and averaged; transparent ones
+ * are skipped.
+ */
+export function dominantColors(pixels: Uint8ClampedArray, limit = 12): DominantColor[] {
+  const shift = 8 - QUANTIZE_BITS;
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let opaque = 0;
+
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue;
+    opaque++;
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    const key =
+      ((r >> shift) << (2 * QUANTIZE_BITS)) | ((g >> shift) << QUANTIZE_BITS) | (b >> shift);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      bucket.count++;
+    } else {
+      buckets.set(key, { r, g, b, count: 1 });
+    }
+  }
+
+  return Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(({ r, g, b, count }) => ({
+      hex: toHex(r / count, g / count, b / count),
+      share: count / opaque,
+    }));
+}
+
+function chroma(hex: string): number {
+  const channels = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  return Math.max(...channels) - Math.min(...channels);
+}
+
+/**
+ * Brand colors for a logo's dominant colors, or null when none of them is
+ * a color rather than black, white or gray.
+ */
+export function proposeBrandColors(colors: readonly DominantColor[]): LogoPalette | null {
+  const hues = colors
+    .filter((color) => color.share >= MIN_SHARE && chroma(color.hex) >= MIN_CHROMA)
+    .map((color) => color.hex);
+  if (hues.length === 0) return null;
+
+  // Each color a hue of its own, in order of how much of the logo it covers
+  const distinct: string[] = [];
+  for (const hex of hues) {
+    if (distinct.every((other) => (hueDistance(hex, other) ?? 0) >= MIN_HUE_DISTANCE)) {
+      distinct.push(hex);
+    }
+  }
+
+  const [base] = distinct;
+  // Logos with fewer hues borrow the complement and a neighbor from the color wheel
+  const secondaryBase = distinct[1] ?? rotateHue(base, 180) ?? base;
+  const accentBase = distinct[2] ?? rotateHue(base, 30) ?? base;
+
+  const accent = generateScale(accentBase)?.[100] ?? accentBase;
+  return {
+    primary: nearestBrandSafeShade(base) ?? base,
+    secondary: nearestBrandSafeShade(secondaryBase) ?? secondaryBase,
+    accent,
+    accentForeground:
+      nearestCompliantShade(accentBase, accent, WCAG_AA_TEXT) ?? DARK_FOREGROUND_HEX,
+  };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Lets logos from other origins be read back when they send CORS headers
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load logo"));
+    image.src = src;
+  });
+}
+
+/**
+ * Proposes brand colors for the logo at `src` (a URL or data URL). Resolves
+ * to null when the logo has no colors to offer or can't be read, e.g. when
+ * it's hosted elsewhere without CORS headers.
+ */
+export async function extractLogoPalette(src: string): Promise<LogoPalette | null> {
+  try {
+    const image = await loadImage(src);
+    const scale = Math.min(
+      1,
+      SAMPLE_SIZE / Math.max(image.naturalWidth || SAMPLE_SIZE, image.naturalHeight || SAMPLE_SIZE)
+    );
+    const width = Math.max(1, Math.round((image.naturalWidth || SAMPLE_SIZE) * scale));
+    const height = Math.max(1, Math.round((image.naturalHeight || SAMPLE_SIZE) * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(image, 0, 0, width, height);
+
+    return proposeBrandColors(dominantColors(context.getImageData(0, 0, width, height).data));
+  } catch {
+    return null;
+  }
+}
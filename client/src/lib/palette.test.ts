@@ -0,0 +1,104 @@
+/**
+ * Palette Tests
+ *
+ * Covers contrast ratios, foreground choice, shade scales and the
+ * nearest compliant shade of a brand color, and hue arithmetic.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DARK_BACKGROUND_HEX,
+  DARK_FOREGROUND_HEX,
+  LIGHT_FOREGROUND_HEX,
+  WCAG_AA_TEXT,
+  checkBrandContrast,
+  contrastRatio,
+  darkModeVariant,
+  generateScale,
+  hueDistance,
+  nearestBrandSafeShade,
+  nearestCompliantShade,
+  pickForeground,
+  rotateHue,
+} from "./palette";
+
+describe("contrastRatio", () => {
+  it("matches the WCAG reference values", () => {
+    expect(contrastRatio("#000000", "#ffffff")).toBeCloseTo(21, 5);
+    expect(contrastRatio("#ffffff", "#ffffff")).toBe(1);
+    expect(contrastRatio("#777777", "#ffffff")).toBeCloseTo(4.48, 2);
+  });
+
+  it("is null for colors that aren't hex", () => {
+    expect(contrastRatio("red", "#ffffff")).toBeNull();
+  });
+});
+
+describe("pickForeground", () => {
+  it("picks by contrast rather than lightness", () => {
+    // Lightness under 50%, but dark text reads better on it
+    expect(pickForeground("#10b981")).toBe(DARK_FOREGROUND_HEX);
+    expect(pickForeground("#1d4ed8")).toBe(LIGHT_FOREGROUND_HEX);
+    expect(pickForeground("#fde047")).toBe(DARK_FOREGROUND_HEX);
+  });
+});
+
+describe("generateScale", () => {
+  it("runs from a near-white tint to a near-black shade around the color", () => {
+    const scale = generateScale("#2563eb")!;
+    expect(scale[500]).toBe("#2563eb");
+    expect(contrastRatio(scale[50], "#ffffff")!).toBeLessThan(1.2);
+    expect(contrastRatio(scale[950], "#000000")!).toBeLessThan(2);
+  });
+});
+
+describe("nearestCompliantShade", () => {
+  it("keeps a color that already passes", () => {
+    expect(nearestCompliantShade("#1d4ed8", "#ffffff")).toBe("#1d4ed8");
+  });
+
+  it("darkens a light color until it reads on white", () => {
+    const shade = nearestCompliantShade("#60a5fa", "#ffffff")!;
+    expect(contrastRatio(shade, "#ffffff")!).toBeGreaterThanOrEqual(WCAG_AA_TEXT);
+    // Just past the threshold, not all the way to black
+    expect(contrastRatio(shade, "#ffffff")!).toBeLessThan(5.5);
+  });
+});
+
+describe("darkModeVariant", () => {
+  it("lightens a dark brand color until it reads on the dark background", () => {
+    const variant = darkModeVariant("#1e3a8a")!;
+    expect(contrastRatio(variant, DARK_BACKGROUND_HEX)!).toBeGreaterThanOrEqual(WCAG_AA_TEXT);
+  });
+});
+
+describe("checkBrandContrast", () => {
+  it("flags mid-tone colors and suggests shades that pass", () => {
+    const issues = checkBrandContrast("#8b5cf6");
+    expect(issues.map((issue) => issue.usage)).toEqual(["Button text", "Links and headings"]);
+    for (const issue of issues) {
+      expect(issue.ratio).toBeLessThan(WCAG_AA_TEXT);
+      expect(issue.suggestion).not.toBeNull();
+    }
+    expect(contrastRatio(issues[1].suggestion!, "#ffffff")!).toBeGreaterThanOrEqual(WCAG_AA_TEXT);
+  });
+
+  it("passes a dark, saturated color", () => {
+    expect(checkBrandContrast("#1d4ed8")).toEqual([]);
+  });
+});
+
+describe("nearestBrandSafeShade", () => {
+  it("moves a color until it passes every brand check", () => {
+    const shade = nearestBrandSafeShade("#8b5cf6")!;
+    expect(checkBrandContrast(shade)).toEqual([]);
+    expect(hueDistance(shade, "#8b5cf6")!).toBeLessThan(5);
+  });
+});
+
+describe("rotateHue", () => {
+  it("turns a color around the wheel", () => {
+    expect(rotateHue("#ff0000", 120)).toBe("#00ff00");
+    expect(hueDistance("#ff0000", rotateHue("#ff0000", 180)!)).toBeCloseTo(180);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Brand Color Palette
+ *
+ * Turns a brand color into a tint/shade scale and checks color pairs
+ * against the WCAG 2.x contrast ratio (shared/contrast.ts): which
+ * foreground reads best on a color, whether a pair passes AA, and the
+ * nearest shade of a color that does. Also derives the variant of a brand
+ * color that reads on the dark theme's background, and compares and turns
+ * colors by hue.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/palette
+ */
+
+import {
+  contrastRatio,
+  DARK_FOREGROUND_HEX,
+  LIGHT_FOREGROUND_HEX,
+  parseHex,
+  pickForeground,
+  WCAG_AA_LARGE,
+  WCAG_AA_TEXT,
+  type Rgb,
+} from "@shared/contrast";
+
+export {
+  contrastRatio,
+  DARK_FOREGROUND_HEX,
+  LIGHT_FOREGROUND_HEX,
+  pickForeground,
+  WCAG_AA_LARGE,
+  WCAG_AA_TEXT,
+};
+
+/** Page backgrounds of the light and dark themes (--background in index.css). */
+export const LIGHT_BACKGROUND_HEX = "#ffffff";
+export const DARK_BACKGROUND_HEX = "#0f172a";
+
+export const SHADE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type ShadeStep = (typeof SHADE_STEPS)[number];
+
+// How far each step mixes the color toward white (negative: toward black); 500 is the color itself
+const SHADE_MIX: Record<ShadeStep, number> = {
+  50: 0.95,
+  100: 0.9,
+  200: 0.75,
+  300: 0.6,
+  400: 0.3,
+  500: 0,
+  600: -0.15,
+  700: -0.3,
+  800: -0.45,
+  900: -0.6,
+  950: -0.75,
+};
+
+function toHex({ r, g, b }: Rgb): string {
+  return `#${[r, g, b]
+    .map((channel) =>
+      Math.round(Math.min(255, Math.max(0, channel)))
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+}
+
+function rgbToHsl({ r, g, b }: Rgb): { h: number; s: number; l: number } {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return { h: h / 6, s, l };
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  if (s === 0) return { r: l * 255, g: l * 255, b: l * 255 };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return { r: channel(h + 1 / 3) * 255, g: channel(h) * 255, b: channel(h - 1 / 3) * 255 };
+}
+
+/**
+ * Tints (50-400) and shades (600-950) of a color, which is itself 500.
+ */
+export function generateScale(hex: string): Record<ShadeStep, string> | null {
+  const rgb = parseHex(hex);
+  if (!rgb) return null;
+
+  const mixWith = (target: number, amount: number) => ({
+    r: rgb.r + (target - rgb.r) * amount,
+    g: rgb.g + (target - rgb.g) * amount,
+    b: rgb.b + (target - rgb.b) * amount,
+  });
+  return Object.fromEntries(
+    SHADE_STEPS.map((step) => {
+      const amount = SHADE_MIX[step];
+      return [step, toHex(amount >= 0 ? mixWith(255, amount) : mixWith(0, -amount))];
+    })
+  ) as Record<ShadeStep, string>;
+}
+
+/**
+ * The shade of `color` closest in lightness that reaches `minRatio`
+ * against any of `against`, keeping its hue and saturation. `color`
+ * itself when it already does; null when no shade does.
+ */
+export function nearestCompliantShade(
+  color: string,
+  against: string | readonly string[],
+  minRatio: number = WCAG_AA_TEXT
+): string | null {
+  const rgb = parseHex(color);
+  if (!rgb) return null;
+  const others = typeof against === "string" ? [against] : against;
+  const passes = (candidate: string) =>
+    others.some((other) => (contrastRatio(candidate, other) ?? 0) >= minRatio);
+
+  return searchLightness(rgb, passes);
+}
+
+// The shade of a color closest in lightness that passes, keeping its hue and saturation
+function searchLightness(rgb: Rgb, passes: (candidate: string) => boolean): string | null {
+  const { h, s, l } = rgbToHsl(rgb);
+  const start = Math.round(l * 100);
+  for (let delta = 0; delta <= 100; delta++) {
+    for (const lightness of delta === 0 ? [start] : [start - delta, start + delta]) {
+      if (lightness < 0 || lightness > 100) continue;
+      const candidate = delta === 0 ? toHex(rgb) : toHex(hslToRgb(h, s, lightness / 100));
+      if (passes(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * The shade of a brand color closest in lightness that passes every check
+ * of checkBrandContrast; null when no shade does.
+ */
+export function nearestBrandSafeShade(hex: string): string | null {
+  const rgb = parseHex(hex);
+  if (!rgb) return null;
+  return searchLightness(rgb, (candidate) => checkBrandContrast(candidate).length === 0);
+}
+
+/**
+ * How far apart two colors are on the color wheel, in degrees (0-180).
+ */
+export function hueDistance(a: string, b: string): number | null {
+  const rgbA = parseHex(a);
+  const rgbB = parseHex(b);
+  if (!rgbA || !rgbB) return null;
+  const distance = Math.abs(rgbToHsl(rgbA).h - rgbToHsl(rgbB).h) * 360;
+  return Math.min(distance, 360 - distance);
+}
+
+/**
+ * The color turned `degrees` around the color wheel, keeping its
+ * saturation and lightness.
+ */
+export function rotateHue(hex: string, degrees: number): string | null {
+  const rgb = parseHex(hex);
+  if (!rgb) return null;
+  const { h, s, l } = rgbToHsl(rgb);
+  return toHex(hslToRgb((((h + degrees / 360) % 1) + 1) % 1, s, l));
+}
+
+/**
+ * The variant of a brand color for the dark theme: the nearest shade that
+ * reads as text on the dark background.
+ */
+export function darkModeVariant(hex: string): string | null {
+  return nearestCompliantShade(hex, DARK_BACKGROUND_HEX, WCAG_AA_TEXT);
+}
+
+export interface ContrastIssue {
+  /** What the color is used for, e.g. "Button text" */
+  usage: string;
+  ratio: number;
+  /** Nearest shade of the color that passes, if there is one */
+  suggestion: string | null;
+}
+
+/**
+ * Where a brand color fails WCAG AA as the site uses it: as a button with
+ * its foreground, and as link and heading text on the page background.
+ */
+export function checkBrandContrast(hex: string): ContrastIssue[] {
+  if (!parseHex(hex)) return [];
+  const issues: ContrastIssue[] = [];
+
+  const onButton = contrastRatio(hex, pickForeground(hex)) ?? 0;
+  if (onButton < WCAG_AA_TEXT) {
+    issues.push({
+      usage: "Button text",
+      ratio: onButton,
+      suggestion: nearestCompliantShade(hex, [LIGHT_FOREGROUND_HEX, DARK_FOREGROUND_HEX]),
+    });
+  }
+
+  const asText = contrastRatio(hex, LIGHT_BACKGROUND_HEX) ?? 0;
+  if (asText < WCAG_AA_TEXT) {
+    issues.push({
+      usage: "Links and headings",
+      ratio: asText,
+      suggestion: nearestCompliantShade(hex, LIGHT_BACKGROUND_HEX),
+    });
+  }
+
+  return issues;
+}
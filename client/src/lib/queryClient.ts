@@ -15,21 +15,49 @@
  */
 
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { apiErrorResponseSchema, type ApiErrorResponse } from "@shared/schema";
 import type { ApiError } from "./types";
 
 // ============================================================================
 // HTTP RESPONSE VALIDATION
 // ============================================================================
 
-// Validates response and extracts error message
+const BACKEND_UNAVAILABLE_MESSAGE =
+  "Backend service unavailable. This is expected when running the portfolio frontend without backend services.";
+
+// Without the API server, the frontend host answers /api requests with its HTML page
+export function isHtmlResponse(res: Response): boolean {
+  return res.headers.get("content-type")?.includes("text/html") ?? false;
+}
+
+export function backendUnavailableError(status?: number): ApiError {
+  const error = new Error(BACKEND_UNAVAILABLE_MESSAGE) as ApiError;
+  error.status = status;
+  error.code = "BACKEND_UNAVAILABLE";
+  return error;
+}
+
+// Validates response and turns the API's error envelope into an ApiError
 async function throwIfResNotOk(res: Response): Promise<void> {
   if (!res.ok) {
+    if (isHtmlResponse(res)) {
+      throw backendUnavailableError(res.status);
+    }
+
     let errorMessage = res.statusText || `HTTP ${res.status} error`;
+    let envelope: ApiErrorResponse | undefined;
 
     try {
       const clonedResponse = res.clone();
       const errorJson = await clonedResponse.json();
-      errorMessage = errorJson.message || errorJson.error || errorMessage;
+      const parsed = apiErrorResponseSchema.safeParse(errorJson);
+      if (parsed.success) {
+        envelope = parsed.data;
+        errorMessage = envelope.message || errorMessage;
+      } else {
+        // Not our envelope (e.g. a proxy error); keep whatever message it has
+        errorMessage = errorJson.message || errorJson.error || errorMessage;
+      }
     } catch {
       try {
         const clonedResponse = res.clone();
@@ -42,6 +70,9 @@ async function throwIfResNotOk(res: Response): Promise<void> {
 
     const error = new Error(errorMessage) as ApiError;
     error.status = res.status;
+    error.code = envelope?.code;
+    error.details = envelope?.details;
+    error.fieldErrors = envelope?.fieldErrors;
     throw error;
   }
 }
@@ -57,11 +88,13 @@ export async function apiRequest(
   data?: unknown | undefined,
   csrfToken?: string | undefined,
   baseUrl?: string | undefined,
+  extraHeaders?: Record<string, string>,
 ): Promise<Response> {
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { ...extraHeaders };
 
-  // Add Content-Type for requests with body
-  if (data) {
+  // Add Content-Type for JSON bodies; the browser sets it for FormData
+  const isFormData = data instanceof FormData;
+  if (data && !isFormData) {
     headers["Content-Type"] = "application/json";
   }
 
@@ -76,7 +109,7 @@ export async function apiRequest(
   const res = await fetch(fullUrl, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include", // Include cookies for CSRF token
   });
 
@@ -98,15 +131,11 @@ export async function getCsrfToken(baseUrl?: string): Promise<string> {
     credentials: "include", // Include cookies
   });
 
-  if (!res.ok) {
-    // Check if response is HTML (backend unavailable)
-    const contentType = res.headers.get("content-type");
-    if (contentType?.includes("text/html")) {
-      throw new Error("Backend service unavailable. This is expected when running the portfolio frontend without backend services.");
-    }
-  }
-
   await throwIfResNotOk(res);
+  // A 200 HTML page means the frontend host answered instead of the API
+  if (isHtmlResponse(res)) {
+    throw backendUnavailableError(res.status);
+  }
   const data = await res.json();
   return data.token;
 }
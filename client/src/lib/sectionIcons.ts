@@ -0,0 +1,64 @@
+/**
+ * Section Icons
+ *
+ * The icons landing page sections can show, keyed by the names stored in
+ * the app config (SECTION_ICON_NAMES in shared/landingSections.ts). Only
+ * these components are ever rendered; unknown names get the fallback.
+ *
+ * @author Lindsey Stead
+ * @module client/lib/sectionIcons
+ */
+
+import {
+  BarChart3,
+  Bell,
+  Building2,
+  CheckCircle2,
+  Clock,
+  Database,
+  FileText,
+  Globe,
+  Heart,
+  Mail,
+  MessageSquare,
+  Rocket,
+  Sheet,
+  Shield,
+  Sparkles,
+  Star,
+  Target,
+  TrendingUp,
+  Users,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import { isSectionIconName, type SectionIconName } from "@shared/landingSections";
+
+export const SECTION_ICONS: Record<SectionIconName, LucideIcon> = {
+  sheet: Sheet,
+  sparkles: Sparkles,
+  "trending-up": TrendingUp,
+  "bar-chart": BarChart3,
+  bell: Bell,
+  "message-square": MessageSquare,
+  "file-text": FileText,
+  database: Database,
+  mail: Mail,
+  users: Users,
+  zap: Zap,
+  shield: Shield,
+  clock: Clock,
+  globe: Globe,
+  heart: Heart,
+  star: Star,
+  target: Target,
+  rocket: Rocket,
+  "check-circle": CheckCircle2,
+  building: Building2,
+};
+
+export const DEFAULT_SECTION_ICON: SectionIconName = "sparkles";
+
+export function getSectionIcon(name: string | undefined): LucideIcon {
+  return SECTION_ICONS[isSectionIconName(name) ? name : DEFAULT_SECTION_ICON];
+}
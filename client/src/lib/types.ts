@@ -5,87 +5,38 @@
  * @module client/lib/types
  */
 
+import type { ApiErrorCode, FieldErrors, LeadAttribution } from "@shared/schema";
+import type { ClientErrorCode } from "./apiClient";
+import type { CustomFieldValue } from "@shared/formDefinition";
+
 /**
  * Extended Error type for API errors with HTTP status code.
+ *
+ * `code`, `details` and `fieldErrors` come from the server's error envelope
+ * (ApiErrorResponse in shared/schema.ts). Failures detected in the browser
+ * use one of CLIENT_ERROR_CODES from ./apiClient instead.
  */
 export interface ApiError extends Error {
   status?: number;
-  code?: string;
+  code?: ApiErrorCode | ClientErrorCode;
   details?: unknown;
+  fieldErrors?: FieldErrors;
 }
 
 /**
  * Branding configuration payload for API requests.
  */
-export interface BrandingConfigPayload {
-  branding?: {
-    companyName?: string;
-    logo?: string;
-    primaryColor?: string;
-    secondaryColor?: string;
-    siteUrl?: string;
-  };
-  content?: {
-    hero?: {
-      title?: string;
-      description?: string;
-      ctaText?: string;
-      secondaryCtaText?: string;
-      tertiaryCtaText?: string;
-      benefits?: Array<{ text: string }>;
-    };
-    form?: {
-      title?: string;
-      description?: string;
-      submitText?: string;
-    };
-  };
-  header?: {
-    ctaText?: string;
-    navigation?: Array<{
-      label: string;
-      sectionId?: string;
-      href?: string;
-    }>;
-  };
-  footer?: {
-    description?: string;
-    socialLinks?: Record<string, string | undefined>;
-    quickLinks?: Array<{
-      label: string;
-      sectionId?: string;
-      href?: string;
-    }>;
-    privacyPolicyUrl?: string;
-    termsOfServiceUrl?: string;
-  };
-  seo?: {
-    pageTitle?: string;
-    metaDescription?: string;
-    ogImage?: string;
-    ogTitle?: string;
-    ogDescription?: string;
-    twitterCard?: string;
-    twitterImage?: string;
-    canonicalUrl?: string;
-    keywords?: string;
-  };
-  analytics?: {
-    googleAnalyticsId?: string;
-    googleTagManagerId?: string;
-    facebookPixelId?: string;
-    linkedinInsightTag?: string;
-    customAnalyticsScript?: string;
-  };
-}
+export type { BrandingConfigPayload } from "@shared/appConfig";
 
 /**
- * Lead submission with optional honeypot field.
+ * Lead submission with optional honeypot field and visitor attribution.
  */
 export interface LeadSubmissionWithHoneypot {
   name: string;
   email: string;
   phone?: string;
   message: string;
+  customFields?: Record<string, CustomFieldValue>;
   _honeypot?: string;
+  attribution?: LeadAttribution;
 }
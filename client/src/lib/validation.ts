@@ -8,54 +8,12 @@
  * @module client/lib/validation
  */
 
+import { FIELD_MAX_LENGTHS } from "@shared/appConfig";
+
 /**
- * Maximum field lengths matching backend validation
+ * Maximum field lengths, from the config schemas the server validates with
  */
-export const FIELD_MAX_LENGTHS = {
-  // Branding
-  companyName: 255,
-  logo: 500,
-  primaryColor: 20,
-  secondaryColor: 20,
-  siteUrl: 500,
-
-  // Content - Hero
-  heroTitle: 200,
-  heroDescription: 1000,
-  heroCtaText: 100,
-  heroSecondaryCtaText: 100,
-  heroTertiaryCtaText: 100,
-
-  // Content - Form
-  formTitle: 200,
-  formDescription: 1000,
-  formSubmitText: 100,
-
-  // Header/Footer
-  headerCtaText: 100,
-  footerDescription: 1000,
-  navigationLabel: 50,
-
-  // SEO
-  pageTitle: 100,
-  metaDescription: 300,
-  ogTitle: 100,
-  ogDescription: 300,
-  keywords: 200,
-
-  // Analytics
-  googleAnalyticsId: 50,
-  googleTagManagerId: 50,
-  facebookPixelId: 50,
-  linkedinInsightTag: 50,
-  customAnalyticsScript: 5000,
-
-  // Social Links
-  socialLink: 500,
-
-  // URLs
-  url: 500,
-} as const;
+export { FIELD_MAX_LENGTHS };
 
 /**
  * Recommended field lengths for optimal display
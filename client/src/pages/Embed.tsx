@@ -3,16 +3,105 @@
  * 
  * Standalone page for embedding the form in iframes.
  * Minimal styling, just the form.
+ *
+ * Attribution comes from the host page, passed as ?pageUrl=<url>&pageReferrer=<url>
+ * (see captureEmbedAttribution).
+ *
+ * Reports its height and form events to the host page with postMessage
+ * (see shared/embed.ts); embed.js uses them to size the iframe.
+ *
+ * Appearance can be varied per placement with query parameters or a signed
+ * token (see shared/embedOptions.ts). The options are applied to this page
+ * only, never saved to the tenant's branding.
  * 
  * @author Lindsey Stead
  * @module client/pages/Embed
  */
 
+import { useEffect, useRef, type CSSProperties } from "react";
+import type { AppConfig } from "@shared/appConfig";
+import { EMBED_FONTS, type EmbedOptions } from "@shared/embedOptions";
 import { EmbeddableForm } from "@/components/EmbeddableForm";
 import { useAppConfig } from "@/hooks/useAppConfig";
+import { useEmbedOptions } from "@/hooks/useEmbedOptions";
+import { useSystemPrefersDark } from "@/hooks/useColorMode";
+import { captureEmbedAttribution } from "@/lib/attribution";
+import { resolveColorMode } from "@/lib/colorMode";
+import { getColorThemeVariables, getDesignTokenVariables, type ColorMode } from "@/lib/colorTheme";
+import { postEmbedMessage } from "@/lib/embedMessages";
+import { cn } from "@/lib/utils";
+
+/**
+ * Theme variables for the embed options. Set on the page wrapper, so they
+ * win over the light theme App applies to the document. The dark theme
+ * gets the dark variants of the brand colors and the theme's dark colors,
+ * as its defaults would otherwise replace them.
+ */
+function getEmbedStyle(
+  options: EmbedOptions,
+  config: AppConfig | undefined,
+  mode: ColorMode
+): CSSProperties {
+  const style: Record<string, string> = {};
+
+  if (options.primaryColor || mode === "dark") {
+    Object.assign(
+      style,
+      getColorThemeVariables(
+        options.primaryColor ?? config?.branding?.primaryColor,
+        config?.branding?.secondaryColor,
+        mode
+      )
+    );
+    style["--ring"] = style["--primary"];
+  }
+  if (mode === "dark") {
+    Object.assign(style, getDesignTokenVariables({ darkColors: config?.theme?.darkColors }, mode));
+  }
+  if (options.radius !== undefined) {
+    style["--radius"] = `${options.radius}px`;
+  }
+  if (options.font) {
+    style["--font-sans"] = EMBED_FONTS[options.font];
+  }
+
+  return style as CSSProperties;
+}
 
 export default function Embed(): JSX.Element {
-  const { data: config, isLoading } = useAppConfig();
+  const { data: config, isLoading: isConfigLoading } = useAppConfig();
+  const { options, isLoading: isOptionsLoading } = useEmbedOptions();
+  const isLoading = isConfigLoading || isOptionsLoading;
+  // The placement's theme wins over the site's, and "auto" follows the visitor's system
+  const prefersDark = useSystemPrefersDark();
+  const mode = resolveColorMode(options.theme ?? config?.theme?.mode, prefersDark);
+
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    captureEmbedAttribution();
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading) postEmbedMessage({ type: "ready" });
+  }, [isLoading]);
+
+  // Measure the form rather than the page: the page fills the iframe, so its
+  // height would only ever grow.
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+
+    let lastHeight = 0;
+    const observer = new ResizeObserver(() => {
+      const height = Math.ceil(element.getBoundingClientRect().height);
+      if (height === lastHeight) return;
+      lastHeight = height;
+      postEmbedMessage({ type: "resize", height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isLoading]);
 
   const title = config?.content?.form?.title || "Get in Touch";
   const description = config?.content?.form?.description || "Fill out the form below and we'll get back to you as soon as possible";
@@ -20,19 +109,46 @@ export default function Embed(): JSX.Element {
 
   if (isLoading) {
     return (
-      <div className="min-h-screen p-5 bg-background flex items-center justify-center">
-        <p className="text-muted-foreground">Loading form...</p>
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div ref={contentRef} className="p-5">
+          <p className="text-muted-foreground">Loading form...</p>
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen p-5 bg-background flex items-center justify-center">
-      <div className="max-w-[600px] w-full">
+    <div
+      className={cn(
+        "min-h-screen bg-background text-foreground font-sans flex items-center justify-center",
+        mode === "dark" && "dark"
+      )}
+      style={getEmbedStyle(options, config, mode)}
+    >
+      <div ref={contentRef} className={cn("max-w-[640px] w-full", options.compact ? "p-2" : "p-5")}>
         <EmbeddableForm
           title={title}
-          description={description}
+          description={options.hideDescription ? "" : description}
           submitText={submitText}
+          fields={config?.content?.form?.fields}
+          compact={options.compact}
+          successMessage={options.successMessage}
+          onSubmitSuccess={(response) =>
+            postEmbedMessage({
+              type: "submit-success",
+              isDuplicate: response.isDuplicate === true,
+              score: response.score?.score,
+              leadSource: response.source?.source,
+            })
+          }
+          onSubmitError={(error) =>
+            postEmbedMessage({
+              type: "submit-error",
+              status: error.status,
+              code: error.code,
+              message: error.message,
+            })
+          }
         />
       </div>
     </div>
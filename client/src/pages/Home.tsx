@@ -1,30 +1,59 @@
 /**
  * Home page component.
  *
- * Main landing page with hero, features, how it works, and demo form sections.
+ * Main landing page. The sections between the header and footer follow
+ * the page layout in the app config (see shared/pageLayout.ts).
  *
  * @author Lindsey Stead
  * @module client/pages/Home
  */
 
+import type { ComponentType } from "react";
 import { Header } from "@/components/Header";
 import { HeroSection } from "@/components/HeroSection";
 import { FeaturesSection } from "@/components/FeaturesSection";
 import { HowItWorksSection } from "@/components/HowItWorksSection";
 import { DemoFormSection } from "@/components/DemoFormSection";
 import { SocialProofSection } from "@/components/SocialProofSection";
+import { FaqSection } from "@/components/FaqSection";
+import { RichTextSection } from "@/components/RichTextSection";
 import { Footer } from "@/components/Footer";
+import { useAppConfig } from "@/hooks/useAppConfig";
+import type { BuiltInSectionType } from "@shared/appConfig";
+import { layoutSectionId, resolveLayout, type LayoutSection } from "@shared/pageLayout";
+
+const BUILT_IN_SECTIONS: Record<BuiltInSectionType, ComponentType> = {
+  hero: HeroSection,
+  features: FeaturesSection,
+  "how-it-works": HowItWorksSection,
+  "social-proof": SocialProofSection,
+  "demo-form": DemoFormSection,
+};
+
+function PageSection({ section }: { section: LayoutSection }): JSX.Element {
+  switch (section.type) {
+    case "faq":
+      return <FaqSection section={section} />;
+    case "rich-text":
+      return <RichTextSection section={section} />;
+    default: {
+      const Section = BUILT_IN_SECTIONS[section.type];
+      return <Section />;
+    }
+  }
+}
 
 export default function Home(): JSX.Element {
+  const { data: config } = useAppConfig();
+  const layout = resolveLayout(config ?? {});
+
   return (
     <div className="min-h-screen">
       <Header />
       <main>
-        <HeroSection />
-        <FeaturesSection />
-        <HowItWorksSection />
-        <SocialProofSection />
-        <DemoFormSection />
+        {layout.map((section) =>
+          section.hidden ? null : <PageSection key={layoutSectionId(section)} section={section} />
+        )}
       </main>
       <Footer />
     </div>
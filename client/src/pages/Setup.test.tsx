@@ -0,0 +1,75 @@
+/**
+ * Setup Page Tests
+ *
+ * Covers what /setup shows for each answer to the session check: the
+ * sign-in card when signed out, and the wizard when no backend is running.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import "@testing-library/jest-dom/vitest";
+import { clearCsrfToken } from "@/lib/apiClient";
+import SetupPage from "./Setup";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// What a static frontend host answers for /api/* when no API server is running
+function html(): Response {
+  return new Response("<!doctype html><html></html>", {
+    status: 200,
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  localStorage.clear();
+  clearCsrfToken();
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+function renderPage() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <SetupPage />
+    </QueryClientProvider>
+  );
+}
+
+describe("SetupPage", () => {
+  it("asks for the setup token when signed out", async () => {
+    fetchMock.mockImplementation(async (input) =>
+      String(input).endsWith("/setup/session") ? json({ authenticated: false }) : html()
+    );
+    renderPage();
+    expect(await screen.findByTestId("input-setup-token")).toBeInTheDocument();
+  });
+
+  it("opens the wizard when no backend is running", async () => {
+    fetchMock.mockImplementation(async () => html());
+    renderPage();
+    expect(await screen.findByText("Welcome to SmartSheetConnect")).toBeInTheDocument();
+    expect(screen.queryByTestId("input-setup-token")).not.toBeInTheDocument();
+  });
+
+  it("opens the wizard when the server cannot be reached", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+    renderPage();
+    expect(await screen.findByText("Welcome to SmartSheetConnect")).toBeInTheDocument();
+  });
+});
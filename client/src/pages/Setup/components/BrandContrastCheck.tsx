@@ -0,0 +1,86 @@
+/**
+ * Brand Contrast Check Component
+ *
+ * Shows the tint/shade scale generated from a brand color and warns when
+ * the color fails WCAG AA contrast where the site uses it, offering the
+ * nearest shade that passes.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/BrandContrastCheck
+ */
+
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import { isValidHexColor } from "@/lib/colorTheme";
+import {
+  SHADE_STEPS,
+  WCAG_AA_TEXT,
+  checkBrandContrast,
+  generateScale,
+  type ContrastIssue,
+} from "@/lib/palette";
+
+interface BrandContrastCheckProps {
+  /** Name of the color, e.g. "Primary color" */
+  label: string;
+  color: string;
+  onApply: (color: string) => void;
+}
+
+function hasSuggestion(issue: ContrastIssue): issue is ContrastIssue & { suggestion: string } {
+  return issue.suggestion !== null;
+}
+
+export function BrandContrastCheck({ label, color, onApply }: BrandContrastCheckProps) {
+  if (!isValidHexColor(color)) return null;
+
+  const scale = generateScale(color);
+  const issues = checkBrandContrast(color);
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+  return (
+    <div className="space-y-2" data-testid={`contrast-check-${slug}`}>
+      {scale && (
+        <div className="flex h-3 rounded-md overflow-hidden" aria-label={`${label} shades`}>
+          {SHADE_STEPS.map((step) => (
+            <div
+              key={step}
+              className="flex-1"
+              style={{ backgroundColor: scale[step] }}
+              title={`${step}: ${scale[step]}`}
+            />
+          ))}
+        </div>
+      )}
+      {issues.map((issue) => (
+        <div key={issue.usage} className="flex items-start gap-2 text-xs text-destructive">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          <div className="space-y-1">
+            <p>
+              {issue.usage} fails WCAG AA: {issue.ratio.toFixed(2)}:1, needs {WCAG_AA_TEXT}:1.
+            </p>
+            {hasSuggestion(issue) && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => onApply(issue.suggestion)}
+              >
+                <span
+                  className="mr-2 h-3 w-3 rounded-sm border"
+                  style={{ backgroundColor: issue.suggestion }}
+                  aria-hidden="true"
+                />
+                Use {issue.suggestion}
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Config Change List Component
+ *
+ * Lists changed configuration values as "path: before → after", for the
+ * import preview and the configuration history.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/ConfigChangeList
+ */
+
+import type { ConfigChange, ConfigSection } from "@shared/configBundle";
+
+export const CONFIG_SECTION_LABELS: Record<ConfigSection, string> = {
+  branding: "Branding",
+  theme: "Theme",
+  content: "Content & form",
+  layout: "Page layout",
+  header: "Header",
+  footer: "Footer",
+  seo: "SEO",
+  analytics: "Analytics",
+};
+
+/** "3 changes", "1 change" or "No changes". */
+export function countChanges(count: number): string {
+  if (count === 0) return "No changes";
+  return `${count} change${count === 1 ? "" : "s"}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === "") return "(empty)";
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+interface ConfigChangeListProps {
+  changes: ConfigChange[];
+  className?: string;
+}
+
+export function ConfigChangeList({ changes, className = "" }: ConfigChangeListProps) {
+  return (
+    <ul className={`space-y-1 text-xs ${className}`}>
+      {changes.map((change) => (
+        <li
+          key={`${change.section}.${change.path}`}
+          className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-2"
+        >
+          <span className="font-mono text-muted-foreground truncate">{change.path}</span>
+          <span className="truncate">
+            <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+            {" → "}
+            {formatValue(change.after)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Config History Card Component
+ *
+ * Lists every saved revision of the site configuration (see
+ * shared/configHistory.ts) with a field-level diff against the revision
+ * before it, or any other, and restores a revision with one click.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/ConfigHistoryCard
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import {
+  fetchConfigRevision,
+  fetchConfigRevisions,
+  isApiErrorCode,
+  restoreConfigRevision,
+} from "@/lib/apiClient";
+import { CONFIG_SECTIONS, diffConfigs } from "@shared/configBundle";
+import type { ConfigRevision } from "@shared/configHistory";
+import { safeLocalStorage } from "@/lib/safeLocalStorage";
+import { CONFIG_AUTHOR_STORAGE_KEY, getConfigAuthor } from "../utils/localStorage";
+import { CONFIG_SECTION_LABELS, ConfigChangeList, countChanges } from "./ConfigChangeList";
+
+const PREVIOUS = "previous";
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+function describeSource(revision: ConfigRevision): string {
+  switch (revision.source) {
+    case "import":
+      return "Imported";
+    case "restore":
+      return `Restored #${revision.restoredFrom}`;
+    case "initial":
+      return "Saved before history";
+    default:
+      return "Saved in setup";
+  }
+}
+
+// Revisions never change, so each is fetched once
+function useRevision(id: number | undefined) {
+  return useQuery({
+    queryKey: ["config-revision", id],
+    queryFn: async () => (id === undefined ? null : (await fetchConfigRevision(id)).revision),
+    enabled: id !== undefined,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+export function ConfigHistoryCard() {
+  const [author, setAuthor] = useState(() => getConfigAuthor() ?? "");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState(PREVIOUS);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["config-revisions"],
+    queryFn: fetchConfigRevisions,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const revisions = data?.revisions ?? [];
+
+  const selectedIndex = Math.max(
+    0,
+    revisions.findIndex((r) => r.id === selectedId)
+  );
+  const selected = revisions[selectedIndex] as ConfigRevision | undefined;
+  // The oldest revision is compared with an empty configuration
+  const baseId = compareWith === PREVIOUS ? revisions[selectedIndex + 1]?.id : Number(compareWith);
+
+  const selectedDetail = useRevision(selected?.id);
+  const baseDetail = useRevision(baseId);
+  const isDiffLoading = selectedDetail.isLoading || baseDetail.isLoading;
+  const changes = selectedDetail.data
+    ? diffConfigs(baseDetail.data?.config ?? {}, selectedDetail.data.config)
+    : [];
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: number) => restoreConfigRevision(id, getConfigAuthor()),
+    onSuccess: async () => {
+      // Serve the restored branding right away
+      const { queryClient } = await import("@/lib/queryClient");
+      await queryClient.invalidateQueries({ queryKey: ["app-config"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-revisions"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-unpublished"] });
+      setSelectedId(null);
+      setCompareWith(PREVIOUS);
+    },
+  });
+
+  const handleAuthorChange = (value: string) => {
+    setAuthor(value);
+    if (value.trim()) {
+      safeLocalStorage.setItem(CONFIG_AUTHOR_STORAGE_KEY, value.trim());
+    } else {
+      safeLocalStorage.removeItem(CONFIG_AUTHOR_STORAGE_KEY);
+    }
+  };
+
+  const handleSelect = (id: number) => {
+    setSelectedId(id);
+    setCompareWith(PREVIOUS);
+    restoreMutation.reset();
+  };
+
+  const handleRestore = (revision: ConfigRevision) => {
+    if (confirm(`Restore revision #${revision.id}? The live site will use it right away and unpublished changes are discarded.`)) {
+      restoreMutation.mutate(revision.id);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-primary" />
+        <h4 className="text-sm font-medium">Version history</h4>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="config-author" className="text-xs">
+          Your name
+        </Label>
+        <Input
+          id="config-author"
+          value={author}
+          onChange={(e) => handleAuthorChange(e.target.value)}
+          placeholder="Shown on the changes you save"
+          maxLength={100}
+          className="h-8 text-sm"
+        />
+      </div>
+
+      {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      {error && (
+        <p className="text-xs text-destructive">
+          {isApiErrorCode(error, "BACKEND_UNAVAILABLE")
+            ? error.message
+            : "Failed to load the version history"}
+        </p>
+      )}
+      {data && revisions.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No changes yet. Each configuration save will appear here.
+        </p>
+      )}
+
+      {selected && (
+        <div className="grid gap-4 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          <ul className="max-h-72 overflow-y-auto space-y-1">
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(revision.id)}
+                  className={`w-full rounded-md px-2.5 py-2 text-left text-xs transition-colors ${
+                    revision.id === selected.id ? "bg-primary/10" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <span className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      #{revision.id} {describeSource(revision)}
+                    </span>
+                    {index === 0 && <span className="text-primary">Current</span>}
+                  </span>
+                  <span className="block text-muted-foreground">
+                    {formatDate(revision.createdAt)}
+                    {revision.author && ` by ${revision.author}`}
+                  </span>
+                  <span className="block text-muted-foreground truncate">
+                    {revision.changedSections
+                      .map((section) => CONFIG_SECTION_LABELS[section])
+                      .join(", ")}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-3 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground whitespace-nowrap">Compared with</span>
+              <Select value={compareWith} onValueChange={setCompareWith}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PREVIOUS}>Revision before it</SelectItem>
+                  {revisions
+                    .filter((revision) => revision.id !== selected.id)
+                    .map((revision) => (
+                      <SelectItem key={revision.id} value={String(revision.id)}>
+                        #{revision.id} ({formatDate(revision.createdAt)})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isDiffLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <div className="max-h-60 overflow-y-auto space-y-3">
+                {changes.length === 0 && (
+                  <p className="text-xs text-muted-foreground">{countChanges(0)}</p>
+                )}
+                {CONFIG_SECTIONS.map((section) => {
+                  const sectionChanges = changes.filter((change) => change.section === section);
+                  if (sectionChanges.length === 0) return null;
+                  return (
+                    <div key={section} className="space-y-1">
+                      <p className="text-xs font-medium">{CONFIG_SECTION_LABELS[section]}</p>
+                      <ConfigChangeList changes={sectionChanges} />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {restoreMutation.error && (
+              <p className="text-xs text-destructive">
+                {restoreMutation.error.message || "Failed to restore this revision"}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRestore(selected)}
+              disabled={selectedIndex === 0 || restoreMutation.isPending}
+              className="w-full"
+            >
+              {restoreMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              {selectedIndex === 0 ? "This is the current version" : `Restore #${selected.id}`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
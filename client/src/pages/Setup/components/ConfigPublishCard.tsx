@@ -0,0 +1,170 @@
+/**
+ * Config Publish Card Component
+ *
+ * Lists the saved changes the live site doesn't show yet, makes preview
+ * links that show the site with them, and publishes them (see
+ * shared/configPublishing.ts).
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/ConfigPublishCard
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Copy, ExternalLink, Loader2, Rocket } from "lucide-react";
+import {
+  createConfigPreviewToken,
+  fetchUnpublishedChanges,
+  isApiErrorCode,
+  publishConfig,
+} from "@/lib/apiClient";
+import { CONFIG_SECTIONS } from "@shared/configBundle";
+import { CONFIG_PREVIEW_PARAM } from "@shared/configPublishing";
+import { CONFIG_SECTION_LABELS, ConfigChangeList, countChanges } from "./ConfigChangeList";
+
+function previewUrl(token: string): string {
+  return `${window.location.origin}/?${CONFIG_PREVIEW_PARAM}=${encodeURIComponent(token)}`;
+}
+
+export function ConfigPublishCard() {
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["config-unpublished"],
+    queryFn: fetchUnpublishedChanges,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const changes = data?.changes ?? [];
+
+  const previewMutation = useMutation({
+    mutationFn: createConfigPreviewToken,
+    onSuccess: () => setCopied(false),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: publishConfig,
+    onSuccess: async () => {
+      const { queryClient } = await import("@/lib/queryClient");
+      await queryClient.invalidateQueries({ queryKey: ["app-config"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-unpublished"] });
+    },
+  });
+
+  const link = previewMutation.data ? previewUrl(previewMutation.data.token) : null;
+
+  const copy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the link stays selectable
+    }
+  };
+
+  const handlePublish = () => {
+    if (
+      confirm(
+        `Publish ${countChanges(changes.length).toLowerCase()}? Visitors will see them right away.`
+      )
+    ) {
+      publishMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Rocket className="h-4 w-4 text-primary" />
+        <h4 className="text-sm font-medium">Publish changes</h4>
+      </div>
+
+      {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      {error && (
+        <p className="text-xs text-destructive">
+          {isApiErrorCode(error, "BACKEND_UNAVAILABLE")
+            ? error.message
+            : "Failed to load the unpublished changes"}
+        </p>
+      )}
+      {data && changes.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          The live site is up to date. Changes you save in setup wait here until you publish them.
+        </p>
+      )}
+
+      {changes.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {countChanges(changes.length)} not yet on the live site. Share a preview link to have
+            them reviewed first.
+          </p>
+          <div className="max-h-60 overflow-y-auto space-y-3">
+            {CONFIG_SECTIONS.map((section) => {
+              const sectionChanges = changes.filter((change) => change.section === section);
+              if (sectionChanges.length === 0) return null;
+              return (
+                <div key={section} className="space-y-1">
+                  <p className="text-xs font-medium">{CONFIG_SECTION_LABELS[section]}</p>
+                  <ConfigChangeList changes={sectionChanges} />
+                </div>
+              );
+            })}
+          </div>
+
+          {link && (
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+                className="h-8 text-xs"
+              />
+              <Button variant="outline" size="sm" onClick={copy} aria-label="Copy preview link">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={link} target="_blank" rel="noopener noreferrer" aria-label="Open preview">
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          )}
+
+          {(previewMutation.error || publishMutation.error) && (
+            <p className="text-xs text-destructive">
+              {previewMutation.error
+                ? "Failed to create a preview link"
+                : publishMutation.error?.message || "Failed to publish"}
+            </p>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending}
+              className="flex-1"
+            >
+              {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {link ? "New preview link" : "Create preview link"}
+            </Button>
+            <Button
+              size="sm"
+              onClick={handlePublish}
+              disabled={publishMutation.isPending}
+              className="flex-1"
+            >
+              {publishMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Publish
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+/**
+ * Config Transfer Card Component
+ *
+ * Exports the site's configuration as a JSON bundle and imports one from
+ * another site. Before importing, the owner sees what each section of the
+ * bundle would change and picks the sections to bring over.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/ConfigTransferCard
+ */
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle, Download, Loader2, Upload } from "lucide-react";
+import { exportConfig, importConfig, isApiErrorCode } from "@/lib/apiClient";
+import {
+  CONFIG_SECTIONS,
+  configBundleSchema,
+  diffConfigSections,
+  type ConfigBundle,
+  type ConfigChange,
+  type ConfigSection,
+  type ConfigSections,
+} from "@shared/configBundle";
+import { getConfigAuthor } from "../utils/localStorage";
+import { CONFIG_SECTION_LABELS, ConfigChangeList, countChanges } from "./ConfigChangeList";
+
+interface ConfigTransferCardProps {
+  /** Called with the sections that were imported */
+  onImported?: (sections: ConfigSections) => void;
+}
+
+interface PendingImport {
+  bundle: ConfigBundle;
+  changes: ConfigChange[];
+  selected: ConfigSection[];
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (isApiErrorCode(error, "BACKEND_UNAVAILABLE")) return error.message;
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function downloadBundle(bundle: ConfigBundle) {
+  const slug = (bundle.sections.branding?.companyName ?? "site")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${slug || "site"}-config-${bundle.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Reads a bundle file, throwing a message the owner can act on
+async function readBundle(file: File): Promise<ConfigBundle> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  const parsed = configBundleSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    const where = issue?.path.length ? ` (${issue.path.join(".")})` : "";
+    throw new Error(
+      `This file isn't a configuration bundle from this app: ${issue?.message}${where}`
+    );
+  }
+  return parsed.data;
+}
+
+export function ConfigTransferCard({ onImported }: ConfigTransferCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importedSections, setImportedSections] = useState<ConfigSection[] | null>(null);
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      downloadBundle(await exportConfig());
+    } catch (exportError) {
+      setError(errorMessage(exportError, "Failed to export configuration"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset file input to allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    setImportedSections(null);
+    setIsReading(true);
+    try {
+      const bundle = await readBundle(file);
+      const current = await exportConfig();
+      const changes = diffConfigSections(current.sections, bundle.sections);
+      // Sections that would change are picked by default
+      const selected = CONFIG_SECTIONS.filter((section) =>
+        changes.some((change) => change.section === section)
+      );
+      setPending({ bundle, changes, selected });
+    } catch (readError) {
+      setError(errorMessage(readError, "Failed to read configuration file"));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleSection = (section: ConfigSection, checked: boolean) => {
+    setPending(
+      (prev) =>
+        prev && {
+          ...prev,
+          selected: checked
+            ? CONFIG_SECTIONS.filter((s) => s === section || prev.selected.includes(s))
+            : prev.selected.filter((s) => s !== section),
+        }
+    );
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setError(null);
+    setIsImporting(true);
+    try {
+      const { sections } = await importConfig(
+        { bundle: pending.bundle, sections: pending.selected },
+        getConfigAuthor()
+      );
+      const { queryClient } = await import("@/lib/queryClient");
+      await queryClient.invalidateQueries({ queryKey: ["app-config"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-revisions"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-unpublished"] });
+
+      onImported?.(
+        Object.fromEntries(
+          sections.map((section) => [section, pending.bundle.sections[section]])
+        ) as ConfigSections
+      );
+      setImportedSections(sections);
+      setPending(null);
+    } catch (importError) {
+      setError(errorMessage(importError, "Failed to import configuration"));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const bundleSections = pending
+    ? CONFIG_SECTIONS.filter((section) => pending.bundle.sections[section])
+    : [];
+
+  return (
+    <div className="bg-muted/30 rounded-2xl p-5 space-y-3">
+      <div className="space-y-1">
+        <h4 className="text-sm font-medium">Copy settings between sites</h4>
+        <p className="text-xs text-muted-foreground">
+          Export branding, theme, content, page layout, header, footer, SEO and analytics as a JSON
+          file, or start from another site&apos;s export. Credentials are never included.
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex-1"
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export configuration
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="flex-1"
+        >
+          {isReading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          Import configuration
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {error && !pending && <p className="text-xs text-destructive">{error}</p>}
+      {importedSections && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <CheckCircle className="h-3.5 w-3.5 text-primary" />
+          Imported {importedSections.map((section) => CONFIG_SECTION_LABELS[section]).join(", ")}.
+        </p>
+      )}
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import configuration</DialogTitle>
+            <DialogDescription>
+              {pending &&
+                `Exported ${new Date(pending.bundle.exportedAt).toLocaleString(undefined, {
+                  dateStyle: "medium",
+                  timeStyle: "short",
+                })}. Chosen sections replace the current ones.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] overflow-y-auto space-y-4">
+            {pending &&
+              bundleSections.map((section) => {
+                const changes = pending.changes.filter((change) => change.section === section);
+                return (
+                  <div key={section} className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Checkbox
+                        checked={pending.selected.includes(section)}
+                        onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                      />
+                      {CONFIG_SECTION_LABELS[section]}
+                      <span className="text-xs font-normal text-muted-foreground">
+                        {countChanges(changes.length)}
+                      </span>
+                    </label>
+                    {changes.length > 0 && <ConfigChangeList changes={changes} className="ml-6" />}
+                  </div>
+                );
+              })}
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={isImporting || !pending?.selected.length}>
+              {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import selected
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
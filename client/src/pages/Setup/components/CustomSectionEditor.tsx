@@ -0,0 +1,192 @@
+/**
+ * Custom Section Editor Component
+ *
+ * Title, anchor id and content of a FAQ or rich-text section in the Page
+ * Layout step. Content is written in Markdown; the text block shows what
+ * it will look like once sanitized.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/CustomSectionEditor
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Markdown } from "@/components/Markdown";
+import { FIELD_MAX_LENGTHS } from "@/lib/validation";
+import { SECTION_ITEM_LIMITS } from "@shared/appConfig";
+import type { FaqLayoutSection, RichTextLayoutSection } from "@shared/pageLayout";
+
+type CustomSection = FaqLayoutSection | RichTextLayoutSection;
+
+interface CustomSectionEditorProps {
+  /** Position in the layout, which keeps field ids apart */
+  index: number;
+  section: CustomSection;
+  onChange: (section: CustomSection) => void;
+}
+
+const MARKDOWN_HINT =
+  "Markdown: **bold**, *italic*, [links](https://example.com), lists and ## headings";
+
+function FaqItemsEditor({
+  section,
+  onChange,
+}: {
+  section: FaqLayoutSection;
+  onChange: (section: FaqLayoutSection) => void;
+}) {
+  const { items } = section;
+  const setItems = (next: FaqLayoutSection["items"]) => onChange({ ...section, items: next });
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="space-y-2 p-3 rounded-xl border bg-background/60">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">Question {index + 1}</span>
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move question ${index + 1} up`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => move(index, 1)}
+                disabled={index === items.length - 1}
+                aria-label={`Move question ${index + 1} down`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setItems(items.filter((_, i) => i !== index))}
+                aria-label={`Remove question ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <Input
+            value={item.question}
+            onChange={(e) =>
+              setItems(
+                items.map((it, i) => (i === index ? { ...it, question: e.target.value } : it))
+              )
+            }
+            placeholder="Question"
+            maxLength={FIELD_MAX_LENGTHS.faqQuestion}
+            aria-label={`Question ${index + 1}`}
+            className="h-9 text-sm"
+          />
+          <Textarea
+            value={item.answer}
+            onChange={(e) =>
+              setItems(items.map((it, i) => (i === index ? { ...it, answer: e.target.value } : it)))
+            }
+            placeholder="Answer"
+            maxLength={FIELD_MAX_LENGTHS.faqAnswer}
+            aria-label={`Answer ${index + 1}`}
+            rows={3}
+            className="text-sm"
+          />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setItems([...items, { question: "", answer: "" }])}
+        disabled={items.length >= SECTION_ITEM_LIMITS.faqs}
+        className="w-full"
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Question
+      </Button>
+      <p className="text-xs text-muted-foreground">{MARKDOWN_HINT}</p>
+    </div>
+  );
+}
+
+export function CustomSectionEditor({ index, section, onChange }: CustomSectionEditorProps) {
+  const fieldId = (name: string) => `layout-${index}-${name}`;
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl bg-muted/20">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={fieldId("title")} className="text-xs font-medium">
+            Section Title
+          </Label>
+          <Input
+            id={fieldId("title")}
+            value={section.title}
+            onChange={(e) => onChange({ ...section, title: e.target.value })}
+            placeholder={section.type === "faq" ? "Frequently Asked Questions" : "Optional"}
+            maxLength={FIELD_MAX_LENGTHS.sectionTitle}
+            className="h-9 text-sm"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={fieldId("id")} className="text-xs font-medium">
+            Link Anchor
+          </Label>
+          <Input
+            id={fieldId("id")}
+            value={section.id}
+            onChange={(e) => onChange({ ...section, id: e.target.value.toLowerCase() })}
+            maxLength={FIELD_MAX_LENGTHS.sectionId}
+            className="h-9 text-sm font-mono"
+          />
+        </div>
+      </div>
+
+      {section.type === "faq" ? (
+        <FaqItemsEditor section={section} onChange={onChange} />
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor={fieldId("markdown")} className="text-xs font-medium">
+            Text
+          </Label>
+          <Textarea
+            id={fieldId("markdown")}
+            value={section.markdown}
+            onChange={(e) => onChange({ ...section, markdown: e.target.value })}
+            maxLength={FIELD_MAX_LENGTHS.richText}
+            rows={8}
+            className="text-sm font-mono"
+          />
+          <p className="text-xs text-muted-foreground">{MARKDOWN_HINT}</p>
+          {section.markdown.trim() && (
+            <div className="p-3 rounded-xl border bg-background/60" data-testid="rich-text-preview">
+              <Markdown markdown={section.markdown} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
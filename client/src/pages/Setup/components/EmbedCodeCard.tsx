@@ -0,0 +1,251 @@
+/**
+ * Embed Code Card Component
+ *
+ * Builds the embed.js snippet for a customer's site, with optional
+ * per-placement appearance (see shared/embedOptions.ts). Options are
+ * either written as data attributes, which anyone can edit, or locked into
+ * a signed token from POST /api/v1/embed/token.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/EmbedCodeCard
+ */
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Copy, Loader2 } from "lucide-react";
+import { EMBED_OPTION_KEYS } from "@shared/embed";
+import {
+  EMBED_FONTS,
+  MAX_EMBED_RADIUS,
+  embedOptionsSchema,
+  type EmbedFont,
+  type EmbedOptions,
+  type EmbedTokenResponse,
+} from "@shared/embedOptions";
+import type { ColorModeSetting } from "@shared/theme";
+import { createEmbedToken } from "@/lib/apiClient";
+
+const FONT_LABELS: Record<EmbedFont, string> = {
+  inter: "Inter",
+  system: "System UI",
+  serif: "Serif",
+  mono: "Monospace",
+};
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * Placeholder + script tag. Attribute names follow embed.js: primaryColor → data-primary-color.
+ */
+function buildSnippet(attributes: Record<string, string>): string {
+  const origin = window.location.origin;
+  const attrs = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join("");
+  return `<div data-smartsheetconnect${attrs}></div>\n<script src="${origin}/embed.js" async></script>`;
+}
+
+function optionAttributes(options: EmbedOptions): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const key of EMBED_OPTION_KEYS) {
+    const value = options[key];
+    if (value === undefined || value === false) continue;
+    const name = `data-${key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+    attributes[name] = value === true ? "" : String(value);
+  }
+  return attributes;
+}
+
+export function EmbedCodeCard() {
+  const [options, setOptions] = useState<EmbedOptions>({});
+  const [signed, setSigned] = useState(false);
+  const [snippet, setSnippet] = useState(() => buildSnippet({}));
+  const [copied, setCopied] = useState(false);
+
+  const parsed = embedOptionsSchema.safeParse(options);
+  const error = parsed.success ? null : parsed.error.errors[0]?.message;
+
+  const update = (patch: Partial<EmbedOptions>) => {
+    setOptions((current) => {
+      const next = { ...current, ...patch };
+      // Drop cleared fields so they fall back to the tenant's branding
+      for (const key of EMBED_OPTION_KEYS) {
+        if (next[key] === undefined) delete next[key];
+      }
+      return next;
+    });
+    setCopied(false);
+  };
+
+  const tokenMutation = useMutation<EmbedTokenResponse, Error, EmbedOptions>({
+    mutationFn: createEmbedToken,
+    onSuccess: (data) => setSnippet(buildSnippet({ "data-token": data.token })),
+  });
+
+  const generate = () => {
+    if (!parsed.success) return;
+    if (signed) {
+      tokenMutation.mutate(parsed.data);
+    } else {
+      setSnippet(buildSnippet(optionAttributes(parsed.data)));
+    }
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the code stays selectable
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Embed on Your Site</CardTitle>
+        <CardDescription>
+          Paste this code where the form should appear. Options left empty use your branding.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="embed-primary-color">Button Color</Label>
+            <Input
+              id="embed-primary-color"
+              placeholder="#2563eb"
+              value={options.primaryColor ?? ""}
+              onChange={(e) => update({ primaryColor: e.target.value.trim() || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="embed-radius">Corner Radius (px)</Label>
+            <Input
+              id="embed-radius"
+              type="number"
+              min={0}
+              max={MAX_EMBED_RADIUS}
+              placeholder="8"
+              value={options.radius ?? ""}
+              onChange={(e) => update({ radius: e.target.value === "" ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="embed-font">Font</Label>
+            <Select
+              value={options.font ?? "default"}
+              onValueChange={(value) => update({ font: value === "default" ? undefined : (value as EmbedFont) })}
+            >
+              <SelectTrigger id="embed-font">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default</SelectItem>
+                {(Object.keys(EMBED_FONTS) as EmbedFont[]).map((font) => (
+                  <SelectItem key={font} value={font}>
+                    {FONT_LABELS[font]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="embed-theme">Theme</Label>
+            <Select
+              value={options.theme ?? "default"}
+              onValueChange={(value) =>
+                update({ theme: value === "default" ? undefined : (value as ColorModeSetting) })
+              }
+            >
+              <SelectTrigger id="embed-theme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default</SelectItem>
+                <SelectItem value="light">Light</SelectItem>
+                <SelectItem value="dark">Dark</SelectItem>
+                <SelectItem value="auto">Match visitor&apos;s system</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="embed-success-message">Success Message</Label>
+          <Input
+            id="embed-success-message"
+            placeholder="Thank you! Your message has been sent successfully."
+            maxLength={200}
+            value={options.successMessage ?? ""}
+            onChange={(e) => update({ successMessage: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="embed-compact"
+              checked={options.compact === true}
+              onCheckedChange={(checked) => update({ compact: checked || undefined })}
+            />
+            <Label htmlFor="embed-compact">Compact layout</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="embed-hide-description"
+              checked={options.hideDescription === true}
+              onCheckedChange={(checked) => update({ hideDescription: checked || undefined })}
+            />
+            <Label htmlFor="embed-hide-description">Hide description</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="embed-signed" checked={signed} onCheckedChange={setSigned} />
+            <Label htmlFor="embed-signed">Lock options with a signed token</Label>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {tokenMutation.isError && (
+          <p className="text-sm text-destructive">
+            {tokenMutation.error.message || "Failed to sign the embed options"}
+          </p>
+        )}
+
+        <Button onClick={generate} disabled={!parsed.success || tokenMutation.isPending} className="w-full">
+          {tokenMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Signing...
+            </>
+          ) : (
+            "Generate Embed Code"
+          )}
+        </Button>
+
+        <div className="relative">
+          <pre className="rounded-md border bg-muted/50 p-3 pr-12 text-xs whitespace-pre-wrap break-all" data-testid="embed-snippet">
+            {snippet}
+          </pre>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={copy}
+            className="absolute right-1 top-1"
+            aria-label="Copy embed code"
+          >
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Logo Color Suggestions Component
+ *
+ * Offers brand colors read from the logo as one-click suggestions: the
+ * primary and secondary colors, and an accent for the theme. Renders
+ * nothing until the logo has been read, or when it has no colors to offer.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/LogoColorSuggestions
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Sparkles } from "lucide-react";
+import { extractLogoPalette, type LogoPalette } from "@/lib/logoColors";
+
+interface LogoColorSuggestionsProps {
+  /** URL or data URL of the logo */
+  src: string;
+  /** Called with the suggested colors to use, one or all of them */
+  onApply: (colors: Partial<LogoPalette>) => void;
+}
+
+const SUGGESTIONS = [
+  { key: "primary", label: "Primary" },
+  { key: "secondary", label: "Secondary" },
+  { key: "accent", label: "Accent" },
+] as const;
+
+export function LogoColorSuggestions({ src, onApply }: LogoColorSuggestionsProps) {
+  // Remembers which logo the palette was read from, so a new logo never shows the old colors
+  const [result, setResult] = useState<{ src: string; palette: LogoPalette | null } | null>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    extractLogoPalette(src).then((palette) => {
+      if (!cancelled) setResult({ src, palette });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const palette = result?.src === src ? result.palette : null;
+  if (!palette) return null;
+
+  const apply = (key: (typeof SUGGESTIONS)[number]["key"]) =>
+    onApply(
+      key === "accent"
+        ? { accent: palette.accent, accentForeground: palette.accentForeground }
+        : { [key]: palette[key] }
+    );
+
+  return (
+    <div
+      className="space-y-2 p-3 rounded-lg border border-border bg-muted/20"
+      data-testid="logo-color-suggestions"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-xs font-medium">
+          <Sparkles className="h-3.5 w-3.5 text-primary" aria-hidden="true" />
+          Colors from your logo
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => onApply(palette)}
+        >
+          Use all
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {SUGGESTIONS.map(({ key, label }) => (
+          <Button
+            key={key}
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => apply(key)}
+            aria-label={`Use ${palette[key]} as the ${label.toLowerCase()} color`}
+          >
+            <span
+              className="mr-2 h-3 w-3 rounded-sm border"
+              style={{ backgroundColor: palette[key] }}
+              aria-hidden="true"
+            />
+            {label} {palette[key]}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Adjusted where needed to pass WCAG AA contrast. The accent tints hover and highlight
+        backgrounds.
+      </p>
+    </div>
+  );
+}
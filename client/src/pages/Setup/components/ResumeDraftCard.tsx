@@ -0,0 +1,56 @@
+/**
+ * Resume Draft Card Component
+ *
+ * Shown on /setup when an unfinished setup was saved on this or another
+ * machine.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/ResumeDraftCard
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { History } from "lucide-react";
+import type { SetupDraft } from "@shared/setupDraft";
+import { SETUP_STEPS } from "../steps/registry";
+
+interface ResumeDraftCardProps {
+  draft: SetupDraft;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+function formatSavedAt(savedAt: string): string {
+  return new Date(savedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function ResumeDraftCard({ draft, onResume, onDiscard }: ResumeDraftCardProps) {
+  const step = SETUP_STEPS.find((s) => s.id === draft.stepId);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background via-muted/20 to-background p-4 sm:p-6">
+      <Card className="w-full max-w-lg shadow-elevated-lg border-border/50">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <CardTitle className="text-xl font-semibold">Resume your setup?</CardTitle>
+          </div>
+          <CardDescription>
+            {draft.savedAt
+              ? `You have a draft from ${formatSavedAt(draft.savedAt)}`
+              : "You have an unfinished setup"}
+            {step ? `, last on ${step.title}.` : "."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-3">
+          <Button variant="outline" onClick={onDiscard} className="flex-1">
+            Start over
+          </Button>
+          <Button onClick={onResume} className="flex-1">
+            Resume draft
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
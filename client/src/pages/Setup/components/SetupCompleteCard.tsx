@@ -11,7 +11,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle2 } from "lucide-react";
-import { SETUP_STORAGE_KEY, safeLocalStorage } from "../utils/localStorage";
+import { isApiErrorCode, resetCredentials } from "@/lib/apiClient";
+import { safeLocalStorage } from "@/lib/safeLocalStorage";
+import { SETUP_STORAGE_KEY } from "../utils/localStorage";
+import { EmbedCodeCard } from "./EmbedCodeCard";
+import { ConfigPublishCard } from "./ConfigPublishCard";
+import { ConfigTransferCard } from "./ConfigTransferCard";
+import { ConfigHistoryCard } from "./ConfigHistoryCard";
 
 interface SetupCompleteCardProps {
   onRestart: () => void;
@@ -22,18 +28,17 @@ export function SetupCompleteCard({ onRestart, onEdit }: SetupCompleteCardProps)
   const handleReset = async () => {
     if (confirm('Reset customer credentials? This will clear your configuration and return to the setup wizard.')) {
       try {
-        const res = await fetch('/api/v1/setup/credentials', { method: 'DELETE' });
-        const data = await res.json();
-        if (data.success) {
-          safeLocalStorage.removeItem(SETUP_STORAGE_KEY);
-          onRestart();
-          const { queryClient } = await import("@/lib/queryClient");
-          await queryClient.invalidateQueries({ queryKey: ["setup-status"] });
-        } else {
-          alert('Failed to reset credentials: ' + data.message);
-        }
-      } catch {
-        alert('Failed to reset credentials');
+        await resetCredentials();
+        safeLocalStorage.removeItem(SETUP_STORAGE_KEY);
+        onRestart();
+        const { queryClient } = await import("@/lib/queryClient");
+        await queryClient.invalidateQueries({ queryKey: ["setup-status"] });
+      } catch (error) {
+        alert(
+          isApiErrorCode(error, "BACKEND_UNAVAILABLE")
+            ? error.message
+            : `Failed to reset credentials: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
       }
     }
   };
@@ -77,6 +82,10 @@ export function SetupCompleteCard({ onRestart, onEdit }: SetupCompleteCardProps)
                 Go to Application
               </Button>
             </div>
+            <ConfigPublishCard />
+            <EmbedCodeCard />
+            <ConfigTransferCard />
+            <ConfigHistoryCard />
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,88 @@
+/**
+ * Setup Sign-In Card Component
+ *
+ * Shown on /setup until the owner signs in with the setup token (SETUP_TOKEN,
+ * or the one the server generated in config/setup-token.json).
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/SetupSignInCard
+ */
+
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { KeyRound, Loader2 } from "lucide-react";
+import { isApiErrorCode, signInToSetup } from "@/lib/apiClient";
+
+interface SetupSignInCardProps {
+  onSignedIn: () => void;
+}
+
+export function SetupSignInCard({ onSignedIn }: SetupSignInCardProps) {
+  const [token, setToken] = useState("");
+  const signIn = useMutation({
+    mutationFn: () => signInToSetup(token.trim()),
+    onSuccess: onSignedIn,
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (token.trim()) signIn.mutate();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background via-muted/20 to-background p-4 sm:p-6">
+      <Card className="w-full max-w-lg shadow-elevated-lg border-border/50">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            <CardTitle className="text-xl font-semibold">Sign in to setup</CardTitle>
+          </div>
+          <CardDescription>
+            Enter the setup token: the SETUP_TOKEN you configured, or the one the server created in
+            config/setup-token.json on its first start.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="setupToken" className="text-sm font-medium">
+                Setup token
+              </Label>
+              <Input
+                id="setupToken"
+                type="password"
+                autoComplete="current-password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                data-testid="input-setup-token"
+              />
+            </div>
+            {signIn.error && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {isApiErrorCode(signIn.error, "UNAUTHORIZED")
+                    ? "That setup token is not correct."
+                    : signIn.error.message}
+                </AlertDescription>
+              </Alert>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!token.trim() || signIn.isPending}
+              data-testid="button-setup-sign-in"
+            >
+              {signIn.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Step Navigation Component
+ *
+ * Back and Continue buttons at the bottom of a wizard step, with the save
+ * error from the step's save action shown underneath.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/components/StepNavigation
+ */
+
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
+import type { SetupStepProps } from "../types";
+
+interface StepNavigationProps extends SetupStepProps {
+  nextLabel?: string;
+  /** Shown when the save fails without a message of its own */
+  errorFallback?: string;
+}
+
+export function StepNavigation({
+  onNext,
+  onBack,
+  canContinue,
+  isSaving,
+  saveError,
+  nextLabel = "Continue",
+  errorFallback = "Failed to save. Please try again.",
+}: StepNavigationProps) {
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <div className="flex gap-3">
+        {onBack && (
+          <Button variant="outline" onClick={onBack} className="flex-1">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+        )}
+        <Button onClick={onNext} disabled={isSaving || !canContinue} className="flex-1">
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin text-white" />
+              Saving...
+            </>
+          ) : (
+            <>
+              {nextLabel}
+              <ArrowRight className="ml-2 h-4 w-4 text-white" />
+            </>
+          )}
+        </Button>
+      </div>
+      {saveError && (
+        <p className="text-sm text-destructive flex items-center gap-2">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {saveError.message || errorFallback}
+        </p>
+      )}
+    </div>
+  );
+}
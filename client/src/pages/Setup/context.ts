@@ -0,0 +1,21 @@
+/**
+ * Setup Wizard Context
+ *
+ * Gives step components the wizard state without threading it through props.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/context
+ */
+
+import { createContext, useContext } from "react";
+import type { SetupWizardState } from "./hooks/useSetupWizardState";
+
+export const SetupWizardContext = createContext<SetupWizardState | null>(null);
+
+export function useSetupWizard(): SetupWizardState {
+  const wizard = useContext(SetupWizardContext);
+  if (!wizard) {
+    throw new Error("useSetupWizard must be used inside the setup wizard");
+  }
+  return wizard;
+}
@@ -0,0 +1,131 @@
+/**
+ * useSetupDraft Hook
+ *
+ * Autosaves the setup wizard as a draft and offers to resume it. Edits are
+ * written to localStorage a second after the owner stops typing, and to
+ * the server a few seconds later so the draft can be picked up on another
+ * machine. On load, the newer of the local and server drafts is offered
+ * until the owner resumes or discards it; autosave waits for that answer
+ * so it can't overwrite the draft with an empty wizard.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/hooks/useSetupDraft
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { deleteSetupDraft, fetchSetupDraft, isApiErrorCode, saveSetupDraft } from "@/lib/apiClient";
+import { parseStoredSetupDraft, setupDraftSchema, type SetupDraft } from "@shared/setupDraft";
+import { safeLocalStorage } from "@/lib/safeLocalStorage";
+import { SETUP_STORAGE_KEY } from "../utils/localStorage";
+import { SETUP_STEPS } from "../steps/registry";
+import type { SetupWizardState } from "./useSetupWizardState";
+
+const LOCAL_SAVE_DELAY_MS = 1000;
+const SERVER_SAVE_DELAY_MS = 5000;
+
+// Drafts without a time are older than any timestamped one
+function newerDraft(a: SetupDraft | null, b: SetupDraft | null): SetupDraft | null {
+  if (!a || !b) return a ?? b;
+  return (b.savedAt ?? "") > (a.savedAt ?? "") ? b : a;
+}
+
+// A draft still on the first step holds nothing worth resuming
+function hasProgress(draft: SetupDraft | null): draft is SetupDraft {
+  return draft !== null && draft.stepId !== SETUP_STEPS[0].id;
+}
+
+function reportSaveError(error: unknown) {
+  // A missing backend is expected in portfolio mode; the local draft still works
+  if (!isApiErrorCode(error, "BACKEND_UNAVAILABLE") && !isApiErrorCode(error, "NETWORK_ERROR")) {
+    console.warn("Failed to save setup draft:", error);
+  }
+}
+
+// Removes the draft from this browser and the server
+function clearSetupDraft() {
+  safeLocalStorage.removeItem(SETUP_STORAGE_KEY);
+  deleteSetupDraft().catch(reportSaveError);
+}
+
+interface UseSetupDraftOptions {
+  /** Resume the pending draft without asking */
+  autoResume?: boolean;
+}
+
+export function useSetupDraft(wizard: SetupWizardState, { autoResume = false }: UseSetupDraftOptions = {}) {
+  const [localDraft] = useState(() => parseStoredSetupDraft(safeLocalStorage.getItem(SETUP_STORAGE_KEY)));
+  const { data: serverDraft, isPending } = useQuery({
+    queryKey: ["setup-draft"],
+    queryFn: async () => (await fetchSetupDraft()).draft,
+    retry: false,
+    refetchOnWindowFocus: false,
+    staleTime: Infinity,
+  });
+  const [answered, setAnswered] = useState(false);
+
+  const candidate = answered ? null : newerDraft(localDraft, serverDraft ?? null);
+  const pendingDraft = hasProgress(candidate) ? candidate : null;
+  const isChecking = !answered && isPending && !hasProgress(localDraft);
+  const canAutosave = answered || (!isPending && !pendingDraft);
+
+  const isFinished = wizard.currentIndex === wizard.visibleSteps.length - 1;
+  const snapshot = JSON.stringify({ stepId: wizard.currentStep.id, state: wizard.draftState });
+  const savedSnapshot = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!canAutosave || isFinished) return;
+    // The wizard as first shown (or as just resumed) isn't an edit
+    if (savedSnapshot.current === null) {
+      savedSnapshot.current = snapshot;
+      return;
+    }
+    if (snapshot === savedSnapshot.current) return;
+
+    const parsed = setupDraftSchema.safeParse(wizard.getDraft());
+    if (!parsed.success) return;
+    const draft = parsed.data;
+
+    const localTimer = setTimeout(() => {
+      savedSnapshot.current = snapshot;
+      safeLocalStorage.setItem(SETUP_STORAGE_KEY, JSON.stringify(draft));
+    }, LOCAL_SAVE_DELAY_MS);
+    const serverTimer = setTimeout(() => {
+      saveSetupDraft(draft).catch(reportSaveError);
+    }, SERVER_SAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(localTimer);
+      clearTimeout(serverTimer);
+    };
+  // getDraft changes every render; snapshot covers everything it reads
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot, canAutosave, isFinished]);
+
+  // Nothing is left to resume once setup is done
+  useEffect(() => {
+    if (isFinished) {
+      clearSetupDraft();
+    } else if (wizard.setupStatus?.configured) {
+      safeLocalStorage.removeItem(SETUP_STORAGE_KEY);
+    }
+  }, [isFinished, wizard.setupStatus?.configured]);
+
+  const resume = () => {
+    if (pendingDraft) wizard.applyDraft(pendingDraft);
+    setAnswered(true);
+  };
+
+  const discard = () => {
+    clearSetupDraft();
+    setAnswered(true);
+  };
+
+  useEffect(() => {
+    if (autoResume && pendingDraft) resume();
+  // resume only reads pendingDraft
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoResume, pendingDraft]);
+
+  return { pendingDraft, isChecking, resume, discard };
+}
@@ -0,0 +1,168 @@
+/**
+ * useSetupWizardState Tests
+ *
+ * Covers navigation derived from the step registry: which steps are shown
+ * for the owner's choices, restoring drafts, and staying on a step whose
+ * save fails.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { clearCsrfToken } from "@/lib/apiClient";
+import { SETUP_DRAFT_VERSION, setupDraftSchema } from "@shared/setupDraft";
+import { useSetupWizardState } from "./useSetupWizardState";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  localStorage.clear();
+  clearCsrfToken();
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(async (input) => {
+    const url = String(input);
+    if (url.endsWith("/setup/status")) return json({ configured: false, missing: [], details: {} });
+    if (url.endsWith("/csrf-token")) return json({ token: "t" });
+    return json({ success: false, code: "INTERNAL_ERROR", message: "Save failed" }, 500);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+function renderWizard() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return renderHook(() => useSetupWizardState(), { wrapper });
+}
+
+const ids = (steps: readonly { id: string }[]) => steps.map((step) => step.id);
+
+describe("useSetupWizardState", () => {
+  it("shows the Google steps by default and Slack only when wanted", () => {
+    const { result } = renderWizard();
+    expect(ids(result.current.visibleSteps)).toEqual([
+      "welcome",
+      "branding",
+      "theme",
+      "content",
+      "sections",
+      "layout",
+      "form-fields",
+      "header-footer",
+      "notifications",
+      "google-setup",
+      "credentials",
+      "google-auth",
+      "complete",
+    ]);
+
+    act(() => {
+      result.current.setNotificationPreferences({
+        wantsEmail: false,
+        wantsSlack: true,
+        wantsWebhook: false,
+      });
+      result.current.setCredentials({ ...result.current.credentials, LEAD_SINK: "csv" });
+    });
+
+    expect(ids(result.current.visibleSteps)).toEqual([
+      "welcome",
+      "branding",
+      "theme",
+      "content",
+      "sections",
+      "layout",
+      "form-fields",
+      "header-footer",
+      "notifications",
+      "slack",
+      "complete",
+    ]);
+  });
+
+  it("restores a draft's state and step", () => {
+    const { result } = renderWizard();
+    act(() => {
+      result.current.applyDraft({
+        version: SETUP_DRAFT_VERSION,
+        savedAt: "2026-10-01T09:30:00.000Z",
+        stepId: "content",
+        state: {
+          branding: { companyName: "Acme" },
+          notificationPreferences: { wantsSlack: true },
+        },
+      });
+    });
+
+    expect(result.current.currentStep.id).toBe("content");
+    expect(result.current.branding).toMatchObject({ companyName: "Acme", primaryColor: "" });
+    expect(result.current.notificationPreferences).toEqual({
+      wantsEmail: true,
+      wantsSlack: true,
+      wantsWebhook: false,
+    });
+    expect(ids(result.current.visibleSteps)).toContain("slack");
+  });
+
+  it("falls back to the previous visible step when the draft's step is hidden", () => {
+    const { result } = renderWizard();
+    act(() => {
+      result.current.applyDraft({
+        version: SETUP_DRAFT_VERSION,
+        savedAt: null,
+        stepId: "slack",
+        state: {},
+      });
+    });
+    expect(result.current.currentStep.id).toBe("google-auth");
+    expect(result.current.currentIndex + 1).toBe(12);
+  });
+
+  it("leaves secrets out of drafts", () => {
+    const { result } = renderWizard();
+    act(() => {
+      result.current.setCredentials({
+        ...result.current.credentials,
+        GOOGLE_CLIENT_ID: "client-id",
+        GOOGLE_CLIENT_SECRET: "GOCSPX-secret",
+        SLACK_WEBHOOK_URL: "https://hooks.slack.com/services/T/B/x",
+      });
+    });
+
+    const { state } = setupDraftSchema.parse(result.current.getDraft());
+    expect(state.credentials).toMatchObject({ GOOGLE_CLIENT_ID: "client-id" });
+    expect(JSON.stringify(state)).not.toMatch(/GOCSPX|hooks\.slack\.com/);
+  });
+
+  it("stays on the step and keeps the error when its save fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { result } = renderWizard();
+    act(() => result.current.goTo("branding"));
+    expect(result.current.canContinue).toBe(false);
+
+    act(() => {
+      result.current.setBranding({ ...result.current.branding, companyName: "Acme" });
+    });
+    expect(result.current.canContinue).toBe(true);
+
+    await act(() => result.current.goNext());
+
+    await waitFor(() => expect(result.current.saveError?.message).toBe("Save failed"));
+    expect(result.current.currentStep.id).toBe("branding");
+    expect(result.current.isSaving).toBe(false);
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * useSetupWizardState Hook
+ *
+ * Everything the setup wizard remembers while the owner fills it in: the
+ * branding, content and notification settings, the mutations that save
+ * them, and which step is open. Navigation follows SETUP_STEPS, so the
+ * next, previous and total steps come from each step's visibility rather
+ * than from step numbers. getDraft and applyDraft convert all of it to and
+ * from a SetupDraft (see useSetupDraft).
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/hooks/useSetupWizardState
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  fetchSetupStatus,
+  isApiErrorCode,
+  saveBranding,
+  saveCredentials,
+  uploadLogo,
+  validateSetup,
+} from "@/lib/apiClient";
+import type { CredentialsPayload } from "@shared/api";
+import type { ThemeConfig } from "@shared/appConfig";
+import { DEFAULT_FORM_FIELDS, type FormFieldDefinition } from "@shared/formDefinition";
+import { normalizeLayoutSection, resolveLayout, type LayoutSection } from "@shared/pageLayout";
+import { SETUP_DRAFT_VERSION, type SetupDraft, type SetupDraftState } from "@shared/setupDraft";
+import type { BrandingConfigPayload } from "@/lib/types";
+import { SETUP_STEPS, type SetupStepDefinition } from "../steps/registry";
+import { getConfigAuthor } from "../utils/localStorage";
+import { sectionsStateFromContent } from "../utils/sections";
+import type { HeaderFooterState, SectionsState, SetupStatus, ValidationResult } from "../types";
+
+// Open Graph cards the server generated from an uploaded logo (see server/services/logoAssets.ts)
+const GENERATED_OG_IMAGE = /^\/uploads\/og-[\w-]+\.png$/;
+
+function useWizardData(stepId: string) {
+  const [notificationPreferences, setNotificationPreferences] = useState({
+    wantsEmail: true,
+    wantsSlack: false,
+    wantsWebhook: false,
+  });
+
+  // Branding & Customization State
+  const [branding, setBranding] = useState({
+    companyName: "",
+    logo: "",
+    logoRetina: "",
+    favicon: "",
+    appleTouchIcon: "",
+    logoFile: null as File | null,
+    logoPreview: "",
+    primaryColor: "",
+    secondaryColor: "",
+    siteUrl: "",
+  });
+
+  // Theme State (design tokens left out keep the site defaults)
+  const [theme, setTheme] = useState<ThemeConfig>({});
+
+  // Logo upload state
+  const [logoUploading, setLogoUploading] = useState(false);
+  const [logoUploadError, setLogoUploadError] = useState<string | null>(null);
+
+  // Content Customization State
+  const [content, setContent] = useState({
+    heroTitle: "",
+    heroDescription: "",
+    heroCtaText: "",
+    heroSecondaryCtaText: "",
+    heroTertiaryCtaText: "",
+    heroBenefits: ["Enterprise-ready security", "Real-time notifications", "Zero manual data entry"],
+    formTitle: "",
+    formDescription: "",
+    formSubmitText: "",
+  });
+
+  // Landing Page Sections State (starts from the sections the site shows by default)
+  const [sections, setSections] = useState<SectionsState>(() => sectionsStateFromContent(undefined));
+
+  // Page Layout State (the order and visibility of the sections)
+  const [layout, setLayout] = useState<LayoutSection[]>(() => resolveLayout({}));
+
+  // Form Fields State
+  const [formFields, setFormFields] = useState<FormFieldDefinition[]>(() => [...DEFAULT_FORM_FIELDS]);
+
+  // Header & Footer State
+  const [headerFooter, setHeaderFooter] = useState({
+    headerCtaText: "",
+    navigation: [
+      { label: "Features", sectionId: "features" },
+      { label: "How It Works", sectionId: "how-it-works" },
+      { label: "Contact Us", sectionId: "demo-form" },
+    ] as HeaderFooterState["navigation"],
+    footerDescription: "",
+    socialGithub: "",
+    socialTwitter: "",
+    socialLinkedin: "",
+    socialFacebook: "",
+    socialInstagram: "",
+    socialYouTube: "",
+    socialTikTok: "",
+    socialPinterest: "",
+    socialSnapchat: "",
+    socialDiscord: "",
+    privacyPolicyUrl: "",
+    termsOfServiceUrl: "",
+  });
+
+  // SEO State
+  const [seo, setSeo] = useState({
+    pageTitle: "",
+    metaDescription: "",
+    ogImage: "",
+    ogTitle: "",
+    ogDescription: "",
+    twitterCard: "",
+    twitterImage: "",
+    canonicalUrl: "",
+    keywords: "",
+  });
+
+  // Analytics State
+  const [analytics, setAnalytics] = useState({
+    googleAnalyticsId: "",
+    googleTagManagerId: "",
+    facebookPixelId: "",
+    linkedinInsightTag: "",
+    customAnalyticsScript: "",
+  });
+
+  const [credentials, setCredentials] = useState({
+    GOOGLE_CLIENT_ID: "",
+    GOOGLE_CLIENT_SECRET: "",
+    NOTIFICATION_EMAIL: "",
+    SLACK_WEBHOOK_URL: "",
+    WEBHOOK_URL: "",
+    ENABLE_SLACK_NOTIFICATIONS: "false",
+    ENABLE_EMAIL_NOTIFICATIONS: "true",
+    ENABLE_WEBHOOK_NOTIFICATIONS: "false",
+    ENABLE_AUTO_RESPONDER: "false",
+    // ORGANIZATION_NAME is auto-populated from branding.companyName
+    ORGANIZATION_NAME: "",
+    AUTO_RESPONDER_SUBJECT: "",
+    AUTO_RESPONDER_BODY: "",
+    // AI Scoring (optional)
+    OPENAI_API_KEY: "",
+    // Google Sheets (optional - auto-created if not provided)
+    SPREADSHEET_ID: "",
+    // Where leads are stored: Google Sheets or a local CSV workbook on the server
+    LEAD_SINK: "google-sheets",
+  });
+
+  // Track auto-responder preview
+  const [showAutoResponderPreview, setShowAutoResponderPreview] = useState(false);
+
+  // Track if we've been rate limited to stop polling
+  const [isRateLimited, setIsRateLimited] = useState(false);
+
+  // Track webhook test state
+  const [webhookTestState, setWebhookTestState] = useState<{
+    testing: boolean;
+    result: ValidationResult | null;
+  }>({ testing: false, result: null });
+
+  // Track which webhook service the user wants to connect
+  const [selectedWebhookService, setSelectedWebhookService] = useState<string | null>(null);
+
+  // Hide branding state
+  const [hideBranding, setHideBranding] = useState(false);
+
+  // Email template state
+  const [emailTemplate, setEmailTemplate] = useState({
+    subject: "",
+    introMessage: "",
+    closingSignature: "",
+  });
+
+  // Check setup status
+  // Only poll on steps marked pollsStatus (the OAuth step) to see when authorization completes
+  // Include the step in the query key so refetchInterval updates when the step changes
+  const { data: setupStatus, refetch: refetchStatus } = useQuery<SetupStatus>({
+    queryKey: ["setup-status", stepId],
+    queryFn: async (): Promise<SetupStatus> => {
+      try {
+        const status = await fetchSetupStatus();
+        // If we get a successful response, we're no longer rate limited
+        setIsRateLimited(false);
+        return status;
+      } catch (error) {
+        // If rate limited, stop polling and return default status
+        if (isApiErrorCode(error, "RATE_LIMITED")) {
+          setIsRateLimited(true);
+          return { configured: false, missing: [], details: {} };
+        }
+        throw error;
+      }
+    },
+    refetchInterval: (query) => {
+      // Stop polling if setup is complete
+      if (query.state.data?.configured) {
+        return false;
+      }
+      const queryStepId = query.queryKey[1] as string;
+      const polls = SETUP_STEPS.find(step => step.id === queryStepId)?.pollsStatus;
+      if (polls && !isRateLimited) {
+        return 5000; // Check every 5 seconds
+      }
+      return false; // No polling on other steps
+    },
+    retry: false, // Don't retry on errors to avoid hitting rate limits repeatedly
+    refetchOnWindowFocus: false, // Don't refetch when window regains focus (reduces requests)
+    refetchOnMount: true, // Fetch once on mount
+    staleTime: 10000, // Consider data fresh for 10 seconds
+  });
+
+  // Validate credentials mutation
+  const validateMutation = useMutation<ValidationResult>({
+    mutationFn: validateSetup,
+    onSuccess: async (data) => {
+      if (data.valid) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        await refetchStatus();
+      }
+    },
+  });
+
+  // Upload logo mutation
+  // The company name and color style the Open Graph card generated from the logo
+  const uploadLogoMutation = useMutation({
+    mutationFn: (file: File) =>
+      uploadLogo(file, { companyName: branding.companyName, primaryColor: branding.primaryColor }),
+  });
+
+  // Save branding mutation
+  const saveBrandingMutation = useMutation({
+    mutationFn: (config: BrandingConfigPayload) => saveBranding(config, getConfigAuthor()),
+    onSuccess: async () => {
+      // Invalidate app-config query so open previews refetch the draft immediately
+      const { queryClient } = await import("@/lib/queryClient");
+      await queryClient.invalidateQueries({ queryKey: ["app-config"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-revisions"] });
+      await queryClient.invalidateQueries({ queryKey: ["config-unpublished"] });
+    },
+    onError: (error) => {
+      // Only log unexpected errors (a missing backend is expected in portfolio mode)
+      if (!isApiErrorCode(error, "BACKEND_UNAVAILABLE") && !isApiErrorCode(error, "CSRF_INVALID")) {
+        console.error("Failed to save branding:", error);
+      }
+    },
+  });
+
+  // Save credentials mutation
+  const saveCredentialsMutation = useMutation({
+    mutationFn: saveCredentials,
+    onSuccess: async () => {
+      // Invalidate app-config and credentials queries to ensure UI updates immediately
+      const { queryClient } = await import("@/lib/queryClient");
+      await queryClient.invalidateQueries({ queryKey: ["app-config"] });
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+      await refetchStatus();
+    },
+  });
+
+  // Handle logo file selection
+  const handleLogoFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      // Reset file input
+      e.target.value = "";
+      return;
+    }
+
+    // Validate file type
+    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/svg+xml", "image/webp"];
+    if (!allowedTypes.includes(file.type)) {
+      setLogoUploadError("Please select a valid image file (JPG, PNG, GIF, SVG, or WebP)");
+      e.target.value = "";
+      return;
+    }
+
+    // Validate file size (5MB max)
+    const maxSize = 5 * 1024 * 1024;
+    if (file.size > maxSize) {
+      setLogoUploadError("File size must be less than 5MB");
+      e.target.value = "";
+      return;
+    }
+
+    setLogoUploadError(null);
+    setLogoUploading(true);
+
+    // Create preview first
+    const reader = new FileReader();
+    const previewPromise = new Promise<string>((resolve, reject) => {
+      reader.onload = (event) => {
+        if (event.target?.result) {
+          resolve(event.target.result as string);
+        } else {
+          reject(new Error("Failed to read file"));
+        }
+      };
+      reader.onerror = () => reject(new Error("Failed to read file"));
+      reader.readAsDataURL(file);
+    });
+
+    try {
+      const preview = await previewPromise;
+      setBranding(prev => ({ ...prev, logoFile: file, logoPreview: preview }));
+
+      // Upload file
+      try {
+        const result = await uploadLogoMutation.mutateAsync(file);
+        if (result?.url) {
+          setBranding(prev => ({
+            ...prev,
+            logo: result.url,
+            logoRetina: result.assets.logoRetina,
+            favicon: result.assets.favicon,
+            appleTouchIcon: result.assets.appleTouchIcon,
+            logoFile: file,
+            logoPreview: preview
+          }));
+          // The generated card replaces none or an earlier generated one, never an image the owner chose
+          setSeo(prev =>
+            !prev.ogImage || GENERATED_OG_IMAGE.test(prev.ogImage)
+              ? { ...prev, ogImage: result.assets.ogImage }
+              : prev
+          );
+          setLogoUploadError(null);
+        } else {
+          throw new Error("Upload succeeded but no URL returned");
+        }
+      } catch (uploadError) {
+        const errorMessage = uploadError instanceof Error ? uploadError.message : "Failed to upload logo";
+        setLogoUploadError(errorMessage);
+        setBranding(prev => ({ ...prev, logoFile: null, logoPreview: "" }));
+        throw uploadError; // Re-throw to be caught by outer catch
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to upload logo";
+      if (!logoUploadError) {
+        setLogoUploadError(errorMessage);
+      }
+      setBranding(prev => ({ ...prev, logoFile: null, logoPreview: "" }));
+      console.error("Logo upload error:", error);
+    } finally {
+      setLogoUploading(false);
+      // Reset file input to allow re-uploading the same file
+      e.target.value = "";
+    }
+  };
+
+  // Credentials payload sent to the server, with preferences from earlier steps applied
+  const buildCredentialsPayload = (): CredentialsPayload => ({
+    ...credentials,
+    ENABLE_EMAIL_NOTIFICATIONS: notificationPreferences.wantsEmail ? "true" : "false",
+    ENABLE_SLACK_NOTIFICATIONS: notificationPreferences.wantsSlack ? "true" : "false",
+    ENABLE_WEBHOOK_NOTIFICATIONS: notificationPreferences.wantsWebhook ? "true" : "false",
+    // Only save auto-responder fields if enabled
+    ENABLE_AUTO_RESPONDER: credentials.ENABLE_AUTO_RESPONDER || "false",
+    // Use companyName from branding for ORGANIZATION_NAME
+    ORGANIZATION_NAME: branding?.companyName || credentials.ORGANIZATION_NAME || "",
+    AUTO_RESPONDER_SUBJECT: credentials.AUTO_RESPONDER_SUBJECT || "",
+    AUTO_RESPONDER_BODY: credentials.AUTO_RESPONDER_BODY || "",
+    // AI Scoring (optional - only save if provided)
+    OPENAI_API_KEY: credentials.OPENAI_API_KEY || "",
+    // Google Sheets (optional - only save if provided)
+    SPREADSHEET_ID: credentials.SPREADSHEET_ID || "",
+  });
+
+  // Everything a draft keeps; secrets and the logo file are dropped when the draft is parsed
+  const draftState: SetupDraftState = {
+    notificationPreferences,
+    branding,
+    theme,
+    content,
+    sections,
+    layout,
+    formFields,
+    headerFooter,
+    seo,
+    analytics,
+    credentials,
+    emailTemplate,
+    hideBranding,
+    selectedWebhookService,
+  };
+
+  // Sections missing from the draft keep their current values
+  const applyDraftState = (state: SetupDraftState) => {
+    if (state.notificationPreferences) setNotificationPreferences(prev => ({ ...prev, ...state.notificationPreferences }));
+    if (state.branding) setBranding(prev => ({ ...prev, ...state.branding }));
+    if (state.theme) setTheme(state.theme);
+    if (state.content) setContent(prev => ({ ...prev, ...state.content }));
+    if (state.sections) setSections(prev => ({ ...prev, ...state.sections }));
+    if (state.layout) setLayout(state.layout.map(normalizeLayoutSection));
+    if (state.formFields) setFormFields(state.formFields);
+    if (state.headerFooter) setHeaderFooter(prev => ({ ...prev, ...state.headerFooter }));
+    if (state.seo) setSeo(prev => ({ ...prev, ...state.seo }));
+    if (state.analytics) setAnalytics(prev => ({ ...prev, ...state.analytics }));
+    if (state.credentials) setCredentials(prev => ({ ...prev, ...state.credentials }));
+    if (state.emailTemplate) setEmailTemplate(prev => ({ ...prev, ...state.emailTemplate }));
+    if (state.hideBranding !== undefined) setHideBranding(state.hideBranding);
+    if (state.selectedWebhookService !== undefined) setSelectedWebhookService(state.selectedWebhookService);
+  };
+
+  return {
+    draftState,
+    applyDraftState,
+    notificationPreferences,
+    setNotificationPreferences,
+    branding,
+    setBranding,
+    logoUploading,
+    logoUploadError,
+    setLogoUploadError,
+    handleLogoFileChange,
+    theme,
+    setTheme,
+    content,
+    setContent,
+    sections,
+    setSections,
+    layout,
+    setLayout,
+    formFields,
+    setFormFields,
+    headerFooter,
+    setHeaderFooter,
+    seo,
+    setSeo,
+    analytics,
+    setAnalytics,
+    credentials,
+    setCredentials,
+    buildCredentialsPayload,
+    showAutoResponderPreview,
+    setShowAutoResponderPreview,
+    webhookTestState,
+    setWebhookTestState,
+    selectedWebhookService,
+    setSelectedWebhookService,
+    hideBranding,
+    setHideBranding,
+    emailTemplate,
+    setEmailTemplate,
+    setupStatus,
+    validateMutation,
+    saveBrandingMutation,
+    saveCredentialsMutation,
+  };
+}
+
+/** What step visibility, validation and save actions read from the wizard. */
+export type SetupWizardData = ReturnType<typeof useWizardData>;
+
+export function useSetupWizardState() {
+  const [stepId, setStepId] = useState(SETUP_STEPS[0].id);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<Error | null>(null);
+
+  const data = useWizardData(stepId);
+
+  const isVisible = (step: SetupStepDefinition) => step.isVisible?.(data) ?? true;
+  const visibleSteps = SETUP_STEPS.filter(isVisible);
+
+  // A restored or open step can be hidden by a later choice; fall back to the closest earlier one
+  const stepIndex = SETUP_STEPS.findIndex(step => step.id === stepId);
+  const currentStep =
+    SETUP_STEPS.slice(0, stepIndex + 1).reverse().find(isVisible) ?? visibleSteps[0];
+  const currentIndex = visibleSteps.indexOf(currentStep);
+
+  const canContinue = currentStep.validate?.(data) ?? true;
+
+  const goTo = (id: string) => {
+    setSaveError(null);
+    setStepId(id);
+  };
+
+  /** The first visible step after `id`. */
+  const stepAfter = (id: string) => {
+    const index = SETUP_STEPS.findIndex(step => step.id === id);
+    return SETUP_STEPS.slice(index + 1).find(isVisible) ?? currentStep;
+  };
+
+  const goBack = () => {
+    const previous = visibleSteps[currentIndex - 1];
+    if (previous) goTo(previous.id);
+  };
+
+  // Validates and saves the open step; a save that returns false keeps it open
+  const goNext = async () => {
+    if (!canContinue || isSaving) return;
+    setSaveError(null);
+    if (currentStep.save) {
+      setIsSaving(true);
+      try {
+        if ((await currentStep.save(data)) === false) return;
+      } catch (error) {
+        setSaveError(error instanceof Error ? error : new Error("Failed to save. Please try again."));
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+    goTo(stepAfter(currentStep.id).id);
+  };
+
+  /** The wizard as a draft, stamped with the current time. */
+  const getDraft = (): SetupDraft => ({
+    version: SETUP_DRAFT_VERSION,
+    savedAt: new Date().toISOString(),
+    stepId: currentStep.id,
+    state: data.draftState,
+  });
+
+  const applyDraft = (draft: SetupDraft) => {
+    data.applyDraftState(draft.state);
+    goTo(draft.stepId);
+  };
+
+  return {
+    ...data,
+    getDraft,
+    applyDraft,
+    currentStep,
+    currentIndex,
+    visibleSteps,
+    canContinue,
+    isSaving,
+    saveError,
+    goTo,
+    goBack,
+    goNext,
+    stepAfter,
+  };
+}
+
+export type SetupWizardState = ReturnType<typeof useSetupWizardState>;
@@ -0,0 +1,229 @@
+/**
+ * Branding Step Component
+ *
+ * Company name, logo, colors and website URL. Each brand color shows its
+ * generated shades and any WCAG contrast problems, and the logo's own
+ * colors are offered as suggestions.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/BrandingStep
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { FIELD_MAX_LENGTHS, getCharCountText, getRemainingChars, exceedsMaxLength } from "@/lib/validation";
+import { X } from "lucide-react";
+import { BrandContrastCheck } from "../components/BrandContrastCheck";
+import { LogoColorSuggestions } from "../components/LogoColorSuggestions";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+// Variants generated from an uploaded logo, which no longer match once the logo changes otherwise
+const NO_LOGO_VARIANTS = { logoRetina: "", favicon: "", appleTouchIcon: "" };
+
+export function BrandingStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { branding, setBranding, setTheme, logoUploading, logoUploadError, setLogoUploadError, handleLogoFileChange, hideBranding, setHideBranding } = useSetupWizard();
+  const logoSrc = branding.logoPreview || branding.logo;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold mb-2">Customize Your Branding</h3>
+        <p className="text-muted-foreground">
+          Make SmartSheetConnect your own! Customize your company name, logo, and colors. This will appear throughout your lead capture system.
+        </p>
+      </div>
+
+    <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="companyName">Company Name *</Label>
+          <Input
+            id="companyName"
+            value={branding.companyName}
+            onChange={(e) => {
+              const value = e.target.value;
+              if (value.length <= FIELD_MAX_LENGTHS.companyName) {
+                setBranding({ ...branding, companyName: value });
+              }
+            }}
+            placeholder="Acme Corporation"
+            required
+            maxLength={FIELD_MAX_LENGTHS.companyName}
+            className={`w-full ${exceedsMaxLength("companyName", branding.companyName) ? "border-destructive" : ""}`}
+          />
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">This will appear in the header, footer, and notifications</p>
+            <span className={`text-xs ${getRemainingChars("companyName", branding.companyName) < 20 ? "text-destructive" : "text-muted-foreground"}`}>
+              {getCharCountText("companyName", branding.companyName)}
+            </span>
+          </div>
+          {getRemainingChars("companyName", branding.companyName) < 20 && (
+            <p className="text-xs text-destructive">Keep under 50 characters for best display on mobile</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <Label htmlFor="logo" className="text-sm font-medium">Logo</Label>
+          <div className="flex items-start gap-4">
+            {branding.logoPreview || branding.logo ? (
+              <div className="relative flex-shrink-0">
+                <img
+                  key={`${branding.logoPreview || branding.logo}-${branding.logoFile ? 'file' : 'url'}`}
+                  src={branding.logoPreview || branding.logo}
+                  alt="Logo preview"
+                  className="w-16 h-16 object-contain rounded-lg bg-muted border"
+                  onError={(e) => {
+                    const target = e.target as HTMLImageElement;
+                    if (target.src !== "/assets/SmartSheetConnect.png") {
+                      target.src = "/assets/SmartSheetConnect.png";
+                    }
+                  }}
+                />
+                {(branding.logo || branding.logoFile) && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setBranding({ ...branding, ...NO_LOGO_VARIANTS, logo: "", logoFile: null, logoPreview: "" });
+                      setLogoUploadError(null);
+                    }}
+                    className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-destructive text-white flex items-center justify-center text-xs hover:bg-destructive/90 transition-colors"
+                    aria-label="Remove logo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="w-16 h-16 border-2 border-dashed rounded-lg bg-muted/50 flex items-center justify-center flex-shrink-0">
+                <span className="text-xs text-muted-foreground">No logo</span>
+              </div>
+            )}
+            <div className="flex-1 space-y-2 min-w-0">
+              <Input
+                id="logo"
+                type="file"
+                accept="image/jpeg,image/jpg,image/png,image/gif,image/svg+xml,image/webp"
+                onChange={handleLogoFileChange}
+                disabled={logoUploading}
+                className="h-9 text-xs cursor-pointer file:cursor-pointer file:mr-4 file:py-1 file:px-2 file:rounded file:border-0 file:text-sm file:font-medium file:bg-primary file:text-primary-foreground hover:file:bg-primary/90"
+              />
+              <Input
+                id="logoUrl"
+                value={branding.logo}
+                onChange={(e) => {
+                  const newLogo = e.target.value.trim();
+                  setLogoUploadError(null);
+                  if (newLogo) {
+                    setBranding({ ...branding, ...NO_LOGO_VARIANTS, logo: newLogo, logoFile: null, logoPreview: newLogo });
+                  } else {
+                    setBranding({ ...branding, ...NO_LOGO_VARIANTS, logo: "", logoFile: null, logoPreview: "" });
+                  }
+                }}
+                placeholder="Or enter logo URL"
+                type="url"
+                className="h-9 text-xs"
+                disabled={logoUploading}
+              />
+              {logoUploading && <p className="text-xs text-muted-foreground">Uploading...</p>}
+              {logoUploadError && <p className="text-xs text-destructive">{logoUploadError}</p>}
+            </div>
+          </div>
+        </div>
+
+        {logoSrc && !logoUploading && (
+          <LogoColorSuggestions
+            src={logoSrc}
+            onApply={({ primary, secondary, accent, accentForeground }) => {
+              setBranding((prev) => ({
+                ...prev,
+                primaryColor: primary ?? prev.primaryColor,
+                secondaryColor: secondary ?? prev.secondaryColor,
+              }));
+              if (accent && accentForeground) {
+                setTheme((prev) => ({
+                  ...prev,
+                  colors: { ...prev.colors, accent, "accent-foreground": accentForeground },
+                }));
+              }
+            }}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="primaryColor" className="text-sm font-medium">Primary Color</Label>
+            <Input
+              id="primaryColor"
+              value={branding.primaryColor}
+              onChange={(e) => setBranding({ ...branding, primaryColor: e.target.value })}
+              placeholder="#3B82F6"
+              type="color"
+              className="h-10"
+            />
+            <BrandContrastCheck
+              label="Primary color"
+              color={branding.primaryColor}
+              onApply={(primaryColor) => setBranding({ ...branding, primaryColor })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="secondaryColor" className="text-sm font-medium">Secondary Color</Label>
+            <Input
+              id="secondaryColor"
+              value={branding.secondaryColor}
+              onChange={(e) => setBranding({ ...branding, secondaryColor: e.target.value })}
+              placeholder="#10B981"
+              type="color"
+              className="h-10"
+            />
+            <BrandContrastCheck
+              label="Secondary color"
+              color={branding.secondaryColor}
+              onApply={(secondaryColor) => setBranding({ ...branding, secondaryColor })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="siteUrl" className="text-sm font-medium whitespace-nowrap">Website URL</Label>
+          <Input
+            id="siteUrl"
+            value={branding.siteUrl}
+            onChange={(e) => setBranding({ ...branding, siteUrl: e.target.value })}
+            placeholder="https://yourdomain.com"
+            type="url"
+            className="h-10"
+          />
+        </div>
+      </div>
+
+      {/* White-Label Toggle */}
+      <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-muted/20">
+        <div className="space-y-0.5">
+          <Label htmlFor="hideBranding" className="text-sm font-medium">
+            Remove SmartSheetConnect Branding
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Hide SmartSheetConnect references in footer and branding
+          </p>
+        </div>
+        <Switch
+          id="hideBranding"
+          checked={hideBranding}
+          onCheckedChange={setHideBranding}
+        />
+      </div>
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save branding configuration"
+      />
+    </div>
+  );
+}
@@ -8,6 +8,8 @@
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle2, ExternalLink, MessageSquare, AlertCircle } from "lucide-react";
+import { ConfigPublishCard } from "../components/ConfigPublishCard";
+import { EmbedCodeCard } from "../components/EmbedCodeCard";
 
 export function CompletionStep() {
   return (
@@ -58,10 +60,15 @@ export function CompletionStep() {
       <Alert className="bg-muted/30">
         <AlertCircle className="h-4 w-4" />
         <AlertDescription className="text-sm">
-          <strong>Next Steps:</strong> Your contact form is live. Test it by submitting a lead from your homepage.
-          You can always return to the setup wizard to make changes.
+          <strong>Next Steps:</strong> Your contact form is live. Publish your branding and content below so
+          visitors see them, then test the form by submitting a lead from your homepage. You can always return
+          to the setup wizard to make changes.
         </AlertDescription>
       </Alert>
+
+      <ConfigPublishCard />
+
+      <EmbedCodeCard />
     </div>
   );
 }
@@ -0,0 +1,245 @@
+/**
+ * Content Step Component
+ *
+ * Hero and lead form copy, with industry templates.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/ContentStep
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FIELD_MAX_LENGTHS, getCharCountText, getRemainingChars, exceedsMaxLength, validateDescription } from "@/lib/validation";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+export function ContentStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { content, setContent } = useSetupWizard();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Content</h3>
+        <p className="text-sm text-muted-foreground">
+          Customize text and messaging for your homepage and form
+        </p>
+      </div>
+
+      {/* Template Presets */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Quick Start Templates</Label>
+        <Select
+          onValueChange={(value) => {
+            const presets: Record<string, Partial<typeof content>> = {
+              professional: {
+                heroTitle: "Professional Services That Deliver Results",
+                heroDescription: "Trusted by businesses nationwide. We provide expert solutions tailored to your needs.",
+                heroCtaText: "Get Started",
+                heroSecondaryCtaText: "View Services",
+                formTitle: "Request a Consultation",
+                formDescription: "Tell us about your project and we'll get back to you within 24 hours.",
+                formSubmitText: "Send Request",
+              },
+              realestate: {
+                heroTitle: "Find Your Dream Home Today",
+                heroDescription: "Expert real estate services with personalized attention. Your next home is just a click away.",
+                heroCtaText: "Browse Properties",
+                heroSecondaryCtaText: "Schedule Tour",
+                formTitle: "Contact Our Team",
+                formDescription: "Interested in a property? Get in touch and we'll help you find the perfect match.",
+                formSubmitText: "Contact Agent",
+              },
+              agency: {
+                heroTitle: "Creative Agency That Drives Growth",
+                heroDescription: "We help brands stand out with innovative marketing strategies and stunning creative work.",
+                heroCtaText: "Start Project",
+                heroSecondaryCtaText: "View Portfolio",
+                formTitle: "Let's Work Together",
+                formDescription: "Ready to elevate your brand? Share your vision and we'll bring it to life.",
+                formSubmitText: "Get Quote",
+              },
+              contractor: {
+                heroTitle: "Quality Construction & Renovation Services",
+                heroDescription: "Licensed, insured, and experienced. We deliver exceptional results on time and on budget.",
+                heroCtaText: "Get Estimate",
+                heroSecondaryCtaText: "View Projects",
+                formTitle: "Request a Free Estimate",
+                formDescription: "Tell us about your project and we'll provide a detailed quote within 48 hours.",
+                formSubmitText: "Request Estimate",
+              },
+              coach: {
+                heroTitle: "Transform Your Life with Expert Coaching",
+                heroDescription: "Personalized coaching programs designed to help you achieve your goals and unlock your potential.",
+                heroCtaText: "Book Session",
+                heroSecondaryCtaText: "Learn More",
+                formTitle: "Schedule Your Consultation",
+                formDescription: "Take the first step toward transformation. Book a free discovery call today.",
+                formSubmitText: "Book Now",
+              },
+            };
+            if (presets[value]) {
+              setContent({ ...content, ...presets[value] });
+            }
+          }}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Choose a template (optional)" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="professional">Professional Services</SelectItem>
+            <SelectItem value="realestate">Real Estate</SelectItem>
+            <SelectItem value="agency">Agency</SelectItem>
+            <SelectItem value="contractor">Contractor</SelectItem>
+            <SelectItem value="coach">Coach / Consultant</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Templates will fill in suggested content. You can edit any field after selecting.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+          <h4 className="text-sm font-medium">Hero Section</h4>
+
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="heroTitle" className="text-sm font-medium">Title</Label>
+              <Input
+                id="heroTitle"
+                value={content.heroTitle}
+                onChange={(e) => setContent({ ...content, heroTitle: e.target.value })}
+                placeholder="Never Miss a Lead Again"
+                className="h-10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="heroDescription" className="text-sm font-medium">
+                Description <span className="text-muted-foreground text-xs">(10-300 chars recommended)</span>
+              </Label>
+              <textarea
+                maxLength={FIELD_MAX_LENGTHS.heroDescription}
+                id="heroDescription"
+                value={content.heroDescription}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value.length <= FIELD_MAX_LENGTHS.heroDescription) {
+                    setContent({ ...content, heroDescription: value });
+                  }
+                }}
+                placeholder="Professional lead capture system..."
+                className={`w-full min-h-[80px] px-3 py-2 text-sm border rounded-lg resize-none ${
+                  exceedsMaxLength("heroDescription", content.heroDescription)
+                    ? "border-destructive"
+                    : content.heroDescription && !validateDescription(content.heroDescription).valid
+                    ? "border-amber-500"
+                    : ""
+                }`}
+                rows={3}
+              />
+              <div className="flex justify-between items-center">
+                {content.heroDescription && !validateDescription(content.heroDescription).valid && (
+                  <p className="text-xs text-amber-600">{validateDescription(content.heroDescription).suggestion}</p>
+                )}
+                <span className={`text-xs ml-auto ${getRemainingChars("heroDescription", content.heroDescription) < 50 ? "text-destructive" : "text-muted-foreground"}`}>
+                  {getCharCountText("heroDescription", content.heroDescription)}
+                </span>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="heroCtaText" className="text-xs font-medium">Primary CTA</Label>
+                <Input
+                  id="heroCtaText"
+                  value={content.heroCtaText}
+                  onChange={(e) => setContent({ ...content, heroCtaText: e.target.value })}
+                  placeholder="Try Demo"
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="heroSecondaryCtaText" className="text-xs font-medium">Secondary CTA</Label>
+                <Input
+                  id="heroSecondaryCtaText"
+                  value={content.heroSecondaryCtaText}
+                  onChange={(e) => setContent({ ...content, heroSecondaryCtaText: e.target.value })}
+                  placeholder="Set Up Your Own"
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="heroTertiaryCtaText" className="text-xs font-medium">Tertiary CTA</Label>
+                <Input
+                  id="heroTertiaryCtaText"
+                  value={content.heroTertiaryCtaText}
+                  onChange={(e) => setContent({ ...content, heroTertiaryCtaText: e.target.value })}
+                  placeholder="Learn More"
+                  className="h-9 text-sm"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+          <h4 className="text-sm font-medium">Contact Form</h4>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="formTitle" className="text-sm font-medium">Title</Label>
+              <Input
+                id="formTitle"
+                value={content.formTitle}
+                onChange={(e) => setContent({ ...content, formTitle: e.target.value })}
+                placeholder="Get in Touch"
+                className="h-10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="formDescription" className="text-sm font-medium">Description</Label>
+              <textarea
+                id="formDescription"
+                value={content.formDescription}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value.length <= FIELD_MAX_LENGTHS.formDescription) {
+                    setContent({ ...content, formDescription: value });
+                  }
+                }}
+                placeholder="Fill out the form below..."
+                className={`w-full min-h-[60px] px-3 py-2 text-sm border rounded-lg resize-none ${exceedsMaxLength("formDescription", content.formDescription) ? "border-destructive" : ""}`}
+                rows={2}
+                maxLength={FIELD_MAX_LENGTHS.formDescription}
+              />
+              <div className="flex justify-end">
+                <span className={`text-xs ${getRemainingChars("formDescription", content.formDescription) < 50 ? "text-destructive" : "text-muted-foreground"}`}>
+                  {getCharCountText("formDescription", content.formDescription)}
+                </span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="formSubmitText" className="text-sm font-medium">Submit Button Text</Label>
+              <Input
+                id="formSubmitText"
+                value={content.formSubmitText}
+                onChange={(e) => setContent({ ...content, formSubmitText: e.target.value })}
+                placeholder="Send Message"
+                className="h-10"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save content"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+/**
+ * Credentials Step Component
+ *
+ * Google OAuth client, notification email and optional integrations.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/CredentialsStep
+ */
+
+/* eslint-disable react/no-unescaped-entities */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { isApiErrorCode, testWebhook } from "@/lib/apiClient";
+import type { MissingFieldsDetails } from "@shared/api";
+import { CheckCircle2, XCircle, Loader2, AlertCircle, Sparkles, FileSpreadsheet } from "lucide-react";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+export function CredentialsStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { credentials, setCredentials, notificationPreferences, webhookTestState, setWebhookTestState, selectedWebhookService } = useSetupWizard();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Google Credentials</h3>
+        <p className="text-sm text-muted-foreground">
+          Paste the Client ID and Client Secret from Google Cloud Console
+        </p>
+      </div>
+
+      <div className="space-y-5">
+        <div className="space-y-2">
+          <Label htmlFor="clientId" className="text-sm font-medium">
+            Client ID <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="clientId"
+            type="text"
+            value={credentials.GOOGLE_CLIENT_ID}
+            onChange={(e) =>
+              setCredentials({ ...credentials, GOOGLE_CLIENT_ID: e.target.value })
+            }
+            placeholder="123456789-abc.apps.googleusercontent.com"
+            className="h-10"
+          />
+          <p className="text-xs text-muted-foreground">
+            Usually ends with <code className="bg-muted px-1 rounded text-xs">.apps.googleusercontent.com</code>
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="clientSecret" className="text-sm font-medium">
+            Client Secret <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="clientSecret"
+            type="password"
+            value={credentials.GOOGLE_CLIENT_SECRET}
+            onChange={(e) =>
+              setCredentials({ ...credentials, GOOGLE_CLIENT_SECRET: e.target.value })
+            }
+            placeholder="GOCSPX-xxxxxxxxxxxx"
+            className="h-10"
+          />
+          <p className="text-xs text-muted-foreground">
+            Usually starts with <code className="bg-muted px-1 rounded text-xs">GOCSPX-</code>
+          </p>
+        </div>
+
+        {notificationPreferences.wantsSlack && (
+          <div className="space-y-2">
+            <Label htmlFor="slack-webhook-step4" className="text-sm font-medium">Slack Webhook URL (Optional)</Label>
+            <Input
+              id="slack-webhook-step4"
+              type="url"
+              value={credentials.SLACK_WEBHOOK_URL}
+              onChange={(e) =>
+                setCredentials({ ...credentials, SLACK_WEBHOOK_URL: e.target.value })
+              }
+              placeholder="https://hooks.slack.com/services/..."
+              className="h-10"
+            />
+            <p className="text-xs text-muted-foreground">
+              Can be set up later if needed
+            </p>
+          </div>
+        )}
+
+        {notificationPreferences.wantsWebhook && (
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url-step4" className="text-sm font-medium">Webhook URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="webhook-url-step4"
+                type="url"
+                value={credentials.WEBHOOK_URL}
+                onChange={(e) =>
+                  setCredentials({ ...credentials, WEBHOOK_URL: e.target.value })
+                }
+                placeholder={
+                  selectedWebhookService === "zapier"
+                    ? "https://hooks.zapier.com/hooks/catch/..."
+                    : selectedWebhookService === "make"
+                    ? "https://hook.integromat.com/..."
+                    : "https://your-service.com/webhook"
+                }
+                className="flex-1 h-10"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  if (!credentials.WEBHOOK_URL || !credentials.WEBHOOK_URL.trim()) return;
+
+                  setWebhookTestState({ testing: true, result: null });
+
+                  try {
+                    const result = await testWebhook({ webhookUrl: credentials.WEBHOOK_URL });
+                    setWebhookTestState({ testing: false, result });
+                  } catch (error) {
+                    setWebhookTestState({
+                      testing: false,
+                      result: {
+                        valid: false,
+                        error: isApiErrorCode(error, "BACKEND_UNAVAILABLE")
+                          ? error.message
+                          : "Failed to test webhook. Please check the URL and try again."
+                      }
+                    });
+                  }
+                }}
+                disabled={!credentials.WEBHOOK_URL || !credentials.WEBHOOK_URL.trim() || webhookTestState.testing}
+                className="h-10"
+              >
+                {webhookTestState.testing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin text-white" />
+                    Testing...
+                  </>
+                ) : (
+                  "Test"
+                )}
+              </Button>
+            </div>
+            {!credentials.WEBHOOK_URL && (
+              <Alert className="bg-blue-50 border-blue-200 mt-2">
+                <AlertCircle className="h-4 w-4 text-blue-600" />
+                <AlertDescription className="text-xs text-blue-900">
+                  <strong>Need help finding your webhook URL?</strong>
+                  <div className="mt-2 space-y-2">
+                    {selectedWebhookService === "zapier" && (
+                      <div>
+                        <strong>For Zapier:</strong>
+                        <ol className="list-decimal list-inside space-y-1 ml-2 mt-1">
+                          <li>Create a new Zap</li>
+                          <li>Choose "Webhooks by Zapier" → "Catch Hook"</li>
+                          <li>Copy the webhook URL shown</li>
+                        </ol>
+                        <a href="https://zapier.com/help/create/guide/create-zap-from-webhook" target="_blank" rel="noopener noreferrer" className="underline mt-1 inline-block">
+                          View detailed Zapier guide →
+                        </a>
+                      </div>
+                    )}
+                    {selectedWebhookService === "make" && (
+                      <div>
+                        <strong>For Make.com:</strong>
+                        <ol className="list-decimal list-inside space-y-1 ml-2 mt-1">
+                          <li>Create a new scenario</li>
+                          <li>Add "Webhooks" → "Custom webhook"</li>
+                          <li>Copy the webhook URL shown</li>
+                        </ol>
+                        <a href="https://www.make.com/en/help/apps/webhooks" target="_blank" rel="noopener noreferrer" className="underline mt-1 inline-block">
+                          View detailed Make.com guide →
+                        </a>
+                      </div>
+                    )}
+                    {(!selectedWebhookService || selectedWebhookService === "other") && (
+                      <div>
+                        <strong>For other services:</strong>
+                        <ul className="list-disc list-inside space-y-1 ml-2 mt-1">
+                          <li>Check your service's documentation for "webhook" or "incoming webhook"</li>
+                          <li>Look in Settings → Integrations → Webhooks</li>
+                          <li>The URL usually starts with https://</li>
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+            {webhookTestState.result && (
+              <Alert variant={webhookTestState.result.valid ? "default" : "destructive"} className="mt-2">
+                {webhookTestState.result.valid ? (
+                  <>
+                    <CheckCircle2 className="h-4 w-4" />
+                    <AlertDescription>
+                      ✅ Webhook URL is valid and working! Your webhook will receive lead data when submissions come in.
+                    </AlertDescription>
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      ❌ Webhook test failed: {webhookTestState.result.error || "Unknown error"}
+                    </AlertDescription>
+                  </>
+                )}
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {/* AI Scoring Section */}
+        <div className="space-y-4 p-4 rounded-xl border border-border/50 bg-muted/20">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Sparkles className="h-4 w-4 text-primary" />
+              <Label className="text-sm font-semibold">AI-Enhanced Lead Scoring (Optional)</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Optional: Enable AI-enhanced lead scoring using OpenAI. If not provided, the system will use keyword-based scoring.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="openai-api-key" className="text-sm font-medium">
+              OpenAI API Key
+            </Label>
+            <Input
+              id="openai-api-key"
+              type="password"
+              value={credentials.OPENAI_API_KEY}
+              onChange={(e) =>
+                setCredentials({ ...credentials, OPENAI_API_KEY: e.target.value })
+              }
+              placeholder="sk-..."
+              className="h-10"
+            />
+            <p className="text-xs text-muted-foreground">
+              Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">OpenAI Platform</a>. Leave empty to use keyword-based scoring only.
+            </p>
+          </div>
+        </div>
+
+        {/* Google Sheets Section */}
+        <div className="space-y-4 p-4 rounded-xl border border-border/50 bg-muted/20">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4 text-primary" />
+              <Label className="text-sm font-semibold">Google Sheets</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Optional: Specify an existing Google Sheet ID. If left empty, a new sheet will be created automatically on first lead submission.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="spreadsheet-id" className="text-sm font-medium">
+              Spreadsheet ID (Optional)
+            </Label>
+            <Input
+              id="spreadsheet-id"
+              type="text"
+              value={credentials.SPREADSHEET_ID}
+              onChange={(e) =>
+                setCredentials({ ...credentials, SPREADSHEET_ID: e.target.value })
+              }
+              placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms"
+              className="h-10"
+            />
+            <p className="text-xs text-muted-foreground">
+              Found in your Google Sheet URL: <code className="bg-muted px-1 rounded text-xs">docs.google.com/spreadsheets/d/[SPREADSHEET_ID]/edit</code>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {saveError && (
+        <Alert variant="destructive" className="border-2 border-destructive">
+          <XCircle className="h-5 w-5" />
+          <AlertDescription>
+            <div className="space-y-2">
+              <p className="font-semibold text-base">
+                {saveError.message || "Failed to save credentials. Please try again."}
+              </p>
+              {isApiErrorCode(saveError, "MISSING_FIELDS") && (
+                <div className="text-sm space-y-2 mt-3 pt-3 border-t border-red-200">
+                  <p className="font-medium">Please fill in the following required fields:</p>
+                  <ul className="list-disc list-inside space-y-1 text-sm bg-red-50 p-3 rounded-md">
+                    {((saveError.details as MissingFieldsDetails | undefined)?.missing ?? []).map((field) => (
+                      <li key={field} className="font-medium">{field}</li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    All fields marked with an asterisk (*) are required.
+                  </p>
+                </div>
+              )}
+              {isApiErrorCode(saveError, "RATE_LIMITED") && (
+                <div className="text-sm space-y-1 mt-2 pt-2 border-t border-red-200">
+                  <p className="font-medium">What to do:</p>
+                  <ul className="list-disc list-inside space-y-1 text-xs">
+                    <li>Wait 5-10 minutes before trying again</li>
+                    <li>This is a temporary limit from Google's servers</li>
+                    <li>Your credentials are saved - you can continue later</li>
+                  </ul>
+                </div>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        nextLabel="Save & Continue"
+      />
+    </div>
+  );
+}
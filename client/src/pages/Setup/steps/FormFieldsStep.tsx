@@ -0,0 +1,366 @@
+/**
+ * Form Fields Step Component
+ *
+ * Lets the admin design the lead form: add company, budget, dropdown and
+ * checkbox fields, relabel and reorder the built-in ones, and try the
+ * result in a live preview validated by the same schema the server uses.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/FormFieldsStep
+ */
+
+import { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LeadFormFields } from "@/components/LeadFormFields";
+import {
+  buildLeadSchema,
+  fieldIdFromLabel,
+  FORM_FIELD_KINDS,
+  FORM_FIELD_LIMITS,
+  formFieldsSchema,
+  getDefaultFormValues,
+  isCoreField,
+  REQUIRED_CORE_FIELDS,
+  type FormFieldDefinition,
+  type FormFieldKind,
+  type LeadFormSubmission,
+  type LeadFormValues,
+} from "@shared/formDefinition";
+import { AlertCircle, ArrowDown, ArrowLeft, ArrowRight, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+
+const KIND_LABELS: Record<FormFieldKind, string> = {
+  text: "Short text",
+  textarea: "Long text",
+  email: "Email",
+  phone: "Phone",
+  number: "Number",
+  select: "Dropdown",
+  checkbox: "Checkbox",
+};
+
+interface FormFieldsStepProps {
+  fields: FormFieldDefinition[];
+  onChange: (fields: FormFieldDefinition[]) => void;
+  onBack: () => void;
+  onSave: () => void;
+  isSaving: boolean;
+  saveError?: string;
+}
+
+/**
+ * Returns an id for a custom field that no other field uses.
+ */
+function uniqueFieldId(label: string, fields: FormFieldDefinition[], ownIndex: number): string {
+  const base = fieldIdFromLabel(label);
+  const taken = new Set(fields.filter((_, index) => index !== ownIndex).map((field) => field.id));
+  let id = isCoreField(base) ? `${base}2` : base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}${n}`;
+  }
+  return id;
+}
+
+function FormPreview({ fields }: { fields: FormFieldDefinition[] }) {
+  const schema = useMemo(() => buildLeadSchema(fields), [fields]);
+  const form = useForm<LeadFormValues, unknown, LeadFormSubmission>({
+    resolver: zodResolver(schema),
+    defaultValues: getDefaultFormValues(fields),
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(() => form.reset())} className="space-y-4" noValidate>
+        <LeadFormFields control={form.control} fields={fields} />
+        <Button type="submit" variant="outline" size="sm" className="w-full">
+          Test validation
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export function FormFieldsStep({ fields, onChange, onBack, onSave, isSaving, saveError }: FormFieldsStepProps) {
+  const validation = formFieldsSchema.safeParse(fields);
+  const definitionError = validation.success ? undefined : validation.error.errors[0]?.message;
+
+  const updateField = (index: number, patch: Partial<FormFieldDefinition>) => {
+    onChange(
+      fields.map((field, i) => {
+        if (i !== index) return field;
+        const next = { ...field, ...patch };
+        // Custom field ids follow their label so the spreadsheet stays readable
+        if (patch.label !== undefined && !isCoreField(field.id)) {
+          next.id = uniqueFieldId(patch.label, fields, index);
+        }
+        return next;
+      })
+    );
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addField = () => {
+    const label = "New field";
+    onChange([
+      ...fields,
+      { id: uniqueFieldId(label, fields, -1), kind: "text", label, required: false },
+    ]);
+  };
+
+  const parseLimit = (value: string): number | undefined => {
+    if (value.trim() === "") return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Form Fields</h3>
+        <p className="text-sm text-muted-foreground">
+          Choose what your contact form asks. Name, email and message are always included; everything else is up to you.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {fields.map((field, index) => {
+          const core = isCoreField(field.id);
+          const lockedRequired = isCoreField(field.id) && REQUIRED_CORE_FIELDS.includes(field.id);
+
+          return (
+            <div key={index} className="space-y-3 p-4 rounded-2xl bg-muted/20">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {core ? "Built-in field" : "Custom field"} · key <code>{field.id}</code>
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => moveField(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${field.label} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => moveField(index, 1)}
+                    disabled={index === fields.length - 1}
+                    aria-label={`Move ${field.label} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onChange(fields.filter((_, i) => i !== index))}
+                    disabled={lockedRequired}
+                    aria-label={`Remove ${field.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`field-label-${index}`} className="text-xs font-medium">Label</Label>
+                  <Input
+                    id={`field-label-${index}`}
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    maxLength={FORM_FIELD_LIMITS.labelLength}
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">Type</Label>
+                  <Select
+                    value={field.kind}
+                    onValueChange={(kind) => updateField(index, { kind: kind as FormFieldKind })}
+                    disabled={core}
+                  >
+                    <SelectTrigger className="h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FORM_FIELD_KINDS.map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {KIND_LABELS[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {field.kind !== "checkbox" && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`field-placeholder-${index}`} className="text-xs font-medium">Placeholder</Label>
+                    <Input
+                      id={`field-placeholder-${index}`}
+                      value={field.placeholder ?? ""}
+                      onChange={(e) => updateField(index, { placeholder: e.target.value || undefined })}
+                      maxLength={FORM_FIELD_LIMITS.placeholderLength}
+                      className="h-9 text-sm"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor={`field-help-${index}`} className="text-xs font-medium">Help text</Label>
+                  <Input
+                    id={`field-help-${index}`}
+                    value={field.helpText ?? ""}
+                    onChange={(e) => updateField(index, { helpText: e.target.value || undefined })}
+                    maxLength={FORM_FIELD_LIMITS.helpTextLength}
+                    className="h-9 text-sm"
+                  />
+                </div>
+
+                {field.kind === "select" && (
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor={`field-options-${index}`} className="text-xs font-medium">Options (one per line)</Label>
+                    <textarea
+                      id={`field-options-${index}`}
+                      value={(field.options ?? []).join("\n")}
+                      onChange={(e) =>
+                        updateField(index, {
+                          options: e.target.value.split("\n").slice(0, FORM_FIELD_LIMITS.maxOptions),
+                        })
+                      }
+                      onBlur={() =>
+                        updateField(index, {
+                          options: (field.options ?? []).map((option) => option.trim()).filter(Boolean),
+                        })
+                      }
+                      className="w-full min-h-[80px] px-3 py-2 text-sm border rounded-lg resize-none"
+                      rows={3}
+                    />
+                  </div>
+                )}
+
+                {!core && (field.kind === "text" || field.kind === "textarea") && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`field-max-length-${index}`} className="text-xs font-medium">Max characters</Label>
+                    <Input
+                      id={`field-max-length-${index}`}
+                      type="number"
+                      min={1}
+                      max={field.kind === "text" ? FORM_FIELD_LIMITS.textLength : FORM_FIELD_LIMITS.textareaLength}
+                      value={field.maxLength ?? ""}
+                      onChange={(e) => updateField(index, { maxLength: parseLimit(e.target.value) })}
+                      placeholder={String(field.kind === "text" ? FORM_FIELD_LIMITS.textLength : FORM_FIELD_LIMITS.textareaLength)}
+                      className="h-9 text-sm"
+                    />
+                  </div>
+                )}
+
+                {field.kind === "number" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor={`field-min-${index}`} className="text-xs font-medium">Minimum</Label>
+                      <Input
+                        id={`field-min-${index}`}
+                        type="number"
+                        value={field.min ?? ""}
+                        onChange={(e) => updateField(index, { min: parseLimit(e.target.value) })}
+                        className="h-9 text-sm"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`field-max-${index}`} className="text-xs font-medium">Maximum</Label>
+                      <Input
+                        id={`field-max-${index}`}
+                        type="number"
+                        value={field.max ?? ""}
+                        onChange={(e) => updateField(index, { max: parseLimit(e.target.value) })}
+                        className="h-9 text-sm"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`field-required-${index}`}
+                  checked={field.required}
+                  onCheckedChange={(required) => updateField(index, { required })}
+                  disabled={lockedRequired}
+                />
+                <Label htmlFor={`field-required-${index}`} className="text-sm">
+                  {field.kind === "checkbox" ? "Must be checked" : "Required"}
+                </Label>
+              </div>
+            </div>
+          );
+        })}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addField}
+          disabled={fields.length >= FORM_FIELD_LIMITS.maxFields}
+          className="w-full"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Field
+        </Button>
+      </div>
+
+      {definitionError ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{definitionError}</AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-3 p-5 rounded-2xl border">
+          <h4 className="text-sm font-medium">Preview</h4>
+          {/* Remount when the definition changes so default values match the fields */}
+          <FormPreview key={JSON.stringify(fields)} fields={fields} />
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-4 border-t">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <Button onClick={onSave} disabled={isSaving || Boolean(definitionError)} className="flex-1">
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin text-white" />
+              Saving...
+            </>
+          ) : (
+            <>
+              Continue
+              <ArrowRight className="ml-2 h-4 w-4 text-white" />
+            </>
+          )}
+        </Button>
+      </div>
+      {saveError && <p className="text-xs text-destructive text-center">{saveError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Google Authorization Step Component
+ *
+ * Sends the owner through Google OAuth and checks the stored authorization.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/GoogleAuthStep
+ */
+
+/* eslint-disable react/no-unescaped-entities */
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle2, XCircle, Loader2, ExternalLink, AlertCircle, ArrowLeft, CheckCircle } from "lucide-react";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+export function GoogleAuthStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { notificationPreferences, validateMutation } = useSetupWizard();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Connect Google Account</h3>
+        <p className="text-sm text-muted-foreground">
+          Securely connect to your Google account to enable automatic lead saving
+        </p>
+      </div>
+
+      <div className="space-y-4 p-5 rounded-2xl bg-muted/20 border border-border/50">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">What we'll access:</p>
+          <ul className="text-xs text-muted-foreground space-y-1.5">
+            <li className="flex items-center gap-2">
+              <CheckCircle className="h-3.5 w-3.5 text-primary" />
+              <span>Google Sheets - to save your leads</span>
+            </li>
+            <li className="flex items-center gap-2">
+              <CheckCircle className="h-3.5 w-3.5 text-primary" />
+              <span>Google Drive - to create spreadsheets</span>
+            </li>
+            {notificationPreferences.wantsEmail && (
+              <li className="flex items-center gap-2">
+                <CheckCircle className="h-3.5 w-3.5 text-primary" />
+                <span>Gmail - to send email notifications</span>
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+
+      <Alert className="bg-muted/30">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription className="text-sm">
+          You'll be redirected to Google to sign in and grant permissions. You can revoke access anytime.
+        </AlertDescription>
+      </Alert>
+
+      <Button
+        onClick={() => {
+          window.location.href = "/api/v1/oauth/authorize";
+        }}
+        className="w-full"
+      >
+        <ExternalLink className="mr-2 h-4 w-4 text-white" />
+        Authorize with Google
+      </Button>
+
+      <div className="flex gap-3 pt-4 border-t">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <Button
+          variant="outline"
+          onClick={onNext}
+          disabled={isSaving || !canContinue}
+          className="flex-1"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin text-white" />
+              Checking...
+            </>
+          ) : (
+            "Test Connection"
+          )}
+        </Button>
+      </div>
+
+      {saveError && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>
+            {saveError.message || "Could not check the connection. Please try again."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {validateMutation.data && (
+        <Alert variant={validateMutation.data.valid ? "default" : "destructive"}>
+          {validateMutation.data.valid ? (
+            <>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                Connection successful! Your Google account is connected.
+              </AlertDescription>
+            </>
+          ) : (
+            <>
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>
+                Connection failed: {validateMutation.data.error}
+              </AlertDescription>
+            </>
+          )}
+        </Alert>
+      )}
+
+      {(() => {
+        const urlParams = new URLSearchParams(window.location.search);
+        const error = urlParams.get("error");
+        if (error) {
+          const errorMessage = decodeURIComponent(error);
+          const isRateLimit = errorMessage.includes("Too many") || errorMessage.includes("rate limit");
+
+          return (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>
+                <div className="space-y-2">
+                  <p className="font-medium">OAuth Error: {errorMessage}</p>
+                  {isRateLimit ? (
+                    <div className="text-sm space-y-1 mt-2 pt-2 border-t border-red-200">
+                      <p className="font-medium">This is a temporary rate limit from Google:</p>
+                      <ul className="list-disc list-inside space-y-1 text-xs">
+                        <li>Wait 5-10 minutes before trying the OAuth flow again</li>
+                        <li>This happens when too many OAuth requests are made in a short time</li>
+                        <li>Your credentials are already saved - you can continue later</li>
+                        <li>Try again after waiting a few minutes</li>
+                      </ul>
+                    </div>
+                  ) : (
+                    <p className="text-xs mt-2">
+                  Please check your Google Cloud Console settings and try again.
+                    </p>
+                  )}
+                </div>
+              </AlertDescription>
+            </Alert>
+          );
+        }
+        return null;
+      })()}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * Google Setup Step Component
+ *
+ * Walks through creating an OAuth client in Google Cloud Console.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/GoogleSetupStep
+ */
+
+/* eslint-disable react/no-unescaped-entities */
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ExternalLink, AlertCircle } from "lucide-react";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+export function GoogleSetupStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { notificationPreferences } = useSetupWizard();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Google Cloud Setup</h3>
+        <p className="text-sm text-muted-foreground">
+          Connect to your Google account to save leads automatically
+        </p>
+      </div>
+
+      <Alert className="bg-muted/30">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription className="text-sm">
+          <strong>What is Google Cloud?</strong> Google's platform for managing apps. You'll create a free project to securely connect SmartSheetConnect.
+        </AlertDescription>
+      </Alert>
+
+      <Accordion type="single" collapsible className="space-y-2">
+        <AccordionItem value="step1" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">1</span>
+              <span>Create Google Cloud Project</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Free and takes about 30 seconds. This connects SmartSheetConnect to your Google account.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.open("https://console.cloud.google.com/projectcreate", "_blank")}
+              className="w-full justify-start"
+            >
+              <ExternalLink className="mr-2 h-4 w-4" />
+              Open Google Cloud Console
+            </Button>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="step2" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">2</span>
+              <span>Enable Required APIs</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Click each button below, then click "Enable" on each page.
+            </p>
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => window.open("https://console.cloud.google.com/apis/library/sheets.googleapis.com", "_blank")}
+              >
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Enable Google Sheets API
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => window.open("https://console.cloud.google.com/apis/library/drive.googleapis.com", "_blank")}
+              >
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Enable Google Drive API
+              </Button>
+              {notificationPreferences.wantsEmail && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => window.open("https://console.cloud.google.com/apis/library/gmail.googleapis.com", "_blank")}
+                >
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Enable Gmail API
+                </Button>
+              )}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="step3" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">3</span>
+              <span>Create OAuth Credentials</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              A secure key that lets SmartSheetConnect access your Google account.
+            </p>
+            <ol className="list-decimal list-inside space-y-1.5 text-xs text-muted-foreground">
+              <li>Go to <a href="https://console.cloud.google.com/apis/credentials" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">APIs & Services → Credentials</a></li>
+              <li>Click <strong>"+ CREATE CREDENTIALS"</strong> → <strong>"OAuth client ID"</strong></li>
+              <li>Choose <strong>"Web application"</strong></li>
+              <li>Name it <strong>"SmartSheetConnect"</strong></li>
+              <li>Add this redirect URI:</li>
+            </ol>
+            <div className="bg-muted/50 p-2.5 rounded-lg border border-dashed flex items-center justify-between gap-2">
+              <code className="text-xs break-all flex-1">
+                {window.location.origin}/api/v1/oauth/callback
+              </code>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => {
+                  navigator.clipboard.writeText(`${window.location.origin}/api/v1/oauth/callback`);
+                }}
+              >
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-destructive font-medium">
+              ⚠️ Copy exactly as shown - no extra spaces or trailing slash
+            </p>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="step4" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">4</span>
+              <span>Copy Your Credentials</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              After clicking "CREATE", Google shows a popup with:
+            </p>
+            <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground">
+              <li><strong>Client ID</strong> - ends with <code className="bg-muted px-1 rounded">.apps.googleusercontent.com</code></li>
+              <li><strong>Client Secret</strong> - starts with <code className="bg-muted px-1 rounded">GOCSPX-</code></li>
+            </ul>
+            <p className="text-xs text-muted-foreground">
+              Copy both - you'll paste them in the next step.
+            </p>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+      />
+    </div>
+  );
+}
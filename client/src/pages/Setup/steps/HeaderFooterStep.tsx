@@ -0,0 +1,390 @@
+/**
+ * Header & Footer Step Component
+ *
+ * Navigation, footer links, SEO and analytics settings. Navigation links
+ * point at a section of the page layout or at a URL.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/HeaderFooterStep
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FIELD_MAX_LENGTHS, getCharCountText, getRemainingChars, exceedsMaxLength } from "@/lib/validation";
+import { Search, BarChart3, Plus, Trash2 } from "lucide-react";
+import { findBrokenSectionLinks, layoutSectionId, layoutSectionLabel } from "@shared/pageLayout";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { HeaderFooterState, SetupStepProps } from "../types";
+
+type NavigationLink = HeaderFooterState["navigation"][number];
+
+// Select value for a link to a URL; section ids never start with "#"
+const EXTERNAL_LINK = "#external";
+
+// Same limit as the header schema
+const MAX_NAVIGATION_LINKS = 20;
+
+export function HeaderFooterStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { headerFooter, setHeaderFooter, seo, setSeo, analytics, setAnalytics, layout } = useSetupWizard();
+
+  const brokenLinks = new Set(findBrokenSectionLinks(headerFooter.navigation, layout));
+
+  const setNavigation = (navigation: NavigationLink[]) => setHeaderFooter({ ...headerFooter, navigation });
+
+  const updateLink = (index: number, patch: Partial<NavigationLink>) => {
+    setNavigation(headerFooter.navigation.map((link, i) => (i === index ? { ...link, ...patch } : link)));
+  };
+
+  const addLink = () => {
+    const firstShown = layout.find(section => !section.hidden);
+    setNavigation([
+      ...headerFooter.navigation,
+      { label: "", sectionId: firstShown ? layoutSectionId(firstShown) : "", href: firstShown ? undefined : "" },
+    ]);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Header & Footer</h3>
+        <p className="text-sm text-muted-foreground">
+          Configure navigation, social links, and footer content
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+          <h4 className="text-sm font-medium">Header</h4>
+
+          <div className="space-y-2">
+            <Label htmlFor="headerCtaText">Header CTA Button Text</Label>
+            <Input
+              id="headerCtaText"
+              value={headerFooter.headerCtaText}
+              onChange={(e) => setHeaderFooter({ ...headerFooter, headerCtaText: e.target.value })}
+              placeholder="Get Started"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Navigation</Label>
+            {headerFooter.navigation.map((link, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    aria-label={`Link ${index + 1} label`}
+                    value={link.label}
+                    onChange={(e) => updateLink(index, { label: e.target.value })}
+                    placeholder="Label"
+                    maxLength={FIELD_MAX_LENGTHS.navigationLabel}
+                    className="h-9 text-sm flex-1"
+                  />
+                  <Select
+                    value={link.sectionId || EXTERNAL_LINK}
+                    onValueChange={(value) =>
+                      updateLink(
+                        index,
+                        value === EXTERNAL_LINK ? { sectionId: "", href: link.href ?? "" } : { sectionId: value, href: undefined }
+                      )
+                    }
+                  >
+                    <SelectTrigger className="h-9 text-sm w-48" aria-label={`Link ${index + 1} target`}>
+                      <SelectValue placeholder="Choose a section" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {layout.map(section => (
+                        <SelectItem key={layoutSectionId(section)} value={layoutSectionId(section)}>
+                          {layoutSectionLabel(section)}
+                          {section.hidden && " (hidden)"}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={EXTERNAL_LINK}>Link to a URL</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setNavigation(headerFooter.navigation.filter((_, i) => i !== index))}
+                    aria-label={`Remove link ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {!link.sectionId && (
+                  <Input
+                    aria-label={`Link ${index + 1} URL`}
+                    value={link.href ?? ""}
+                    onChange={(e) => updateLink(index, { href: e.target.value })}
+                    placeholder="https://example.com/pricing"
+                    type="url"
+                    className="h-9 text-sm"
+                  />
+                )}
+                {brokenLinks.has(link) && (
+                  <p className="text-xs text-destructive">
+                    This link points to a section that isn&apos;t on the page. Choose another one.
+                  </p>
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addLink}
+              disabled={headerFooter.navigation.length >= MAX_NAVIGATION_LINKS}
+              className="w-full"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Link
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Links to hidden sections are left out of the header until the section is shown.
+            </p>
+          </div>
+
+        </div>
+
+        <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+          <h4 className="text-sm font-medium">Footer</h4>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="footerDescription" className="text-sm font-medium">Description</Label>
+              <textarea
+                id="footerDescription"
+                value={headerFooter.footerDescription}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value.length <= FIELD_MAX_LENGTHS.footerDescription) {
+                    setHeaderFooter({ ...headerFooter, footerDescription: value });
+                  }
+                }}
+                placeholder="Professional lead capture automation..."
+                className={`w-full min-h-[60px] px-3 py-2 text-sm border rounded-lg resize-none ${exceedsMaxLength("footerDescription", headerFooter.footerDescription) ? "border-destructive" : ""}`}
+                rows={2}
+                maxLength={FIELD_MAX_LENGTHS.footerDescription}
+              />
+              <div className="flex justify-end">
+                <span className={`text-xs ${getRemainingChars("footerDescription", headerFooter.footerDescription) < 50 ? "text-destructive" : "text-muted-foreground"}`}>
+                  {getCharCountText("footerDescription", headerFooter.footerDescription)}
+                </span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Social Links</Label>
+              <div className="grid grid-cols-1 gap-2">
+                <Input
+                  placeholder="GitHub URL"
+                  value={headerFooter.socialGithub}
+                  onChange={(e) => setHeaderFooter({ ...headerFooter, socialGithub: e.target.value })}
+                  type="url"
+                  className="h-9 text-sm"
+                />
+                <Input
+                  placeholder="Twitter/X URL"
+                  value={headerFooter.socialTwitter}
+                  onChange={(e) => setHeaderFooter({ ...headerFooter, socialTwitter: e.target.value })}
+                  type="url"
+                  className="h-9 text-sm"
+                />
+                <Input
+                  placeholder="LinkedIn URL"
+                  value={headerFooter.socialLinkedin}
+                  onChange={(e) => setHeaderFooter({ ...headerFooter, socialLinkedin: e.target.value })}
+                  type="url"
+                  className="h-9 text-sm"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Legal Pages</Label>
+              <div className="grid grid-cols-1 gap-2">
+                <Input
+                  placeholder="Privacy Policy URL"
+                  value={headerFooter.privacyPolicyUrl}
+                  onChange={(e) => setHeaderFooter({ ...headerFooter, privacyPolicyUrl: e.target.value })}
+                  type="url"
+                  className="h-9 text-sm"
+                />
+                <Input
+                  placeholder="Terms of Service URL"
+                  value={headerFooter.termsOfServiceUrl}
+                  onChange={(e) => setHeaderFooter({ ...headerFooter, termsOfServiceUrl: e.target.value })}
+                  type="url"
+                  className="h-9 text-sm"
+                />
+              </div>
+            </div>
+
+            {/* SEO Section */}
+            <div className="space-y-4 p-4 rounded-xl border border-border/50 bg-muted/20 mt-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Search className="h-4 w-4 text-primary" />
+                  <Label className="text-sm font-semibold">SEO & Meta Tags</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Optimize your site for search engines and social sharing (all optional)
+                </p>
+              </div>
+              <div className="grid grid-cols-1 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="pageTitle" className="text-sm font-medium">Page Title</Label>
+                  <Input
+                    id="pageTitle"
+                    value={seo.pageTitle}
+                    onChange={(e) => setSeo({ ...seo, pageTitle: e.target.value })}
+                    placeholder="My Company - Lead Capture"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="metaDescription" className="text-sm font-medium">Meta Description</Label>
+                  <textarea
+                    id="metaDescription"
+                    value={seo.metaDescription}
+                    onChange={(e) => setSeo({ ...seo, metaDescription: e.target.value })}
+                    placeholder="Professional lead capture automation..."
+                    className="w-full min-h-[60px] px-3 py-2 text-sm border rounded-lg resize-none"
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ogImage" className="text-sm font-medium">Open Graph Image URL</Label>
+                  <Input
+                    id="ogImage"
+                    value={seo.ogImage}
+                    onChange={(e) => setSeo({ ...seo, ogImage: e.target.value })}
+                    placeholder="https://example.com/og-image.jpg"
+                    type="url"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ogTitle" className="text-sm font-medium">Open Graph Title</Label>
+                  <Input
+                    id="ogTitle"
+                    value={seo.ogTitle}
+                    onChange={(e) => setSeo({ ...seo, ogTitle: e.target.value })}
+                    placeholder="My Company - Lead Capture"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ogDescription" className="text-sm font-medium">Open Graph Description</Label>
+                  <textarea
+                    id="ogDescription"
+                    value={seo.ogDescription}
+                    onChange={(e) => setSeo({ ...seo, ogDescription: e.target.value })}
+                    placeholder="Professional lead capture automation..."
+                    className="w-full min-h-[60px] px-3 py-2 text-sm border rounded-lg resize-none"
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="keywords" className="text-sm font-medium">Keywords (comma-separated)</Label>
+                  <Input
+                    id="keywords"
+                    value={seo.keywords}
+                    onChange={(e) => setSeo({ ...seo, keywords: e.target.value })}
+                    placeholder="lead capture, automation, CRM"
+                    className="h-9 text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Analytics Section */}
+            <div className="space-y-4 p-4 rounded-xl border border-border/50 bg-muted/20 mt-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <BarChart3 className="h-4 w-4 text-primary" />
+                  <Label className="text-sm font-semibold">Analytics Integration</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Track visitors and conversions (all optional)
+                </p>
+              </div>
+              <div className="grid grid-cols-1 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="googleAnalyticsId" className="text-sm font-medium">Google Analytics ID (GA4)</Label>
+                  <Input
+                    id="googleAnalyticsId"
+                    value={analytics.googleAnalyticsId}
+                    onChange={(e) => setAnalytics({ ...analytics, googleAnalyticsId: e.target.value })}
+                    placeholder="G-XXXXXXXXXX"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="googleTagManagerId" className="text-sm font-medium">Google Tag Manager ID</Label>
+                  <Input
+                    id="googleTagManagerId"
+                    value={analytics.googleTagManagerId}
+                    onChange={(e) => setAnalytics({ ...analytics, googleTagManagerId: e.target.value })}
+                    placeholder="GTM-XXXXXXX"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="facebookPixelId" className="text-sm font-medium">Facebook Pixel ID</Label>
+                  <Input
+                    id="facebookPixelId"
+                    value={analytics.facebookPixelId}
+                    onChange={(e) => setAnalytics({ ...analytics, facebookPixelId: e.target.value })}
+                    placeholder="123456789012345"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="linkedinInsightTag" className="text-sm font-medium">LinkedIn Insight Tag</Label>
+                  <Input
+                    id="linkedinInsightTag"
+                    value={analytics.linkedinInsightTag}
+                    onChange={(e) => setAnalytics({ ...analytics, linkedinInsightTag: e.target.value })}
+                    placeholder="123456"
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="customAnalyticsScript" className="text-sm font-medium">Custom Analytics Script</Label>
+                  <textarea
+                    id="customAnalyticsScript"
+                    value={analytics.customAnalyticsScript}
+                    onChange={(e) => setAnalytics({ ...analytics, customAnalyticsScript: e.target.value })}
+                    placeholder="<!-- Custom analytics code -->"
+                    className="w-full min-h-[80px] px-3 py-2 text-sm border rounded-lg resize-none font-mono"
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Paste custom analytics code (e.g., Hotjar, Mixpanel)
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!canContinue && (
+        <p className="text-xs text-destructive">
+          Give every navigation link a label and a section or URL.
+        </p>
+      )}
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save header and footer"
+      />
+    </div>
+  );
+}
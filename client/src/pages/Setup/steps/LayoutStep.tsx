@@ -0,0 +1,203 @@
+/**
+ * Layout Step Component
+ *
+ * The order of the landing page sections, by dragging or with the arrow
+ * buttons, and which of them are shown. FAQ and text sections can be
+ * added, edited and removed here too; navigation links to a removed
+ * section are dropped, and those to a renamed one follow it. The live
+ * preview follows along.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/LayoutStep
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import { MAX_LAYOUT_SECTIONS } from "@shared/appConfig";
+import { layoutSectionId, layoutSectionLabel, type LayoutSection } from "@shared/pageLayout";
+import { CustomSectionEditor } from "../components/CustomSectionEditor";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+import { layoutProblem, newCustomSection, retargetLinks } from "../utils/layout";
+
+function moveSection(layout: LayoutSection[], from: number, to: number): LayoutSection[] {
+  const next = [...layout];
+  const [section] = next.splice(from, 1);
+  next.splice(to, 0, section);
+  return next;
+}
+
+export function LayoutStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { layout, setLayout, headerFooter, setHeaderFooter } = useSetupWizard();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= layout.length) return;
+    setLayout(moveSection(layout, from, to));
+  };
+
+  const setHidden = (index: number, hidden: boolean) => {
+    setLayout(layout.map((section, i) => (i === index ? { ...section, hidden } : section)));
+  };
+
+  const replace = (index: number, section: LayoutSection) => {
+    const from = layoutSectionId(layout[index]);
+    const to = layoutSectionId(section);
+    setLayout(layout.map((current, i) => (i === index ? section : current)));
+    if (from !== to) {
+      setHeaderFooter({ ...headerFooter, navigation: retargetLinks(headerFooter.navigation, from, to) });
+    }
+  };
+
+  const remove = (index: number) => {
+    const id = layoutSectionId(layout[index]);
+    setLayout(layout.filter((_, i) => i !== index));
+    setHeaderFooter({ ...headerFooter, navigation: retargetLinks(headerFooter.navigation, id, null) });
+  };
+
+  const add = (type: "faq" | "rich-text") => {
+    setLayout([...layout, newCustomSection(layout, type)]);
+  };
+
+  const problem = layoutProblem(layout);
+  const isFull = layout.length >= MAX_LAYOUT_SECTIONS;
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Page Layout</h3>
+        <p className="text-sm text-muted-foreground">
+          Drag the sections into the order visitors should see them, and turn off the ones you
+          don&apos;t need. Add FAQ and text sections for anything the other sections don&apos;t
+          cover.
+        </p>
+      </div>
+
+      <ol className="space-y-2">
+        {layout.map((section, index) => {
+          const label = layoutSectionLabel(section);
+          const isCustom = section.type === "faq" || section.type === "rich-text";
+          return (
+            // Keyed by position: custom section ids change as they're edited
+            <li key={index} className="space-y-2">
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  // Reorder while dragging so the preview shows where the section will land
+                  if (dragIndex !== null && dragIndex !== index) {
+                    move(dragIndex, index);
+                    setDragIndex(index);
+                  }
+                }}
+                onDrop={(e) => e.preventDefault()}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-3 p-3 rounded-xl border bg-background/60 cursor-grab active:cursor-grabbing transition-opacity ${dragIndex === index ? "opacity-50" : ""}`}
+                data-testid={`layout-section-${layoutSectionId(section)}`}
+              >
+                <GripVertical
+                  className="h-4 w-4 text-muted-foreground flex-shrink-0"
+                  aria-hidden="true"
+                />
+                <span
+                  className={`flex-1 text-sm font-medium ${section.hidden ? "text-muted-foreground line-through" : ""}`}
+                >
+                  {label}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`layout-shown-${index}`}
+                    checked={!section.hidden}
+                    onCheckedChange={(shown) => setHidden(index, !shown)}
+                  />
+                  <Label htmlFor={`layout-shown-${index}`} className="sr-only">
+                    Show {label}
+                  </Label>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${label} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === layout.length - 1}
+                    aria-label={`Move ${label} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  {isCustom && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => remove(index)}
+                      aria-label={`Remove ${label}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isCustom && (
+                <CustomSectionEditor
+                  index={index}
+                  section={section}
+                  onChange={(next) => replace(index, next)}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Button type="button" variant="outline" size="sm" onClick={() => add("faq")} disabled={isFull}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add FAQ
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => add("rich-text")}
+          disabled={isFull}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Text Section
+        </Button>
+      </div>
+
+      {!canContinue && problem && <p className="text-xs text-destructive">{problem}</p>}
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save the page layout"
+      />
+    </div>
+  );
+}
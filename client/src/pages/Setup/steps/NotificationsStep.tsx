@@ -0,0 +1,511 @@
+/**
+ * Notifications Step Component
+ *
+ * Where leads are stored and how the owner hears about them: email, Slack, webhooks and the auto-responder.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/NotificationsStep
+ */
+
+/* eslint-disable react/no-unescaped-entities */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Mail, MessageSquare, Webhook, Reply, FileSpreadsheet } from "lucide-react";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+export function NotificationsStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { branding, credentials, setCredentials, notificationPreferences, setNotificationPreferences, showAutoResponderPreview, setShowAutoResponderPreview, selectedWebhookService, setSelectedWebhookService, emailTemplate, setEmailTemplate } = useSetupWizard();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Notifications</h3>
+        <p className="text-sm text-muted-foreground">
+          Choose how you want to be notified when leads are submitted
+        </p>
+      </div>
+
+      {/* Lead Storage */}
+      <div className="p-4 rounded-xl border border-border/50 bg-muted/20">
+        <div className="flex items-start gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0 space-y-2">
+            <Label htmlFor="lead-sink" className="text-sm font-semibold">
+              Lead Storage
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Where each submitted lead is saved
+            </p>
+            <Select
+              value={credentials.LEAD_SINK}
+              onValueChange={(value) => setCredentials({ ...credentials, LEAD_SINK: value })}
+            >
+              <SelectTrigger id="lead-sink" className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="google-sheets">Google Sheets</SelectItem>
+                <SelectItem value="csv">Local spreadsheet file (CSV on this server)</SelectItem>
+              </SelectContent>
+            </Select>
+            {credentials.LEAD_SINK === "csv" && (
+              <p className="text-xs text-muted-foreground">
+                Leads are appended to <code className="bg-muted px-1 rounded text-xs">data/leads.csv</code>, which opens in Excel, Numbers or Google Sheets. No Google account is needed unless you turn on email notifications.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {/* Email Notifications */}
+        <div className="p-4 rounded-xl border border-border/50 hover:border-primary/30 transition-colors bg-muted/20">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3 flex-1 min-w-0">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <Mail className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <Label htmlFor="email-notif" className="text-sm font-semibold cursor-pointer">
+                    Email Notifications
+                  </Label>
+                  <Switch
+                    id="email-notif"
+                    checked={notificationPreferences.wantsEmail}
+                    onCheckedChange={(checked) =>
+                      setNotificationPreferences({ ...notificationPreferences, wantsEmail: checked })
+                    }
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Instant email alerts via Gmail
+                </p>
+                {notificationPreferences.wantsEmail && (
+                  <div className="mt-3 space-y-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="notification-email" className="text-xs font-medium">
+                        Email Address <span className="text-destructive">*</span>
+                      </Label>
+                      <Input
+                        id="notification-email"
+                        type="email"
+                        value={credentials.NOTIFICATION_EMAIL}
+                        onChange={(e) =>
+                          setCredentials({ ...credentials, NOTIFICATION_EMAIL: e.target.value })
+                        }
+                        placeholder="you@example.com"
+                        className="h-9 text-sm"
+                      />
+                    </div>
+
+                    {/* Email Template Editor */}
+                    <Accordion type="single" collapsible className="border rounded-lg">
+                      <AccordionItem value="email-template" className="border-0">
+                        <AccordionTrigger className="text-xs font-medium px-3 py-2">
+                          Customize Email Template (Optional)
+                        </AccordionTrigger>
+                        <AccordionContent className="px-3 pb-3 space-y-3">
+                          <div className="space-y-2">
+                            <Label htmlFor="email-subject" className="text-xs font-medium">
+                              Email Subject
+                            </Label>
+                            <Input
+                              id="email-subject"
+                              value={emailTemplate.subject}
+                              onChange={(e) => setEmailTemplate({ ...emailTemplate, subject: e.target.value })}
+                              placeholder="New Lead: {name}"
+                              className="h-8 text-xs"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Use {"{name}"}, {"{email}"}, {"{company}"} for dynamic values
+                            </p>
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="email-intro" className="text-xs font-medium">
+                              Intro Message
+                            </Label>
+                            <textarea
+                              id="email-intro"
+                              value={emailTemplate.introMessage}
+                              onChange={(e) => setEmailTemplate({ ...emailTemplate, introMessage: e.target.value })}
+                              placeholder="You have received a new lead submission:"
+                              className="w-full min-h-[60px] px-2 py-1.5 text-xs border rounded-lg resize-none"
+                              rows={2}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="email-closing" className="text-xs font-medium">
+                              Closing / Signature
+                            </Label>
+                            <textarea
+                              id="email-closing"
+                              value={emailTemplate.closingSignature}
+                              onChange={(e) => setEmailTemplate({ ...emailTemplate, closingSignature: e.target.value })}
+                              placeholder="Best regards,&#10;Your Team"
+                              className="w-full min-h-[60px] px-2 py-1.5 text-xs border rounded-lg resize-none"
+                              rows={2}
+                            />
+                          </div>
+                        </AccordionContent>
+                      </AccordionItem>
+                    </Accordion>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Slack Notifications */}
+        <div className="p-4 rounded-xl border border-border/50 hover:border-primary/30 transition-colors bg-muted/20">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3 flex-1 min-w-0">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <MessageSquare className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <Label htmlFor="slack-notif" className="text-sm font-semibold cursor-pointer">
+                    Slack Notifications
+                  </Label>
+                  <Switch
+                    id="slack-notif"
+                    checked={notificationPreferences.wantsSlack}
+                    onCheckedChange={(checked) =>
+                      setNotificationPreferences({ ...notificationPreferences, wantsSlack: checked })
+                    }
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Team notifications in Slack workspace
+                </p>
+                {notificationPreferences.wantsSlack && (
+                  <div className="mt-3 space-y-2">
+                    <Label htmlFor="slack-webhook-step2" className="text-xs font-medium">
+                      Webhook URL (optional)
+                    </Label>
+                    <Input
+                      id="slack-webhook-step2"
+                      type="url"
+                      value={credentials.SLACK_WEBHOOK_URL}
+                      onChange={(e) =>
+                        setCredentials({ ...credentials, SLACK_WEBHOOK_URL: e.target.value })
+                      }
+                      placeholder="https://hooks.slack.com/services/..."
+                      className="h-9 text-sm"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      We&apos;ll help you create one later if needed
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Generic Webhook Notifications */}
+        <div className="p-4 rounded-xl border border-border/50 hover:border-primary/30 transition-colors bg-muted/20">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3 flex-1 min-w-0">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <Webhook className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <Label htmlFor="webhook-notif" className="text-sm font-semibold cursor-pointer">
+                    Webhooks (Zapier, Make.com, etc.)
+                  </Label>
+                  <Switch
+                    id="webhook-notif"
+                    checked={notificationPreferences.wantsWebhook}
+                    onCheckedChange={(checked) => {
+                      setNotificationPreferences({ ...notificationPreferences, wantsWebhook: checked });
+                      if (!checked) setSelectedWebhookService(null);
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Connect to Zapier, Make.com, or 1000+ apps
+                </p>
+                {notificationPreferences.wantsWebhook && (
+                  <div className="mt-4 space-y-4">
+                    {/* Service Selection */}
+          <div>
+                      <Label className="text-sm font-medium mb-2 block">
+                        Which service do you want to connect?
+                      </Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          type="button"
+                          variant={selectedWebhookService === "zapier" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setSelectedWebhookService("zapier")}
+                          className="justify-start"
+                        >
+                          <span className="mr-2">⚡</span>
+                          Zapier
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={selectedWebhookService === "make" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setSelectedWebhookService("make")}
+                          className="justify-start"
+                        >
+                          <span className="mr-2">🔧</span>
+                          Make.com
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={selectedWebhookService === "other" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setSelectedWebhookService("other")}
+                          className="justify-start"
+                        >
+                          <span className="mr-2">🔗</span>
+                          Other Service
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={selectedWebhookService === "later" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setSelectedWebhookService("later")}
+                          className="justify-start"
+                        >
+                          <span className="mr-2">⏰</span>
+                          Set Up Later
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Zapier Guide */}
+                    {selectedWebhookService === "zapier" && (
+                      <Alert className="bg-blue-50 border-blue-200">
+                        <AlertCircle className="h-4 w-4 text-blue-600" />
+                        <AlertDescription className="text-xs text-blue-900">
+                          <strong className="block mb-2">📋 Quick Zapier Setup:</strong>
+                          <ol className="list-decimal list-inside space-y-1 ml-2">
+                            <li>Go to <a href="https://zapier.com" target="_blank" rel="noopener noreferrer" className="underline">zapier.com</a> and sign in</li>
+                            <li>Click &quot;Create Zap&quot;</li>
+                            <li>Search for &quot;Webhooks by Zapier&quot; and select it</li>
+                            <li>Choose &quot;Catch Hook&quot; as the trigger</li>
+                            <li>Copy the webhook URL that appears</li>
+                            <li>Paste it below (or in Step 8)</li>
+                          </ol>
+                          <p className="mt-2 text-xs">
+                            <a href="https://zapier.com/help/create/guide/create-zap-from-webhook" target="_blank" rel="noopener noreferrer" className="underline">
+                              Need more help? View detailed guide →
+                            </a>
+                          </p>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {/* Make.com Guide */}
+                    {selectedWebhookService === "make" && (
+                      <Alert className="bg-purple-50 border-purple-200">
+                        <AlertCircle className="h-4 w-4 text-purple-600" />
+                        <AlertDescription className="text-xs text-purple-900">
+                          <strong className="block mb-2">📋 Quick Make.com Setup:</strong>
+                          <ol className="list-decimal list-inside space-y-1 ml-2">
+                            <li>Go to <a href="https://www.make.com" target="_blank" rel="noopener noreferrer" className="underline">make.com</a> and sign in</li>
+                            <li>Create a new scenario</li>
+                            <li>Add "Webhooks" module</li>
+                            <li>Choose "Custom webhook"</li>
+                            <li>Copy the webhook URL that appears</li>
+                            <li>Paste it below (or in Step 8)</li>
+                          </ol>
+                          <p className="mt-2 text-xs">
+                            <a href="https://www.make.com/en/help/apps/webhooks" target="_blank" rel="noopener noreferrer" className="underline">
+                              Need more help? View detailed guide →
+                            </a>
+                          </p>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {/* Other Service Guide */}
+                    {selectedWebhookService === "other" && (
+                      <Alert>
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="text-xs">
+                          <strong>No problem!</strong> Most services work the same way:
+                          <ol className="list-decimal list-inside space-y-1 mt-2 ml-2">
+                            <li>Find the webhook URL in your service's settings</li>
+                            <li>Copy the URL (it usually starts with https://)</li>
+                            <li>Paste it below (or in Step 8)</li>
+                            <li>Click "Test" to make sure it works</li>
+                          </ol>
+                          <p className="mt-2">
+                            <strong>Popular services:</strong> HubSpot, Salesforce, Pipedrive, Mailchimp, and many more!
+                          </p>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {/* Set Up Later */}
+                    {selectedWebhookService === "later" && (
+                      <Alert>
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="text-xs">
+                          <strong>That's totally fine!</strong> You can set up webhooks anytime after completing the main setup.
+                          Just come back to the settings and add your webhook URL when you're ready.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {/* Webhook URL Input - Show if not "later" */}
+                    {selectedWebhookService && selectedWebhookService !== "later" && (
+                      <div>
+                        <Label htmlFor="webhook-url-step2" className="text-sm font-medium">
+                          {selectedWebhookService === "zapier" ? "Paste your Zapier webhook URL here:" :
+                           selectedWebhookService === "make" ? "Paste your Make.com webhook URL here:" :
+                           "Paste your webhook URL here:"}
+                        </Label>
+                        <Input
+                          id="webhook-url-step2"
+                          type="url"
+                          value={credentials.WEBHOOK_URL}
+                          onChange={(e) =>
+                            setCredentials({ ...credentials, WEBHOOK_URL: e.target.value })
+                          }
+                          placeholder={selectedWebhookService === "zapier" ? "https://hooks.zapier.com/hooks/catch/..." :
+                                       selectedWebhookService === "make" ? "https://hook.integromat.com/..." :
+                                       "https://your-service.com/webhook"}
+                          className="mt-1"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {selectedWebhookService === "zapier" || selectedWebhookService === "make"
+                            ? "💡 Tip: You can also paste this in Step 8 if you don't have it ready yet."
+                            : "The URL should start with https://"}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Auto-Responder Emails */}
+        <div className="p-4 rounded-xl border border-border/50 hover:border-primary/30 transition-colors bg-muted/20">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3 flex-1 min-w-0">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <Reply className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <Label htmlFor="auto-responder" className="text-sm font-semibold cursor-pointer">
+                    Auto-Responder Emails
+                  </Label>
+                  <Switch
+                    id="auto-responder"
+                    checked={credentials.ENABLE_AUTO_RESPONDER === "true"}
+                    onCheckedChange={(checked) =>
+                      setCredentials({ ...credentials, ENABLE_AUTO_RESPONDER: checked ? "true" : "false" })
+                    }
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Automatically send thank-you emails to leads
+                </p>
+                {credentials.ENABLE_AUTO_RESPONDER === "true" && (
+                  <div className="mt-4 space-y-3 p-4 rounded-xl bg-muted/30 border border-border/50">
+                    <Alert className="bg-muted/50">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription className="text-xs">
+                        Organization name will use <strong>{branding?.companyName || "your company name from Step 2"}</strong> automatically.
+                      </AlertDescription>
+                    </Alert>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="auto-responder-subject" className="text-xs font-medium">
+                          Email Subject
+                        </Label>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowAutoResponderPreview(!showAutoResponderPreview)}
+                          className="h-7 text-xs"
+                        >
+                          {showAutoResponderPreview ? "Hide" : "Preview"}
+                        </Button>
+                      </div>
+                      <Input
+                        id="auto-responder-subject"
+                        type="text"
+                        value={credentials.AUTO_RESPONDER_SUBJECT}
+                        onChange={(e) =>
+                          setCredentials({ ...credentials, AUTO_RESPONDER_SUBJECT: e.target.value })
+                        }
+                        placeholder="Thank you for contacting us!"
+                        className="h-9 text-sm"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="auto-responder-body" className="text-xs font-medium">
+                        Email Message
+                      </Label>
+                      <textarea
+                        id="auto-responder-body"
+                        value={credentials.AUTO_RESPONDER_BODY}
+                        onChange={(e) =>
+                          setCredentials({ ...credentials, AUTO_RESPONDER_BODY: e.target.value })
+                        }
+                        placeholder="Hi {{leadName}},\n\nThank you for reaching out..."
+                        className="w-full min-h-[100px] px-3 py-2 text-sm border rounded-lg resize-none"
+                        rows={4}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Use <code className="bg-muted px-1 rounded text-xs">{"{{leadName}}"}</code> and <code className="bg-muted px-1 rounded text-xs">{"{{organizationName}}"}</code> for personalization
+                      </p>
+                    </div>
+                    {showAutoResponderPreview && (
+                      <Alert className="bg-muted/30">
+                        <AlertDescription className="text-xs">
+                          <strong className="block mb-2">Preview:</strong>
+                          <div className="space-y-1 text-muted-foreground">
+                            <div><strong>To:</strong> lead@example.com</div>
+                            <div><strong>Subject:</strong> {credentials.AUTO_RESPONDER_SUBJECT || `Thank you for contacting ${branding?.companyName || "Your Company"}!`}</div>
+                            <div className="mt-2 whitespace-pre-wrap border-t pt-2 text-xs">
+                              {(credentials.AUTO_RESPONDER_BODY || `Hi John,\n\nThank you for reaching out to ${branding?.companyName || "Your Company"}! We've received your message and will get back to you as soon as possible.\n\nBest regards,\nThe ${branding?.companyName || "Your Company"} Team`)
+                                .replace(/\{\{leadName\}\}/g, "John")
+                                .replace(/\{\{organizationName\}\}/g, branding?.companyName || "Your Company")}
+                            </div>
+                          </div>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save settings. Please try again."
+      />
+    </div>
+  );
+}
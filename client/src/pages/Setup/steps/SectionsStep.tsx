@@ -0,0 +1,454 @@
+/**
+ * Sections Step Component
+ *
+ * Features, How It Works steps, testimonials and stats for the landing
+ * page. Their order and visibility are set in the Page Layout step.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/SectionsStep
+ */
+
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { FIELD_MAX_LENGTHS } from "@/lib/validation";
+import { DEFAULT_SECTION_ICON, SECTION_ICONS } from "@/lib/sectionIcons";
+import { SECTION_ITEM_LIMITS } from "@shared/appConfig";
+import {
+  DEFAULT_FEATURES_SECTION,
+  DEFAULT_HOW_IT_WORKS,
+  SECTION_ICON_NAMES,
+  isSectionIconName,
+} from "@shared/landingSections";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SectionsState, SetupStepProps } from "../types";
+
+type ListKey = "features" | "steps" | "testimonials" | "stats";
+
+const NEW_ITEMS: { [K in ListKey]: SectionsState[K][number] } = {
+  features: { title: "", description: "", icon: DEFAULT_SECTION_ICON, detail: "" },
+  steps: { title: "", description: "", icon: DEFAULT_SECTION_ICON },
+  testimonials: { quote: "", author: "", role: "" },
+  stats: { value: "", label: "", icon: DEFAULT_SECTION_ICON },
+};
+
+function IconSelect({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: string;
+  onChange: (icon: string) => void;
+}) {
+  return (
+    <Select
+      value={isSectionIconName(value) ? value : DEFAULT_SECTION_ICON}
+      onValueChange={onChange}
+    >
+      <SelectTrigger id={id} className="h-9 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SECTION_ICON_NAMES.map((name) => {
+          const Icon = SECTION_ICONS[name];
+          return (
+            <SelectItem key={name} value={name}>
+              <span className="flex items-center gap-2">
+                <Icon className="h-4 w-4" aria-hidden="true" />
+                {name}
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function SectionPanel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+interface ItemHeaderProps {
+  label: string;
+  index: number;
+  count: number;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function ItemHeader({ label, index, count, onMove, onRemove }: ItemHeaderProps) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-xs text-muted-foreground">
+        {label} {index + 1}
+      </span>
+      <div className="flex items-center gap-1">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onMove(-1)}
+          disabled={index === 0}
+          aria-label={`Move ${label.toLowerCase()} ${index + 1} up`}
+        >
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onMove(1)}
+          disabled={index === count - 1}
+          aria-label={`Move ${label.toLowerCase()} ${index + 1} down`}
+        >
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onRemove}
+          aria-label={`Remove ${label.toLowerCase()} ${index + 1}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function SectionsStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { sections, setSections } = useSetupWizard();
+
+  const update = (patch: Partial<SectionsState>) => setSections((prev) => ({ ...prev, ...patch }));
+
+  const updateItem = <K extends ListKey>(
+    key: K,
+    index: number,
+    patch: Partial<SectionsState[K][number]>
+  ) => {
+    setSections((prev) => ({
+      ...prev,
+      [key]: prev[key].map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }));
+  };
+
+  const moveItem = (key: ListKey, index: number, offset: number) => {
+    setSections((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev[key].length) return prev;
+      const next = [...prev[key]];
+      [next[index], next[target]] = [next[target], next[index]];
+      return { ...prev, [key]: next };
+    });
+  };
+
+  const removeItem = (key: ListKey, index: number) => {
+    setSections((prev) => ({ ...prev, [key]: prev[key].filter((_, i) => i !== index) }));
+  };
+
+  const addItem = (key: ListKey) => {
+    setSections((prev) => ({ ...prev, [key]: [...prev[key], { ...NEW_ITEMS[key] }] }));
+  };
+
+  const itemHeader = (key: ListKey, label: string, index: number) => (
+    <ItemHeader
+      label={label}
+      index={index}
+      count={sections[key].length}
+      onMove={(offset) => moveItem(key, index, offset)}
+      onRemove={() => removeItem(key, index)}
+    />
+  );
+
+  const addButton = (key: ListKey, label: string) => (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={() => addItem(key)}
+      disabled={sections[key].length >= SECTION_ITEM_LIMITS[key]}
+      className="w-full"
+    >
+      <Plus className="mr-2 h-4 w-4" />
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Page Sections</h3>
+        <p className="text-sm text-muted-foreground">
+          What your homepage says about you below the hero. You can hide or reorder the sections in
+          the next step.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <SectionPanel title="Features">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="featuresTitle" className="text-xs font-medium">
+                Section Title
+              </Label>
+              <Input
+                id="featuresTitle"
+                value={sections.featuresTitle}
+                onChange={(e) => update({ featuresTitle: e.target.value })}
+                placeholder={DEFAULT_FEATURES_SECTION.title}
+                maxLength={FIELD_MAX_LENGTHS.sectionTitle}
+                className="h-9 text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="featuresDescription" className="text-xs font-medium">
+                Subtitle
+              </Label>
+              <Input
+                id="featuresDescription"
+                value={sections.featuresDescription}
+                onChange={(e) => update({ featuresDescription: e.target.value })}
+                placeholder={DEFAULT_FEATURES_SECTION.description}
+                maxLength={FIELD_MAX_LENGTHS.sectionDescription}
+                className="h-9 text-sm"
+              />
+            </div>
+          </div>
+
+          {sections.features.map((feature, index) => (
+            <div key={index} className="space-y-3 p-4 rounded-xl border bg-background/60">
+              {itemHeader("features", "Feature", index)}
+              <div className="grid grid-cols-1 md:grid-cols-[minmax(0,2fr)_minmax(0,1fr)] gap-3">
+                <Input
+                  aria-label={`Feature ${index + 1} title`}
+                  value={feature.title}
+                  onChange={(e) => updateItem("features", index, { title: e.target.value })}
+                  placeholder="Title"
+                  maxLength={FIELD_MAX_LENGTHS.featureTitle}
+                  className="h-9 text-sm"
+                />
+                <IconSelect
+                  id={`feature-icon-${index}`}
+                  value={feature.icon}
+                  onChange={(icon) => updateItem("features", index, { icon })}
+                />
+              </div>
+              <textarea
+                aria-label={`Feature ${index + 1} description`}
+                value={feature.description}
+                onChange={(e) => updateItem("features", index, { description: e.target.value })}
+                placeholder="Description"
+                maxLength={FIELD_MAX_LENGTHS.featureDescription}
+                className="w-full min-h-[60px] px-3 py-2 text-sm border rounded-lg resize-none"
+                rows={2}
+              />
+              <Input
+                aria-label={`Feature ${index + 1} highlight`}
+                value={feature.detail}
+                onChange={(e) => updateItem("features", index, { detail: e.target.value })}
+                placeholder="Highlight (optional), e.g. Real-time alerts"
+                maxLength={FIELD_MAX_LENGTHS.featureDetail}
+                className="h-9 text-sm"
+              />
+            </div>
+          ))}
+          {addButton("features", "Add Feature")}
+        </SectionPanel>
+
+        <SectionPanel title="How It Works">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="howItWorksTitle" className="text-xs font-medium">
+                Section Title
+              </Label>
+              <Input
+                id="howItWorksTitle"
+                value={sections.howItWorksTitle}
+                onChange={(e) => update({ howItWorksTitle: e.target.value })}
+                placeholder={DEFAULT_HOW_IT_WORKS.title}
+                maxLength={FIELD_MAX_LENGTHS.sectionTitle}
+                className="h-9 text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="howItWorksDescription" className="text-xs font-medium">
+                Subtitle
+              </Label>
+              <Input
+                id="howItWorksDescription"
+                value={sections.howItWorksDescription}
+                onChange={(e) => update({ howItWorksDescription: e.target.value })}
+                placeholder={DEFAULT_HOW_IT_WORKS.description}
+                maxLength={FIELD_MAX_LENGTHS.sectionDescription}
+                className="h-9 text-sm"
+              />
+            </div>
+          </div>
+
+          {sections.steps.map((step, index) => (
+            <div key={index} className="space-y-3 p-4 rounded-xl border bg-background/60">
+              {itemHeader("steps", "Step", index)}
+              <div className="grid grid-cols-1 md:grid-cols-[minmax(0,2fr)_minmax(0,1fr)] gap-3">
+                <Input
+                  aria-label={`Step ${index + 1} title`}
+                  value={step.title}
+                  onChange={(e) => updateItem("steps", index, { title: e.target.value })}
+                  placeholder="Title"
+                  maxLength={FIELD_MAX_LENGTHS.stepTitle}
+                  className="h-9 text-sm"
+                />
+                <IconSelect
+                  id={`step-icon-${index}`}
+                  value={step.icon}
+                  onChange={(icon) => updateItem("steps", index, { icon })}
+                />
+              </div>
+              <textarea
+                aria-label={`Step ${index + 1} description`}
+                value={step.description}
+                onChange={(e) => updateItem("steps", index, { description: e.target.value })}
+                placeholder="Description"
+                maxLength={FIELD_MAX_LENGTHS.stepDescription}
+                className="w-full min-h-[60px] px-3 py-2 text-sm border rounded-lg resize-none"
+                rows={2}
+              />
+            </div>
+          ))}
+          {addButton("steps", "Add Step")}
+        </SectionPanel>
+
+        <SectionPanel title="Testimonials & Stats">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="socialProofTitle" className="text-xs font-medium">
+                Section Title
+              </Label>
+              <Input
+                id="socialProofTitle"
+                value={sections.socialProofTitle}
+                onChange={(e) => update({ socialProofTitle: e.target.value })}
+                placeholder="Optional"
+                maxLength={FIELD_MAX_LENGTHS.sectionTitle}
+                className="h-9 text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="socialProofDescription" className="text-xs font-medium">
+                Subtitle
+              </Label>
+              <Input
+                id="socialProofDescription"
+                value={sections.socialProofDescription}
+                onChange={(e) => update({ socialProofDescription: e.target.value })}
+                placeholder="Optional"
+                maxLength={FIELD_MAX_LENGTHS.sectionDescription}
+                className="h-9 text-sm"
+              />
+            </div>
+          </div>
+
+          {sections.testimonials.map((testimonial, index) => (
+            <div key={index} className="space-y-3 p-4 rounded-xl border bg-background/60">
+              {itemHeader("testimonials", "Testimonial", index)}
+              <textarea
+                aria-label={`Testimonial ${index + 1} quote`}
+                value={testimonial.quote}
+                onChange={(e) => updateItem("testimonials", index, { quote: e.target.value })}
+                placeholder="What your customer said"
+                maxLength={FIELD_MAX_LENGTHS.testimonialQuote}
+                className="w-full min-h-[80px] px-3 py-2 text-sm border rounded-lg resize-none"
+                rows={3}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <Input
+                  aria-label={`Testimonial ${index + 1} author`}
+                  value={testimonial.author}
+                  onChange={(e) => updateItem("testimonials", index, { author: e.target.value })}
+                  placeholder="Name"
+                  maxLength={FIELD_MAX_LENGTHS.testimonialAuthor}
+                  className="h-9 text-sm"
+                />
+                <Input
+                  aria-label={`Testimonial ${index + 1} role`}
+                  value={testimonial.role}
+                  onChange={(e) => updateItem("testimonials", index, { role: e.target.value })}
+                  placeholder="Role or company (optional)"
+                  maxLength={FIELD_MAX_LENGTHS.testimonialRole}
+                  className="h-9 text-sm"
+                />
+              </div>
+            </div>
+          ))}
+          {addButton("testimonials", "Add Testimonial")}
+
+          {sections.stats.map((stat, index) => (
+            <div key={index} className="space-y-3 p-4 rounded-xl border bg-background/60">
+              {itemHeader("stats", "Stat", index)}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <Input
+                  aria-label={`Stat ${index + 1} value`}
+                  value={stat.value}
+                  onChange={(e) => updateItem("stats", index, { value: e.target.value })}
+                  placeholder="Value, e.g. 5x"
+                  maxLength={FIELD_MAX_LENGTHS.statValue}
+                  className="h-9 text-sm"
+                />
+                <Input
+                  aria-label={`Stat ${index + 1} label`}
+                  value={stat.label}
+                  onChange={(e) => updateItem("stats", index, { label: e.target.value })}
+                  placeholder="Label"
+                  maxLength={FIELD_MAX_LENGTHS.statLabel}
+                  className="h-9 text-sm"
+                />
+                <IconSelect
+                  id={`stat-icon-${index}`}
+                  value={stat.icon}
+                  onChange={(icon) => updateItem("stats", index, { icon })}
+                />
+              </div>
+            </div>
+          ))}
+          {addButton("stats", "Add Stat")}
+        </SectionPanel>
+      </div>
+
+      {!canContinue && (
+        <p className="text-xs text-destructive">
+          Fill in every title and description, testimonial quote and name, and stat value and label,
+          or remove the empty items.
+        </p>
+      )}
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save page sections"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Slack Step Component
+ *
+ * Slack incoming webhook setup. Only shown when Slack notifications are wanted.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/SlackStep
+ */
+
+/* eslint-disable react/no-unescaped-entities */
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CheckCircle2, XCircle, Loader2, ExternalLink, ArrowLeft } from "lucide-react";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+export function SlackStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { credentials, setCredentials } = useSetupWizard();
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Slack Setup</h3>
+        <p className="text-sm text-muted-foreground">
+          Connect Slack to receive notifications in your workspace
+        </p>
+      </div>
+
+      <Accordion type="single" collapsible className="space-y-2">
+        <AccordionItem value="slack1" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">1</span>
+              <span>Go to Slack Apps</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Create a webhook to send messages to your Slack channel
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.open("https://api.slack.com/apps", "_blank")}
+              className="w-full justify-start"
+            >
+              <ExternalLink className="mr-2 h-4 w-4" />
+              Open Slack Apps Page
+            </Button>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="slack2" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">2</span>
+              <span>Create Incoming Webhook</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-2">
+            <ol className="list-decimal list-inside space-y-1.5 text-xs text-muted-foreground">
+              <li>Click <strong>"Create New App"</strong> → <strong>"From scratch"</strong></li>
+              <li>Name it <strong>"SmartSheetConnect"</strong> and select your workspace</li>
+              <li>Go to <strong>"Incoming Webhooks"</strong> → Toggle ON</li>
+              <li>Click <strong>"Add New Webhook to Workspace"</strong></li>
+              <li>Select your channel and click <strong>"Allow"</strong></li>
+            </ol>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="slack3" className="border rounded-xl px-4">
+          <AccordionTrigger className="text-sm font-medium hover:no-underline">
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 flex items-center justify-center text-xs font-semibold text-primary">3</span>
+              <span>Copy Webhook URL</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="pt-2 pb-4 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Slack will show you a webhook URL. Copy it and paste below.
+            </p>
+            <div className="bg-muted/50 p-2.5 rounded-lg border border-dashed">
+              <code className="text-xs break-all">
+                https://hooks.slack.com/services/T00000000/B00000000/...
+              </code>
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="slack-webhook" className="text-sm font-medium">Webhook URL</Label>
+          <Input
+            id="slack-webhook"
+            type="url"
+            value={credentials.SLACK_WEBHOOK_URL}
+            onChange={(e) =>
+              setCredentials({ ...credentials, SLACK_WEBHOOK_URL: e.target.value })
+            }
+            placeholder="https://hooks.slack.com/services/..."
+            className="h-10"
+          />
+        </div>
+
+        <Button
+          onClick={onNext}
+          disabled={!canContinue || isSaving}
+          className="w-full"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin text-white" />
+              Saving...
+            </>
+          ) : (
+            <>
+              Complete Setup
+              <CheckCircle2 className="ml-2 h-4 w-4 text-white" />
+            </>
+          )}
+        </Button>
+
+        {saveError && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertDescription>
+              {saveError.message || "Failed to save Slack configuration. Please try again."}
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      <Button
+        variant="outline"
+        onClick={onBack}
+        className="w-full"
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+/**
+ * Theme Step Component
+ *
+ * Light or dark mode, fonts, corner radius, shadow strength and the
+ * colors of everything beyond the two brand colors, for each mode.
+ * Anything left alone keeps the site's default, and the live preview
+ * shows each change as it's made.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/ThemeStep
+ */
+
+import { useState } from "react";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import { hslToHex, type ColorMode } from "@/lib/colorTheme";
+import type { ThemeConfig } from "@shared/appConfig";
+import {
+  COLOR_MODES,
+  DEFAULT_THEME_RADIUS,
+  MAX_THEME_RADIUS,
+  SHADOW_INTENSITY_NAMES,
+  THEME_COLOR_TOKENS,
+  THEME_FONT_NAMES,
+  THEME_FONTS,
+  type ColorModeSetting,
+  type ShadowIntensity,
+  type ThemeColorToken,
+  type ThemeFontName,
+} from "@shared/theme";
+import { StepNavigation } from "../components/StepNavigation";
+import { useSetupWizard } from "../context";
+import type { SetupStepProps } from "../types";
+
+const COLOR_GROUPS: { title: string; tokens: { token: ThemeColorToken; label: string }[] }[] = [
+  {
+    title: "Page",
+    tokens: [
+      { token: "background", label: "Background" },
+      { token: "foreground", label: "Text" },
+      { token: "border", label: "Borders" },
+      { token: "input", label: "Input borders" },
+      { token: "ring", label: "Focus ring" },
+    ],
+  },
+  {
+    title: "Cards & Menus",
+    tokens: [
+      { token: "card", label: "Card background" },
+      { token: "card-foreground", label: "Card text" },
+      { token: "card-border", label: "Card border" },
+      { token: "popover", label: "Menu background" },
+      { token: "popover-foreground", label: "Menu text" },
+      { token: "popover-border", label: "Menu border" },
+    ],
+  },
+  {
+    title: "Muted & Accent",
+    tokens: [
+      { token: "muted", label: "Muted background" },
+      { token: "muted-foreground", label: "Muted text" },
+      { token: "accent", label: "Accent background" },
+      { token: "accent-foreground", label: "Accent text" },
+    ],
+  },
+  {
+    title: "Errors",
+    tokens: [
+      { token: "destructive", label: "Error color" },
+      { token: "destructive-foreground", label: "Text on error color" },
+    ],
+  },
+  {
+    title: "Charts",
+    tokens: [
+      { token: "chart-1", label: "Chart color 1" },
+      { token: "chart-2", label: "Chart color 2" },
+      { token: "chart-3", label: "Chart color 3" },
+      { token: "chart-4", label: "Chart color 4" },
+      { token: "chart-5", label: "Chart color 5" },
+    ],
+  },
+  {
+    title: "Sidebar",
+    tokens: [
+      { token: "sidebar", label: "Sidebar background" },
+      { token: "sidebar-foreground", label: "Sidebar text" },
+      { token: "sidebar-border", label: "Sidebar border" },
+      { token: "sidebar-ring", label: "Sidebar focus ring" },
+      { token: "sidebar-primary", label: "Sidebar highlight" },
+      { token: "sidebar-primary-foreground", label: "Text on sidebar highlight" },
+      { token: "sidebar-accent", label: "Sidebar hover" },
+      { token: "sidebar-accent-foreground", label: "Sidebar hover text" },
+    ],
+  },
+];
+
+const SHADOW_LABELS: Record<ShadowIntensity, string> = {
+  none: "None",
+  subtle: "Subtle",
+  medium: "Medium (default)",
+  strong: "Strong",
+};
+
+const MODE_LABELS: Record<ColorModeSetting, string> = {
+  light: "Light",
+  dark: "Dark",
+  auto: "Match visitor's system",
+};
+
+// Theme keys holding the colors of each mode
+const COLORS_KEY = { light: "colors", dark: "darkColors" } as const;
+
+const SAME_AS_BODY = "same-as-body";
+
+// The stylesheet's colors for a mode, for the color inputs left at their
+// default. Read from a probe element with the mode's class, so neither the
+// document's current mode nor the saved theme gets in the way.
+function defaultColors(mode: ColorMode): Record<ThemeColorToken, string> {
+  const probe = document.createElement("div");
+  probe.className = mode;
+  document.body.appendChild(probe);
+  const style = getComputedStyle(probe);
+  const colors = Object.fromEntries(
+    THEME_COLOR_TOKENS.map((token) => [
+      token,
+      hslToHex(style.getPropertyValue(`--${token}`)) ?? "#000000",
+    ])
+  ) as Record<ThemeColorToken, string>;
+  probe.remove();
+  return colors;
+}
+
+function readDefaultColors(): Record<ColorMode, Record<ThemeColorToken, string>> {
+  return { light: defaultColors("light"), dark: defaultColors("dark") };
+}
+
+export function ThemeStep({ onNext, onBack, canContinue, isSaving, saveError }: SetupStepProps) {
+  const { theme, setTheme } = useSetupWizard();
+  const [defaults] = useState(readDefaultColors);
+  // Which mode's colors are being edited
+  const [colorMode, setColorMode] = useState<ColorMode>(theme.mode === "dark" ? "dark" : "light");
+  const colorsKey = COLORS_KEY[colorMode];
+
+  const update = (patch: Partial<ThemeConfig>) => setTheme((prev) => ({ ...prev, ...patch }));
+
+  const setColor = (token: ThemeColorToken, color: string | undefined) => {
+    setTheme((prev) => {
+      const colors = { ...prev[colorsKey] };
+      if (color === undefined) delete colors[token];
+      else colors[token] = color;
+      return { ...prev, [colorsKey]: colors };
+    });
+  };
+
+  const radius = theme.radius ?? DEFAULT_THEME_RADIUS;
+  const modeColors = theme[colorsKey] ?? {};
+  const customColors = Object.keys(modeColors).length;
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">Theme</h3>
+        <p className="text-sm text-muted-foreground">
+          Fine-tune the look of your site beyond the brand colors. Anything you leave alone keeps
+          its default.
+        </p>
+      </div>
+
+      <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+        <h4 className="text-sm font-medium">Appearance</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="theme-mode" className="text-xs font-medium">
+              Color Mode
+            </Label>
+            <Select
+              value={theme.mode ?? "light"}
+              onValueChange={(mode) => update({ mode: mode as ColorModeSetting })}
+            >
+              <SelectTrigger id="theme-mode" className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COLOR_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-3 md:pt-6">
+            <div className="space-y-0.5">
+              <Label htmlFor="theme-mode-toggle" className="text-xs font-medium">
+                Light/Dark Switch
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Let visitors switch modes from the header
+              </p>
+            </div>
+            <Switch
+              id="theme-mode-toggle"
+              checked={theme.showModeToggle !== false}
+              onCheckedChange={(checked) => update({ showModeToggle: checked })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+        <h4 className="text-sm font-medium">Typography</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="theme-body-font" className="text-xs font-medium">
+              Body Font
+            </Label>
+            <Select
+              value={theme.bodyFont ?? "inter"}
+              onValueChange={(font) => update({ bodyFont: font as ThemeFontName })}
+            >
+              <SelectTrigger id="theme-body-font" className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THEME_FONT_NAMES.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    <span style={{ fontFamily: THEME_FONTS[name].stack }}>
+                      {THEME_FONTS[name].label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="theme-heading-font" className="text-xs font-medium">
+              Heading Font
+            </Label>
+            <Select
+              value={theme.headingFont ?? SAME_AS_BODY}
+              onValueChange={(font) =>
+                update({ headingFont: font === SAME_AS_BODY ? undefined : (font as ThemeFontName) })
+              }
+            >
+              <SelectTrigger id="theme-heading-font" className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SAME_AS_BODY}>Same as body</SelectItem>
+                {THEME_FONT_NAMES.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    <span style={{ fontFamily: THEME_FONTS[name].stack }}>
+                      {THEME_FONTS[name].label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+        <h4 className="text-sm font-medium">Shape</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="theme-radius" className="text-xs font-medium">
+                Corner Radius
+              </Label>
+              <span className="text-xs text-muted-foreground">{radius}px</span>
+            </div>
+            <input
+              id="theme-radius"
+              type="range"
+              min={0}
+              max={MAX_THEME_RADIUS}
+              step={1}
+              value={radius}
+              onChange={(e) => update({ radius: Number(e.target.value) })}
+              className="w-full accent-primary"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="theme-shadow" className="text-xs font-medium">
+              Shadows
+            </Label>
+            <Select
+              value={theme.shadow ?? "medium"}
+              onValueChange={(shadow) => update({ shadow: shadow as ShadowIntensity })}
+            >
+              <SelectTrigger id="theme-shadow" className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHADOW_INTENSITY_NAMES.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {SHADOW_LABELS[name]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4 p-5 rounded-2xl bg-muted/20">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-medium">Colors</h4>
+          {customColors > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ [colorsKey]: {} })}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset all {colorMode} colors
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The primary and secondary colors are set in the Branding step; dark mode uses shades of
+          them that read on its background.
+        </p>
+        <Tabs value={colorMode} onValueChange={(mode) => setColorMode(mode as ColorMode)}>
+          <TabsList>
+            <TabsTrigger value="light">Light mode</TabsTrigger>
+            <TabsTrigger value="dark">Dark mode</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Accordion type="multiple" defaultValue={[COLOR_GROUPS[0].title]}>
+          {COLOR_GROUPS.map((group) => (
+            <AccordionItem key={group.title} value={group.title}>
+              <AccordionTrigger className="text-sm">{group.title}</AccordionTrigger>
+              <AccordionContent>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {group.tokens.map(({ token, label }) => {
+                    const color = modeColors[token];
+                    return (
+                      <div key={token} className="flex items-center gap-2">
+                        <Input
+                          id={`theme-color-${token}`}
+                          type="color"
+                          value={color ?? defaults[colorMode][token]}
+                          onChange={(e) => setColor(token, e.target.value)}
+                          className="h-9 w-12 p-1 flex-shrink-0"
+                        />
+                        <Label htmlFor={`theme-color-${token}`} className="flex-1 text-xs">
+                          {label}
+                          {!color && <span className="text-muted-foreground"> (default)</span>}
+                        </Label>
+                        {color && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setColor(token, undefined)}
+                            aria-label={`Reset ${label.toLowerCase()}`}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </div>
+
+      <StepNavigation
+        onNext={onNext}
+        onBack={onBack}
+        canContinue={canContinue}
+        isSaving={isSaving}
+        saveError={saveError}
+        errorFallback="Failed to save the theme"
+      />
+    </div>
+  );
+}
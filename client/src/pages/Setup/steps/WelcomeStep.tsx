@@ -7,12 +7,17 @@
 
 import { Button } from "@/components/ui/button";
 import { Sparkles, ArrowRight, CheckCircle } from "lucide-react";
+import { useSetupWizard } from "../context";
+import { ConfigTransferCard } from "../components/ConfigTransferCard";
+import { draftStateFromConfig } from "../utils/configBundle";
 
 interface WelcomeStepProps {
   onNext: () => void;
 }
 
 export function WelcomeStep({ onNext }: WelcomeStepProps) {
+  const { applyDraftState } = useSetupWizard();
+
   return (
     <div className="space-y-8">
       <div className="text-center space-y-3">
@@ -64,6 +69,9 @@ export function WelcomeStep({ onNext }: WelcomeStepProps) {
         ))}
       </div>
 
+      {/* Starting from another site's export pre-fills the steps that follow */}
+      <ConfigTransferCard onImported={(sections) => applyDraftState(draftStateFromConfig(sections))} />
+
       <div className="flex gap-3 pt-4">
         <Button
           variant="outline"
@@ -0,0 +1,301 @@
+/**
+ * Setup Step Registry
+ *
+ * The wizard's steps in order. Each entry says when the step is shown,
+ * whether its fields are complete enough to continue, and what to save
+ * before moving on. Navigation, progress and the step kept in localStorage
+ * are all derived from this list, so adding a step (SMS, a CRM, ...) means
+ * adding an entry here, not renumbering the wizard.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/steps/registry
+ */
+
+import type { ComponentType } from "react";
+import type { CredentialsPayload } from "@shared/api";
+import { formFieldsSchema } from "@shared/formDefinition";
+import { findBrokenSectionLinks } from "@shared/pageLayout";
+import { useSetupWizard } from "../context";
+import { layoutPayload, layoutProblem } from "../utils/layout";
+import { sectionsComplete, sectionsPayload } from "../utils/sections";
+import type { SetupWizardData } from "../hooks/useSetupWizardState";
+import type { SetupStepProps } from "../types";
+import { WelcomeStep } from "./WelcomeStep";
+import { BrandingStep } from "./BrandingStep";
+import { ThemeStep } from "./ThemeStep";
+import { ContentStep } from "./ContentStep";
+import { SectionsStep } from "./SectionsStep";
+import { LayoutStep } from "./LayoutStep";
+import { FormFieldsStep } from "./FormFieldsStep";
+import { HeaderFooterStep } from "./HeaderFooterStep";
+import { NotificationsStep } from "./NotificationsStep";
+import { GoogleSetupStep } from "./GoogleSetupStep";
+import { CredentialsStep } from "./CredentialsStep";
+import { GoogleAuthStep } from "./GoogleAuthStep";
+import { SlackStep } from "./SlackStep";
+import { CompletionStep } from "./CompletionStep";
+
+export interface SetupStepDefinition {
+  /** Stable id, also what localStorage keeps */
+  id: string;
+  title: string;
+  component: ComponentType<SetupStepProps>;
+  /** Hidden steps are skipped and left out of the step count */
+  isVisible?: (wizard: SetupWizardData) => boolean;
+  /** Whether Continue is enabled */
+  validate?: (wizard: SetupWizardData) => boolean;
+  /**
+   * Runs when the owner continues. Resolve to false to stay on the step;
+   * a rejection is shown as the step's save error.
+   */
+  save?: (wizard: SetupWizardData) => Promise<boolean | void>;
+  /** Show the live site preview next to the step */
+  showPreview?: boolean;
+  /** Poll the setup status while open, to notice a finished OAuth flow */
+  pollsStatus?: boolean;
+}
+
+/**
+ * Whether Google has to be connected: to write leads to Sheets or to send
+ * Gmail notifications and auto-replies.
+ */
+export function needsGoogleConnection(creds: CredentialsPayload): boolean {
+  return (
+    creds.LEAD_SINK === "google-sheets" ||
+    creds.ENABLE_EMAIL_NOTIFICATIONS === "true" ||
+    creds.ENABLE_AUTO_RESPONDER === "true"
+  );
+}
+
+const hasText = (value: string) => value.trim().length > 0;
+
+// Each link needs a label and either a section of the page or a URL
+const navigationReady = ({ headerFooter, layout }: SetupWizardData) =>
+  headerFooter.navigation.every(
+    link => hasText(link.label) && (hasText(link.sectionId) || hasText(link.href ?? ""))
+  ) && findBrokenSectionLinks(headerFooter.navigation, layout).length === 0;
+
+const usesGoogle = (wizard: SetupWizardData) =>
+  needsGoogleConnection(wizard.buildCredentialsPayload());
+
+const webhookReady = ({ notificationPreferences, credentials }: SetupWizardData) =>
+  !notificationPreferences.wantsWebhook || hasText(credentials.WEBHOOK_URL);
+
+// FormFieldsStep predates the registry and takes its fields as props
+function FormFieldsRegistryStep({ onNext, onBack, isSaving, saveError }: SetupStepProps) {
+  const { formFields, setFormFields } = useSetupWizard();
+  return (
+    <FormFieldsStep
+      fields={formFields}
+      onChange={setFormFields}
+      onBack={() => onBack?.()}
+      onSave={onNext}
+      isSaving={isSaving}
+      saveError={saveError?.message}
+    />
+  );
+}
+
+export const SETUP_STEPS: readonly SetupStepDefinition[] = [
+  {
+    id: "welcome",
+    title: "Welcome",
+    component: WelcomeStep,
+  },
+  {
+    id: "branding",
+    title: "Branding",
+    component: BrandingStep,
+    showPreview: true,
+    validate: ({ branding }) => hasText(branding.companyName),
+    save: async ({ branding, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({
+        branding: {
+          companyName: branding.companyName.trim(),
+          logo: branding.logo?.trim() || undefined,
+          logoRetina: branding.logoRetina || undefined,
+          favicon: branding.favicon || undefined,
+          appleTouchIcon: branding.appleTouchIcon || undefined,
+          primaryColor: branding.primaryColor?.trim() || undefined,
+          secondaryColor: branding.secondaryColor?.trim() || undefined,
+          siteUrl: branding.siteUrl?.trim() || undefined,
+        },
+      });
+    },
+  },
+  {
+    id: "theme",
+    title: "Theme",
+    component: ThemeStep,
+    showPreview: true,
+    save: async ({ theme, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({ theme });
+    },
+  },
+  {
+    id: "content",
+    title: "Content",
+    component: ContentStep,
+    showPreview: true,
+    save: async ({ content, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({
+        content: {
+          hero: {
+            title: content.heroTitle || undefined,
+            description: content.heroDescription || undefined,
+            ctaText: content.heroCtaText || undefined,
+            secondaryCtaText: content.heroSecondaryCtaText || undefined,
+            tertiaryCtaText: content.heroTertiaryCtaText || undefined,
+            benefits: content.heroBenefits.map(text => ({ text })),
+          },
+          form: {
+            title: content.formTitle || undefined,
+            description: content.formDescription || undefined,
+            submitText: content.formSubmitText || undefined,
+          },
+        },
+      });
+    },
+  },
+  {
+    id: "sections",
+    title: "Page Sections",
+    component: SectionsStep,
+    validate: ({ sections }) => sectionsComplete(sections),
+    save: async ({ sections, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({ content: sectionsPayload(sections) });
+    },
+  },
+  {
+    id: "layout",
+    title: "Page Layout",
+    component: LayoutStep,
+    showPreview: true,
+    validate: ({ layout }) => layoutProblem(layout) === null,
+    // The navigation goes along as removing or renaming a section updates its links
+    save: async ({ layout, headerFooter, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({
+        layout: { sections: layoutPayload(layout) },
+        header: { navigation: headerFooter.navigation },
+      });
+    },
+  },
+  {
+    id: "form-fields",
+    title: "Form Fields",
+    component: FormFieldsRegistryStep,
+    validate: ({ formFields }) => formFieldsSchema.safeParse(formFields).success,
+    save: async ({ formFields, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({ content: { form: { fields: formFields } } });
+    },
+  },
+  {
+    id: "header-footer",
+    title: "Header & Footer",
+    component: HeaderFooterStep,
+    showPreview: true,
+    validate: navigationReady,
+    save: async ({ headerFooter, seo, analytics, saveBrandingMutation }) => {
+      await saveBrandingMutation.mutateAsync({
+        header: {
+          ctaText: headerFooter.headerCtaText || undefined,
+          navigation: headerFooter.navigation,
+        },
+        footer: {
+          description: headerFooter.footerDescription || undefined,
+          socialLinks: {
+            github: headerFooter.socialGithub || undefined,
+            twitter: headerFooter.socialTwitter || undefined,
+            linkedin: headerFooter.socialLinkedin || undefined,
+            facebook: headerFooter.socialFacebook || undefined,
+            instagram: headerFooter.socialInstagram || undefined,
+            youtube: headerFooter.socialYouTube || undefined,
+            tiktok: headerFooter.socialTikTok || undefined,
+            pinterest: headerFooter.socialPinterest || undefined,
+            snapchat: headerFooter.socialSnapchat || undefined,
+            discord: headerFooter.socialDiscord || undefined,
+          },
+          privacyPolicyUrl: headerFooter.privacyPolicyUrl || undefined,
+          termsOfServiceUrl: headerFooter.termsOfServiceUrl || undefined,
+        },
+        seo: {
+          pageTitle: seo.pageTitle || undefined,
+          metaDescription: seo.metaDescription || undefined,
+          ogImage: seo.ogImage || undefined,
+          ogTitle: seo.ogTitle || undefined,
+          ogDescription: seo.ogDescription || undefined,
+          twitterCard: seo.twitterCard || undefined,
+          twitterImage: seo.twitterImage || undefined,
+          canonicalUrl: seo.canonicalUrl || undefined,
+          keywords: seo.keywords || undefined,
+        },
+        analytics: {
+          googleAnalyticsId: analytics.googleAnalyticsId || undefined,
+          googleTagManagerId: analytics.googleTagManagerId || undefined,
+          facebookPixelId: analytics.facebookPixelId || undefined,
+          linkedinInsightTag: analytics.linkedinInsightTag || undefined,
+          customAnalyticsScript: analytics.customAnalyticsScript || undefined,
+        },
+      });
+    },
+  },
+  {
+    id: "notifications",
+    title: "Notifications",
+    component: NotificationsStep,
+    validate: (wizard) =>
+      (!wizard.notificationPreferences.wantsEmail || hasText(wizard.credentials.NOTIFICATION_EMAIL)) &&
+      webhookReady(wizard),
+    save: async ({ credentials, setCredentials, buildCredentialsPayload, saveCredentialsMutation }) => {
+      const payload = buildCredentialsPayload();
+      setCredentials({ ...credentials, ...payload });
+      // Without Google there is nothing left to connect, so save now
+      if (!needsGoogleConnection(payload)) {
+        await saveCredentialsMutation.mutateAsync(payload);
+      }
+    },
+  },
+  {
+    id: "google-setup",
+    title: "Google Cloud Setup",
+    component: GoogleSetupStep,
+    isVisible: usesGoogle,
+  },
+  {
+    id: "credentials",
+    title: "Google Credentials",
+    component: CredentialsStep,
+    isVisible: usesGoogle,
+    validate: (wizard) =>
+      hasText(wizard.credentials.GOOGLE_CLIENT_ID) &&
+      hasText(wizard.credentials.GOOGLE_CLIENT_SECRET) &&
+      hasText(wizard.credentials.NOTIFICATION_EMAIL) &&
+      webhookReady(wizard),
+    save: async ({ buildCredentialsPayload, saveCredentialsMutation }) => {
+      await saveCredentialsMutation.mutateAsync(buildCredentialsPayload());
+    },
+  },
+  {
+    id: "google-auth",
+    title: "Connect Google",
+    component: GoogleAuthStep,
+    isVisible: usesGoogle,
+    pollsStatus: true,
+    save: async ({ validateMutation }) => (await validateMutation.mutateAsync()).valid,
+  },
+  {
+    id: "slack",
+    title: "Slack",
+    component: SlackStep,
+    isVisible: ({ notificationPreferences }) => notificationPreferences.wantsSlack,
+    validate: ({ credentials }) => hasText(credentials.SLACK_WEBHOOK_URL),
+    save: async ({ buildCredentialsPayload, saveCredentialsMutation }) => {
+      await saveCredentialsMutation.mutateAsync(buildCredentialsPayload());
+    },
+  },
+  {
+    id: "complete",
+    title: "Complete",
+    component: CompletionStep,
+  },
+];
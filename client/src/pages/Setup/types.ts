@@ -5,20 +5,16 @@
  * @module client/pages/Setup/types
  */
 
-export interface SetupStatus {
-  configured: boolean;
-  missing: string[];
-  details: Record<string, boolean>;
-}
-
-export interface ValidationResult {
-  valid: boolean;
-  error?: string;
-}
+export type { SetupStatus } from "@shared/schema";
+export type { ValidationResult } from "@shared/api";
 
 export interface BrandingState {
   companyName: string;
   logo: string;
+  /** Variants generated from an uploaded logo; cleared when the logo changes otherwise */
+  logoRetina: string;
+  favicon: string;
+  appleTouchIcon: string;
   logoFile: File | null;
   logoPreview: string;
   primaryColor: string;
@@ -38,6 +34,20 @@ export interface ContentState {
   formSubmitText: string;
 }
 
+/** Landing page sections; an empty title or description uses the site's default. */
+export interface SectionsState {
+  featuresTitle: string;
+  featuresDescription: string;
+  features: Array<{ title: string; description: string; icon: string; detail: string }>;
+  howItWorksTitle: string;
+  howItWorksDescription: string;
+  steps: Array<{ title: string; description: string; icon: string }>;
+  socialProofTitle: string;
+  socialProofDescription: string;
+  testimonials: Array<{ quote: string; author: string; role: string }>;
+  stats: Array<{ value: string; label: string; icon: string }>;
+}
+
 export interface HeaderFooterState {
   headerCtaText: string;
   navigation: Array<{ label: string; sectionId: string; href?: string }>;
@@ -75,3 +85,19 @@ export interface EmailTemplate {
   introMessage: string;
   closingSignature: string;
 }
+
+/**
+ * Props the wizard passes to every step component. Saving and validation
+ * live in the step registry, so a step only renders fields and calls
+ * onNext/onBack.
+ */
+export interface SetupStepProps {
+  /** Validates and saves the step, then moves to the next visible step */
+  onNext: () => void;
+  /** Missing on the first and last steps */
+  onBack?: () => void;
+  /** False while the step's validation fails */
+  canContinue: boolean;
+  isSaving: boolean;
+  saveError?: Error | null;
+}
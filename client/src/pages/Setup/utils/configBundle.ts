@@ -0,0 +1,122 @@
+/**
+ * Maps imported configuration sections (shared/configBundle.ts) onto the
+ * wizard's fields, so the steps show what was imported and saving them
+ * later doesn't put the wizard's defaults back.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/utils/configBundle
+ */
+
+import type { ConfigSections } from "@shared/configBundle";
+import type { SetupDraftState } from "@shared/setupDraft";
+import { resolveLayout } from "@shared/pageLayout";
+import { sectionsStateFromContent } from "./sections";
+
+/**
+ * Wizard state for the given sections. An imported section replaces the
+ * wizard's one, so values it doesn't set are cleared; sections that were
+ * not imported are left out.
+ */
+export function draftStateFromConfig({
+  branding,
+  theme,
+  content,
+  layout,
+  header,
+  footer,
+  seo,
+  analytics,
+}: ConfigSections): SetupDraftState {
+  const state: SetupDraftState = {};
+
+  if (branding) {
+    state.branding = {
+      companyName: branding.companyName ?? "",
+      logo: branding.logo ?? "",
+      logoRetina: branding.logoRetina ?? "",
+      favicon: branding.favicon ?? "",
+      appleTouchIcon: branding.appleTouchIcon ?? "",
+      primaryColor: branding.primaryColor ?? "",
+      secondaryColor: branding.secondaryColor ?? "",
+      siteUrl: branding.siteUrl ?? "",
+    };
+  }
+
+  if (theme) {
+    state.theme = theme;
+  }
+
+  if (content) {
+    const { hero = {}, form = {} } = content;
+    state.content = {
+      heroTitle: hero.title ?? "",
+      heroDescription: hero.description ?? "",
+      heroCtaText: hero.ctaText ?? "",
+      heroSecondaryCtaText: hero.secondaryCtaText ?? "",
+      heroTertiaryCtaText: hero.tertiaryCtaText ?? "",
+      heroBenefits: hero.benefits?.map((benefit) => benefit.text) ?? [],
+      formTitle: form.title ?? "",
+      formDescription: form.description ?? "",
+      formSubmitText: form.submitText ?? "",
+    };
+    if (form.fields) state.formFields = form.fields;
+    state.sections = sectionsStateFromContent(content);
+  }
+
+  if (layout) {
+    state.layout = resolveLayout({ layout });
+  }
+
+  if (header) {
+    state.headerFooter = {
+      headerCtaText: header.ctaText ?? "",
+      navigation:
+        header.navigation?.map((link) => ({ ...link, sectionId: link.sectionId ?? "" })) ?? [],
+    };
+  }
+  if (footer) {
+    const social = footer.socialLinks ?? {};
+    state.headerFooter = {
+      ...state.headerFooter,
+      footerDescription: footer.description ?? "",
+      socialGithub: social.github ?? "",
+      socialTwitter: social.twitter ?? "",
+      socialLinkedin: social.linkedin ?? "",
+      socialFacebook: social.facebook ?? "",
+      socialInstagram: social.instagram ?? "",
+      socialYouTube: social.youtube ?? "",
+      socialTikTok: social.tiktok ?? "",
+      socialPinterest: social.pinterest ?? "",
+      socialSnapchat: social.snapchat ?? "",
+      socialDiscord: social.discord ?? "",
+      privacyPolicyUrl: footer.privacyPolicyUrl ?? "",
+      termsOfServiceUrl: footer.termsOfServiceUrl ?? "",
+    };
+  }
+
+  if (seo) {
+    state.seo = {
+      pageTitle: seo.pageTitle ?? "",
+      metaDescription: seo.metaDescription ?? "",
+      ogImage: seo.ogImage ?? "",
+      ogTitle: seo.ogTitle ?? "",
+      ogDescription: seo.ogDescription ?? "",
+      twitterCard: seo.twitterCard ?? "",
+      twitterImage: seo.twitterImage ?? "",
+      canonicalUrl: seo.canonicalUrl ?? "",
+      keywords: seo.keywords ?? "",
+    };
+  }
+
+  if (analytics) {
+    state.analytics = {
+      googleAnalyticsId: analytics.googleAnalyticsId ?? "",
+      googleTagManagerId: analytics.googleTagManagerId ?? "",
+      facebookPixelId: analytics.facebookPixelId ?? "",
+      linkedinInsightTag: analytics.linkedinInsightTag ?? "",
+      customAnalyticsScript: analytics.customAnalyticsScript ?? "",
+    };
+  }
+
+  return state;
+}
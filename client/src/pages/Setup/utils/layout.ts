@@ -0,0 +1,115 @@
+/**
+ * Helpers for editing the page layout (shared/pageLayout.ts) in the
+ * wizard: adding and renaming FAQ and rich-text sections, keeping the
+ * navigation links that point at them in step, and checking the layout
+ * is ready to save.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/utils/layout
+ */
+
+import { MAX_LAYOUT_SECTIONS, SECTION_ID_PATTERN } from "@shared/appConfig";
+import { layoutSectionId, type LayoutSection } from "@shared/pageLayout";
+import type { HeaderFooterState } from "../types";
+
+type Navigation = HeaderFooterState["navigation"];
+
+/**
+ * `base`, or `base-2`, `base-3`... when the layout already has that id.
+ */
+export function uniqueSectionId(layout: readonly LayoutSection[], base: string): string {
+  const ids = new Set(layout.map(layoutSectionId));
+  let id = base;
+  for (let n = 2; ids.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * A new, empty section of the given type with an id the layout doesn't have.
+ */
+export function newCustomSection(
+  layout: readonly LayoutSection[],
+  type: "faq" | "rich-text"
+): LayoutSection {
+  if (type === "faq") {
+    return {
+      type,
+      id: uniqueSectionId(layout, "faq"),
+      hidden: false,
+      title: "",
+      items: [{ question: "", answer: "" }],
+    };
+  }
+  return { type, id: uniqueSectionId(layout, "about"), hidden: false, title: "", markdown: "" };
+}
+
+/**
+ * Points the links to section `from` at `to` instead, or drops them when
+ * `to` is null (the section was removed).
+ */
+export function retargetLinks(navigation: Navigation, from: string, to: string | null): Navigation {
+  if (to === null) {
+    return navigation.filter((link) => link.sectionId !== from);
+  }
+  return navigation.map((link) => (link.sectionId === from ? { ...link, sectionId: to } : link));
+}
+
+const filled = (value: string) => value.trim().length > 0;
+
+/**
+ * Why the layout can't be saved yet, or null when it can.
+ */
+export function layoutProblem(layout: readonly LayoutSection[]): string | null {
+  if (!layout.some((section) => !section.hidden)) {
+    return "Show at least one section.";
+  }
+  if (layout.length > MAX_LAYOUT_SECTIONS) {
+    return `The page can have up to ${MAX_LAYOUT_SECTIONS} sections.`;
+  }
+
+  const ids = layout.map(layoutSectionId);
+  if (!ids.every((id) => SECTION_ID_PATTERN.test(id))) {
+    return "Section ids start with a letter and use only lowercase letters, numbers and dashes.";
+  }
+  if (new Set(ids).size !== ids.length) {
+    return "Each section needs its own id.";
+  }
+
+  for (const section of layout) {
+    if (section.type === "faq") {
+      if (section.items.length === 0) return "Add at least one question to each FAQ section.";
+      if (!section.items.every((item) => filled(item.question) && filled(item.answer))) {
+        return "Every question needs an answer.";
+      }
+    }
+    if (section.type === "rich-text" && !filled(section.markdown)) {
+      return "Text sections can't be empty.";
+    }
+  }
+  return null;
+}
+
+/**
+ * The layout as saved, with surrounding whitespace trimmed from its text.
+ */
+export function layoutPayload(layout: readonly LayoutSection[]): LayoutSection[] {
+  return layout.map((section) => {
+    switch (section.type) {
+      case "faq":
+        return {
+          ...section,
+          title: section.title.trim(),
+          items: section.items.map((item) => ({
+            question: item.question.trim(),
+            answer: item.answer.trim(),
+          })),
+        };
+      case "rich-text":
+        return { ...section, title: section.title.trim(), markdown: section.markdown.trim() };
+      default:
+        return section;
+    }
+  });
+}
@@ -1,74 +1,21 @@
 /**
- * Safe localStorage wrapper with comprehensive error handling.
- * Handles quota exceeded, private browsing mode, and other edge cases.
+ * Setup wizard localStorage keys, read and written through safeLocalStorage.
  *
  * @author Lindsey Stead
  * @module client/pages/Setup/utils/localStorage
  */
 
+import { safeLocalStorage } from "@/lib/safeLocalStorage";
+
+/** Holds the wizard draft (shared/setupDraft.ts); older builds kept only the step here. */
 export const SETUP_STORAGE_KEY = 'smartsheetconnect-setup-progress';
 
+/** Name the owner gave in the configuration history, sent with each config change. */
+export const CONFIG_AUTHOR_STORAGE_KEY = 'smartsheetconnect-config-author';
+
 /**
- * Safe localStorage wrapper with comprehensive error handling.
+ * The name to record on configuration changes, if the owner gave one.
  */
-export const safeLocalStorage = {
-  getItem: (key: string): string | null => {
-    try {
-      if (typeof Storage === 'undefined' || !window.localStorage) {
-        return null;
-      }
-      return localStorage.getItem(key);
-    } catch (error) {
-      if (error instanceof DOMException) {
-        if (error.name === 'QuotaExceededError') {
-          console.warn('localStorage quota exceeded, clearing old data');
-          try {
-            localStorage.removeItem(key);
-            return null;
-          } catch {
-            return null;
-          }
-        }
-        return null;
-      }
-      return null;
-    }
-  },
-
-  setItem: (key: string, value: string): boolean => {
-    try {
-      if (typeof Storage === 'undefined' || !window.localStorage) {
-        return false;
-      }
-      localStorage.setItem(key, value);
-      return true;
-    } catch (error) {
-      if (error instanceof DOMException) {
-        if (error.name === 'QuotaExceededError') {
-          try {
-            localStorage.removeItem(key);
-            localStorage.setItem(key, value);
-            return true;
-          } catch {
-            console.warn('localStorage quota exceeded, cannot save setup progress');
-            return false;
-          }
-        }
-        return false;
-      }
-      return false;
-    }
-  },
-
-  removeItem: (key: string): boolean => {
-    try {
-      if (typeof Storage === 'undefined' || !window.localStorage) {
-        return false;
-      }
-      localStorage.removeItem(key);
-      return true;
-    } catch {
-      return false;
-    }
-  },
-};
+export function getConfigAuthor(): string | undefined {
+  return safeLocalStorage.getItem(CONFIG_AUTHOR_STORAGE_KEY) || undefined;
+}
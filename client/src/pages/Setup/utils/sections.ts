@@ -0,0 +1,115 @@
+/**
+ * Converts the landing page sections (shared/landingSections.ts) between
+ * the app config and the wizard's fields.
+ *
+ * @author Lindsey Stead
+ * @module client/pages/Setup/utils/sections
+ */
+
+import type { BrandingConfigPayload } from "@shared/appConfig";
+import {
+  resolveFeaturesSection,
+  resolveHowItWorks,
+  resolveSocialProof,
+} from "@shared/landingSections";
+import type { SectionsState } from "../types";
+
+type Content = BrandingConfigPayload["content"];
+
+/**
+ * Wizard fields for the sections of `content`. Lists it leaves out show
+ * the defaults the site renders; titles and descriptions it leaves out
+ * stay empty so they keep following the defaults.
+ */
+export function sectionsStateFromContent(content: Content): SectionsState {
+  const features = resolveFeaturesSection(content);
+  const howItWorks = resolveHowItWorks(content);
+  const socialProof = resolveSocialProof(content);
+
+  return {
+    featuresTitle: content?.featuresSection?.title ?? "",
+    featuresDescription: content?.featuresSection?.description ?? "",
+    features: features.items.map((item) => ({
+      title: item.title,
+      description: item.description,
+      icon: item.icon ?? "",
+      detail: item.detail ?? "",
+    })),
+    howItWorksTitle: content?.howItWorks?.title ?? "",
+    howItWorksDescription: content?.howItWorks?.description ?? "",
+    steps: howItWorks.steps.map((step) => ({
+      title: step.title,
+      description: step.description,
+      icon: step.icon ?? "",
+    })),
+    socialProofTitle: content?.socialProof?.title ?? "",
+    socialProofDescription: content?.socialProof?.description ?? "",
+    testimonials: socialProof.testimonials.map((testimonial) => ({
+      quote: testimonial.quote,
+      author: testimonial.author,
+      role: testimonial.role ?? "",
+    })),
+    stats: socialProof.stats.map((stat) => ({
+      value: stat.value,
+      label: stat.label,
+      icon: stat.icon ?? "",
+    })),
+  };
+}
+
+const optional = (value: string) => value.trim() || undefined;
+
+/**
+ * The content payload that saves the wizard's sections.
+ */
+export function sectionsPayload(sections: SectionsState): BrandingConfigPayload["content"] {
+  return {
+    features: sections.features.map((item) => ({
+      title: item.title.trim(),
+      description: item.description.trim(),
+      icon: optional(item.icon),
+      detail: optional(item.detail),
+    })),
+    featuresSection: {
+      title: optional(sections.featuresTitle),
+      description: optional(sections.featuresDescription),
+    },
+    howItWorks: {
+      title: optional(sections.howItWorksTitle),
+      description: optional(sections.howItWorksDescription),
+      steps: sections.steps.map((step) => ({
+        title: step.title.trim(),
+        description: step.description.trim(),
+        icon: optional(step.icon),
+      })),
+    },
+    socialProof: {
+      title: optional(sections.socialProofTitle),
+      description: optional(sections.socialProofDescription),
+      testimonials: sections.testimonials.map((testimonial) => ({
+        quote: testimonial.quote.trim(),
+        author: testimonial.author.trim(),
+        role: optional(testimonial.role),
+      })),
+      stats: sections.stats.map((stat) => ({
+        value: stat.value.trim(),
+        label: stat.label.trim(),
+        icon: optional(stat.icon),
+      })),
+    },
+  };
+}
+
+const filled = (...values: string[]) => values.every((value) => value.trim().length > 0);
+
+/**
+ * Whether every listed item has the text it needs to render.
+ */
+export function sectionsComplete({ features, steps, testimonials, stats }: SectionsState): boolean {
+  return (
+    features.every((item) => filled(item.title, item.description)) &&
+    steps.every((step) => filled(step.title, step.description)) &&
+    testimonials.every((testimonial) => filled(testimonial.quote, testimonial.author)) &&
+    stats.every((stat) => filled(stat.value, stat.label))
+  );
+}
@@ -0,0 +1,740 @@
+// @vitest-environment node
+/**
+ * API Server Tests
+ *
+ * Exercises the /api/v1 contract the client relies on, against temporary
+ * config and data directories.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import request from "supertest";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { Express } from "express";
+import { DEFAULT_FORM_FIELDS } from "@shared/formDefinition";
+import { apiErrorResponseSchema } from "@shared/schema";
+import { createApp } from "./app";
+import { createServices, type AppServices } from "./services";
+import type { ServerConfig } from "./config";
+
+const lead = {
+  name: "Jane Doe",
+  email: "Jane@Example.com",
+  phone: "555-123-4567",
+  message: "We need help capturing leads this month.",
+};
+
+const SETUP_TOKEN = "test-setup-token";
+
+async function csrfAgent(app: Express) {
+  const agent = request.agent(app);
+  const res = await agent.get("/api/v1/csrf-token").expect(200);
+  return { agent, token: res.body.token as string };
+}
+
+// An agent signed in to the setup endpoints
+async function setupAgent(app: Express) {
+  const { agent, token } = await csrfAgent(app);
+  await agent
+    .post("/api/v1/setup/session")
+    .set("X-CSRF-Token", token)
+    .send({ token: SETUP_TOKEN })
+    .expect(200);
+  return { agent, token };
+}
+
+describe("API server", () => {
+  let root: string;
+  let services: AppServices;
+  let app: Express;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), "ssc-"));
+    const config: ServerConfig = {
+      port: 0,
+      isProduction: false,
+      configDir: path.join(root, "config"),
+      dataDir: path.join(root, "data"),
+      uploadsDir: path.join(root, "uploads"),
+      publicDir: path.join(root, "public"),
+      allowedOrigins: [],
+      setupToken: SETUP_TOKEN,
+      enrichment: {
+        directoryPath: path.join(root, "config", "company-directory.json"),
+        cacheTtlMs: 60000,
+      },
+    };
+    services = createServices(config);
+    app = createApp({ config, services });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  async function completeSetup() {
+    await services.credentials.save({
+      GOOGLE_CLIENT_ID: "client-id",
+      GOOGLE_CLIENT_SECRET: "client-secret",
+      NOTIFICATION_EMAIL: "owner@example.com",
+      ENABLE_EMAIL_NOTIFICATIONS: "false",
+      LEAD_SINK: "csv",
+    });
+  }
+
+  it("serves the default config", async () => {
+    const res = await request(app).get("/api/v1/config").expect(200);
+    expect(res.body.branding.companyName).toBe("SmartSheetConnect");
+    expect(res.body.content.form.submitText).toBe("Send Message");
+  });
+
+  it("merges saved branding into the config", async () => {
+    const { agent, token } = await setupAgent(app);
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ branding: { companyName: "Acme" }, content: { form: { title: "Talk to us" } } })
+      .expect(200);
+    await agent.post("/api/v1/setup/config/publish").set("X-CSRF-Token", token).expect(200);
+
+    const res = await request(app).get("/api/v1/config").expect(200);
+    expect(res.body.branding.companyName).toBe("Acme");
+    expect(res.body.branding.primaryColor).toBe("#2563eb");
+    expect(res.body.content.form.title).toBe("Talk to us");
+    expect(res.body.content.form.submitText).toBe("Send Message");
+  });
+
+  it("rejects branding over the field limits", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ seo: { metaDescription: "x".repeat(301) } })
+      .expect(400);
+    expect(res.body).toMatchObject({
+      code: "VALIDATION_ERROR",
+      fieldErrors: { "seo.metaDescription": ["Meta description must be 300 characters or less"] },
+    });
+
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ credentials: { GOOGLE_CLIENT_SECRET: "secret" } })
+      .expect(400);
+  });
+
+  it("leaves a config file it can't parse untouched", async () => {
+    const { agent, token } = await setupAgent(app);
+    const draftPath = path.join(root, "config", "branding-draft.json");
+    mkdirSync(path.dirname(draftPath), { recursive: true });
+    writeFileSync(draftPath, '{"branding": {"companyName": "Acme"', "utf8");
+
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ branding: { companyName: "Other" } })
+      .expect(500);
+    expect(readFileSync(draftPath, "utf8")).toBe('{"branding": {"companyName": "Acme"');
+  });
+
+  it("rejects navigation links to sections the layout doesn't have", async () => {
+    const { agent, token } = await setupAgent(app);
+    const save = (payload: object) =>
+      agent.post("/api/v1/setup/branding").set("X-CSRF-Token", token).send(payload);
+
+    await save({
+      layout: {
+        sections: [{ type: "hero" }, { type: "features", hidden: true }, { type: "demo-form" }],
+      },
+      header: { navigation: [{ label: "Contact", sectionId: "demo-form" }] },
+    }).expect(200);
+    // Hidden sections are still part of the layout
+    await save({ footer: { quickLinks: [{ label: "Features", sectionId: "features" }] } }).expect(
+      200
+    );
+
+    const res = await save({
+      header: { navigation: [{ label: "How It Works", sectionId: "how-it-works" }] },
+    }).expect(400);
+    expect(res.body).toMatchObject({
+      code: "VALIDATION_ERROR",
+      message: 'Link "How It Works" points to a section that isn\'t on the page',
+    });
+
+    // So is removing a section that a saved link points at
+    await save({ layout: { sections: [{ type: "hero" }, { type: "demo-form" }] } }).expect(400);
+    const draft = await services.branding.getDraftConfig();
+    expect(draft.layout?.sections).toHaveLength(3);
+  });
+
+  it("replaces the saved theme instead of merging into it", async () => {
+    const { agent, token } = await setupAgent(app);
+    const save = (payload: object) =>
+      agent.post("/api/v1/setup/branding").set("X-CSRF-Token", token).send(payload).expect(200);
+
+    await save({ theme: { colors: { background: "#fafafa", muted: "#eeeeee" }, radius: 12 } });
+    await save({ theme: { colors: { muted: "#dddddd" } } });
+    expect((await services.branding.getDraftConfig()).theme).toEqual({
+      colors: { muted: "#dddddd" },
+    });
+
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ theme: { colors: { "not-a-token": "#000000" } } })
+      .expect(400);
+  });
+
+  it("accepts navigation links to FAQ and text sections by their id", async () => {
+    const { agent, token } = await setupAgent(app);
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({
+        layout: {
+          sections: [
+            { type: "hero" },
+            { type: "faq", id: "faq", items: [{ question: "Why?", answer: "**Because**" }] },
+            { type: "rich-text", id: "about", markdown: "We make forms." },
+          ],
+        },
+        header: {
+          navigation: [
+            { label: "FAQ", sectionId: "faq" },
+            { label: "About", sectionId: "about" },
+          ],
+        },
+      })
+      .expect(200);
+
+    const draft = await services.branding.getDraftConfig();
+    expect(draft.layout?.sections).toHaveLength(3);
+  });
+
+  it("rejects state-changing requests without a CSRF token", async () => {
+    const res = await request(app).post("/api/v1/submit-lead").send(lead).expect(403);
+    expect(res.body).toMatchObject({ success: false, code: "CSRF_INVALID" });
+  });
+
+  it("rejects setup and admin requests without a setup session", async () => {
+    const { agent, token } = await csrfAgent(app);
+    const writes: [method: "post" | "delete", url: string][] = [
+      ["post", "/api/v1/setup/branding"],
+      ["post", "/api/v1/setup/config/publish"],
+      ["post", "/api/v1/setup/credentials"],
+      ["delete", "/api/v1/setup/credentials"],
+      ["post", "/api/v1/setup/config/revisions/1/restore"],
+      ["post", "/api/v1/setup/config/import"],
+      ["post", "/api/v1/config/preview-token"],
+      ["post", "/api/v1/embed/token"],
+    ];
+    for (const [method, url] of writes) {
+      const res = await agent[method](url)
+        .set("X-CSRF-Token", token)
+        .send({ analytics: { customAnalyticsScript: "<script>alert(1)</script>" } });
+      expect(res.status, url).toBe(401);
+      expect(res.body.code).toBe("UNAUTHORIZED");
+    }
+    for (const url of ["/api/v1/setup/draft", "/api/v1/setup/config/export"]) {
+      expect((await agent.get(url)).status, url).toBe(401);
+    }
+    expect((await services.branding.getDraftConfig()).analytics).toBeUndefined();
+
+    const authorize = await agent.get("/api/v1/oauth/authorize").expect(302);
+    expect(authorize.headers.location).toMatch(/^\/setup\?error=/);
+  });
+
+  it("signs in to the setup endpoints with the setup token only", async () => {
+    const { agent, token } = await csrfAgent(app);
+    await agent.get("/api/v1/setup/session").expect(200, { authenticated: false });
+
+    const wrong = await agent
+      .post("/api/v1/setup/session")
+      .set("X-CSRF-Token", token)
+      .send({ token: "guess" })
+      .expect(401);
+    expect(wrong.body.code).toBe("UNAUTHORIZED");
+    await agent.get("/api/v1/setup/draft").expect(401);
+
+    await agent
+      .post("/api/v1/setup/session")
+      .set("X-CSRF-Token", token)
+      .send({ token: SETUP_TOKEN })
+      .expect(200, { authenticated: true });
+    await agent.get("/api/v1/setup/session").expect(200, { authenticated: true });
+    await agent.get("/api/v1/setup/draft").expect(200, { draft: null });
+  });
+
+  it("reports missing setup items", async () => {
+    const res = await request(app).get("/api/v1/setup/status").expect(200);
+    expect(res.body.configured).toBe(false);
+    expect(res.body.missing).toContain("Google Client ID");
+  });
+
+  it("does not require Google when leads go to a local workbook", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/setup/credentials")
+      .set("X-CSRF-Token", token)
+      .send({ LEAD_SINK: "csv", ENABLE_EMAIL_NOTIFICATIONS: "false" })
+      .expect(200);
+    expect(res.body.status.configured).toBe(true);
+  });
+
+  it("returns 412 for leads before setup is complete", async () => {
+    const { agent, token } = await csrfAgent(app);
+    const res = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send(lead)
+      .expect(412);
+    expect(res.body.code).toBe("SETUP_INCOMPLETE");
+  });
+
+  it("names missing required credentials", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/setup/credentials")
+      .set("X-CSRF-Token", token)
+      .send({ GOOGLE_CLIENT_ID: "id", ENABLE_EMAIL_NOTIFICATIONS: "true" })
+      .expect(400);
+    expect(res.body.message).toContain("Missing required fields");
+    expect(res.body.message).toContain("Google Client Secret");
+    expect(res.body.message).toContain("Notification Email");
+  });
+
+  it("stores leads with row numbers and detects duplicates", async () => {
+    await completeSetup();
+    const { agent, token } = await csrfAgent(app);
+
+    const first = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send(lead)
+      .expect(200);
+    expect(first.body).toMatchObject({ success: true, rowNumber: 2 });
+    expect(first.body.score).toMatchObject({ factors: { emailDomain: 20, phoneProvided: 10 } });
+
+    const duplicate = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, email: "jane@example.com" })
+      .expect(200);
+    expect(duplicate.body).toMatchObject({
+      success: true,
+      isDuplicate: true,
+      existingRowNumber: 2,
+    });
+
+    expect(await services.leadSinks.csv.readRows()).toHaveLength(2);
+  });
+
+  it("records attribution and recomputes the source column", async () => {
+    await completeSetup();
+    const { agent, token } = await csrfAgent(app);
+    const touch = {
+      utmSource: "Google",
+      utmMedium: "CPC",
+      utmCampaign: "spring-sale",
+      landingPage: "https://example.com/pricing",
+      source: "spoofed",
+    };
+
+    const res = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({
+        ...lead,
+        attribution: { firstTouch: { referrer: "https://t.co/x" }, lastTouch: touch },
+      })
+      .expect(200);
+    expect(res.body.source).toMatchObject({ source: "google / cpc (spring-sale)", utmTerm: null });
+
+    const [, row] = await services.leadSinks.csv.readRows();
+    expect(row.slice(5, 10)).toEqual([
+      "google / cpc (spring-sale)",
+      "spring-sale",
+      "https://example.com/pricing",
+      "",
+      "t.co / referral",
+    ]);
+  });
+
+  it("cuts over-long attribution values instead of dropping the attribution", async () => {
+    await completeSetup();
+    const { agent, token } = await csrfAgent(app);
+    const touch = { utmSource: "google", utmCampaign: "x".repeat(500) };
+    const res = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, attribution: { firstTouch: touch, lastTouch: touch } })
+      .expect(200);
+    expect(res.body.source.utmSource).toBe("google");
+    expect(res.body.source.utmCampaign).toBe("x".repeat(200));
+  });
+
+  it("stores leads whose attribution is malformed", async () => {
+    await completeSetup();
+    const { agent, token } = await csrfAgent(app);
+    const res = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, attribution: { firstTouch: "nope" } })
+      .expect(200);
+    expect(res.body.rowNumber).toBe(2);
+    expect(res.body.source).toBeUndefined();
+  });
+
+  it("validates custom fields against the saved form definition", async () => {
+    await completeSetup();
+    const { agent, token } = await setupAgent(app);
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({
+        content: {
+          form: {
+            fields: [
+              ...DEFAULT_FORM_FIELDS,
+              {
+                id: "budget",
+                kind: "select",
+                label: "Budget",
+                required: true,
+                options: ["<$10k", "$10k+"],
+              },
+              { id: "newsletter", kind: "checkbox", label: "Newsletter", required: false },
+            ],
+          },
+        },
+      })
+      .expect(200);
+    await agent.post("/api/v1/setup/config/publish").set("X-CSRF-Token", token).expect(200);
+
+    const invalid = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, customFields: { budget: "a lot" } })
+      .expect(400);
+    expect(invalid.body.fieldErrors["customFields.budget"]).toEqual([
+      "Please choose a valid Budget",
+    ]);
+
+    await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, customFields: { budget: "$10k+", newsletter: true, extra: "dropped" } })
+      .expect(200);
+    const [, row] = await services.leadSinks.csv.readRows();
+    expect(row[10]).toBe("Budget: $10k+\nNewsletter: Yes");
+  });
+
+  it("rejects form definitions without the core fields", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({
+        content: {
+          form: { fields: [{ id: "name", kind: "text", label: "Name", required: true }] },
+        },
+      })
+      .expect(400);
+    expect(res.body.message).toContain("must keep the email field");
+  });
+
+  it("validates lead submissions", async () => {
+    await completeSetup();
+    const { agent, token } = await csrfAgent(app);
+    const res = await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, email: "not-an-email" })
+      .expect(400);
+    expect(apiErrorResponseSchema.parse(res.body).code).toBe("VALIDATION_ERROR");
+    expect(res.body.fieldErrors.email).toBeDefined();
+  });
+
+  it("silently accepts honeypot submissions without storing them", async () => {
+    await completeSetup();
+    const { agent, token } = await csrfAgent(app);
+    await agent
+      .post("/api/v1/submit-lead")
+      .set("X-CSRF-Token", token)
+      .send({ ...lead, _honeypot: "bot" })
+      .expect(200);
+    expect(await services.leadSinks.csv.readRows()).toHaveLength(0);
+  });
+
+  it("rejects non-image logo uploads", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/setup/upload-logo")
+      .set("X-CSRF-Token", token)
+      .attach("logo", Buffer.from("hello"), { filename: "logo.txt", contentType: "text/plain" })
+      .expect(400);
+    expect(res.body.code).toBe("INVALID_FILE_TYPE");
+  });
+
+  it("serves the variants generated from an uploaded logo", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/setup/upload-logo")
+      .set("X-CSRF-Token", token)
+      .field("companyName", "Acme")
+      .attach(
+        "logo",
+        Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="8" height="8"/>'),
+        {
+          filename: "logo.svg",
+          contentType: "image/svg+xml",
+        }
+      )
+      .expect(200);
+
+    expect(res.body.url).toBe(res.body.assets.logo);
+    const og = await request(app).get(res.body.assets.ogImage).expect(200);
+    expect(og.headers["content-type"]).toBe("image/png");
+    await request(app).get(res.body.assets.favicon).expect(200);
+  });
+
+  it("stores the setup draft without secrets and clears it on reset", async () => {
+    const { agent, token } = await setupAgent(app);
+    await agent.get("/api/v1/setup/draft").expect(200, { draft: null });
+
+    const draft = {
+      version: 1,
+      savedAt: "2026-10-01T09:30:00.000Z",
+      stepId: "credentials",
+      state: {
+        branding: { companyName: "Acme" },
+        credentials: { GOOGLE_CLIENT_ID: "client-id", GOOGLE_CLIENT_SECRET: "client-secret" },
+      },
+    };
+    await agent.put("/api/v1/setup/draft").set("X-CSRF-Token", token).send(draft).expect(200);
+
+    const saved = await agent.get("/api/v1/setup/draft").expect(200);
+    expect(saved.body.draft.state).toEqual({
+      branding: { companyName: "Acme" },
+      credentials: { GOOGLE_CLIENT_ID: "client-id" },
+    });
+
+    const invalid = await agent
+      .put("/api/v1/setup/draft")
+      .set("X-CSRF-Token", token)
+      .send({ ...draft, stepId: "" })
+      .expect(400);
+    expect(invalid.body.code).toBe("VALIDATION_ERROR");
+
+    await agent.delete("/api/v1/setup/credentials").set("X-CSRF-Token", token).expect(200);
+    await agent.get("/api/v1/setup/draft").expect(200, { draft: null });
+  });
+
+  it("exports the config and imports only the chosen sections", async () => {
+    const { agent, token } = await setupAgent(app);
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ branding: { companyName: "Acme", secondaryColor: "#111111" } })
+      .expect(200);
+
+    const exported = await agent.get("/api/v1/setup/config/export").expect(200);
+    expect(exported.body).toMatchObject({
+      version: 1,
+      sections: { branding: { companyName: "Acme", secondaryColor: "#111111" } },
+    });
+
+    const bundle = {
+      ...exported.body,
+      sections: {
+        ...exported.body.sections,
+        branding: { companyName: "Globex", logo: "/uploads/globex.png" },
+        seo: { pageTitle: "Globex" },
+      },
+    };
+    await agent
+      .post("/api/v1/setup/config/import")
+      .set("X-CSRF-Token", token)
+      .send({ bundle, sections: ["branding"] })
+      .expect(200);
+    await agent.post("/api/v1/setup/config/publish").set("X-CSRF-Token", token).expect(200);
+
+    const res = await request(app).get("/api/v1/config").expect(200);
+    // The section is replaced, not merged with what was saved before
+    expect(res.body.branding.companyName).toBe("Globex");
+    expect(res.body.branding.secondaryColor).toBeUndefined();
+    expect(res.body.seo).toBeUndefined();
+
+    const invalid = await agent
+      .post("/api/v1/setup/config/import")
+      .set("X-CSRF-Token", token)
+      .send({ bundle, sections: ["analytics"] })
+      .expect(400);
+    expect(invalid.body.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("keeps a revision per config change and restores earlier ones", async () => {
+    const { agent, token } = await setupAgent(app);
+    const save = (body: object, author?: string) => {
+      const req = agent.post("/api/v1/setup/branding").set("X-CSRF-Token", token);
+      return (author ? req.set("X-Config-Author", encodeURIComponent(author)) : req).send(body);
+    };
+    await save({ branding: { companyName: "Acme" } }, "Zoë").expect(200);
+    await save({ seo: { pageTitle: "Acme" } }).expect(200);
+    // Saves that change nothing aren't recorded
+    await save({ seo: { pageTitle: "Acme" } }).expect(200);
+
+    const list = await agent.get("/api/v1/setup/config/revisions").expect(200);
+    expect(list.body.revisions).toMatchObject([
+      { id: 2, author: null, source: "wizard", changedSections: ["seo"] },
+      { id: 1, author: "Zoë", source: "wizard", changedSections: ["branding"] },
+    ]);
+    expect(list.body.revisions[0].config).toBeUndefined();
+
+    const first = await agent.get("/api/v1/setup/config/revisions/1").expect(200);
+    expect(first.body.revision.config).toEqual({ branding: { companyName: "Acme" } });
+
+    await agent
+      .post("/api/v1/setup/config/revisions/1/restore")
+      .set("X-CSRF-Token", token)
+      .expect(200);
+    // A restore goes live right away
+    const res = await request(app).get("/api/v1/config").expect(200);
+    expect(res.body.branding.companyName).toBe("Acme");
+    expect(res.body.seo).toBeUndefined();
+
+    const after = await agent.get("/api/v1/setup/config/revisions").expect(200);
+    expect(after.body.revisions[0]).toMatchObject({
+      id: 3,
+      source: "restore",
+      restoredFrom: 1,
+      changedSections: ["seo"],
+    });
+
+    await agent.get("/api/v1/setup/config/revisions/9").expect(404);
+    await agent
+      .post("/api/v1/setup/config/revisions/abc/restore")
+      .set("X-CSRF-Token", token)
+      .expect(404);
+  });
+
+  it("doesn't restore revisions the configuration schema no longer allows", async () => {
+    // Saved before links had to be web addresses or paths on the site
+    mkdirSync(path.join(root, "config"), { recursive: true });
+    writeFileSync(
+      path.join(root, "config", "branding-history.json"),
+      JSON.stringify({
+        revisions: [
+          {
+            id: 1,
+            createdAt: "2026-01-01T00:00:00.000Z",
+            author: null,
+            source: "wizard",
+            changedSections: ["branding"],
+            config: { branding: { companyName: "Acme", siteUrl: "javascript:alert(1)" } },
+          },
+        ],
+      })
+    );
+    const { agent, token } = await setupAgent(app);
+
+    const res = await agent
+      .post("/api/v1/setup/config/revisions/1/restore")
+      .set("X-CSRF-Token", token)
+      .expect(400);
+    expect(res.body.code).toBe("VALIDATION_ERROR");
+
+    const config = await request(app).get("/api/v1/config").expect(200);
+    expect(config.body.branding.companyName).toBe("SmartSheetConnect");
+    const list = await agent.get("/api/v1/setup/config/revisions").expect(200);
+    expect(list.body.revisions).toHaveLength(1);
+  });
+
+  it("serves saved changes only to preview links until they are published", async () => {
+    const { agent, token } = await setupAgent(app);
+    await agent
+      .post("/api/v1/setup/branding")
+      .set("X-CSRF-Token", token)
+      .send({ branding: { companyName: "Acme" } })
+      .expect(200);
+
+    const live = await request(app).get("/api/v1/config").expect(200);
+    expect(live.body.branding.companyName).toBe("SmartSheetConnect");
+    const unpublished = await agent.get("/api/v1/setup/config/unpublished").expect(200);
+    expect(unpublished.body.changes).toEqual([
+      { section: "branding", path: "companyName", before: undefined, after: "Acme" },
+    ]);
+
+    const issued = await agent
+      .post("/api/v1/config/preview-token")
+      .set("X-CSRF-Token", token)
+      .expect(200);
+    const preview = await request(app)
+      .get("/api/v1/config")
+      .query({ preview: issued.body.token })
+      .expect(200);
+    expect(preview.body.branding.companyName).toBe("Acme");
+    expect(preview.headers["x-robots-tag"]).toBe("noindex");
+
+    // Tokens for other purposes don't open the draft
+    const embed = await agent.post("/api/v1/embed/token").set("X-CSRF-Token", token).send({});
+    for (const bad of [embed.body.token, "nonsense"]) {
+      const rejected = await request(app).get("/api/v1/config").query({ preview: bad });
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.code).toBe("INVALID_TOKEN");
+    }
+
+    await agent.post("/api/v1/setup/config/publish").set("X-CSRF-Token", token).expect(200);
+    const published = await request(app).get("/api/v1/config").expect(200);
+    expect(published.body.branding.companyName).toBe("Acme");
+    await agent.get("/api/v1/setup/config/unpublished").expect(200, { changes: [] });
+  });
+
+  it("signs embed options and rejects tampered tokens", async () => {
+    const { agent, token } = await setupAgent(app);
+    const issued = await agent
+      .post("/api/v1/embed/token")
+      .set("X-CSRF-Token", token)
+      .send({ primaryColor: "#7c3aed", compact: true, successMessage: "  Thanks!  " })
+      .expect(200);
+
+    const res = await request(app)
+      .get("/api/v1/embed/options")
+      .query({ token: issued.body.token })
+      .expect(200);
+    expect(res.body.options).toEqual({
+      primaryColor: "#7c3aed",
+      compact: true,
+      successMessage: "Thanks!",
+    });
+    // The key is generated once and kept, so tokens survive a restart
+    expect(existsSync(path.join(root, "config", "signing-key.json"))).toBe(true);
+
+    const [payload, signature] = issued.body.token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ purpose: "embed-options", data: { primaryColor: "#ff0000" } })
+    ).toString("base64url");
+    for (const bad of [`${forged}.${signature}`, payload, "nonsense"]) {
+      const rejected = await request(app).get("/api/v1/embed/options").query({ token: bad });
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.code).toBe("INVALID_TOKEN");
+    }
+  });
+
+  it("rejects invalid embed options", async () => {
+    const { agent, token } = await setupAgent(app);
+    const res = await agent
+      .post("/api/v1/embed/token")
+      .set("X-CSRF-Token", token)
+      .send({ radius: 500, font: "comic-sans" })
+      .expect(400);
+    expect(res.body.code).toBe("VALIDATION_ERROR");
+    expect(Object.keys(res.body.fieldErrors)).toEqual(["radius", "font"]);
+  });
+
+  it("responds with JSON for unknown API routes", async () => {
+    const res = await request(app).get("/api/v1/nope").expect(404);
+    expect(res.body.code).toBe("NOT_FOUND");
+  });
+});
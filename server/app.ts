@@ -0,0 +1,89 @@
+/**
+ * Express Application
+ *
+ * Builds the reference API server: security middleware, the /api/v1
+ * routes, uploaded assets and (in production) the built client.
+ *
+ * @author Lindsey Stead
+ * @module server/app
+ */
+
+import express, { type Express } from "express";
+import { existsSync } from "fs";
+import path from "path";
+import compression from "compression";
+import cookieParser from "cookie-parser";
+import cors from "cors";
+import helmet from "helmet";
+import type { ServerConfig } from "./config";
+import { createServices, type AppServices } from "./services";
+import { createApiRouter } from "./routes";
+import { errorHandler, notFoundHandler } from "./utils/errors";
+
+export interface CreateAppOptions {
+  config: ServerConfig;
+  /** Override services (tests) */
+  services?: AppServices;
+}
+
+export function createApp({ config, services }: CreateAppOptions): Express {
+  const app = express();
+  const appServices = services ?? createServices(config);
+
+  app.disable("x-powered-by");
+  app.set("trust proxy", "loopback");
+
+  app.use(
+    helmet({
+      // Analytics snippets are injected at runtime and /embed must be frameable
+      // on customer sites, so CSP and frame-ancestors are left to the deployment.
+      contentSecurityPolicy: false,
+      frameguard: false,
+      crossOriginResourcePolicy: { policy: "cross-origin" },
+    })
+  );
+  app.use(compression());
+  app.use(
+    "/api",
+    cors({
+      credentials: true,
+      origin: (origin, callback) => {
+        const allowed =
+          !origin || config.allowedOrigins.includes("*") || config.allowedOrigins.includes(origin);
+        callback(null, allowed);
+      },
+    })
+  );
+  app.use(express.json({ limit: "1mb" }));
+  app.use(cookieParser());
+
+  app.use("/api/v1", createApiRouter({ config, services: appServices }));
+  app.use("/api", notFoundHandler);
+
+  // Uploaded logos. SVGs can carry scripts, so never let them execute.
+  app.use(
+    "/uploads",
+    express.static(config.uploadsDir, {
+      fallthrough: false,
+      setHeaders: (res) => {
+        res.setHeader(
+          "Content-Security-Policy",
+          "default-src 'none'; style-src 'unsafe-inline'; sandbox"
+        );
+        res.setHeader("X-Content-Type-Options", "nosniff");
+      },
+    })
+  );
+
+  if (config.isProduction && existsSync(config.publicDir)) {
+    app.use(express.static(config.publicDir, { index: false }));
+    // Client-side routing: every other GET renders the SPA shell
+    app.get("*", (_req, res) => {
+      res.sendFile(path.join(config.publicDir, "index.html"));
+    });
+  }
+
+  app.use(errorHandler);
+
+  return app;
+}
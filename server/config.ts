@@ -0,0 +1,76 @@
+/**
+ * Server configuration.
+ *
+ * Reads runtime settings from environment variables with local defaults,
+ * so the reference server runs with zero configuration.
+ *
+ * @author Lindsey Stead
+ * @module server/config
+ */
+
+import path from "path";
+
+export interface ServerConfig {
+  /** Port the HTTP server listens on */
+  port: number;
+  /** Whether the server runs in production mode */
+  isProduction: boolean;
+  /** Directory holding branding.json and customer-credentials.json */
+  configDir: string;
+  /** Directory holding locally persisted leads */
+  dataDir: string;
+  /** Directory where uploaded logos are written (served at /uploads) */
+  uploadsDir: string;
+  /** Built client assets (served in production) */
+  publicDir: string;
+  /** Origins allowed to call the API with credentials (embeds on other sites) */
+  allowedOrigins: string[];
+  /** Public base URL used for OAuth redirects; derived from the request when unset */
+  publicUrl?: string;
+  /** Key for signed tokens; generated and stored in configDir when unset */
+  signingSecret?: string;
+  /** Token the owner signs in to the setup wizard with; generated and stored in configDir when unset */
+  setupToken?: string;
+  enrichment: {
+    /** Local company directory (JSON or CSV), keyed by domain */
+    directoryPath: string;
+    /** Optional HTTP provider URL template containing {domain} */
+    httpUrl?: string;
+    /** Bearer token sent to the HTTP provider */
+    httpToken?: string;
+    /** How long enrichment results are cached, in milliseconds */
+    cacheTtlMs: number;
+  };
+}
+
+/**
+ * Builds the server configuration from environment variables.
+ */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const root = process.cwd();
+
+  return {
+    port: Number(env.PORT) || 5000,
+    isProduction: env.NODE_ENV === "production",
+    configDir: path.resolve(root, env.CONFIG_DIR || "config"),
+    dataDir: path.resolve(root, env.DATA_DIR || "data"),
+    uploadsDir: path.resolve(root, env.UPLOADS_DIR || "uploads"),
+    publicDir: path.resolve(root, env.PUBLIC_DIR || "dist/public"),
+    allowedOrigins: (env.ALLOWED_ORIGINS || "")
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    publicUrl: env.PUBLIC_URL?.replace(/\/$/, "") || undefined,
+    signingSecret: env.SIGNING_SECRET || undefined,
+    setupToken: env.SETUP_TOKEN || undefined,
+    enrichment: {
+      directoryPath: path.resolve(
+        root,
+        env.ENRICHMENT_DIRECTORY || "config/company-directory.json"
+      ),
+      httpUrl: env.ENRICHMENT_HTTP_URL || undefined,
+      httpToken: env.ENRICHMENT_HTTP_TOKEN || undefined,
+      cacheTtlMs: (Number(env.ENRICHMENT_CACHE_TTL_HOURS) || 24) * 60 * 60 * 1000,
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Server entry point.
+ *
+ * @author Lindsey Stead
+ * @module server
+ */
+
+import path from "path";
+import { loadServerConfig } from "./config";
+import { createApp } from "./app";
+import { createServices } from "./services";
+import { logger } from "./utils/logger";
+
+const config = loadServerConfig();
+const services = createServices(config);
+const app = createApp({ config, services });
+
+app.listen(config.port, () => {
+  logger.info(`SmartSheetConnect API listening on http://localhost:${config.port}`);
+
+  if (!services.setupAuth.isConfigured) {
+    // Generates the token on first start, so the owner can sign in to /setup right away
+    services.setupAuth.getToken().then(
+      () =>
+        logger.info(
+          `Sign in to /setup with the token in ${path.join(config.configDir, "setup-token.json")}, or set SETUP_TOKEN`
+        ),
+      (error: unknown) => logger.error("Could not create the setup token", error)
+    );
+  }
+});
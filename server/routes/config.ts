@@ -0,0 +1,64 @@
+/**
+ * Config Routes
+ *
+ * - GET  /api/v1/config               - Public white-label configuration used to render the site;
+ *                                       the draft instead with a valid `preview` token
+ * - POST /api/v1/config/preview-token - Sign a preview link to the draft (needs a setup session)
+ *
+ * @author Lindsey Stead
+ * @module server/routes/config
+ */
+
+import { Router } from "express";
+import { CONFIG_PREVIEW_PARAM, CONFIG_PREVIEW_TTL_MS } from "@shared/configPublishing";
+import { asyncHandler, HttpError } from "../utils/errors";
+import { csrfProtection } from "../utils/csrf";
+import { setupLimiter } from "../utils/rateLimit";
+import { requireSetupSession } from "../utils/setupSession";
+import type { RouteContext } from "./context";
+
+const TOKEN_PURPOSE = "config-preview";
+const PREVIEW_SCOPE = "draft";
+
+export function createConfigRouter({ services }: RouteContext): Router {
+  const router = Router();
+
+  router.get(
+    "/config",
+    asyncHandler(async (req, res) => {
+      // Branding can change at any time from the wizard
+      res.set("Cache-Control", "no-store");
+
+      const token = req.query[CONFIG_PREVIEW_PARAM];
+      if (token === undefined) {
+        res.json(await services.branding.getConfig());
+        return;
+      }
+
+      const scope =
+        typeof token === "string" ? await services.signing.verify(TOKEN_PURPOSE, token) : null;
+      if (scope !== PREVIEW_SCOPE) {
+        throw new HttpError(400, "INVALID_TOKEN", "Invalid or expired preview link");
+      }
+      res.set("X-Robots-Tag", "noindex");
+      res.json(await services.branding.getDraftConfig());
+    })
+  );
+
+  router.post(
+    "/config/preview-token",
+    setupLimiter(),
+    requireSetupSession(services.setupAuth),
+    csrfProtection,
+    asyncHandler(async (_req, res) => {
+      // The token grants the draft as it is when opened, not as it was when signed
+      const token = await services.signing.sign(TOKEN_PURPOSE, PREVIEW_SCOPE, {
+        ttlMs: CONFIG_PREVIEW_TTL_MS,
+      });
+      const expiresAt = new Date(Date.now() + CONFIG_PREVIEW_TTL_MS).toISOString();
+      res.json({ success: true, token, expiresAt });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,14 @@
+/**
+ * Shared route dependencies.
+ *
+ * @author Lindsey Stead
+ * @module server/routes/context
+ */
+
+import type { ServerConfig } from "../config";
+import type { AppServices } from "../services";
+
+export interface RouteContext {
+  config: ServerConfig;
+  services: AppServices;
+}
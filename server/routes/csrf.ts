@@ -0,0 +1,23 @@
+/**
+ * CSRF Routes
+ *
+ * GET /api/v1/csrf-token - Issues a CSRF token (body) and its cookie.
+ *
+ * @author Lindsey Stead
+ * @module server/routes/csrf
+ */
+
+import { Router } from "express";
+import { issueCsrfToken } from "../utils/csrf";
+import type { RouteContext } from "./context";
+
+export function createCsrfRouter({ config }: RouteContext): Router {
+  const router = Router();
+
+  router.get("/csrf-token", (_req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json({ token: issueCsrfToken(res, config.isProduction) });
+  });
+
+  return router;
+}
@@ -0,0 +1,58 @@
+/**
+ * Embed Routes
+ *
+ * Signed per-embed appearance options (see shared/embedOptions.ts):
+ * - POST /api/v1/embed/token   - Sign a set of options for an /embed URL (needs a setup session)
+ * - GET  /api/v1/embed/options - Verify a token and return its options
+ *
+ * @author Lindsey Stead
+ * @module server/routes/embed
+ */
+
+import { Router } from "express";
+import { embedOptionsSchema } from "@shared/embedOptions";
+import { asyncHandler, HttpError, validationError } from "../utils/errors";
+import { csrfProtection } from "../utils/csrf";
+import { setupLimiter } from "../utils/rateLimit";
+import { requireSetupSession } from "../utils/setupSession";
+import type { RouteContext } from "./context";
+
+const TOKEN_PURPOSE = "embed-options";
+
+export function createEmbedRouter({ services }: RouteContext): Router {
+  const router = Router();
+
+  router.post(
+    "/embed/token",
+    setupLimiter(),
+    requireSetupSession(services.setupAuth),
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const parsed = embedOptionsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw validationError(parsed.error, "Invalid embed options");
+      }
+
+      const token = await services.signing.sign(TOKEN_PURPOSE, parsed.data);
+      res.json({ success: true, token, options: parsed.data });
+    })
+  );
+
+  router.get(
+    "/embed/options",
+    asyncHandler(async (req, res) => {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const data = token ? await services.signing.verify(TOKEN_PURPOSE, token) : null;
+      const parsed = embedOptionsSchema.safeParse(data);
+      if (!parsed.success) {
+        throw new HttpError(400, "INVALID_TOKEN", "Invalid embed token");
+      }
+
+      // A token always decodes to the same options
+      res.set("Cache-Control", "public, max-age=3600");
+      res.json({ success: true, options: parsed.data });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,20 @@
+/**
+ * Health Routes
+ *
+ * GET /api/v1/health - Liveness check for load balancers and uptime monitors.
+ *
+ * @author Lindsey Stead
+ * @module server/routes/health
+ */
+
+import { Router } from "express";
+
+export function createHealthRouter(): Router {
+  const router = Router();
+
+  router.get("/health", (_req, res) => {
+    res.json({ status: "ok", uptime: Math.round(process.uptime()) });
+  });
+
+  return router;
+}
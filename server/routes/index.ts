@@ -0,0 +1,34 @@
+/**
+ * API router.
+ *
+ * Mounts every versioned route module under /api/v1.
+ *
+ * @author Lindsey Stead
+ * @module server/routes
+ */
+
+import { Router } from "express";
+import { createConfigRouter } from "./config";
+import { createCsrfRouter } from "./csrf";
+import { createEmbedRouter } from "./embed";
+import { createHealthRouter } from "./health";
+import { createLeadsRouter } from "./leads";
+import { createOAuthRouter } from "./oauth";
+import { createSetupRouter } from "./setup";
+import type { RouteContext } from "./context";
+
+export type { RouteContext } from "./context";
+
+export function createApiRouter(context: RouteContext): Router {
+  const router = Router();
+
+  router.use(createHealthRouter());
+  router.use(createConfigRouter(context));
+  router.use(createCsrfRouter(context));
+  router.use(createLeadsRouter(context));
+  router.use(createSetupRouter(context));
+  router.use(createOAuthRouter(context));
+  router.use(createEmbedRouter(context));
+
+  return router;
+}
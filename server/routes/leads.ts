@@ -0,0 +1,149 @@
+/**
+ * Lead Routes
+ *
+ * POST /api/v1/submit-lead - Validates a lead, writes it to the lead sink
+ * selected in setup, then sends notifications in the background.
+ *
+ * @author Lindsey Stead
+ * @module server/routes/leads
+ */
+
+import { Router } from "express";
+import {
+  leadAttributionSchema,
+  type LeadAttribution,
+  type LeadSinkKind,
+  type LeadSubmissionResponse,
+} from "@shared/schema";
+import { normalizeAttribution } from "@shared/attribution";
+import { buildLeadSchema, describeCustomFields } from "@shared/formDefinition";
+import { scoreLead } from "@shared/scoring";
+import { asyncHandler, HttpError, validationError } from "../utils/errors";
+import { csrfProtection } from "../utils/csrf";
+import { submitLeadLimiter } from "../utils/rateLimit";
+import { getPublicBaseUrl } from "../utils/url";
+import { logger } from "../utils/logger";
+import { getSetupStatus } from "../services/setup";
+import { notifyNewLead } from "../services/notifications";
+import type { LeadAppendResult, LeadRecord } from "../services/leadSinks";
+import { OAUTH_CALLBACK_PATH } from "../services/google";
+import type { RouteContext } from "./context";
+
+const SUCCESS_MESSAGE = "Thank you! We'll be in touch soon.";
+
+/**
+ * Maps a failed write to an API error. Revoked Google access gets its own
+ * code so the form can point the owner back to setup.
+ */
+function toStorageError(error: unknown, kind: LeadSinkKind): HttpError {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error(`Failed to store lead in ${kind} sink`, error);
+
+  if (kind === "google-sheets" && /invalid_grant|invalid_client|unauthorized/i.test(message)) {
+    return new HttpError(
+      502,
+      "GOOGLE_AUTH_FAILED",
+      "Google authentication failed (invalid_grant). Please re-authorize at /setup."
+    );
+  }
+  return new HttpError(
+    502,
+    "LEAD_STORAGE_FAILED",
+    "We couldn't save your message. Please try again."
+  );
+}
+
+/**
+ * Attribution is best-effort: malformed tracking data is dropped rather than
+ * costing us the lead. The combined source string is always recomputed here.
+ */
+function parseAttribution(value: unknown): LeadAttribution | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const parsed = leadAttributionSchema.safeParse(value);
+  if (!parsed.success) {
+    logger.warn("Ignoring invalid lead attribution", parsed.error.flatten().fieldErrors);
+    return undefined;
+  }
+  return normalizeAttribution(parsed.data);
+}
+
+export function createLeadsRouter({ config, services }: RouteContext): Router {
+  const router = Router();
+
+  router.post(
+    "/submit-lead",
+    submitLeadLimiter(),
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const body: Record<string, unknown> = req.body ?? {};
+
+      // Bots fill the hidden honeypot field; pretend it worked so they don't retry
+      if (typeof body._honeypot === "string" && body._honeypot.trim() !== "") {
+        const response: LeadSubmissionResponse = { success: true, message: SUCCESS_MESSAGE };
+        res.json(response);
+        return;
+      }
+
+      // Validate against the form the admin designed, not just the core fields
+      const fields = await services.branding.getFormFields();
+      const parsed = buildLeadSchema(fields).safeParse(body);
+      if (!parsed.success) {
+        throw validationError(parsed.error, "Invalid submission");
+      }
+      const { customFields, ...submission } = parsed.data;
+
+      const record = await services.credentials.get();
+      if (!getSetupStatus(record).configured) {
+        throw new HttpError(
+          412,
+          "SETUP_INCOMPLETE",
+          "Setup incomplete. Please complete the setup wizard at /setup to enable form submissions."
+        );
+      }
+
+      const redirectUri = `${getPublicBaseUrl(req, config.publicUrl)}${OAUTH_CALLBACK_PATH}`;
+      const sink = services.leadSinks.resolve(record, redirectUri);
+      const lead: LeadRecord = {
+        ...submission,
+        customFields: describeCustomFields(fields, customFields),
+        attribution: parseAttribution(body.attribution),
+        submittedAt: new Date().toISOString(),
+      };
+
+      let result: LeadAppendResult;
+      try {
+        result = await sink.appendLead(lead);
+      } catch (error) {
+        throw toStorageError(error, sink.kind);
+      }
+
+      if (result.isDuplicate) {
+        const response: LeadSubmissionResponse = {
+          success: true,
+          message: "Thanks! We already have your details and will be in touch soon.",
+          isDuplicate: true,
+          existingRowNumber: result.rowNumber,
+        };
+        res.json(response);
+        return;
+      }
+
+      notifyNewLead(lead, record, redirectUri).catch((error) => {
+        logger.error("Lead notifications failed", error);
+      });
+
+      const response: LeadSubmissionResponse = {
+        success: true,
+        message: SUCCESS_MESSAGE,
+        rowNumber: result.rowNumber,
+        enrichment: await services.enrichment.enrich(lead.email),
+        score: scoreLead(lead),
+        source: lead.attribution?.lastTouch,
+      };
+      res.json(response);
+    })
+  );
+
+  return router;
+}
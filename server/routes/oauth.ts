@@ -0,0 +1,116 @@
+/**
+ * OAuth Routes
+ *
+ * Google OAuth2 authorization code flow:
+ * - GET /api/v1/oauth/authorize - Redirects to the Google consent screen (needs a setup session)
+ * - GET /api/v1/oauth/callback  - Exchanges the code and stores the tokens
+ *
+ * Both end in a browser redirect, so errors are reported back to the setup
+ * wizard as `/setup?error=<message>` instead of JSON.
+ *
+ * @author Lindsey Stead
+ * @module server/routes/oauth
+ */
+
+import { Router, type Response } from "express";
+import { randomBytes, timingSafeEqual } from "crypto";
+import { asyncHandler } from "../utils/errors";
+import { hasSetupSession } from "../utils/setupSession";
+import { getPublicBaseUrl } from "../utils/url";
+import { logger } from "../utils/logger";
+import {
+  createOAuthClient,
+  exchangeAuthorizationCode,
+  getAuthorizationUrl,
+  OAUTH_CALLBACK_PATH,
+} from "../services/google";
+import type { RouteContext } from "./context";
+
+const STATE_COOKIE_NAME = "ssc_oauth_state";
+
+function redirectWithError(res: Response, message: string): void {
+  res.redirect(`/setup?error=${encodeURIComponent(message)}`);
+}
+
+function statesMatch(expected: unknown, actual: unknown): boolean {
+  if (typeof expected !== "string" || typeof actual !== "string") return false;
+  const left = Buffer.from(expected);
+  const right = Buffer.from(actual);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function createOAuthRouter({ config, services }: RouteContext): Router {
+  const router = Router();
+
+  router.get(
+    "/oauth/authorize",
+    asyncHandler(async (req, res) => {
+      // Otherwise anyone could connect their own Google account to the site
+      if (!(await hasSetupSession(req, services.setupAuth))) {
+        redirectWithError(res, "Sign in to the setup wizard before connecting Google");
+        return;
+      }
+      const { credentials } = await services.credentials.get();
+      if (!credentials.GOOGLE_CLIENT_ID || !credentials.GOOGLE_CLIENT_SECRET) {
+        redirectWithError(res, "Save your Google Client ID and Secret before authorizing");
+        return;
+      }
+
+      const state = randomBytes(16).toString("base64url");
+      res.cookie(STATE_COOKIE_NAME, state, {
+        httpOnly: true,
+        // Lax so the cookie survives the top-level redirect back from Google
+        sameSite: "lax",
+        secure: config.isProduction,
+        maxAge: 10 * 60 * 1000,
+        path: "/api/v1/oauth",
+      });
+
+      const redirectUri = `${getPublicBaseUrl(req, config.publicUrl)}${OAUTH_CALLBACK_PATH}`;
+      res.redirect(getAuthorizationUrl(createOAuthClient(credentials, redirectUri), state));
+    })
+  );
+
+  router.get(
+    "/oauth/callback",
+    asyncHandler(async (req, res) => {
+      const expectedState: unknown = req.cookies?.[STATE_COOKIE_NAME];
+      res.clearCookie(STATE_COOKIE_NAME, { path: "/api/v1/oauth" });
+
+      if (typeof req.query.error === "string") {
+        redirectWithError(res, `Google authorization was not completed: ${req.query.error}`);
+        return;
+      }
+      if (!statesMatch(expectedState, req.query.state)) {
+        redirectWithError(res, "Authorization session expired. Please try again.");
+        return;
+      }
+      if (typeof req.query.code !== "string" || !req.query.code) {
+        redirectWithError(res, "Google did not return an authorization code");
+        return;
+      }
+
+      const { credentials } = await services.credentials.get();
+      const redirectUri = `${getPublicBaseUrl(req, config.publicUrl)}${OAUTH_CALLBACK_PATH}`;
+
+      try {
+        const tokens = await exchangeAuthorizationCode(
+          createOAuthClient(credentials, redirectUri),
+          req.query.code
+        );
+        await services.credentials.saveTokens(tokens);
+      } catch (error) {
+        logger.warn("OAuth code exchange failed", error);
+        redirectWithError(
+          res,
+          "Could not complete Google authorization. Check your Client ID and Secret."
+        );
+        return;
+      }
+
+      res.redirect("/setup?success=true");
+    })
+  );
+
+  return router;
+}
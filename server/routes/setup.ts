@@ -0,0 +1,389 @@
+/**
+ * Setup Routes
+ *
+ * Endpoints used by the setup wizard. All but the status and session
+ * endpoints need a setup session (see utils/setupSession.ts):
+ * - GET    /api/v1/setup/status        - Setup completeness
+ * - GET    /api/v1/setup/session       - Whether the request has a setup session
+ * - POST   /api/v1/setup/session       - Sign in with the setup token
+ * - POST   /api/v1/setup/validate      - Verify the Google authorization
+ * - POST   /api/v1/setup/upload-logo   - Upload a logo and generate its variants
+ * - POST   /api/v1/setup/branding      - Save white-label configuration
+ * - POST   /api/v1/setup/credentials   - Save credentials and notification settings
+ * - DELETE /api/v1/setup/credentials   - Reset setup
+ * - POST   /api/v1/setup/test-webhook  - Send a test event to a webhook URL
+ * - GET    /api/v1/setup/draft         - Unfinished wizard draft, if any
+ * - PUT    /api/v1/setup/draft         - Autosave the wizard draft
+ * - DELETE /api/v1/setup/draft         - Discard the draft
+ * - GET    /api/v1/setup/config/export - Download the configuration as a bundle
+ * - POST   /api/v1/setup/config/import - Replace sections with those of a bundle
+ * - GET    /api/v1/setup/config/revisions             - Configuration history
+ * - GET    /api/v1/setup/config/revisions/:id         - One revision with its configuration
+ * - POST   /api/v1/setup/config/revisions/:id/restore - Save an earlier revision again and publish it
+ * - GET    /api/v1/setup/config/unpublished - What publishing the draft would change
+ * - POST   /api/v1/setup/config/publish     - Publish the draft configuration
+ *
+ * @author Lindsey Stead
+ * @module server/routes/setup
+ */
+
+import { Router, type Request, type RequestHandler } from "express";
+import multer from "multer";
+import type { SetupSessionResponse, UploadLogoFields, UploadLogoResponse } from "@shared/api";
+import { FIELD_MAX_LENGTHS } from "@shared/appConfig";
+import { configImportRequestSchema } from "@shared/configBundle";
+import { CONFIG_AUTHOR_HEADER, MAX_CONFIG_AUTHOR_LENGTH } from "@shared/configHistory";
+import { setupDraftSchema } from "@shared/setupDraft";
+import { asyncHandler, HttpError, validationError } from "../utils/errors";
+import { csrfProtection } from "../utils/csrf";
+import { draftLimiter, setupLimiter, signInLimiter, statusLimiter } from "../utils/rateLimit";
+import { hasSetupSession, requireSetupSession, setSetupSessionCookie } from "../utils/setupSession";
+import { getPublicBaseUrl } from "../utils/url";
+import { getSetupStatus } from "../services/setup";
+import { createOAuthClient, OAUTH_CALLBACK_PATH, validateAuthorization } from "../services/google";
+import {
+  createLogoAssets,
+  LOGO_TYPES,
+  MAX_LOGO_SIZE,
+  type LogoBranding,
+} from "../services/logoAssets";
+import { testWebhook } from "../services/webhooks";
+import type { RouteContext } from "./context";
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Kept in memory: every file written comes from createLogoAssets, after the image was checked
+function createLogoUpload(): RequestHandler {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_LOGO_SIZE, files: 1, fields: 10 },
+    fileFilter: (_req, file, cb) => {
+      if (!LOGO_TYPES[file.mimetype]) {
+        cb(
+          new HttpError(
+            400,
+            "INVALID_FILE_TYPE",
+            "Please select a valid image file (JPG, PNG, GIF, SVG, or WebP)"
+          )
+        );
+        return;
+      }
+      cb(null, true);
+    },
+  }).single("logo");
+
+  // Translate multer's errors into the API error shape
+  return (req, res, next) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(
+          error.code === "LIMIT_FILE_SIZE"
+            ? new HttpError(413, "FILE_TOO_LARGE", "File size must be less than 5MB")
+            : new HttpError(400, "UPLOAD_ERROR", error.message)
+        );
+        return;
+      }
+      next(error);
+    });
+  };
+}
+
+// The Open Graph card's name and color: the ones sent with the upload, else the saved branding's
+async function logoBranding(
+  fields: UploadLogoFields,
+  branding: RouteContext["services"]["branding"]
+): Promise<LogoBranding> {
+  const saved = (await branding.getDraftConfig()).branding ?? {};
+  const companyName = typeof fields.companyName === "string" ? fields.companyName.trim() : "";
+  const primaryColor = typeof fields.primaryColor === "string" ? fields.primaryColor.trim() : "";
+  return {
+    companyName: (companyName || String(saved.companyName ?? "")).slice(
+      0,
+      FIELD_MAX_LENGTHS.companyName
+    ),
+    primaryColor: HEX_COLOR.test(primaryColor) ? primaryColor : String(saved.primaryColor ?? ""),
+  };
+}
+
+// Names are URI-encoded by the client, since headers only carry Latin-1
+function configAuthor(req: Request): string | null {
+  const header = req.get(CONFIG_AUTHOR_HEADER);
+  if (!header) return null;
+  let name: string;
+  try {
+    name = decodeURIComponent(header);
+  } catch {
+    name = header;
+  }
+  return name.trim().slice(0, MAX_CONFIG_AUTHOR_LENGTH) || null;
+}
+
+function revisionId(req: Request): number {
+  const id = Number(req.params.id);
+  if (!Number.isSafeInteger(id) || id < 1) {
+    throw new HttpError(404, "NOT_FOUND", "Revision not found");
+  }
+  return id;
+}
+
+export function createSetupRouter({ config, services }: RouteContext): Router {
+  const router = Router();
+  const limiter = setupLimiter();
+  const requireSession = requireSetupSession(services.setupAuth);
+
+  router.get(
+    "/setup/status",
+    statusLimiter(),
+    asyncHandler(async (_req, res) => {
+      res.set("Cache-Control", "no-store");
+      res.json(getSetupStatus(await services.credentials.get()));
+    })
+  );
+
+  router.get(
+    "/setup/session",
+    statusLimiter(),
+    asyncHandler(async (req, res) => {
+      res.set("Cache-Control", "no-store");
+      const response: SetupSessionResponse = {
+        authenticated: await hasSetupSession(req, services.setupAuth),
+      };
+      res.json(response);
+    })
+  );
+
+  router.post(
+    "/setup/session",
+    signInLimiter(),
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      if (!(await services.setupAuth.checkToken(req.body?.token))) {
+        throw new HttpError(401, "UNAUTHORIZED", "That setup token is not correct");
+      }
+      setSetupSessionCookie(res, await services.setupAuth.createSession(), config.isProduction);
+      const response: SetupSessionResponse = { authenticated: true };
+      res.json(response);
+    })
+  );
+
+  router.post(
+    "/setup/validate",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const { credentials, tokens } = await services.credentials.get();
+      if (!credentials.GOOGLE_CLIENT_ID || !credentials.GOOGLE_CLIENT_SECRET) {
+        res.json({ valid: false, error: "Google credentials have not been saved yet" });
+        return;
+      }
+      if (!tokens?.refresh_token) {
+        res.json({ valid: false, error: "Google authorization has not been completed" });
+        return;
+      }
+
+      const redirectUri = `${getPublicBaseUrl(req, config.publicUrl)}${OAUTH_CALLBACK_PATH}`;
+      res.json(await validateAuthorization(createOAuthClient(credentials, redirectUri, tokens)));
+    })
+  );
+
+  router.post(
+    "/setup/upload-logo",
+    limiter,
+    requireSession,
+    csrfProtection,
+    createLogoUpload(),
+    asyncHandler(async (req, res) => {
+      if (!req.file) {
+        throw new HttpError(400, "NO_FILE", "No file uploaded");
+      }
+      const assets = await createLogoAssets(
+        req.file,
+        await logoBranding(req.body ?? {}, services.branding),
+        config.uploadsDir
+      );
+      const response: UploadLogoResponse = { success: true, url: assets.logo, assets };
+      res.json(response);
+    })
+  );
+
+  router.post(
+    "/setup/branding",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const saved = await services.branding.saveConfig(req.body, configAuthor(req));
+      res.json({ success: true, message: "Branding configuration saved", config: saved });
+    })
+  );
+
+  router.post(
+    "/setup/credentials",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const record = await services.credentials.save(req.body);
+      res.json({
+        success: true,
+        message: "Credentials saved",
+        status: getSetupStatus(record),
+      });
+    })
+  );
+
+  router.delete(
+    "/setup/credentials",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (_req, res) => {
+      await services.credentials.clear();
+      await services.setupDrafts.clear();
+      res.json({ success: true, message: "Credentials reset. Setup can be run again." });
+    })
+  );
+
+  router.post(
+    "/setup/test-webhook",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      res.json(await testWebhook(req.body?.webhookUrl));
+    })
+  );
+
+  router.get(
+    "/setup/draft",
+    statusLimiter(),
+    requireSession,
+    asyncHandler(async (_req, res) => {
+      res.set("Cache-Control", "no-store");
+      res.json({ draft: await services.setupDrafts.get() });
+    })
+  );
+
+  // Autosave gets its own limiter so it can't use up the setup mutations' budget
+  const saveDraftLimiter = draftLimiter();
+
+  router.put(
+    "/setup/draft",
+    saveDraftLimiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const parsed = setupDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw validationError(parsed.error, "Invalid setup draft");
+      }
+      await services.setupDrafts.save(parsed.data);
+      res.json({ success: true, savedAt: parsed.data.savedAt });
+    })
+  );
+
+  router.delete(
+    "/setup/draft",
+    saveDraftLimiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (_req, res) => {
+      await services.setupDrafts.clear();
+      res.json({ success: true, message: "Draft discarded" });
+    })
+  );
+
+  router.get(
+    "/setup/config/export",
+    statusLimiter(),
+    requireSession,
+    asyncHandler(async (_req, res) => {
+      res.set("Cache-Control", "no-store");
+      res.json(await services.branding.exportBundle());
+    })
+  );
+
+  router.post(
+    "/setup/config/import",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const parsed = configImportRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw validationError(parsed.error, "Invalid configuration bundle");
+      }
+      const { bundle, sections } = parsed.data;
+      const saved = await services.branding.importSections(
+        bundle.sections,
+        sections,
+        configAuthor(req)
+      );
+      res.json({
+        success: true,
+        message: `Imported ${sections.join(", ")}`,
+        sections,
+        config: saved,
+      });
+    })
+  );
+
+  router.get(
+    "/setup/config/revisions",
+    statusLimiter(),
+    requireSession,
+    asyncHandler(async (_req, res) => {
+      res.set("Cache-Control", "no-store");
+      res.json({ revisions: await services.configHistory.list() });
+    })
+  );
+
+  router.get(
+    "/setup/config/revisions/:id",
+    statusLimiter(),
+    requireSession,
+    asyncHandler(async (req, res) => {
+      const revision = await services.configHistory.get(revisionId(req));
+      if (!revision) {
+        throw new HttpError(404, "NOT_FOUND", "Revision not found");
+      }
+      res.json({ revision });
+    })
+  );
+
+  router.post(
+    "/setup/config/revisions/:id/restore",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (req, res) => {
+      const id = revisionId(req);
+      const saved = await services.branding.restoreRevision(id, configAuthor(req));
+      res.json({ success: true, message: `Restored revision ${id}`, config: saved });
+    })
+  );
+
+  router.get(
+    "/setup/config/unpublished",
+    statusLimiter(),
+    requireSession,
+    asyncHandler(async (_req, res) => {
+      res.set("Cache-Control", "no-store");
+      res.json({ changes: await services.branding.getUnpublishedChanges() });
+    })
+  );
+
+  router.post(
+    "/setup/config/publish",
+    limiter,
+    requireSession,
+    csrfProtection,
+    asyncHandler(async (_req, res) => {
+      const published = await services.branding.publish();
+      res.json({ success: true, message: "Configuration published", config: published });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,264 @@
+/**
+ * Branding Configuration Service
+ *
+ * Stores the white-label configuration (branding, theme, content, page layout,
+ * header, footer, SEO, analytics) saved by the setup wizard and serves it back merged over
+ * the default configuration. Saves go to a draft that is served only to
+ * preview links until it is published (see shared/configPublishing.ts).
+ * Also exports and imports the draft as a bundle (see
+ * shared/configBundle.ts). Every change to the draft is recorded as a
+ * revision in the configuration history, from which earlier revisions can
+ * be restored.
+ *
+ * @author Lindsey Stead
+ * @module server/services/branding
+ */
+
+import { brandingConfigPayloadSchema } from "@shared/appConfig";
+import {
+  CONFIG_BUNDLE_VERSION,
+  diffConfigs,
+  pickConfigSections,
+  type ConfigBundle,
+  type ConfigChange,
+  type ConfigSection,
+  type ConfigSections,
+} from "@shared/configBundle";
+import { resolveFormFields, type FormFieldDefinition } from "@shared/formDefinition";
+import { findBrokenSectionLinks, resolveLayout } from "@shared/pageLayout";
+import { JsonFileStore } from "./storage";
+import type { ConfigHistoryService, RevisionMeta } from "./configHistory";
+import { deepMerge, isPlainObject, type PlainObject } from "../utils/merge";
+import { HttpError, validationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+export type StoredConfig = Partial<Record<ConfigSection, PlainObject>>;
+
+/** The unpublished configuration; none until something is saved after publishing. */
+export interface DraftConfigRecord {
+  config?: StoredConfig;
+}
+
+/**
+ * Defaults returned for anything the wizard has not configured yet.
+ * Mirrors the client fallback in useAppConfig so both sides render the same page.
+ */
+function defaultConfig(): StoredConfig {
+  return {
+    branding: {
+      companyName: "SmartSheetConnect",
+      logo: "/assets/SmartSheetConnect.png",
+      primaryColor: "#2563eb",
+    },
+    content: {
+      hero: {
+        title: "SmartSheetConnect",
+        description: "Automated lead capture that logs to Google Sheets and sends notifications",
+        ctaText: "Get Started",
+        secondaryCtaText: "Learn More",
+        benefits: [],
+      },
+      form: {
+        title: "Get in Touch",
+        description: "Fill out the form below and we'll get back to you as soon as possible",
+        submitText: "Send Message",
+      },
+    },
+    header: {
+      navigation: [],
+      ctaText: "Get Started",
+    },
+    footer: {
+      description:
+        "Professional lead capture automation for businesses that value efficiency and never missing an opportunity.",
+      socialLinks: {},
+      quickLinks: [],
+      resources: [],
+      copyright: `© ${new Date().getFullYear()} SmartSheetConnect. All rights reserved.`,
+    },
+  };
+}
+
+// Sections whose changes can break a navigation link
+const LINKED_SECTIONS: readonly ConfigSection[] = ["layout", "header", "footer"];
+
+// Sections saved as a whole rather than merged, so values a save leaves out go back to their defaults
+const REPLACED_SECTIONS: readonly ConfigSection[] = ["theme"];
+
+// What checkSectionLinks reads; other sections of a stored configuration are ignored
+const sectionLinksSchema = brandingConfigPayloadSchema
+  .pick({ content: true, layout: true, header: true, footer: true })
+  .strip();
+
+/**
+ * Rejects navigation links (header navigation, footer quick links) that
+ * point at a section the page layout doesn't have.
+ *
+ * @throws HttpError 400 VALIDATION_ERROR naming the first broken link
+ */
+function checkSectionLinks(config: StoredConfig): void {
+  const parsed = sectionLinksSchema.safeParse(config);
+  if (!parsed.success) return;
+  const { header, footer } = parsed.data;
+  const links = [...(header?.navigation ?? []), ...(footer?.quickLinks ?? [])];
+  const [broken] = findBrokenSectionLinks(links, resolveLayout(parsed.data));
+  if (broken) {
+    throw new HttpError(
+      400,
+      "VALIDATION_ERROR",
+      `Link "${broken.label}" points to a section that isn't on the page`
+    );
+  }
+}
+
+export class BrandingService {
+  constructor(
+    private readonly published: JsonFileStore<StoredConfig>,
+    private readonly draft: JsonFileStore<DraftConfigRecord>,
+    private readonly history: ConfigHistoryService
+  ) {}
+
+  /**
+   * Returns the public app configuration (defaults merged with published values).
+   */
+  async getConfig(): Promise<StoredConfig> {
+    return deepMerge(defaultConfig(), await this.published.read());
+  }
+
+  /**
+   * Returns the configuration as it will look once published.
+   */
+  async getDraftConfig(): Promise<StoredConfig> {
+    return deepMerge(defaultConfig(), await this.readDraft());
+  }
+
+  /**
+   * Lists what publishing the draft would change.
+   */
+  async getUnpublishedChanges(): Promise<ConfigChange[]> {
+    return diffConfigs(await this.published.read(), await this.readDraft());
+  }
+
+  /**
+   * Makes the draft the published configuration.
+   */
+  async publish(): Promise<StoredConfig> {
+    const draft = await this.readDraft();
+    await this.published.write(draft);
+    return draft;
+  }
+
+  /**
+   * Merges a partial configuration payload into the draft.
+   * The payload is checked against brandingConfigPayloadSchema: unknown
+   * sections and values over the field limits are rejected, unknown keys
+   * inside a section are dropped. The theme replaces the saved one rather
+   * than being merged into it. Saving links or the layout also checks
+   * that every link points at a section of the page.
+   */
+  async saveConfig(payload: unknown, author: string | null = null): Promise<StoredConfig> {
+    const parsed = brandingConfigPayloadSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw validationError(parsed.error, "Invalid configuration");
+    }
+    return this.change(
+      (current) => {
+        const next = deepMerge(current, parsed.data);
+        for (const name of REPLACED_SECTIONS) {
+          if (parsed.data[name]) next[name] = parsed.data[name];
+        }
+        if (LINKED_SECTIONS.some((name) => parsed.data[name])) checkSectionLinks(next);
+        return next;
+      },
+      { author, source: "wizard" }
+    );
+  }
+
+  /**
+   * Exports the draft (defaults merged with saved values) as a bundle.
+   * Sections that no longer match the bundle schema are left out.
+   */
+  async exportBundle(): Promise<ConfigBundle> {
+    const { sections, invalid } = pickConfigSections(await this.getDraftConfig());
+    if (invalid.length > 0) {
+      logger.warn(`Config export skipped invalid sections: ${invalid.join(", ")}`);
+    }
+    return { version: CONFIG_BUNDLE_VERSION, exportedAt: new Date().toISOString(), sections };
+  }
+
+  /**
+   * Replaces whole sections of the draft with imported ones, so the result
+   * matches the source instead of mixing with what was saved before.
+   * Sections not listed are left as they are. Links have to point at a
+   * section of the resulting layout, as with saveConfig.
+   */
+  async importSections(
+    sections: ConfigSections,
+    names: readonly ConfigSection[],
+    author: string | null = null
+  ): Promise<StoredConfig> {
+    return this.change(
+      (current) => {
+        const next = { ...current };
+        for (const name of names) {
+          const section = sections[name];
+          if (section) next[name] = section;
+        }
+        if (names.some((name) => LINKED_SECTIONS.includes(name))) checkSectionLinks(next);
+        return next;
+      },
+      { author, source: "import" }
+    );
+  }
+
+  /**
+   * Saves the configuration of an earlier revision as a new revision and
+   * publishes it, discarding unpublished changes.
+   *
+   * @throws HttpError 404 when the revision doesn't exist (or was pruned)
+   * @throws HttpError 400 VALIDATION_ERROR when its configuration no longer matches the schema
+   */
+  async restoreRevision(id: number, author: string | null = null): Promise<StoredConfig> {
+    const revision = await this.history.get(id);
+    if (!revision) {
+      throw new HttpError(404, "NOT_FOUND", `Revision ${id} not found`);
+    }
+    // Revisions keep what was saved at the time, which the schema may no longer allow
+    const parsed = brandingConfigPayloadSchema.safeParse(revision.config);
+    if (!parsed.success) {
+      throw validationError(parsed.error, `Revision ${id} no longer matches the configuration`);
+    }
+    await this.change(() => parsed.data, { author, source: "restore", restoredFrom: id });
+    return this.publish();
+  }
+
+  // Without a draft, the published configuration is the starting point
+  private async readDraft(): Promise<StoredConfig> {
+    const { config } = await this.draft.read();
+    return config ?? this.published.read();
+  }
+
+  // Applies an update to the draft and records it as a revision. Recording
+  // inside the update keeps revisions in the order the draft changed.
+  private async change(
+    updater: (current: StoredConfig) => StoredConfig,
+    meta: RevisionMeta
+  ): Promise<StoredConfig> {
+    const { config: after = {} } = await this.draft.update(async ({ config }) => {
+      const before = config ?? (await this.published.read());
+      const next = updater(before);
+      await this.history.record(before, next, meta);
+      return { config: next };
+    });
+    return after;
+  }
+
+  /**
+   * Returns the published lead form definition, or the default form when none was saved.
+   */
+  async getFormFields(): Promise<readonly FormFieldDefinition[]> {
+    const config = await this.getConfig();
+    const form = isPlainObject(config.content) ? config.content.form : undefined;
+    return resolveFormFields(isPlainObject(form) ? form.fields : undefined);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Configuration History Service
+ *
+ * Appends a revision for every change to the white-label configuration
+ * (see shared/configHistory.ts). Only the newest MAX_REVISIONS are kept so
+ * the history file stays small.
+ *
+ * @author Lindsey Stead
+ * @module server/services/configHistory
+ */
+
+import { CONFIG_SECTIONS, type ConfigSection } from "@shared/appConfig";
+import { diffConfigs } from "@shared/configBundle";
+import type {
+  ConfigRevision,
+  ConfigRevisionDetail,
+  ConfigRevisionSource,
+} from "@shared/configHistory";
+import type { JsonFileStore } from "./storage";
+import type { StoredConfig } from "./branding";
+
+export const MAX_REVISIONS = 100;
+
+export interface ConfigHistoryRecord {
+  revisions: ConfigRevisionDetail[];
+}
+
+export interface RevisionMeta {
+  author: string | null;
+  source: ConfigRevisionSource;
+  restoredFrom?: number;
+}
+
+function changedSections(before: StoredConfig, after: StoredConfig): ConfigSection[] {
+  const changed = new Set(diffConfigs(before, after).map((change) => change.section));
+  return CONFIG_SECTIONS.filter((section) => changed.has(section));
+}
+
+function summarize({ config: _config, ...revision }: ConfigRevisionDetail): ConfigRevision {
+  return revision;
+}
+
+function isEmpty(config: StoredConfig): boolean {
+  return CONFIG_SECTIONS.every((section) => config[section] === undefined);
+}
+
+export class ConfigHistoryService {
+  constructor(private readonly store: JsonFileStore<ConfigHistoryRecord>) {}
+
+  /**
+   * Lists revisions, newest first, without their configurations.
+   */
+  async list(): Promise<ConfigRevision[]> {
+    const { revisions } = await this.store.read();
+    return revisions.map(summarize).reverse();
+  }
+
+  async get(id: number): Promise<ConfigRevisionDetail | null> {
+    const { revisions } = await this.store.read();
+    return revisions.find((revision) => revision.id === id) ?? null;
+  }
+
+  /**
+   * Records the change from `before` to `after`.
+   *
+   * @returns The new revision, or null when nothing changed
+   */
+  async record(
+    before: StoredConfig,
+    after: StoredConfig,
+    meta: RevisionMeta
+  ): Promise<ConfigRevision | null> {
+    const sections = changedSections(before, after);
+    if (sections.length === 0) return null;
+
+    const { revisions } = await this.store.update(({ revisions }) => {
+      const next = [...revisions];
+      const append = (revision: Omit<ConfigRevisionDetail, "id" | "createdAt">) => {
+        next.push({
+          id: (next[next.length - 1]?.id ?? 0) + 1,
+          createdAt: new Date().toISOString(),
+          ...revision,
+        });
+      };
+
+      // Keep what was saved before history existed, so it can be restored too
+      if (next.length === 0 && !isEmpty(before)) {
+        append({
+          author: null,
+          source: "initial",
+          changedSections: changedSections({}, before),
+          config: before,
+        });
+      }
+      append({ ...meta, changedSections: sections, config: after });
+
+      return { revisions: next.slice(-MAX_REVISIONS) };
+    });
+
+    return summarize(revisions[revisions.length - 1]);
+  }
+}
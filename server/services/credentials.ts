@@ -0,0 +1,198 @@
+/**
+ * Credential Management Service
+ *
+ * Persists the credentials and notification settings entered in the setup
+ * wizard, plus the Google OAuth tokens obtained after authorization. Values
+ * never leave the server; the API only reports whether they are present.
+ *
+ * @author Lindsey Stead
+ * @module server/services/credentials
+ */
+
+import { LEAD_SINK_KINDS, type LeadSinkKind } from "@shared/schema";
+import { JsonFileStore } from "./storage";
+import { HttpError } from "../utils/errors";
+import { isPlainObject } from "../utils/merge";
+
+/** Credential keys accepted from the setup wizard. Anything else is dropped. */
+export const CREDENTIAL_KEYS = [
+  "GOOGLE_CLIENT_ID",
+  "GOOGLE_CLIENT_SECRET",
+  "NOTIFICATION_EMAIL",
+  "SLACK_WEBHOOK_URL",
+  "WEBHOOK_URL",
+  "ENABLE_SLACK_NOTIFICATIONS",
+  "ENABLE_EMAIL_NOTIFICATIONS",
+  "ENABLE_WEBHOOK_NOTIFICATIONS",
+  "ENABLE_AUTO_RESPONDER",
+  "ORGANIZATION_NAME",
+  "AUTO_RESPONDER_SUBJECT",
+  "AUTO_RESPONDER_BODY",
+  "OPENAI_API_KEY",
+  "SPREADSHEET_ID",
+  "LEAD_SINK",
+] as const;
+
+export type CredentialKey = (typeof CREDENTIAL_KEYS)[number];
+
+export type Credentials = Partial<Record<CredentialKey, string>>;
+
+/** OAuth tokens as returned by Google's token endpoint. */
+export interface GoogleTokens {
+  access_token?: string | null;
+  refresh_token?: string | null;
+  expiry_date?: number | null;
+  scope?: string;
+  token_type?: string | null;
+}
+
+export interface CredentialsRecord {
+  credentials: Credentials;
+  tokens?: GoogleTokens;
+  updatedAt?: string;
+}
+
+const MAX_VALUE_LENGTH = 10000;
+
+/**
+ * Reads a boolean flag stored as "true"/"false".
+ */
+export function isEnabled(value: string | undefined, fallback = false): boolean {
+  if (value === undefined || value === "") return fallback;
+  return value === "true";
+}
+
+/**
+ * Returns the configured lead destination. Defaults to Google Sheets.
+ */
+export function getLeadSinkKind(credentials: Credentials): LeadSinkKind {
+  const value = credentials.LEAD_SINK as LeadSinkKind | undefined;
+  return value && LEAD_SINK_KINDS.includes(value) ? value : "google-sheets";
+}
+
+/**
+ * Whether the current settings need a Google connection: storing leads in
+ * Sheets, or sending email notifications and auto-replies through Gmail.
+ */
+export function requiresGoogle(credentials: Credentials): boolean {
+  return (
+    getLeadSinkKind(credentials) === "google-sheets" ||
+    isEnabled(credentials.ENABLE_EMAIL_NOTIFICATIONS, true) ||
+    isEnabled(credentials.ENABLE_AUTO_RESPONDER)
+  );
+}
+
+/**
+ * Returns the display names of required credentials missing from `credentials`.
+ * Names match the labels shown in the setup wizard.
+ */
+export function getMissingCredentialFields(credentials: Credentials): string[] {
+  const missing: string[] = [];
+  if (requiresGoogle(credentials)) {
+    if (!credentials.GOOGLE_CLIENT_ID) missing.push("Google Client ID");
+    if (!credentials.GOOGLE_CLIENT_SECRET) missing.push("Google Client Secret");
+  }
+  if (isEnabled(credentials.ENABLE_EMAIL_NOTIFICATIONS, true) && !credentials.NOTIFICATION_EMAIL) {
+    missing.push("Notification Email");
+  }
+  return missing;
+}
+
+export class CredentialsService {
+  constructor(private readonly store: JsonFileStore<CredentialsRecord>) {}
+
+  async get(): Promise<CredentialsRecord> {
+    const record = await this.store.read();
+    return { ...record, credentials: record.credentials ?? {} };
+  }
+
+  /**
+   * Validates and saves credentials from the setup wizard.
+   *
+   * Empty strings clear a value. Changing the Google client invalidates any
+   * previously stored OAuth tokens, since they belong to the old client.
+   */
+  async save(payload: unknown): Promise<CredentialsRecord> {
+    if (!isPlainObject(payload)) {
+      throw new HttpError(400, "VALIDATION_ERROR", "Credentials payload must be an object");
+    }
+
+    const incoming: Credentials = {};
+    for (const key of CREDENTIAL_KEYS) {
+      const value = payload[key];
+      if (value === undefined || value === null) continue;
+      if (typeof value !== "string" || value.length > MAX_VALUE_LENGTH) {
+        throw new HttpError(400, "VALIDATION_ERROR", `Invalid value for ${key}`);
+      }
+      incoming[key] = value.trim();
+    }
+
+    if (incoming.LEAD_SINK && !LEAD_SINK_KINDS.includes(incoming.LEAD_SINK as LeadSinkKind)) {
+      throw new HttpError(
+        400,
+        "VALIDATION_ERROR",
+        `LEAD_SINK must be one of: ${LEAD_SINK_KINDS.join(", ")}`
+      );
+    }
+
+    const missing = getMissingCredentialFields(incoming);
+    if (missing.length > 0) {
+      throw new HttpError(400, "MISSING_FIELDS", `Missing required fields: ${missing.join(", ")}`, {
+        missing,
+      });
+    }
+
+    return this.store.update((current) => {
+      const previous = current.credentials ?? {};
+      const clientChanged =
+        previous.GOOGLE_CLIENT_ID !== incoming.GOOGLE_CLIENT_ID ||
+        previous.GOOGLE_CLIENT_SECRET !== incoming.GOOGLE_CLIENT_SECRET;
+
+      const credentials: Credentials = { ...previous };
+      for (const [key, value] of Object.entries(incoming) as Array<[CredentialKey, string]>) {
+        if (value) credentials[key] = value;
+        else delete credentials[key];
+      }
+
+      return {
+        credentials,
+        tokens: clientChanged ? undefined : current.tokens,
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Stores OAuth tokens. Google only sends a refresh token on first consent,
+   * so an existing refresh token is kept when the new set omits it.
+   */
+  async saveTokens(tokens: GoogleTokens): Promise<void> {
+    await this.store.update((current) => ({
+      ...current,
+      credentials: current.credentials ?? {},
+      tokens: {
+        ...tokens,
+        refresh_token: tokens.refresh_token || current.tokens?.refresh_token || null,
+      },
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  /**
+   * Records the spreadsheet created automatically for the Google Sheets sink.
+   */
+  async setSpreadsheetId(spreadsheetId: string): Promise<void> {
+    await this.store.update((current) => ({
+      ...current,
+      credentials: { ...current.credentials, SPREADSHEET_ID: spreadsheetId },
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  /**
+   * Removes all credentials and tokens (used by "Reset setup").
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
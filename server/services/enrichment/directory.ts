@@ -0,0 +1,132 @@
+/**
+ * Company directory provider.
+ *
+ * Looks domains up in a local company directory file, so enrichment works
+ * offline. The file can be JSON or CSV and is re-read whenever it changes,
+ * so it can be updated without restarting the server.
+ *
+ * JSON: an object keyed by domain, or an array of records with a `domain`:
+ *   { "acme.com": { "companyName": "Acme", "industry": "Manufacturing" } }
+ *
+ * CSV: a header row with `domain` plus any enrichment field names:
+ *   domain,companyName,industry,employeeCount,location,website
+ *
+ * @author Lindsey Stead
+ * @module server/services/enrichment/directory
+ */
+
+import { promises as fs } from "fs";
+import { parseCsv } from "../../utils/csv";
+import { logger } from "../../utils/logger";
+import {
+  ENRICHMENT_FIELDS,
+  type CompanyFields,
+  type EnrichmentProvider,
+  type ProviderResult,
+} from "./types";
+
+type Directory = Map<string, CompanyFields>;
+
+function pickFields(record: Record<string, unknown>): CompanyFields {
+  const fields: CompanyFields = {};
+  for (const field of ENRICHMENT_FIELDS) {
+    const value = record[field];
+    if (typeof value === "string" && value.trim()) fields[field] = value.trim();
+  }
+  return fields;
+}
+
+function parseJsonDirectory(text: string): Directory {
+  const data: unknown = JSON.parse(text);
+  const directory: Directory = new Map();
+
+  const add = (domain: unknown, record: unknown) => {
+    if (typeof domain !== "string" || !record || typeof record !== "object") return;
+    directory.set(domain.trim().toLowerCase(), pickFields(record as Record<string, unknown>));
+  };
+
+  if (Array.isArray(data)) {
+    for (const record of data) add(record?.domain, record);
+  } else if (data && typeof data === "object") {
+    for (const [domain, record] of Object.entries(data)) add(domain, record);
+  }
+  return directory;
+}
+
+function parseCsvDirectory(text: string): Directory {
+  const [header, ...rows] = parseCsv(text);
+  const directory: Directory = new Map();
+  if (!header) return directory;
+
+  const columns = header.map((name) => name.trim());
+  const domainIndex = columns.indexOf("domain");
+  if (domainIndex === -1) {
+    throw new Error('CSV company directory needs a "domain" column');
+  }
+
+  for (const row of rows) {
+    const domain = row[domainIndex]?.trim().toLowerCase();
+    if (!domain) continue;
+    const record: Record<string, string> = {};
+    columns.forEach((name, index) => (record[name] = row[index] ?? ""));
+    directory.set(domain, pickFields(record));
+  }
+  return directory;
+}
+
+export class DirectoryEnrichmentProvider implements EnrichmentProvider {
+  readonly name = "directory";
+
+  private cached?: { mtimeMs: number; directory: Directory };
+
+  /**
+   * @param filePath - JSON or CSV directory (format chosen by extension)
+   * @param confidence - Confidence assigned to directory values
+   */
+  constructor(
+    readonly filePath: string,
+    private readonly confidence = 0.95
+  ) {}
+
+  async lookup(domain: string): Promise<ProviderResult | null> {
+    const directory = await this.load();
+    const fields = directory.get(domain) ?? this.findParent(directory, domain);
+    if (!fields) return null;
+    return { fields: { companyDomain: domain, ...fields }, confidence: this.confidence };
+  }
+
+  /** Matches sub-domains (eu.acme.com) to their listed parent (acme.com). */
+  private findParent(directory: Directory, domain: string): CompanyFields | undefined {
+    const labels = domain.split(".");
+    for (let i = 1; i < labels.length - 1; i++) {
+      const fields = directory.get(labels.slice(i).join("."));
+      if (fields) return fields;
+    }
+    return undefined;
+  }
+
+  private async load(): Promise<Directory> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      // No directory configured: nothing to look up
+      return new Map();
+    }
+
+    if (this.cached?.mtimeMs === mtimeMs) return this.cached.directory;
+
+    try {
+      const text = await fs.readFile(this.filePath, "utf8");
+      const directory = this.filePath.toLowerCase().endsWith(".csv")
+        ? parseCsvDirectory(text)
+        : parseJsonDirectory(text);
+      this.cached = { mtimeMs, directory };
+      return directory;
+    } catch (error) {
+      logger.warn(`Could not load company directory ${this.filePath}`, error);
+      // Keep serving the last good copy while the file is being fixed
+      return this.cached?.directory ?? new Map();
+    }
+  }
+}
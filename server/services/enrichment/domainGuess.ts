@@ -0,0 +1,52 @@
+/**
+ * Domain guess provider.
+ *
+ * Last link of the chain: derives the website and a best-guess company
+ * name from the domain itself ("acme.com" -> "Acme"). Always answers, with
+ * low confidence for the guessed name.
+ *
+ * @author Lindsey Stead
+ * @module server/services/enrichment/domainGuess
+ */
+
+import type { EnrichmentProvider, ProviderResult } from "./types";
+
+/** Second-level labels that sit under a country code (acme.co.uk) */
+const SECOND_LEVEL_LABELS = new Set(["co", "com", "org", "net", "ac", "gov", "edu"]);
+
+/**
+ * Extracts the registrable name: "eu.acme.co.uk" -> "acme".
+ */
+function companyLabel(domain: string): string {
+  const labels = domain.split(".");
+  let index = labels.length - 2;
+  if (index > 0 && SECOND_LEVEL_LABELS.has(labels[index]) && labels[labels.length - 1].length === 2) {
+    index--;
+  }
+  return labels[Math.max(0, index)];
+}
+
+function titleCase(label: string): string {
+  return label
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+export class DomainGuessProvider implements EnrichmentProvider {
+  readonly name = "domain";
+
+  async lookup(domain: string): Promise<ProviderResult | null> {
+    return {
+      fields: {
+        companyDomain: domain,
+        website: `https://${domain}`,
+        companyName: titleCase(companyLabel(domain)),
+      },
+      confidence: 0.9,
+      // The name is only a guess; the domain and website are facts
+      fieldConfidence: { companyName: 0.4, website: 0.6 },
+    };
+  }
+}
@@ -0,0 +1,134 @@
+// @vitest-environment node
+/**
+ * Enrichment Service Tests
+ *
+ * Covers the provider chain, the local directory (JSON and CSV), free-mail
+ * and disposable detection, provenance and caching.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { DirectoryEnrichmentProvider, DomainGuessProvider, EnrichmentService } from "./index";
+import type { EnrichmentProvider } from "./types";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), "ssc-enrich-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function writeJsonDirectory(data: unknown): string {
+  const filePath = path.join(root, "directory.json");
+  writeFileSync(filePath, JSON.stringify(data));
+  return filePath;
+}
+
+describe("EnrichmentService", () => {
+  it("prefers directory values and records provenance per field", async () => {
+    const directory = writeJsonDirectory({
+      "acme.com": { companyName: "Acme Corp", industry: "Manufacturing" },
+    });
+    const service = new EnrichmentService({
+      providers: [new DirectoryEnrichmentProvider(directory), new DomainGuessProvider()],
+    });
+
+    const result = await service.enrich("john@acme.com");
+
+    expect(result).toMatchObject({
+      companyName: "Acme Corp",
+      companyDomain: "acme.com",
+      industry: "Manufacturing",
+      employeeCount: null,
+      website: "https://acme.com",
+      emailDomainType: "company",
+    });
+    expect(result.provenance?.companyName).toEqual({ source: "directory", confidence: 0.95 });
+    expect(result.provenance?.website).toEqual({ source: "domain", confidence: 0.6 });
+    expect(result.provenance?.employeeCount).toBeUndefined();
+  });
+
+  it("reads CSV directories and matches sub-domains to their parent", async () => {
+    const filePath = path.join(root, "directory.csv");
+    writeFileSync(filePath, "domain,companyName,location\nnorthwind.io,Northwind,\"Austin, TX\"\n");
+    const service = new EnrichmentService({ providers: [new DirectoryEnrichmentProvider(filePath)] });
+
+    const result = await service.enrich("ops@eu.northwind.io");
+    expect(result.companyName).toBe("Northwind");
+    expect(result.location).toBe("Austin, TX");
+  });
+
+  it("picks up directory edits without a restart", async () => {
+    const filePath = writeJsonDirectory({ "acme.com": { companyName: "Acme" } });
+    const provider = new DirectoryEnrichmentProvider(filePath);
+    expect((await provider.lookup("acme.com"))?.fields.companyName).toBe("Acme");
+
+    writeFileSync(filePath, JSON.stringify({ "acme.com": { companyName: "Acme Industries" } }));
+    const future = new Date(Date.now() + 5000);
+    utimesSync(filePath, future, future);
+
+    expect((await provider.lookup("acme.com"))?.fields.companyName).toBe("Acme Industries");
+  });
+
+  it("skips free-mail and disposable addresses without calling providers", async () => {
+    const lookup = vi.fn();
+    const service = new EnrichmentService({ providers: [{ name: "spy", lookup }] });
+
+    expect(await service.enrich("sam@gmail.com")).toMatchObject({
+      companyName: null,
+      emailDomainType: "free",
+    });
+    expect((await service.enrich("x@mailinator.com")).emailDomainType).toBe("disposable");
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("continues down the chain when a provider fails", async () => {
+    const failing: EnrichmentProvider = {
+      name: "broken",
+      lookup: async () => {
+        throw new Error("timeout");
+      },
+    };
+    const service = new EnrichmentService({ providers: [failing, new DomainGuessProvider()] });
+
+    const result = await service.enrich("pat@blue-harbor.co.uk");
+    expect(result.companyName).toBe("Blue Harbor");
+    expect(result.provenance?.companyName).toEqual({ source: "domain", confidence: 0.4 });
+  });
+
+  it("doesn't cache a result a provider failed to contribute to", async () => {
+    const lookup = vi
+      .fn<EnrichmentProvider["lookup"]>()
+      .mockRejectedValueOnce(new Error("timeout"))
+      .mockResolvedValue({ fields: { industry: "Retail" }, confidence: 0.8 });
+    const service = new EnrichmentService({ providers: [{ name: "api", lookup }] });
+
+    expect((await service.enrich("a@shop.com")).industry).toBeNull();
+    expect((await service.enrich("b@shop.com")).industry).toBe("Retail");
+    await service.enrich("c@shop.com");
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches results per domain until the TTL expires", async () => {
+    let now = 0;
+    const lookup = vi.fn(async () => ({ fields: { industry: "Retail" }, confidence: 0.8 }));
+    const service = new EnrichmentService({
+      providers: [{ name: "api", lookup }],
+      ttlMs: 1000,
+      now: () => now,
+    });
+
+    await service.enrich("a@shop.com");
+    await service.enrich("b@shop.com");
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    now = 1500;
+    await service.enrich("a@shop.com");
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
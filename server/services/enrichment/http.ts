@@ -0,0 +1,64 @@
+/**
+ * HTTP enrichment provider.
+ *
+ * Calls an external company-data API. The URL is a template containing
+ * `{domain}`, and `mapResponse` turns the API's JSON into enrichment
+ * fields, so any provider (Clearbit-style, in-house, etc.) can be plugged in.
+ *
+ * @author Lindsey Stead
+ * @module server/services/enrichment/http
+ */
+
+import type { CompanyFields, EnrichmentProvider, ProviderResult } from "./types";
+
+export interface HttpEnrichmentProviderOptions {
+  name: string;
+  /** e.g. "https://api.example.com/companies?domain={domain}" */
+  urlTemplate: string;
+  headers?: Record<string, string>;
+  /** Maps the JSON body to fields; defaults to reading fields of the same names */
+  mapResponse?: (body: unknown) => CompanyFields | null;
+  confidence?: number;
+  timeoutMs?: number;
+}
+
+function defaultMapResponse(body: unknown): CompanyFields | null {
+  if (!body || typeof body !== "object") return null;
+  const record = body as Record<string, unknown>;
+  const fields: CompanyFields = {};
+  for (const key of ["companyName", "industry", "employeeCount", "location", "website"] as const) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) fields[key] = value.trim();
+    else if (typeof value === "number") fields[key] = String(value);
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+}
+
+export class HttpEnrichmentProvider implements EnrichmentProvider {
+  readonly name: string;
+
+  constructor(private readonly options: HttpEnrichmentProviderOptions) {
+    this.name = options.name;
+  }
+
+  /**
+   * Unknown domains (404) resolve to null; other failures throw so the
+   * chain can log them and move on.
+   */
+  async lookup(domain: string): Promise<ProviderResult | null> {
+    const url = this.options.urlTemplate.replace(/\{domain\}/g, encodeURIComponent(domain));
+    const res = await fetch(url, {
+      headers: { Accept: "application/json", ...this.options.headers },
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 3000),
+    });
+
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`${this.name} responded with ${res.status}`);
+    }
+
+    const fields = (this.options.mapResponse ?? defaultMapResponse)(await res.json());
+    if (!fields) return null;
+    return { fields, confidence: this.options.confidence ?? 0.8 };
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Lead Enrichment Service
+ *
+ * Fills in company details from a lead's email domain by asking a chain of
+ * providers in order: the local company directory first, then any HTTP
+ * providers, then a guess from the domain itself. For each field the first
+ * provider that knows it wins, and its name and confidence are recorded.
+ *
+ * Free-mail and disposable addresses are detected up front and never
+ * looked up. Results are cached per domain, except when a provider failed,
+ * so a passing outage doesn't hide its data until the cache expires.
+ *
+ * @author Lindsey Stead
+ * @module server/services/enrichment
+ */
+
+import type { EnrichmentData } from "@shared/schema";
+import { classifyEmailDomain, getEmailDomain, type DomainLists } from "@shared/domains";
+import { TtlCache } from "../../utils/ttlCache";
+import { logger } from "../../utils/logger";
+import { ENRICHMENT_FIELDS, type EnrichmentProvider } from "./types";
+
+export type { CompanyFields, EnrichmentProvider, ProviderResult } from "./types";
+export { DirectoryEnrichmentProvider } from "./directory";
+export { HttpEnrichmentProvider, type HttpEnrichmentProviderOptions } from "./http";
+export { DomainGuessProvider } from "./domainGuess";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EnrichmentServiceOptions {
+  /** Providers in priority order */
+  providers: EnrichmentProvider[];
+  /** How long a domain's result is reused (default 24 hours) */
+  ttlMs?: number;
+  /** Overrides the free-mail and disposable domain lists */
+  domainLists?: DomainLists;
+  now?: () => number;
+}
+
+function emptyResult(): EnrichmentData {
+  return {
+    companyName: null,
+    companyDomain: null,
+    industry: null,
+    employeeCount: null,
+    location: null,
+    website: null,
+  };
+}
+
+export class EnrichmentService {
+  private readonly cache: TtlCache<string, EnrichmentData>;
+
+  constructor(private readonly options: EnrichmentServiceOptions) {
+    this.cache = new TtlCache(options.ttlMs ?? DAY_MS, 5000, options.now);
+  }
+
+  async enrich(email: string): Promise<EnrichmentData> {
+    const emailDomainType = classifyEmailDomain(email, this.options.domainLists);
+    const domain = getEmailDomain(email);
+
+    // A gmail.com address says nothing about the lead's company
+    if (emailDomainType !== "company" || !domain) {
+      return { ...emptyResult(), emailDomainType, provenance: {} };
+    }
+
+    const cached = this.cache.get(domain);
+    if (cached) return cached;
+
+    const { result, complete } = await this.runChain(domain);
+    if (complete) this.cache.set(domain, result);
+    return result;
+  }
+
+  // `complete` is false when a provider failed, so the result may be missing its data
+  private async runChain(domain: string): Promise<{ result: EnrichmentData; complete: boolean }> {
+    const result: EnrichmentData = { ...emptyResult(), emailDomainType: "company", provenance: {} };
+    let complete = true;
+
+    for (const provider of this.options.providers) {
+      if (ENRICHMENT_FIELDS.every((field) => result[field] !== null)) break;
+
+      let answer;
+      try {
+        answer = await provider.lookup(domain);
+      } catch (error) {
+        logger.warn(`Enrichment provider "${provider.name}" failed for ${domain}`, error);
+        complete = false;
+        continue;
+      }
+      if (!answer) continue;
+
+      for (const field of ENRICHMENT_FIELDS) {
+        const value = answer.fields[field];
+        if (result[field] !== null || !value) continue;
+        result[field] = value;
+        result.provenance![field] = {
+          source: provider.name,
+          confidence: answer.fieldConfidence?.[field] ?? answer.confidence,
+        };
+      }
+    }
+
+    return { result, complete };
+  }
+}
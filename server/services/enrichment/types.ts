@@ -0,0 +1,39 @@
+/**
+ * Enrichment provider contract and the fields providers fill.
+ *
+ * @author Lindsey Stead
+ * @module server/services/enrichment/types
+ */
+
+import type { EnrichmentField } from "@shared/schema";
+
+/** Every field a provider can fill, in the order they are filled. */
+export const ENRICHMENT_FIELDS: readonly EnrichmentField[] = [
+  "companyName",
+  "companyDomain",
+  "industry",
+  "employeeCount",
+  "location",
+  "website",
+];
+
+/** Company facts a provider knows about a domain. Missing fields are left out. */
+export type CompanyFields = Partial<Record<EnrichmentField, string>>;
+
+export interface ProviderResult {
+  fields: CompanyFields;
+  /** 0-1 confidence applied to every field, unless overridden per field */
+  confidence: number;
+  fieldConfidence?: Partial<Record<EnrichmentField, number>>;
+}
+
+/**
+ * A source of company data keyed by domain. Providers run in chain order;
+ * earlier providers win for any field they fill.
+ */
+export interface EnrichmentProvider {
+  /** Recorded as the provenance `source` of the fields it supplies */
+  readonly name: string;
+  /** Returns what the provider knows, or null for an unknown domain */
+  lookup(domain: string): Promise<ProviderResult | null>;
+}
@@ -0,0 +1,123 @@
+/**
+ * Google API Integration
+ *
+ * OAuth2 client construction, authorization flow and Gmail delivery.
+ * Imports the per-API googleapis entry points instead of the full package,
+ * which keeps server startup and type-checking fast.
+ *
+ * @author Lindsey Stead
+ * @module server/services/google
+ */
+
+import { auth, gmail } from "googleapis/build/src/apis/gmail/index.js";
+import type { ValidationResult } from "@shared/api";
+import type { Credentials, GoogleTokens } from "./credentials";
+
+export type OAuth2Client = InstanceType<typeof auth.OAuth2>;
+
+/** Scopes requested during setup: Sheets for lead logging, Gmail for notifications. */
+export const GOOGLE_SCOPES = [
+  "https://www.googleapis.com/auth/spreadsheets",
+  "https://www.googleapis.com/auth/gmail.send",
+];
+
+/** Path of the OAuth callback, relative to the public base URL. */
+export const OAUTH_CALLBACK_PATH = "/api/v1/oauth/callback";
+
+/**
+ * Creates an OAuth2 client for the configured Google Cloud project.
+ * When tokens are given they are attached so API calls are authorized.
+ */
+export function createOAuthClient(
+  credentials: Credentials,
+  redirectUri: string,
+  tokens?: GoogleTokens
+): OAuth2Client {
+  const client = new auth.OAuth2(
+    credentials.GOOGLE_CLIENT_ID,
+    credentials.GOOGLE_CLIENT_SECRET,
+    redirectUri
+  );
+  if (tokens) client.setCredentials(tokens);
+  return client;
+}
+
+/**
+ * Builds the Google consent screen URL.
+ * `prompt=consent` guarantees a refresh token is returned.
+ */
+export function getAuthorizationUrl(client: OAuth2Client, state: string): string {
+  return client.generateAuthUrl({
+    access_type: "offline",
+    prompt: "consent",
+    scope: GOOGLE_SCOPES,
+    state,
+  });
+}
+
+/**
+ * Exchanges an authorization code for tokens.
+ */
+export async function exchangeAuthorizationCode(
+  client: OAuth2Client,
+  code: string
+): Promise<GoogleTokens> {
+  const { tokens } = await client.getToken(code);
+  return tokens;
+}
+
+/**
+ * Verifies stored tokens by forcing an access-token refresh.
+ */
+export async function validateAuthorization(client: OAuth2Client): Promise<ValidationResult> {
+  try {
+    const { token } = await client.getAccessToken();
+    if (!token) {
+      return { valid: false, error: "Google did not return an access token" };
+    }
+    return { valid: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { valid: false, error: `Google authorization failed: ${message}` };
+  }
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+}
+
+/**
+ * Encodes a header value per RFC 2047 when it contains non-ASCII characters.
+ */
+function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  // eslint-disable-next-line no-control-regex
+  return /^[\x00-\x7F]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Sends a plain-text email through the authorized Gmail account.
+ * Gmail fills in the sender from the account itself.
+ */
+export async function sendGmail(client: OAuth2Client, message: EmailMessage): Promise<void> {
+  const headers = [
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  if (message.replyTo) headers.push(`Reply-To: ${encodeHeader(message.replyTo)}`);
+
+  const raw = `${headers.join("\r\n")}\r\n\r\n${Buffer.from(message.text, "utf8").toString("base64")}`;
+
+  await gmail({ version: "v1", auth: client }).users.messages.send({
+    userId: "me",
+    requestBody: { raw: Buffer.from(raw, "utf8").toString("base64url") },
+  });
+}
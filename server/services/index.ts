@@ -0,0 +1,108 @@
+/**
+ * Service container.
+ *
+ * Wires the file-backed stores to the services used by the routes.
+ *
+ * @author Lindsey Stead
+ * @module server/services
+ */
+
+import path from "path";
+import { JsonFileStore } from "./storage";
+import { BrandingService, type DraftConfigRecord, type StoredConfig } from "./branding";
+import { ConfigHistoryService, type ConfigHistoryRecord } from "./configHistory";
+import { CredentialsService, type CredentialsRecord } from "./credentials";
+import { LeadSinkRegistry } from "./leadSinks";
+import { SetupAuthService, type SetupTokenRecord } from "./setupAuth";
+import { SigningService, type SigningKeyRecord } from "./signing";
+import { SetupDraftService, type SetupDraftRecord } from "./setupDraft";
+import {
+  DirectoryEnrichmentProvider,
+  DomainGuessProvider,
+  EnrichmentService,
+  HttpEnrichmentProvider,
+  type EnrichmentProvider,
+} from "./enrichment";
+import type { ServerConfig } from "../config";
+
+export interface AppServices {
+  branding: BrandingService;
+  configHistory: ConfigHistoryService;
+  credentials: CredentialsService;
+  leadSinks: LeadSinkRegistry;
+  enrichment: EnrichmentService;
+  signing: SigningService;
+  setupAuth: SetupAuthService;
+  setupDrafts: SetupDraftService;
+}
+
+export type ServiceOptions = Pick<
+  ServerConfig,
+  "configDir" | "dataDir" | "enrichment" | "signingSecret" | "setupToken"
+>;
+
+function createEnrichmentProviders(options: ServerConfig["enrichment"]): EnrichmentProvider[] {
+  const providers: EnrichmentProvider[] = [new DirectoryEnrichmentProvider(options.directoryPath)];
+
+  if (options.httpUrl) {
+    providers.push(
+      new HttpEnrichmentProvider({
+        name: "http",
+        urlTemplate: options.httpUrl,
+        headers: options.httpToken ? { Authorization: `Bearer ${options.httpToken}` } : undefined,
+      })
+    );
+  }
+
+  providers.push(new DomainGuessProvider());
+  return providers;
+}
+
+export function createServices({
+  configDir,
+  dataDir,
+  enrichment,
+  signingSecret,
+  setupToken,
+}: ServiceOptions): AppServices {
+  const credentials = new CredentialsService(
+    new JsonFileStore<CredentialsRecord>(path.join(configDir, "customer-credentials.json"), () => ({
+      credentials: {},
+    }))
+  );
+
+  const configHistory = new ConfigHistoryService(
+    new JsonFileStore<ConfigHistoryRecord>(path.join(configDir, "branding-history.json"), () => ({
+      revisions: [],
+    }))
+  );
+
+  const signing = new SigningService(
+    new JsonFileStore<SigningKeyRecord>(path.join(configDir, "signing-key.json"), () => ({})),
+    signingSecret
+  );
+
+  return {
+    branding: new BrandingService(
+      new JsonFileStore<StoredConfig>(path.join(configDir, "branding.json"), () => ({})),
+      new JsonFileStore<DraftConfigRecord>(path.join(configDir, "branding-draft.json"), () => ({})),
+      configHistory
+    ),
+    configHistory,
+    credentials,
+    leadSinks: new LeadSinkRegistry({ csvPath: path.join(dataDir, "leads.csv"), credentials }),
+    enrichment: new EnrichmentService({
+      providers: createEnrichmentProviders(enrichment),
+      ttlMs: enrichment.cacheTtlMs,
+    }),
+    signing,
+    setupAuth: new SetupAuthService(
+      new JsonFileStore<SetupTokenRecord>(path.join(configDir, "setup-token.json"), () => ({})),
+      signing,
+      setupToken
+    ),
+    setupDrafts: new SetupDraftService(
+      new JsonFileStore<SetupDraftRecord>(path.join(configDir, "setup-draft.json"), () => ({}))
+    ),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Shared row-based sink behavior.
+ *
+ * @author Lindsey Stead
+ * @module server/services/leadSinks/base
+ */
+
+import type { LeadSinkKind } from "@shared/schema";
+import { formatCustomFieldValue } from "@shared/formDefinition";
+import { createSerialQueue } from "../../utils/serialQueue";
+import type { LeadAppendResult, LeadRecord, LeadSink } from "./types";
+
+/** Spreadsheet row of the first lead; row 1 holds the headers. */
+export const FIRST_DATA_ROW = 2;
+
+/**
+ * Answers to custom form fields as "Label: value" lines. They share one
+ * column because every admin's form is different.
+ */
+function formatCustomFields(lead: LeadRecord): string {
+  return (lead.customFields ?? [])
+    .map(({ label, value }) => `${label}: ${formatCustomFieldValue(value)}`)
+    .join("\n");
+}
+
+/** Column layout shared by every sink, in order. */
+export const LEAD_COLUMNS: ReadonlyArray<{ header: string; value: (lead: LeadRecord) => string }> =
+  [
+    { header: "Submitted At", value: (lead) => lead.submittedAt },
+    { header: "Name", value: (lead) => lead.name },
+    { header: "Email", value: (lead) => lead.email },
+    { header: "Phone", value: (lead) => lead.phone ?? "" },
+    { header: "Message", value: (lead) => lead.message },
+    // Attribution columns come last so sheets created before they existed can be extended
+    { header: "Source", value: (lead) => lead.attribution?.lastTouch.source ?? "" },
+    { header: "Campaign", value: (lead) => lead.attribution?.lastTouch.utmCampaign ?? "" },
+    { header: "Landing Page", value: (lead) => lead.attribution?.lastTouch.landingPage ?? "" },
+    { header: "Referrer", value: (lead) => lead.attribution?.lastTouch.referrer ?? "" },
+    { header: "First Touch Source", value: (lead) => lead.attribution?.firstTouch.source ?? "" },
+    { header: "Details", value: (lead) => formatCustomFields(lead) },
+  ];
+
+export const LEAD_HEADERS = LEAD_COLUMNS.map((column) => column.header);
+
+export const EMAIL_COLUMN_INDEX = LEAD_HEADERS.indexOf("Email");
+
+export function leadToRow(lead: LeadRecord): string[] {
+  return LEAD_COLUMNS.map((column) => column.value(lead));
+}
+
+/**
+ * Whether a sheet's header row is an older version of LEAD_HEADERS that
+ * only lacks columns added since, and can be upgraded in place.
+ */
+export function isOutdatedHeader(header: readonly string[]): boolean {
+  return (
+    header.length < LEAD_HEADERS.length &&
+    header.every((value, index) => value.trim() === LEAD_HEADERS[index])
+  );
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Base class for sinks that store leads as spreadsheet rows.
+ *
+ * Subclasses only read the email column and append a row; the duplicate
+ * rule, row numbering and serialization live here so they cannot drift
+ * between adapters.
+ */
+export abstract class RowLeadSink implements LeadSink {
+  abstract readonly kind: LeadSinkKind;
+
+  private readonly enqueue = createSerialQueue();
+
+  /**
+   * Returns the email of every data row, in row order (starting at FIRST_DATA_ROW).
+   */
+  protected abstract readEmails(): Promise<Array<string | undefined>>;
+
+  /**
+   * Appends a row and returns the spreadsheet row number it was written to.
+   */
+  protected abstract appendRow(row: string[]): Promise<number>;
+
+  appendLead(lead: LeadRecord): Promise<LeadAppendResult> {
+    // Check and write in one step so two concurrent submissions can't both pass the check
+    return this.enqueue(async () => {
+      const email = normalizeEmail(lead.email);
+      const emails = await this.readEmails();
+      const index = emails.findIndex(
+        (value) => value !== undefined && normalizeEmail(value) === email
+      );
+
+      if (index !== -1) {
+        return { rowNumber: index + FIRST_DATA_ROW, isDuplicate: true };
+      }
+
+      return { rowNumber: await this.appendRow(leadToRow(lead)), isDuplicate: false };
+    });
+  }
+}
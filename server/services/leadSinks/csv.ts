@@ -0,0 +1,75 @@
+/**
+ * CSV workbook lead sink.
+ *
+ * Local stand-in for Google Sheets: leads are appended to a CSV file that
+ * opens directly in Excel, Numbers or Sheets. Row numbers are the rows the
+ * spreadsheet app shows, counting multi-line messages as one row.
+ *
+ * @author Lindsey Stead
+ * @module server/services/leadSinks/csv
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { formatCsvRow, parseCsv } from "../../utils/csv";
+import { EMAIL_COLUMN_INDEX, isOutdatedHeader, LEAD_HEADERS, RowLeadSink } from "./base";
+
+export class CsvLeadSink extends RowLeadSink {
+  readonly kind = "csv" as const;
+
+  constructor(readonly filePath: string) {
+    super();
+  }
+
+  /** Every record in the file, header row included. */
+  async readRows(): Promise<string[][]> {
+    return parseCsv(await this.readText());
+  }
+
+  private async readText(): Promise<string> {
+    try {
+      return await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+      throw error;
+    }
+  }
+
+  protected async readEmails(): Promise<Array<string | undefined>> {
+    const [header, ...rows] = await this.readRows();
+    if (!header) return [];
+
+    // Respect the file's own header in case columns were rearranged by hand
+    const column = header.indexOf("Email");
+    const index = column === -1 ? EMAIL_COLUMN_INDEX : column;
+    return rows.map((row) => row[index]);
+  }
+
+  protected async appendRow(row: string[]): Promise<number> {
+    const content = await this.readText();
+    const rows = parseCsv(content);
+
+    if (rows.length === 0) {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, formatCsvRow(LEAD_HEADERS) + formatCsvRow(row), "utf8");
+      return 2;
+    }
+
+    // Files edited by hand may lack a trailing newline
+    const prefix = content.endsWith("\n") ? "" : "\r\n";
+
+    if (isOutdatedHeader(rows[0])) {
+      // Known header cells never need quoting, so the header is exactly the first line
+      const newline = content.indexOf("\n");
+      const body = newline === -1 ? "" : content.slice(newline + 1);
+      await fs.writeFile(
+        this.filePath,
+        formatCsvRow(LEAD_HEADERS) + body + (body ? prefix : "") + formatCsvRow(row),
+        "utf8"
+      );
+    } else {
+      await fs.appendFile(this.filePath, prefix + formatCsvRow(row), "utf8");
+    }
+    return rows.length + 1;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Google Sheets lead sink.
+ *
+ * Appends leads to a "Leads" tab in the connected spreadsheet. When no
+ * spreadsheet ID was configured, one is created on first use and its ID is
+ * reported back so it can be saved.
+ *
+ * @author Lindsey Stead
+ * @module server/services/leadSinks/googleSheets
+ */
+
+import { sheets, type sheets_v4 } from "googleapis/build/src/apis/sheets/index.js";
+import type { OAuth2Client } from "../google";
+import {
+  EMAIL_COLUMN_INDEX,
+  FIRST_DATA_ROW,
+  isOutdatedHeader,
+  LEAD_HEADERS,
+  RowLeadSink,
+} from "./base";
+
+export const LEADS_SHEET_TITLE = "Leads";
+
+export interface GoogleSheetsLeadSinkOptions {
+  client: OAuth2Client;
+  /** Existing spreadsheet; created on first use when omitted */
+  spreadsheetId?: string;
+  /** Title for an auto-created spreadsheet */
+  spreadsheetTitle: string;
+  /** Called once with the ID of an auto-created spreadsheet */
+  onSpreadsheetCreated: (spreadsheetId: string) => Promise<void>;
+}
+
+/**
+ * Converts a zero-based column index to A1 notation (0 -> A, 27 -> AB).
+ */
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+export class GoogleSheetsLeadSink extends RowLeadSink {
+  readonly kind = "google-sheets" as const;
+
+  private readonly api: sheets_v4.Sheets;
+  private ready?: Promise<string>;
+
+  constructor(private readonly options: GoogleSheetsLeadSinkOptions) {
+    super();
+    this.api = sheets({ version: "v4", auth: options.client });
+  }
+
+  protected async readEmails(): Promise<Array<string | undefined>> {
+    const spreadsheetId = await this.ensureSheet();
+    const column = columnLetter(EMAIL_COLUMN_INDEX);
+    const res = await this.api.spreadsheets.values.get({
+      spreadsheetId,
+      range: `${LEADS_SHEET_TITLE}!${column}${FIRST_DATA_ROW}:${column}`,
+    });
+    // Blank rows come back as empty arrays, so indexes still line up with rows
+    return (res.data.values ?? []).map((row) =>
+      row[0] === undefined ? undefined : String(row[0])
+    );
+  }
+
+  protected async appendRow(row: string[]): Promise<number> {
+    const spreadsheetId = await this.ensureSheet();
+    const res = await this.api.spreadsheets.values.append({
+      spreadsheetId,
+      range: `${LEADS_SHEET_TITLE}!A1`,
+      // RAW stores values as typed, so submitted text is never evaluated as a formula
+      valueInputOption: "RAW",
+      insertDataOption: "INSERT_ROWS",
+      requestBody: { values: [row] },
+    });
+
+    const match = res.data.updates?.updatedRange?.match(/![A-Z]+(\d+)/);
+    if (!match) {
+      throw new Error("Google Sheets did not report the appended row");
+    }
+    return Number(match[1]);
+  }
+
+  /**
+   * Makes sure the spreadsheet and its Leads tab (with headers) exist, and
+   * extends the header row of a tab created before newer columns were added.
+   * Runs once per sink; a failure is retried on the next submission.
+   */
+  private ensureSheet(): Promise<string> {
+    if (!this.ready) {
+      this.ready = this.prepareSheet().catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async prepareSheet(): Promise<string> {
+    if (!this.options.spreadsheetId) {
+      const res = await this.api.spreadsheets.create({
+        requestBody: {
+          properties: { title: this.options.spreadsheetTitle },
+          sheets: [{ properties: { title: LEADS_SHEET_TITLE } }],
+        },
+        fields: "spreadsheetId",
+      });
+      const spreadsheetId = res.data.spreadsheetId;
+      if (!spreadsheetId) {
+        throw new Error("Google Sheets did not return a spreadsheet ID");
+      }
+      await this.writeHeaders(spreadsheetId);
+      await this.options.onSpreadsheetCreated(spreadsheetId);
+      return spreadsheetId;
+    }
+
+    const spreadsheetId = this.options.spreadsheetId;
+    const meta = await this.api.spreadsheets.get({
+      spreadsheetId,
+      fields: "sheets.properties.title",
+    });
+    const hasLeadsSheet = meta.data.sheets?.some(
+      (sheet) => sheet.properties?.title === LEADS_SHEET_TITLE
+    );
+
+    if (!hasLeadsSheet) {
+      await this.api.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: { requests: [{ addSheet: { properties: { title: LEADS_SHEET_TITLE } } }] },
+      });
+      await this.writeHeaders(spreadsheetId);
+    } else {
+      const res = await this.api.spreadsheets.values.get({
+        spreadsheetId,
+        range: `${LEADS_SHEET_TITLE}!1:1`,
+      });
+      const header = (res.data.values?.[0] ?? []).map(String);
+      if (isOutdatedHeader(header)) {
+        await this.writeHeaders(spreadsheetId);
+      }
+    }
+
+    return spreadsheetId;
+  }
+
+  private async writeHeaders(spreadsheetId: string): Promise<void> {
+    await this.api.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${LEADS_SHEET_TITLE}!A1`,
+      valueInputOption: "RAW",
+      requestBody: { values: [LEAD_HEADERS] },
+    });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Lead sinks.
+ *
+ * Resolves the sink selected in setup. Sinks are kept for the life of the
+ * process so their write queues (and the in-memory sink's rows) persist
+ * across requests.
+ *
+ * @author Lindsey Stead
+ * @module server/services/leadSinks
+ */
+
+import type { CredentialsRecord, CredentialsService } from "../credentials";
+import { getLeadSinkKind } from "../credentials";
+import { createOAuthClient } from "../google";
+import { CsvLeadSink } from "./csv";
+import { GoogleSheetsLeadSink } from "./googleSheets";
+import { MemoryLeadSink } from "./memory";
+import type { LeadSink } from "./types";
+
+export type { LeadAppendResult, LeadCustomField, LeadRecord, LeadSink } from "./types";
+export { CsvLeadSink } from "./csv";
+export { GoogleSheetsLeadSink } from "./googleSheets";
+export { MemoryLeadSink } from "./memory";
+
+export interface LeadSinkRegistryOptions {
+  /** CSV workbook used by the local sink */
+  csvPath: string;
+  credentials: CredentialsService;
+}
+
+export class LeadSinkRegistry {
+  readonly csv: CsvLeadSink;
+  readonly memory = new MemoryLeadSink();
+
+  private google?: { key: string; sink: GoogleSheetsLeadSink };
+
+  constructor(private readonly options: LeadSinkRegistryOptions) {
+    this.csv = new CsvLeadSink(options.csvPath);
+  }
+
+  /**
+   * Returns the sink selected in setup.
+   *
+   * @param redirectUri - OAuth redirect URI the Google tokens were issued for
+   */
+  resolve(record: CredentialsRecord, redirectUri: string): LeadSink {
+    switch (getLeadSinkKind(record.credentials)) {
+      case "csv":
+        return this.csv;
+      case "memory":
+        return this.memory;
+      case "google-sheets":
+        return this.resolveGoogle(record, redirectUri);
+    }
+  }
+
+  private resolveGoogle(record: CredentialsRecord, redirectUri: string): GoogleSheetsLeadSink {
+    const { credentials, tokens } = record;
+    // Rebuild when the client, authorization or target spreadsheet changes
+    const key = [
+      credentials.GOOGLE_CLIENT_ID,
+      tokens?.refresh_token,
+      credentials.SPREADSHEET_ID,
+      redirectUri,
+    ].join("|");
+
+    if (this.google?.key !== key) {
+      const sink = new GoogleSheetsLeadSink({
+        client: createOAuthClient(credentials, redirectUri, tokens),
+        spreadsheetId: credentials.SPREADSHEET_ID,
+        spreadsheetTitle: `${credentials.ORGANIZATION_NAME || "SmartSheetConnect"} Leads`,
+        onSpreadsheetCreated: (spreadsheetId) =>
+          this.options.credentials.setSpreadsheetId(spreadsheetId),
+      });
+      this.google = { key, sink };
+    }
+
+    return this.google.sink;
+  }
+}
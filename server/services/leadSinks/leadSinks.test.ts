@@ -0,0 +1,198 @@
+// @vitest-environment node
+/**
+ * Lead Sink Contract Tests
+ *
+ * Runs the same scenarios against every sink so row numbering and
+ * duplicate detection cannot drift between adapters. The Google Sheets
+ * adapter runs against a fake Sheets API backed by an array of rows.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { CsvLeadSink } from "./csv";
+import { MemoryLeadSink } from "./memory";
+import { GoogleSheetsLeadSink } from "./googleSheets";
+import { LEAD_HEADERS } from "./base";
+import type { LeadRecord, LeadSink } from "./types";
+import type { OAuth2Client } from "../google";
+
+const { fakeSheet } = vi.hoisted(() => ({ fakeSheet: { rows: [] as string[][] } }));
+
+vi.mock("googleapis/build/src/apis/sheets/index.js", () => ({
+  sheets: () => ({
+    spreadsheets: {
+      get: async () => ({ data: { sheets: [{ properties: { title: "Leads" } }] } }),
+      values: {
+        get: async ({ range }: { range: string }) => ({
+          data: {
+            values: range.endsWith("!1:1")
+              ? fakeSheet.rows.slice(0, 1)
+              : fakeSheet.rows.slice(1).map((row) => [row[2]]),
+          },
+        }),
+        update: async ({ requestBody }: { requestBody: { values: string[][] } }) => {
+          fakeSheet.rows[0] = requestBody.values[0];
+          return { data: {} };
+        },
+        append: async ({ requestBody }: { requestBody: { values: string[][] } }) => {
+          fakeSheet.rows.push(...requestBody.values);
+          const row = fakeSheet.rows.length;
+          return { data: { updates: { updatedRange: `Leads!A${row}:E${row}` } } };
+        },
+      },
+    },
+  }),
+}));
+
+function lead(email: string, overrides: Partial<LeadRecord> = {}): LeadRecord {
+  return {
+    name: "Jane Doe",
+    email,
+    message: "Hello",
+    submittedAt: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), "ssc-sinks-"));
+  fakeSheet.rows = [["Submitted At", "Name", "Email", "Phone", "Message"]];
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const sinks: Array<[string, () => LeadSink]> = [
+  ["memory", () => new MemoryLeadSink()],
+  ["csv", () => new CsvLeadSink(path.join(root, "leads.csv"))],
+  [
+    "google-sheets",
+    () =>
+      new GoogleSheetsLeadSink({
+        client: {} as OAuth2Client,
+        spreadsheetId: "sheet-id",
+        spreadsheetTitle: "Leads",
+        onSpreadsheetCreated: async () => undefined,
+      }),
+  ],
+];
+
+describe.each(sinks)("%s lead sink", (_kind, createSink) => {
+  it("numbers rows from 2, below the header row", async () => {
+    const sink = createSink();
+    expect(await sink.appendLead(lead("a@example.com"))).toEqual({ rowNumber: 2, isDuplicate: false });
+    expect(await sink.appendLead(lead("b@example.com"))).toEqual({ rowNumber: 3, isDuplicate: false });
+  });
+
+  it("reports the first matching row for duplicate emails, ignoring case and spaces", async () => {
+    const sink = createSink();
+    await sink.appendLead(lead("a@example.com"));
+    await sink.appendLead(lead("b@example.com"));
+
+    expect(await sink.appendLead(lead("  B@Example.COM "))).toEqual({
+      rowNumber: 3,
+      isDuplicate: true,
+    });
+    expect(await sink.appendLead(lead("c@example.com"))).toEqual({ rowNumber: 4, isDuplicate: false });
+  });
+
+  it("lets only one of two concurrent submissions with the same email through", async () => {
+    const sink = createSink();
+    const results = await Promise.all([
+      sink.appendLead(lead("same@example.com")),
+      sink.appendLead(lead("same@example.com")),
+    ]);
+    expect(results).toEqual([
+      { rowNumber: 2, isDuplicate: false },
+      { rowNumber: 2, isDuplicate: true },
+    ]);
+  });
+});
+
+describe("csv lead sink", () => {
+  it("keeps row numbers aligned when messages span several lines", async () => {
+    const filePath = path.join(root, "leads.csv");
+    const sink = new CsvLeadSink(filePath);
+    await sink.appendLead(lead("a@example.com", { message: 'Line one\nLine "two", three' }));
+    expect(await sink.appendLead(lead("b@example.com"))).toEqual({ rowNumber: 3, isDuplicate: false });
+
+    const rows = await sink.readRows();
+    expect(rows[1][4]).toBe('Line one\nLine "two", three');
+  });
+
+  it("neutralizes spreadsheet formulas", async () => {
+    const filePath = path.join(root, "leads.csv");
+    const sink = new CsvLeadSink(filePath);
+    await sink.appendLead(lead("a@example.com", { name: "=HYPERLINK(\"http://evil\")" }));
+
+    expect(readFileSync(filePath, "utf8")).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect((await sink.readRows())[1][1]).toBe('=HYPERLINK("http://evil")');
+  });
+});
+
+describe("attribution columns", () => {
+  const attributed = lead("a@example.com", {
+    attribution: {
+      firstTouch: {
+        utmSource: null,
+        utmMedium: null,
+        utmCampaign: null,
+        utmTerm: null,
+        utmContent: null,
+        referrer: "https://news.ycombinator.com/",
+        landingPage: "https://example.com/",
+        source: "news.ycombinator.com / referral",
+      },
+      lastTouch: {
+        utmSource: "google",
+        utmMedium: "cpc",
+        utmCampaign: "spring-sale",
+        utmTerm: null,
+        utmContent: null,
+        referrer: null,
+        landingPage: "https://example.com/pricing",
+        source: "google / cpc (spring-sale)",
+      },
+    },
+  });
+
+  it("writes last-touch details and the first-touch source", async () => {
+    const sink = new MemoryLeadSink();
+    await sink.appendLead(attributed);
+    expect(sink.getRows()[1].slice(5, 10)).toEqual([
+      "google / cpc (spring-sale)",
+      "spring-sale",
+      "https://example.com/pricing",
+      "",
+      "news.ycombinator.com / referral",
+    ]);
+  });
+
+  it("extends an older CSV header in place", async () => {
+    const filePath = path.join(root, "leads.csv");
+    writeFileSync(filePath, "Submitted At,Name,Email,Phone,Message\r\n2025,Old,old@example.com,,Hi\r\n");
+    const sink = new CsvLeadSink(filePath);
+
+    expect(await sink.appendLead(attributed)).toEqual({ rowNumber: 3, isDuplicate: false });
+    const rows = await sink.readRows();
+    expect(rows[0]).toEqual(LEAD_HEADERS);
+    expect(rows[1]).toEqual(["2025", "Old", "old@example.com", "", "Hi"]);
+    expect(rows[2][5]).toBe("google / cpc (spring-sale)");
+  });
+
+  it("extends an older Google Sheets header row", async () => {
+    const sink = new GoogleSheetsLeadSink({
+      client: {} as OAuth2Client,
+      spreadsheetId: "sheet-id",
+      spreadsheetTitle: "Leads",
+      onSpreadsheetCreated: async () => undefined,
+    });
+    await sink.appendLead(attributed);
+    expect(fakeSheet.rows[0]).toEqual(LEAD_HEADERS);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * In-memory lead sink.
+ *
+ * Keeps leads in process memory. Used by tests and throwaway demos;
+ * everything is lost on restart.
+ *
+ * @author Lindsey Stead
+ * @module server/services/leadSinks/memory
+ */
+
+import { EMAIL_COLUMN_INDEX, FIRST_DATA_ROW, LEAD_HEADERS, RowLeadSink } from "./base";
+
+export class MemoryLeadSink extends RowLeadSink {
+  readonly kind = "memory" as const;
+
+  private readonly rows: string[][] = [];
+
+  /** Header row followed by every stored row, as a spreadsheet would show them. */
+  getRows(): string[][] {
+    return [LEAD_HEADERS, ...this.rows.map((row) => [...row])];
+  }
+
+  protected async readEmails(): Promise<Array<string | undefined>> {
+    return this.rows.map((row) => row[EMAIL_COLUMN_INDEX]);
+  }
+
+  protected async appendRow(row: string[]): Promise<number> {
+    this.rows.push(row);
+    return this.rows.length - 1 + FIRST_DATA_ROW;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Lead sink contract.
+ *
+ * A lead sink is the destination submitted leads are written to. Every
+ * sink numbers rows the way a spreadsheet does (row 1 holds the headers)
+ * and applies the same duplicate rule, so API responses are identical
+ * whichever sink is active.
+ *
+ * @author Lindsey Stead
+ * @module server/services/leadSinks/types
+ */
+
+import type { LeadAttribution, LeadSinkKind, LeadSubmission } from "@shared/schema";
+import type { CustomFieldValue } from "@shared/formDefinition";
+
+/** Answer to an admin-defined form field, labelled as it was asked. */
+export interface LeadCustomField {
+  id: string;
+  label: string;
+  value: CustomFieldValue;
+}
+
+/** A validated lead plus server-assigned metadata. */
+export interface LeadRecord extends LeadSubmission {
+  /** Answers to custom form fields, in form order */
+  customFields?: LeadCustomField[];
+  /** Where the visitor came from, when the form sent it */
+  attribution?: LeadAttribution;
+  submittedAt: string;
+}
+
+export interface LeadAppendResult {
+  /** Row the lead was written to, or the existing row when it is a duplicate */
+  rowNumber: number;
+  /** True when a lead with the same email already existed; nothing was written */
+  isDuplicate: boolean;
+}
+
+export interface LeadSink {
+  readonly kind: LeadSinkKind;
+
+  /**
+   * Writes the lead unless its email is already present.
+   * Emails are compared trimmed and case-insensitively, and the first
+   * matching row is reported for duplicates.
+   */
+  appendLead(lead: LeadRecord): Promise<LeadAppendResult>;
+}
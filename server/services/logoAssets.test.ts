@@ -0,0 +1,132 @@
+// @vitest-environment node
+/**
+ * Logo Assets Tests
+ *
+ * Covers SVG sanitization, ICO packing and the variants generated from an
+ * uploaded logo.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import {
+  APPLE_TOUCH_ICON_SIZE,
+  createLogoAssets,
+  encodeIco,
+  FAVICON_ICO_SIZES,
+  HEADER_LOGO_SIZE,
+  OG_IMAGE_SIZE,
+  sanitizeSvg,
+} from "./logoAssets";
+
+const branding = { companyName: "Acme & Co", primaryColor: "#2563eb" };
+
+let uploadsDir: string;
+
+beforeEach(() => {
+  uploadsDir = mkdtempSync(path.join(tmpdir(), "ssc-logo-"));
+});
+
+afterEach(() => {
+  rmSync(uploadsDir, { recursive: true, force: true });
+});
+
+function readUpload(url: string): Buffer {
+  return readFileSync(path.join(uploadsDir, path.basename(url)));
+}
+
+describe("sanitizeSvg", () => {
+  it("strips scripts, event handlers and external references", () => {
+    const clean = sanitizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script>' +
+        '<use href="https://evil.example/x.svg#a"/><circle r="4" fill="red"/></svg>'
+    )!;
+
+    expect(clean).toContain("<circle");
+    expect(clean).not.toMatch(/script|onload|<use/i);
+  });
+
+  it("rejects documents without an SVG", () => {
+    expect(sanitizeSvg("<p>not a logo</p>")).toBeNull();
+  });
+});
+
+describe("encodeIco", () => {
+  it("writes a directory entry per image followed by the images", () => {
+    const ico = encodeIco([
+      { size: 16, png: Buffer.from("aa") },
+      { size: 32, png: Buffer.from("bbb") },
+    ]);
+
+    expect(ico.readUInt16LE(2)).toBe(1);
+    expect(ico.readUInt16LE(4)).toBe(2);
+    expect(ico.readUInt8(6 + 16)).toBe(32);
+    expect(ico.readUInt32LE(6 + 16 + 12)).toBe(6 + 32 + 2);
+    expect(ico.subarray(-3).toString()).toBe("bbb");
+  });
+});
+
+describe("createLogoAssets", () => {
+  it("generates the header, favicon and Open Graph variants", async () => {
+    const png = await sharp({
+      create: { width: 400, height: 200, channels: 4, background: "#f97316" },
+    })
+      .png()
+      .toBuffer();
+
+    const assets = await createLogoAssets(
+      { buffer: png, mimetype: "image/png" },
+      branding,
+      uploadsDir
+    );
+
+    expect(await sharp(readUpload(assets.logo)).metadata()).toMatchObject({
+      format: "webp",
+      width: HEADER_LOGO_SIZE.height * 2,
+      height: HEADER_LOGO_SIZE.height,
+    });
+    expect((await sharp(readUpload(assets.logoRetina)).metadata()).height).toBe(
+      HEADER_LOGO_SIZE.height * 2
+    );
+    expect(readUpload(assets.favicon).readUInt16LE(4)).toBe(FAVICON_ICO_SIZES.length);
+    expect((await sharp(readUpload(assets.appleTouchIcon)).metadata()).width).toBe(
+      APPLE_TOUCH_ICON_SIZE
+    );
+    expect(await sharp(readUpload(assets.ogImage)).metadata()).toMatchObject(OG_IMAGE_SIZE);
+    expect(readUpload(assets.original).equals(png)).toBe(true);
+  });
+
+  it("stores SVGs sanitized and rasterizes them", async () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" onload="alert(1)">' +
+      '<rect width="40" height="40" fill="#10b981"/></svg>';
+
+    const assets = await createLogoAssets(
+      { buffer: Buffer.from(svg), mimetype: "image/svg+xml" },
+      branding,
+      uploadsDir
+    );
+
+    expect(readUpload(assets.original).toString()).not.toContain("onload");
+    expect((await sharp(readUpload(assets.logo)).metadata()).height).toBe(HEADER_LOGO_SIZE.height);
+  });
+
+  it("rejects SVGs sent as another image type", async () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" onload="alert(1)">' +
+      '<rect width="40" height="40" fill="#10b981"/></svg>';
+
+    await expect(
+      createLogoAssets({ buffer: Buffer.from(svg), mimetype: "image/png" }, branding, uploadsDir)
+    ).rejects.toMatchObject({ status: 400, code: "INVALID_IMAGE" });
+    expect(readdirSync(uploadsDir)).toEqual([]);
+  });
+
+  it("rejects files that aren't images", async () => {
+    await expect(
+      createLogoAssets({ buffer: Buffer.from("nope"), mimetype: "image/png" }, branding, uploadsDir)
+    ).rejects.toMatchObject({ status: 400, code: "INVALID_IMAGE" });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Logo Assets
+ *
+ * Turns an uploaded logo into the files the site serves: the original
+ * (SVGs stripped of scripts and event handlers), a header-sized WebP and
+ * its 2x version, a favicon set (ICO with 16, 32 and 48 px icons, a 32 px
+ * PNG and a 180 px Apple touch icon) and a 1200×630 Open Graph card with
+ * the logo and company name on the brand color. All files of one upload
+ * share an id, so a new upload never overwrites one the live site uses.
+ *
+ * @author Lindsey Stead
+ * @module server/services/logoAssets
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import DOMPurify from "isomorphic-dompurify";
+import { nanoid } from "nanoid";
+import sharp, { type Sharp } from "sharp";
+import type { LogoAssets } from "@shared/api";
+import { pickForeground } from "@shared/contrast";
+import { HttpError } from "../utils/errors";
+
+/**
+ * Logo types accepted by the wizard, mapped to the format sharp must read
+ * from the file and the extension it is stored with.
+ */
+export const LOGO_TYPES: Record<string, { format: string; extension: string }> = {
+  "image/jpeg": { format: "jpeg", extension: ".jpg" },
+  "image/jpg": { format: "jpeg", extension: ".jpg" },
+  "image/png": { format: "png", extension: ".png" },
+  "image/gif": { format: "gif", extension: ".gif" },
+  "image/svg+xml": { format: "svg", extension: ".svg" },
+  "image/webp": { format: "webp", extension: ".webp" },
+};
+
+export const MAX_LOGO_SIZE = 5 * 1024 * 1024;
+
+/** Box the header logo fits in, in CSS pixels. */
+export const HEADER_LOGO_SIZE = { width: 160, height: 40 };
+
+export const FAVICON_ICO_SIZES = [16, 32, 48] as const;
+export const FAVICON_PNG_SIZE = 32;
+export const APPLE_TOUCH_ICON_SIZE = 180;
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+// Rendering density for SVGs, so the larger variants stay sharp
+const SVG_DENSITY = 192;
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+const WHITE = "#ffffff";
+
+// Longest company name the Open Graph card prints before cutting it short
+const OG_MAX_NAME_LENGTH = 40;
+
+/** Brand details drawn on the Open Graph card. */
+export interface LogoBranding {
+  companyName: string;
+  /** Hex color for the card's background */
+  primaryColor: string;
+}
+
+/**
+ * Removes scripts, event handlers, external references and anything else
+ * that isn't plain SVG drawing.
+ *
+ * @returns The cleaned SVG, or null when nothing drawable is left
+ */
+export function sanitizeSvg(svg: string): string | null {
+  const clean = DOMPurify.sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+    // <use> can pull in other documents
+    FORBID_TAGS: ["use", "foreignObject"],
+  });
+  return /<svg[\s>]/i.test(clean) ? clean : null;
+}
+
+/**
+ * Packs PNG images into one ICO file; every browser since IE 11 reads PNG
+ * entries, which keep the icons small.
+ */
+export function encodeIco(images: readonly { size: number; png: Buffer }[]): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16LE(0, 0); // reserved
+  header.writeUInt16LE(1, 2); // type: icon
+  header.writeUInt16LE(images.length, 4);
+
+  const entries = Buffer.alloc(16 * images.length);
+  let offset = header.length + entries.length;
+  images.forEach(({ size, png }, i) => {
+    const entry = i * 16;
+    // 0 stands for 256 px
+    entries.writeUInt8(size >= 256 ? 0 : size, entry);
+    entries.writeUInt8(size >= 256 ? 0 : size, entry + 1);
+    entries.writeUInt8(0, entry + 2); // no palette
+    entries.writeUInt8(0, entry + 3); // reserved
+    entries.writeUInt16LE(1, entry + 4); // color planes
+    entries.writeUInt16LE(32, entry + 6); // bits per pixel
+    entries.writeUInt32LE(png.length, entry + 8);
+    entries.writeUInt32LE(offset, entry + 12);
+    offset += png.length;
+  });
+
+  return Buffer.concat([header, entries, ...images.map((image) => image.png)]);
+}
+
+function expandHex(hex: string): string | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, "$&$&") : match[1];
+  return `#${digits.toLowerCase()}`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// The logo on a white panel above the company name, centered on the brand color
+async function renderOgImage(logo: () => Sharp, branding: LogoBranding): Promise<Buffer> {
+  const { width, height } = OG_IMAGE_SIZE;
+  const background = expandHex(branding.primaryColor) ?? "#2563eb";
+  const padding = 40;
+
+  const logoPng = await logo()
+    .resize({ width: 360, height: 180, fit: "inside" })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const panel = {
+    width: logoPng.info.width + 2 * padding,
+    height: logoPng.info.height + 2 * padding,
+  };
+
+  let name = branding.companyName.trim();
+  if (name.length > OG_MAX_NAME_LENGTH) name = `${name.slice(0, OG_MAX_NAME_LENGTH - 1)}…`;
+  const fontSize = name.length > 24 ? 48 : 64;
+  const gap = name ? 48 : 0;
+  const textHeight = name ? fontSize : 0;
+
+  const top = Math.round((height - panel.height - gap - textHeight) / 2);
+  const panelLeft = Math.round((width - panel.width) / 2);
+
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect x="${panelLeft}" y="${top}" width="${panel.width}" height="${panel.height}" rx="24" fill="${WHITE}"/>
+  ${
+    name
+      ? `<text x="${width / 2}" y="${top + panel.height + gap + fontSize * 0.8}" text-anchor="middle" font-family="Inter, 'Helvetica Neue', Arial, sans-serif" font-size="${fontSize}" font-weight="700" fill="${pickForeground(background)}">${escapeXml(name)}</text>`
+      : ""
+  }
+</svg>`;
+
+  return sharp({ create: { width, height, channels: 4, background } })
+    .composite([
+      { input: Buffer.from(overlay), top: 0, left: 0 },
+      { input: logoPng.data, top: top + padding, left: panelLeft + padding },
+    ])
+    .png()
+    .toBuffer();
+}
+
+// A square icon with the logo centered in it
+function renderIcon(logo: () => Sharp, size: number, background = TRANSPARENT): Promise<Buffer> {
+  return logo().resize({ width: size, height: size, fit: "contain", background }).png().toBuffer();
+}
+
+/**
+ * Checks an upload and writes its variants to `uploadsDir`.
+ *
+ * @returns Public paths of the written files
+ * @throws HttpError 400 INVALID_IMAGE when the upload can't be read as an image,
+ *   or its content isn't the type it was sent as
+ */
+export async function createLogoAssets(
+  upload: { buffer: Buffer; mimetype: string },
+  branding: LogoBranding,
+  uploadsDir: string
+): Promise<LogoAssets> {
+  const invalid = () =>
+    new HttpError(400, "INVALID_IMAGE", "The file could not be read as an image");
+
+  // The declared type comes from the browser; sharp reads SVGs whatever they are sent as
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(upload.buffer).metadata());
+  } catch {
+    throw invalid();
+  }
+  const type = LOGO_TYPES[upload.mimetype];
+  if (!type || format !== type.format) {
+    throw new HttpError(400, "INVALID_IMAGE", "The file's content doesn't match its image type");
+  }
+
+  const isSvg = format === "svg";
+  let source = upload.buffer;
+  if (isSvg) {
+    const clean = sanitizeSvg(upload.buffer.toString("utf8"));
+    if (!clean) throw invalid();
+    source = Buffer.from(clean);
+  }
+
+  // Only the first frame of animated GIFs and WebPs; EXIF orientation applied
+  const logo = () => sharp(source, isSvg ? { density: SVG_DENSITY } : {}).rotate();
+  try {
+    await logo().metadata();
+  } catch {
+    throw invalid();
+  }
+
+  const header = (scale: number) =>
+    logo()
+      .resize({
+        width: HEADER_LOGO_SIZE.width * scale,
+        height: HEADER_LOGO_SIZE.height * scale,
+        fit: "inside",
+        withoutEnlargement: !isSvg,
+      })
+      .webp({ quality: 90 })
+      .toBuffer();
+
+  let files: Record<keyof LogoAssets, { name: string; data: Buffer }>;
+  try {
+    const [logoWebp, retinaWebp, faviconPng, appleTouchIcon, ogImage, ...icoImages] =
+      await Promise.all([
+        header(1),
+        header(2),
+        renderIcon(logo, FAVICON_PNG_SIZE),
+        renderIcon(logo, APPLE_TOUCH_ICON_SIZE, { r: 255, g: 255, b: 255, alpha: 1 }),
+        renderOgImage(logo, branding),
+        ...FAVICON_ICO_SIZES.map((size) => renderIcon(logo, size)),
+      ]);
+
+    const id = nanoid(12);
+    files = {
+      original: { name: `logo-${id}${type.extension}`, data: source },
+      logo: { name: `logo-${id}-header.webp`, data: logoWebp },
+      logoRetina: { name: `logo-${id}-header@2x.webp`, data: retinaWebp },
+      favicon: {
+        name: `favicon-${id}.ico`,
+        data: encodeIco(FAVICON_ICO_SIZES.map((size, i) => ({ size, png: icoImages[i] }))),
+      },
+      faviconPng: { name: `favicon-${id}-${FAVICON_PNG_SIZE}.png`, data: faviconPng },
+      appleTouchIcon: { name: `apple-touch-icon-${id}.png`, data: appleTouchIcon },
+      ogImage: { name: `og-${id}.png`, data: ogImage },
+    };
+  } catch {
+    throw invalid();
+  }
+
+  await mkdir(uploadsDir, { recursive: true });
+  await Promise.all(
+    Object.values(files).map(({ name, data }) => writeFile(path.join(uploadsDir, name), data))
+  );
+
+  const url = (key: keyof LogoAssets) => `/uploads/${files[key].name}`;
+  return {
+    original: url("original"),
+    logo: url("logo"),
+    logoRetina: url("logoRetina"),
+    favicon: url("favicon"),
+    faviconPng: url("faviconPng"),
+    appleTouchIcon: url("appleTouchIcon"),
+    ogImage: url("ogImage"),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Lead Notification Service
+ *
+ * Fans a new lead out to the channels enabled in setup: Gmail notification,
+ * auto-responder, Slack and a generic webhook. Channels are independent;
+ * a failing channel is logged and never fails the lead submission.
+ *
+ * @author Lindsey Stead
+ * @module server/services/notifications
+ */
+
+import type { CredentialsRecord } from "./credentials";
+import { isEnabled } from "./credentials";
+import { formatCustomFieldValue } from "@shared/formDefinition";
+import type { LeadRecord } from "./leadSinks";
+import { createOAuthClient, sendGmail } from "./google";
+import { postJson } from "./webhooks";
+import { logger } from "../utils/logger";
+
+function formatLeadText(lead: LeadRecord): string {
+  return [
+    `Name: ${lead.name}`,
+    `Email: ${lead.email}`,
+    lead.phone ? `Phone: ${lead.phone}` : null,
+    `Submitted: ${lead.submittedAt}`,
+    lead.attribution ? `Source: ${lead.attribution.lastTouch.source}` : null,
+    ...(lead.customFields ?? []).map(
+      ({ label, value }) => `${label}: ${formatCustomFieldValue(value)}`
+    ),
+    "",
+    lead.message,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
+/**
+ * Replaces `{{name}}`, `{{email}}` and `{{organization}}` in auto-responder text.
+ */
+function fillTemplate(template: string, lead: LeadRecord, organization: string): string {
+  return template
+    .replace(/\{\{\s*name\s*\}\}/gi, lead.name)
+    .replace(/\{\{\s*email\s*\}\}/gi, lead.email)
+    .replace(/\{\{\s*organization\s*\}\}/gi, organization);
+}
+
+/**
+ * Sends every enabled notification for a new lead.
+ *
+ * @param redirectUri - OAuth redirect URI the stored tokens were issued for
+ */
+export async function notifyNewLead(
+  lead: LeadRecord,
+  record: CredentialsRecord,
+  redirectUri: string
+): Promise<void> {
+  const { credentials, tokens } = record;
+  const organization = credentials.ORGANIZATION_NAME || "our team";
+  const tasks: Array<{ channel: string; run: () => Promise<void> }> = [];
+  const hasGmail = Boolean(tokens?.refresh_token || tokens?.access_token);
+
+  if (
+    isEnabled(credentials.ENABLE_EMAIL_NOTIFICATIONS, true) &&
+    credentials.NOTIFICATION_EMAIL &&
+    hasGmail
+  ) {
+    tasks.push({
+      channel: "email",
+      run: () =>
+        sendGmail(createOAuthClient(credentials, redirectUri, tokens), {
+          to: credentials.NOTIFICATION_EMAIL!,
+          subject: `New lead: ${lead.name}`,
+          text: formatLeadText(lead),
+          replyTo: lead.email,
+        }),
+    });
+  }
+
+  if (isEnabled(credentials.ENABLE_AUTO_RESPONDER) && hasGmail) {
+    tasks.push({
+      channel: "auto-responder",
+      run: () =>
+        sendGmail(createOAuthClient(credentials, redirectUri, tokens), {
+          to: lead.email,
+          subject: fillTemplate(
+            credentials.AUTO_RESPONDER_SUBJECT || "Thanks for reaching out to {{organization}}",
+            lead,
+            organization
+          ),
+          text: fillTemplate(
+            credentials.AUTO_RESPONDER_BODY ||
+              "Hi {{name}},\n\nThanks for getting in touch. We received your message and will get back to you soon.\n\n{{organization}}",
+            lead,
+            organization
+          ),
+        }),
+    });
+  }
+
+  if (isEnabled(credentials.ENABLE_SLACK_NOTIFICATIONS) && credentials.SLACK_WEBHOOK_URL) {
+    tasks.push({
+      channel: "slack",
+      run: () =>
+        postJson(credentials.SLACK_WEBHOOK_URL!, {
+          text: `New lead from ${lead.name} (${lead.email})`,
+          blocks: [
+            {
+              type: "section",
+              text: { type: "mrkdwn", text: `*New lead*\n${formatLeadText(lead)}` },
+            },
+          ],
+        }),
+    });
+  }
+
+  if (isEnabled(credentials.ENABLE_WEBHOOK_NOTIFICATIONS) && credentials.WEBHOOK_URL) {
+    tasks.push({
+      channel: "webhook",
+      run: () => postJson(credentials.WEBHOOK_URL!, { event: "lead.created", lead }),
+    });
+  }
+
+  const results = await Promise.allSettled(tasks.map((task) => task.run()));
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      logger.warn(`Failed to send ${tasks[index].channel} notification`, result.reason);
+    }
+  });
+}
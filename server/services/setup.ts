@@ -0,0 +1,63 @@
+/**
+ * Setup Orchestration Service
+ *
+ * Computes setup completeness from the stored credentials. The setup wizard
+ * polls this status to decide which step to show and when setup is done.
+ *
+ * @author Lindsey Stead
+ * @module server/services/setup
+ */
+
+import type { SetupStatus } from "@shared/schema";
+import type { CredentialsRecord } from "./credentials";
+import { isEnabled, requiresGoogle } from "./credentials";
+
+interface SetupRequirement {
+  id: string;
+  label: string;
+  isMet: (record: CredentialsRecord) => boolean;
+}
+
+const REQUIREMENTS: SetupRequirement[] = [
+  {
+    id: "googleClientId",
+    label: "Google Client ID",
+    isMet: ({ credentials }) =>
+      !requiresGoogle(credentials) || Boolean(credentials.GOOGLE_CLIENT_ID),
+  },
+  {
+    id: "googleClientSecret",
+    label: "Google Client Secret",
+    isMet: ({ credentials }) =>
+      !requiresGoogle(credentials) || Boolean(credentials.GOOGLE_CLIENT_SECRET),
+  },
+  {
+    id: "notificationEmail",
+    label: "Notification Email",
+    isMet: ({ credentials }) =>
+      !isEnabled(credentials.ENABLE_EMAIL_NOTIFICATIONS, true) ||
+      Boolean(credentials.NOTIFICATION_EMAIL),
+  },
+  {
+    id: "googleAuthorization",
+    label: "Google Authorization",
+    isMet: ({ credentials, tokens }) =>
+      !requiresGoogle(credentials) || Boolean(tokens?.refresh_token),
+  },
+];
+
+/**
+ * Builds the setup status reported by GET /api/v1/setup/status.
+ */
+export function getSetupStatus(record: CredentialsRecord): SetupStatus {
+  const details: Record<string, boolean> = {};
+  const missing: string[] = [];
+
+  for (const requirement of REQUIREMENTS) {
+    const met = requirement.isMet(record);
+    details[requirement.id] = met;
+    if (!met) missing.push(requirement.label);
+  }
+
+  return { configured: missing.length === 0, missing, details };
+}
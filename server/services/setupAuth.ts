@@ -0,0 +1,94 @@
+/**
+ * Setup Authentication Service
+ *
+ * Guards the setup wizard and the other admin endpoints. The owner signs
+ * in once with the setup token and gets a signed session, kept in an
+ * HTTP-only cookie by the routes.
+ *
+ * The token comes from SETUP_TOKEN, or is generated once and kept in
+ * config/setup-token.json. Sessions carry a fingerprint of the token, so
+ * changing it signs everyone out.
+ *
+ * @author Lindsey Stead
+ * @module server/services/setupAuth
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { SigningService } from "./signing";
+import type { JsonFileStore } from "./storage";
+
+export interface SetupTokenRecord {
+  token?: string;
+}
+
+/** How long a setup session lasts, in milliseconds. */
+export const SETUP_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+const SESSION_PURPOSE = "setup-session";
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+// Identifies the token inside sessions without revealing it
+function fingerprint(token: string): string {
+  return digest(token).toString("base64url").slice(0, 16);
+}
+
+export class SetupAuthService {
+  private token: Promise<string> | null = null;
+
+  constructor(
+    private readonly store: JsonFileStore<SetupTokenRecord>,
+    private readonly signing: SigningService,
+    private readonly configuredToken?: string
+  ) {}
+
+  /** Whether the token comes from SETUP_TOKEN rather than config/setup-token.json. */
+  get isConfigured(): boolean {
+    return Boolean(this.configuredToken);
+  }
+
+  /**
+   * Whether `candidate` is the setup token, compared in constant time.
+   */
+  async checkToken(candidate: unknown): Promise<boolean> {
+    if (typeof candidate !== "string" || !candidate) return false;
+    // Equal-length digests, so the comparison doesn't leak the token's length
+    return timingSafeEqual(digest(await this.getToken()), digest(candidate));
+  }
+
+  /** Signs a new session for an owner who presented the setup token. */
+  async createSession(): Promise<string> {
+    return this.signing.sign(SESSION_PURPOSE, fingerprint(await this.getToken()), {
+      ttlMs: SETUP_SESSION_TTL_MS,
+    });
+  }
+
+  /**
+   * Whether `session` was issued by createSession, hasn't expired and
+   * belongs to the current token.
+   */
+  async verifySession(session: unknown): Promise<boolean> {
+    if (typeof session !== "string" || !session) return false;
+    const data = await this.signing.verify(SESSION_PURPOSE, session);
+    return data === fingerprint(await this.getToken());
+  }
+
+  /** The setup token, generated and stored on first use when SETUP_TOKEN is unset. */
+  getToken(): Promise<string> {
+    if (this.configuredToken) return Promise.resolve(this.configuredToken);
+
+    this.token ??= this.store
+      .update((current) =>
+        current.token ? current : { token: randomBytes(24).toString("base64url") }
+      )
+      .then((record) => record.token as string)
+      .catch((error: unknown) => {
+        // Try again on the next call instead of caching the failure
+        this.token = null;
+        throw error;
+      });
+    return this.token;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Setup Draft Service
+ *
+ * Keeps the setup wizard's draft on the server so an unfinished setup can
+ * be resumed from another machine. One draft per installation; the newest
+ * save wins. Drafts written by older builds are migrated when read.
+ *
+ * @author Lindsey Stead
+ * @module server/services/setupDraft
+ */
+
+import { migrateSetupDraft, type SetupDraft } from "@shared/setupDraft";
+import type { JsonFileStore } from "./storage";
+
+export interface SetupDraftRecord {
+  draft?: unknown;
+}
+
+export class SetupDraftService {
+  constructor(private readonly store: JsonFileStore<SetupDraftRecord>) {}
+
+  /**
+   * Returns the stored draft, or null when there is none or it can't be migrated.
+   */
+  async get(): Promise<SetupDraft | null> {
+    const { draft } = await this.store.read();
+    return draft === undefined ? null : migrateSetupDraft(draft);
+  }
+
+  async save(draft: SetupDraft): Promise<void> {
+    await this.store.write({ draft });
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
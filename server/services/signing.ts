@@ -0,0 +1,101 @@
+/**
+ * Token Signing Service
+ *
+ * Issues tamper-proof tokens for values that travel through URLs, such as
+ * per-embed options. A token is `<payload>.<signature>`: base64url JSON and
+ * an HMAC-SHA256 over it. Tokens are signed, not encrypted, so they must
+ * not carry secrets.
+ *
+ * The key comes from SIGNING_SECRET, or is generated once and kept in
+ * config/signing-key.json so tokens survive restarts.
+ *
+ * @author Lindsey Stead
+ * @module server/services/signing
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { JsonFileStore } from "./storage";
+
+export interface SigningKeyRecord {
+  secret?: string;
+}
+
+interface TokenBody {
+  /** What the token is for; a token issued for one purpose never verifies for another */
+  purpose: string;
+  data: unknown;
+  /** Expiry as a Unix timestamp in milliseconds */
+  expiresAt?: number;
+}
+
+export interface SignOptions {
+  /** Lifetime in milliseconds; tokens without one never expire */
+  ttlMs?: number;
+}
+
+export class SigningService {
+  private secret: Promise<string> | null = null;
+
+  constructor(
+    private readonly store: JsonFileStore<SigningKeyRecord>,
+    private readonly configuredSecret?: string
+  ) {}
+
+  /**
+   * Signs a JSON-serializable value.
+   *
+   * @param purpose - Namespace such as "embed-options"
+   */
+  async sign(purpose: string, data: unknown, { ttlMs }: SignOptions = {}): Promise<string> {
+    const body: TokenBody = { purpose, data };
+    if (ttlMs) body.expiresAt = Date.now() + ttlMs;
+
+    const payload = Buffer.from(JSON.stringify(body)).toString("base64url");
+    return `${payload}.${await this.signature(payload)}`;
+  }
+
+  /**
+   * Returns the signed value, or null when the token is malformed, was
+   * tampered with, has expired or was issued for another purpose.
+   * Callers still validate the value's shape.
+   */
+  async verify(purpose: string, token: string): Promise<unknown> {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(await this.signature(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    let body: TokenBody;
+    try {
+      body = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as TokenBody;
+    } catch {
+      return null;
+    }
+
+    if (body.purpose !== purpose) return null;
+    if (body.expiresAt !== undefined && body.expiresAt < Date.now()) return null;
+    return body.data;
+  }
+
+  private async signature(payload: string): Promise<string> {
+    return createHmac("sha256", await this.getSecret())
+      .update(payload)
+      .digest("base64url");
+  }
+
+  private getSecret(): Promise<string> {
+    if (this.configuredSecret) return Promise.resolve(this.configuredSecret);
+
+    this.secret ??= this.store
+      .update((current) => (current.secret ? current : { secret: randomBytes(32).toString("hex") }))
+      .then((record) => record.secret as string)
+      .catch((error: unknown) => {
+        // Try again on the next call instead of caching the failure
+        this.secret = null;
+        throw error;
+      });
+    return this.secret;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Local JSON file storage.
+ *
+ * Small document store for the files under config/: the published and
+ * draft branding config, its revision history, credentials, the setup
+ * token and setup draft, and the signing key. Leads go to the lead sinks.
+ * Writes go to a temp file and are renamed into place so a crash never
+ * leaves a half-written file behind.
+ *
+ * @author Lindsey Stead
+ * @module server/services/storage
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createSerialQueue } from "../utils/serialQueue";
+
+/**
+ * File-backed JSON document with serialized writes.
+ *
+ * @example
+ * const store = new JsonFileStore("config/branding.json", () => ({}));
+ * await store.update((current) => ({ ...current, branding: { companyName: "Acme" } }));
+ */
+export class JsonFileStore<T> {
+  private readonly enqueue = createSerialQueue();
+
+  constructor(
+    readonly filePath: string,
+    private readonly fallback: () => T
+  ) {}
+
+  /**
+   * Reads the document, returning the fallback if the file is missing or empty.
+   * Throws if the file can't be read or parsed, so an update never writes
+   * over data it couldn't load.
+   */
+  async read(): Promise<T> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return this.fallback();
+      throw error;
+    }
+    if (!raw.trim()) return this.fallback();
+    try {
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      throw new Error(`${this.filePath} is not valid JSON; fix or remove it to continue`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Replaces the document.
+   */
+  async write(data: T): Promise<void> {
+    await this.enqueue(() => this.writeNow(data));
+  }
+
+  /**
+   * Applies a read-modify-write update. Updates run one at a time so
+   * concurrent requests cannot overwrite each other.
+   */
+  async update(updater: (current: T) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const next = await updater(await this.read());
+      await this.writeNow(next);
+      return next;
+    });
+  }
+
+  /**
+   * Deletes the file. Missing files are ignored.
+   */
+  async clear(): Promise<void> {
+    await this.enqueue(async () => {
+      await fs.rm(this.filePath, { force: true });
+    });
+  }
+
+  private async writeNow(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Webhook Delivery Service
+ *
+ * Posts JSON payloads to Slack incoming webhooks and generic webhook URLs
+ * (Zapier, Make, n8n, custom endpoints).
+ *
+ * @author Lindsey Stead
+ * @module server/services/webhooks
+ */
+
+import type { ValidationResult } from "@shared/api";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Checks that a webhook URL is an absolute HTTPS URL.
+ * Plain HTTP is only accepted for localhost, for local testing.
+ */
+export function validateWebhookUrl(value: unknown): ValidationResult {
+  if (typeof value !== "string" || !value.trim()) {
+    return { valid: false, error: "Webhook URL is required" };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return { valid: false, error: "Webhook URL is not a valid URL" };
+  }
+
+  const isLocalhost = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocalhost)) {
+    return { valid: false, error: "Webhook URL must use HTTPS" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * POSTs a JSON body and throws if the endpoint does not answer with 2xx.
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "User-Agent": "SmartSheetConnect" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+    redirect: "error",
+  });
+
+  if (!res.ok) {
+    throw new Error(`Webhook responded with ${res.status} ${res.statusText}`.trim());
+  }
+}
+
+/**
+ * Sends a test event to a webhook URL and reports whether it was accepted.
+ */
+export async function testWebhook(url: unknown): Promise<ValidationResult> {
+  const check = validateWebhookUrl(url);
+  if (!check.valid) return check;
+
+  try {
+    await postJson(String(url).trim(), {
+      event: "test",
+      message: "SmartSheetConnect webhook test",
+      timestamp: new Date().toISOString(),
+    });
+    return { valid: true };
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === "TimeoutError"
+        ? "Webhook did not respond within 10 seconds"
+        : error instanceof Error
+          ? error.message
+          : "Webhook request failed";
+    return { valid: false, error: message };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * CSRF protection.
+ *
+ * Double-submit cookie pattern: GET /csrf-token sets a random token in an
+ * HTTP-only cookie and returns the same token in the body. State-changing
+ * requests must echo it in the X-CSRF-Token header. A cross-site page can
+ * trigger the cookie but cannot read the token, so it cannot forge the header.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/csrf
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { CookieOptions, RequestHandler, Response } from "express";
+import { HttpError } from "./errors";
+
+export const CSRF_COOKIE_NAME = "ssc_csrf";
+export const CSRF_HEADER_NAME = "x-csrf-token";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function cookieOptions(secure: boolean): CookieOptions {
+  return {
+    httpOnly: true,
+    // Embedded forms live on other sites, which needs SameSite=None (and therefore Secure)
+    sameSite: secure ? "none" : "lax",
+    secure,
+    path: "/",
+    maxAge: 2 * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Issues a new token, stores it in the cookie and returns it.
+ */
+export function issueCsrfToken(res: Response, secure: boolean): string {
+  const token = randomBytes(32).toString("base64url");
+  res.cookie(CSRF_COOKIE_NAME, token, cookieOptions(secure));
+  return token;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Rejects state-changing requests whose header token does not match the cookie.
+ */
+export const csrfProtection: RequestHandler = (req, _res, next) => {
+  if (SAFE_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  const cookieToken: unknown = req.cookies?.[CSRF_COOKIE_NAME];
+  const headerToken = req.get(CSRF_HEADER_NAME);
+
+  if (typeof cookieToken !== "string" || !headerToken || !tokensMatch(cookieToken, headerToken)) {
+    next(new HttpError(403, "CSRF_INVALID", "Invalid CSRF token"));
+    return;
+  }
+
+  next();
+};
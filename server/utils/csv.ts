@@ -0,0 +1,86 @@
+/**
+ * CSV helpers (RFC 4180).
+ *
+ * @author Lindsey Stead
+ * @module server/utils/csv
+ */
+
+/** Leading characters that make Excel and Sheets treat a cell as a formula. */
+const FORMULA_TRIGGERS = /^[=+\-@\t\r]/;
+
+/**
+ * Neutralizes spreadsheet formulas by prefixing an apostrophe, so a lead
+ * cannot inject `=HYPERLINK(...)` into the owner's workbook.
+ */
+export function escapeFormula(value: string): string {
+  return FORMULA_TRIGGERS.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Reverses escapeFormula when reading cells back.
+ */
+export function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_TRIGGERS.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+function formatCell(value: string): string {
+  const safe = escapeFormula(value);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Formats one record as a CSV line, including the trailing CRLF.
+ */
+export function formatCsvRow(values: string[]): string {
+  return `${values.map(formatCell).join(",")}\r\n`;
+}
+
+/**
+ * Parses CSV text into records. Quoted fields may contain commas, quotes
+ * and line breaks, so records do not map one-to-one to lines.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // Last record without a trailing newline
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.map((cells) => cells.map(unescapeFormula));
+}
@@ -0,0 +1,104 @@
+/**
+ * HTTP error helpers.
+ *
+ * Typed error class and Express middleware that turn thrown errors into
+ * consistent JSON responses for the API.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/errors
+ */
+
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from "express";
+import type { ZodError } from "zod";
+import type { ApiErrorCode, ApiErrorResponse, FieldErrors } from "@shared/schema";
+import { logger } from "./logger";
+
+/**
+ * Error with an HTTP status and a machine-readable code.
+ *
+ * Route handlers throw this for expected failures (validation, missing setup,
+ * bad credentials). Anything else is reported as a 500.
+ */
+export class HttpError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  details?: unknown;
+  fieldErrors?: FieldErrors;
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+function toFieldErrors(error: ZodError): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join(".") || "form";
+    (errors[path] ??= []).push(issue.message);
+  }
+  return errors;
+}
+
+/**
+ * 400 VALIDATION_ERROR for a failed Zod parse. The message is the first
+ * issue; every issue is sent in `fieldErrors` so forms can mark the inputs.
+ */
+export function validationError(error: ZodError, fallbackMessage: string): HttpError {
+  const httpError = new HttpError(
+    400,
+    "VALIDATION_ERROR",
+    error.errors[0]?.message || fallbackMessage
+  );
+  httpError.fieldErrors = toFieldErrors(error);
+  return httpError;
+}
+
+/**
+ * Wraps an async route handler so rejected promises reach the error handler.
+ * Express 4 does not forward async errors on its own.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+/**
+ * Responds with 404 for API paths that no router handled.
+ */
+export const notFoundHandler: RequestHandler = (req, _res, next) => {
+  next(new HttpError(404, "NOT_FOUND", `Route not found: ${req.method} ${req.originalUrl}`));
+};
+
+/**
+ * Final error handler. Always responds with JSON so the client never has to
+ * parse an HTML error page.
+ */
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    const body: ApiErrorResponse = { success: false, message: err.message, code: err.code };
+    if (err.details !== undefined) body.details = err.details;
+    if (err.fieldErrors !== undefined) body.fieldErrors = err.fieldErrors;
+    res.status(err.status).json(body);
+    return;
+  }
+
+  // Body parser errors carry a status (e.g. 400 for malformed JSON, 413 for size)
+  const status = typeof err?.status === "number" ? err.status : 500;
+  if (status >= 500) {
+    logger.error("Unhandled server error", err);
+  }
+
+  const body: ApiErrorResponse = {
+    success: false,
+    message: status >= 500 ? "Internal server error" : err.message || "Bad request",
+    code: status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST",
+  };
+  res.status(status).json(body);
+};
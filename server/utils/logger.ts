@@ -0,0 +1,29 @@
+/**
+ * Minimal server logger.
+ *
+ * Writes timestamped lines to stdout/stderr. Kept dependency-free so the
+ * reference server runs anywhere Node runs.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/logger
+ */
+
+function format(level: string, message: string): string {
+  return `${new Date().toISOString()} [${level}] ${message}`;
+}
+
+export const logger = {
+  info(message: string): void {
+    if (process.env.NODE_ENV === "test") return;
+    process.stdout.write(`${format("info", message)}\n`);
+  },
+
+  warn(message: string, error?: unknown): void {
+    if (process.env.NODE_ENV === "test") return;
+    console.warn(format("warn", message), error ?? "");
+  },
+
+  error(message: string, error?: unknown): void {
+    console.error(format("error", message), error ?? "");
+  },
+};
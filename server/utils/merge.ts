@@ -0,0 +1,39 @@
+/**
+ * Object merge helpers.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/merge
+ */
+
+export type PlainObject = Record<string, unknown>;
+
+/**
+ * Checks for a plain JSON object (not an array, null or class instance).
+ */
+export function isPlainObject(value: unknown): value is PlainObject {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Recursively merges `patch` into `base` without mutating either.
+ *
+ * Nested objects are merged, arrays and primitives replace the base value,
+ * and `undefined` values in the patch are ignored.
+ */
+export function deepMerge<T extends PlainObject>(base: T, patch: PlainObject): T {
+  const result: PlainObject = { ...base };
+
+  for (const [key, value] of Object.entries(patch)) {
+    // Never let a payload reach the prototype chain
+    if (key === "__proto__" || key === "constructor" || key === "prototype") continue;
+    if (value === undefined) continue;
+
+    const current = result[key];
+    result[key] =
+      isPlainObject(current) && isPlainObject(value) ? deepMerge(current, value) : value;
+  }
+
+  return result as T;
+}
@@ -0,0 +1,52 @@
+/**
+ * Rate limiters.
+ *
+ * Limits respond with the standard JSON error shape and code RATE_LIMITED.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/rateLimit
+ */
+
+import rateLimit from "express-rate-limit";
+import type { ApiErrorResponse } from "@shared/schema";
+
+function createLimiter(windowMs: number, limit: number, message: string) {
+  return rateLimit({
+    windowMs,
+    limit,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    handler: (_req, res) => {
+      const body: ApiErrorResponse = { success: false, message, code: "RATE_LIMITED" };
+      res.status(429).json(body);
+    },
+  });
+}
+
+/** Lead submissions: 10 per IP per 15 minutes. */
+export const submitLeadLimiter = () =>
+  createLimiter(15 * 60 * 1000, 10, "Too many submissions. Please try again later.");
+
+/** Setup mutations: 30 per IP per 15 minutes. */
+export const setupLimiter = () =>
+  createLimiter(
+    15 * 60 * 1000,
+    30,
+    "Too many setup requests. Please wait a few minutes and try again."
+  );
+
+/** Setup sign-in attempts: 10 per IP per 15 minutes, so the token can't be guessed. */
+export const signInLimiter = () =>
+  createLimiter(
+    15 * 60 * 1000,
+    10,
+    "Too many sign-in attempts. Please wait a few minutes and try again."
+  );
+
+/** Draft autosave: the wizard saves a few seconds after each edit. */
+export const draftLimiter = () =>
+  createLimiter(15 * 60 * 1000, 150, "Too many draft saves. Please wait a few minutes.");
+
+/** Status polling: the wizard polls every 5 seconds during OAuth. */
+export const statusLimiter = () =>
+  createLimiter(60 * 1000, 60, "Too many status requests. Please slow down.");
@@ -0,0 +1,20 @@
+/**
+ * Serial task queue.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/serialQueue
+ */
+
+/**
+ * Creates a function that runs async tasks one at a time, in call order.
+ * A failing task rejects its own promise without blocking later tasks.
+ */
+export function createSerialQueue(): <R>(task: () => Promise<R>) => Promise<R> {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return (task) => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Setup sessions.
+ *
+ * The setup wizard and the admin endpoints require a session signed by
+ * SetupAuthService, kept in an HTTP-only cookie that page scripts can't
+ * read. The wizard signs in with the setup token to get one.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/setupSession
+ */
+
+import type { CookieOptions, Request, RequestHandler, Response } from "express";
+import { SETUP_SESSION_TTL_MS, type SetupAuthService } from "../services/setupAuth";
+import { HttpError } from "./errors";
+
+export const SETUP_SESSION_COOKIE_NAME = "ssc_setup";
+
+function cookieOptions(secure: boolean): CookieOptions {
+  return {
+    httpOnly: true,
+    // Only the wizard's own pages send it, never embeds on other sites
+    sameSite: "lax",
+    secure,
+    path: "/api",
+    maxAge: SETUP_SESSION_TTL_MS,
+  };
+}
+
+export function setSetupSessionCookie(res: Response, session: string, secure: boolean): void {
+  res.cookie(SETUP_SESSION_COOKIE_NAME, session, cookieOptions(secure));
+}
+
+/**
+ * Whether the request carries a valid setup session.
+ */
+export function hasSetupSession(req: Request, setupAuth: SetupAuthService): Promise<boolean> {
+  return setupAuth.verifySession(req.cookies?.[SETUP_SESSION_COOKIE_NAME]);
+}
+
+/**
+ * Rejects requests without a valid setup session with 401 UNAUTHORIZED.
+ */
+export function requireSetupSession(setupAuth: SetupAuthService): RequestHandler {
+  return (req, _res, next) => {
+    hasSetupSession(req, setupAuth).then((valid) => {
+      next(valid ? undefined : new HttpError(401, "UNAUTHORIZED", "Sign in to manage the setup"));
+    }, next);
+  };
+}
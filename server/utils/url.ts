@@ -0,0 +1,17 @@
+/**
+ * URL helpers.
+ *
+ * @author Lindsey Stead
+ * @module server/utils/url
+ */
+
+import type { Request } from "express";
+
+/**
+ * Returns the public base URL of the app, without a trailing slash.
+ * Uses the configured PUBLIC_URL, falling back to the request's own host
+ * (which matches what the browser shows during local development).
+ */
+export function getPublicBaseUrl(req: Request, publicUrl?: string): string {
+  return publicUrl || `${req.protocol}://${req.get("host")}`;
+}
@@ -0,0 +1,177 @@
+/**
+ * Request and response types for the setup API.
+ *
+ * One entry per endpoint under /api/v1/setup, shared by the Express routes
+ * and the typed client in client/src/lib/apiClient.ts.
+ *
+ * @author Lindsey Stead
+ */
+
+import type { ConfigBundle, ConfigChange, ConfigSection } from "./configBundle";
+import type { ConfigRevision, ConfigRevisionDetail } from "./configHistory";
+import type { SetupStatus } from "./schema";
+import type { SetupDraft } from "./setupDraft";
+
+/** Response of GET /api/v1/setup/session and POST /api/v1/setup/session. */
+export interface SetupSessionResponse {
+  /** Whether the request carries a valid setup session */
+  authenticated: boolean;
+}
+
+/** Body of POST /api/v1/setup/session. */
+export interface SetupSignInRequest {
+  /** SETUP_TOKEN, or the generated token in config/setup-token.json */
+  token: string;
+}
+
+/** Credentials and notification settings, keyed by environment-style name. */
+export type CredentialsPayload = Record<string, string>;
+
+/**
+ * Result of POST /api/v1/setup/validate and POST /api/v1/setup/test-webhook.
+ * A failed check is still a 200; `error` says what went wrong.
+ */
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/** Body of POST /api/v1/setup/test-webhook. */
+export interface TestWebhookRequest {
+  webhookUrl: string;
+}
+
+/** Files generated from an uploaded logo, by public path (e.g. /uploads/logo-abc-header.webp). */
+export interface LogoAssets {
+  /** The upload as sent; SVGs stripped of scripts */
+  original: string;
+  /** Header-sized WebP */
+  logo: string;
+  /** The header logo at twice the size, for high-density screens */
+  logoRetina: string;
+  /** ICO with 16, 32 and 48 px icons */
+  favicon: string;
+  /** 32 px PNG favicon */
+  faviconPng: string;
+  /** 180 px PNG for iOS home screens */
+  appleTouchIcon: string;
+  /** 1200×630 Open Graph card with the logo and company name on the brand color */
+  ogImage: string;
+}
+
+/**
+ * Optional multipart fields of POST /api/v1/setup/upload-logo, sent next
+ * to the `logo` file. They style the Open Graph card; the saved branding
+ * is used for any left out.
+ */
+export interface UploadLogoFields {
+  companyName?: string;
+  primaryColor?: string;
+}
+
+/** Response of POST /api/v1/setup/upload-logo. */
+export interface UploadLogoResponse {
+  success: true;
+  /** Public path of the header logo (same as `assets.logo`) */
+  url: string;
+  assets: LogoAssets;
+}
+
+/** Response of POST /api/v1/setup/branding. */
+export interface SaveBrandingResponse {
+  success: true;
+  message: string;
+  /** The configuration as stored, after sanitization */
+  config: Record<string, unknown>;
+}
+
+/** Response of POST /api/v1/setup/credentials. */
+export interface SaveCredentialsResponse {
+  success: true;
+  message: string;
+  status: SetupStatus;
+}
+
+/** Response of DELETE /api/v1/setup/credentials. */
+export interface ResetCredentialsResponse {
+  success: true;
+  message: string;
+}
+
+/**
+ * `details` of a MISSING_FIELDS error from POST /api/v1/setup/credentials.
+ */
+export interface MissingFieldsDetails {
+  /** Human-readable names, e.g. "Google Client ID" */
+  missing: string[];
+}
+
+/** Response of GET /api/v1/setup/draft. */
+export interface SetupDraftResponse {
+  draft: SetupDraft | null;
+}
+
+/** Response of PUT /api/v1/setup/draft. */
+export interface SaveSetupDraftResponse {
+  success: true;
+  savedAt: string | null;
+}
+
+/** Response of DELETE /api/v1/setup/draft. */
+export interface DeleteSetupDraftResponse {
+  success: true;
+  message: string;
+}
+
+/** Response of GET /api/v1/setup/config/export. */
+export type ExportConfigResponse = ConfigBundle;
+
+/** Response of POST /api/v1/setup/config/import. */
+export interface ImportConfigResponse {
+  success: true;
+  message: string;
+  /** The sections that were replaced */
+  sections: ConfigSection[];
+  /** The configuration as stored */
+  config: Record<string, unknown>;
+}
+
+/** Response of GET /api/v1/setup/config/revisions, newest first. */
+export interface ConfigRevisionsResponse {
+  revisions: ConfigRevision[];
+}
+
+/** Response of GET /api/v1/setup/config/revisions/:id. */
+export interface ConfigRevisionResponse {
+  revision: ConfigRevisionDetail;
+}
+
+/** Response of POST /api/v1/setup/config/revisions/:id/restore. */
+export interface RestoreConfigRevisionResponse {
+  success: true;
+  message: string;
+  /** The configuration as stored */
+  config: Record<string, unknown>;
+}
+
+/** Response of GET /api/v1/setup/config/unpublished. */
+export interface UnpublishedChangesResponse {
+  /** What publishing the draft would change on the live site */
+  changes: ConfigChange[];
+}
+
+/** Response of POST /api/v1/setup/config/publish. */
+export interface PublishConfigResponse {
+  success: true;
+  message: string;
+  /** The configuration as published */
+  config: Record<string, unknown>;
+}
+
+/** Response of POST /api/v1/setup/config/preview-token. */
+export interface ConfigPreviewTokenResponse {
+  success: true;
+  token: string;
+  /** ISO 8601 */
+  expiresAt: string;
+}
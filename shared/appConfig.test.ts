@@ -0,0 +1,140 @@
+/**
+ * App Config Schema Tests
+ *
+ * Covers the field limits, the branding payload check and falling back
+ * to defaults section by section.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  brandingConfigPayloadSchema,
+  FIELD_MAX_LENGTHS,
+  parseAppConfig,
+  type AppConfig,
+} from "./appConfig";
+
+const fallback: AppConfig = {
+  branding: { companyName: "SmartSheetConnect" },
+  content: {
+    hero: { title: "SmartSheetConnect", description: "Lead capture", ctaText: "Get Started" },
+    form: { title: "Get in Touch", description: "Say hello", submitText: "Send Message" },
+  },
+  header: { navigation: [], ctaText: "Get Started" },
+};
+
+describe("FIELD_MAX_LENGTHS", () => {
+  it("reads the limits from the schemas", () => {
+    expect(FIELD_MAX_LENGTHS.companyName).toBe(255);
+    expect(FIELD_MAX_LENGTHS.heroDescription).toBe(1000);
+    expect(FIELD_MAX_LENGTHS.navigationLabel).toBe(50);
+    expect(FIELD_MAX_LENGTHS.customAnalyticsScript).toBe(5000);
+    expect(FIELD_MAX_LENGTHS.socialLink).toBe(500);
+  });
+});
+
+describe("brandingConfigPayloadSchema", () => {
+  it("accepts partial sections", () => {
+    expect(
+      brandingConfigPayloadSchema.safeParse({ content: { form: { title: "Talk to us" } } }).success
+    ).toBe(true);
+  });
+
+  it("rejects unknown sections and values over the limits", () => {
+    expect(brandingConfigPayloadSchema.safeParse({ credentials: {} }).success).toBe(false);
+
+    const result = brandingConfigPayloadSchema.safeParse({
+      branding: { companyName: "x".repeat(FIELD_MAX_LENGTHS.companyName + 1) },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0]).toMatchObject({
+      path: ["branding", "companyName"],
+      message: "Company name must be 255 characters or less",
+    });
+  });
+});
+
+describe("theme colors", () => {
+  it("leaves the brand color foregrounds to the contrast check", () => {
+    const withColor = (token: string) =>
+      brandingConfigPayloadSchema.safeParse({ theme: { colors: { [token]: "#ffffff" } } });
+    expect(withColor("muted-foreground").success).toBe(true);
+    expect(withColor("primary-foreground").success).toBe(false);
+    expect(withColor("secondary-foreground").success).toBe(false);
+  });
+});
+
+describe("URL fields", () => {
+  const footerWith = (href: string) =>
+    brandingConfigPayloadSchema.safeParse({
+      footer: {
+        socialLinks: { twitter: href },
+        resources: [{ label: "Docs", href }],
+        privacyPolicyUrl: href,
+      },
+      header: { navigation: [{ label: "Blog", href }] },
+      branding: { siteUrl: href },
+    });
+
+  it("accepts web addresses, mailto links and paths on the site", () => {
+    for (const href of [
+      "",
+      "https://example.com/blog",
+      "http://example.com",
+      "mailto:hello@example.com",
+      "/privacy",
+      "#demo-form",
+      "pricing?plan=pro",
+      "//cdn.example.com/logo.png",
+    ]) {
+      expect(footerWith(href).success, href).toBe(true);
+    }
+  });
+
+  it("rejects other schemes, however they are disguised", () => {
+    for (const href of [
+      "javascript:alert(1)",
+      "JavaScript:alert(1)",
+      "  javascript:alert(1)",
+      "java\tscript:alert(1)",
+      "javascript\n:alert(1)",
+      "data:text/html,<script>alert(1)</script>",
+      "vbscript:msgbox(1)",
+    ]) {
+      const result = footerWith(href);
+      expect(result.success, href).toBe(false);
+      expect(result.error?.errors.map((issue) => issue.path.join("."))).toEqual([
+        "branding.siteUrl",
+        "header.navigation.0.href",
+        "footer.socialLinks.twitter",
+        "footer.resources.0.href",
+        "footer.privacyPolicyUrl",
+      ]);
+    }
+  });
+});
+
+describe("parseAppConfig", () => {
+  it("keeps valid sections and replaces invalid ones with the fallback", () => {
+    const { config, invalid } = parseAppConfig(
+      {
+        branding: { companyName: "Acme", primaryColor: "#7c3aed" },
+        content: { hero: { title: "Acme" } },
+        seo: { pageTitle: "Acme" },
+      },
+      fallback
+    );
+
+    expect(config.branding).toEqual({ companyName: "Acme", primaryColor: "#7c3aed" });
+    expect(config.content).toEqual(fallback.content);
+    expect(config.header).toEqual(fallback.header);
+    expect(config.seo).toEqual({ pageTitle: "Acme" });
+    expect(invalid).toEqual(["content"]);
+  });
+
+  it("falls back entirely for a response that isn't an object", () => {
+    expect(parseAppConfig("<!doctype html>", fallback)).toEqual({
+      config: { ...fallback, footer: undefined, seo: undefined, analytics: undefined },
+      invalid: [],
+    });
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * White-label configuration schemas.
+ *
+ * AppConfig is what GET /api/v1/config serves and the site renders from;
+ * BrandingConfigPayload is what the setup wizard sends to POST
+ * /api/v1/setup/branding, where every section and field is optional and
+ * is merged into the saved configuration. Both are checked against the
+ * limits below: the server rejects payloads over them, the client falls
+ * back to its defaults for sections that don't parse, and the wizard's
+ * inputs stop at FIELD_MAX_LENGTHS, which is read from the same schemas.
+ *
+ * @author Lindsey Stead
+ */
+
+import { z } from "zod";
+import { formFieldsSchema } from "./formDefinition";
+import {
+  COLOR_MODES,
+  MAX_THEME_RADIUS,
+  SHADOW_INTENSITY_NAMES,
+  THEME_COLOR_TOKENS,
+  THEME_FONT_NAMES,
+} from "./theme";
+
+/** Top-level configuration sections, in the order the wizard edits them. */
+export const CONFIG_SECTIONS = [
+  "branding",
+  "theme",
+  "content",
+  "layout",
+  "header",
+  "footer",
+  "seo",
+  "analytics",
+] as const;
+
+export type ConfigSection = (typeof CONFIG_SECTIONS)[number];
+
+const text = (label: string, max: number) =>
+  z.string().max(max, `${label} must be ${max} characters or less`);
+
+const URL_LENGTH = 500;
+
+/**
+ * Links and images: http, https or mailto URLs, or paths on the site
+ * ("/privacy", "#demo-form"). Anything else, such as javascript: or data:,
+ * would run or load in visitors' browsers. Control characters are refused
+ * outright, since browsers drop them and "java\tscript:" still runs.
+ */
+const SAFE_URL_PATTERN =
+  /^(?![\s\S]*[^\x20-\x7e\u00a0-\uffff]) *(?:(?:https?|mailto):|[^:/?#]*(?:[/?#]|$))/i;
+
+const url = (label: string) =>
+  text(label, URL_LENGTH).regex(
+    SAFE_URL_PATTERN,
+    `${label} must start with http://, https:// or mailto:, or be a path on this site`
+  );
+
+/** Most items each landing page list can hold. */
+export const SECTION_ITEM_LIMITS = {
+  features: 20,
+  steps: 10,
+  testimonials: 10,
+  stats: 6,
+  faqs: 30,
+} as const;
+
+/** Most sections a page layout can hold. */
+export const MAX_LAYOUT_SECTIONS = 20;
+
+/**
+ * Sections whose content lives in the content section. Each can be placed
+ * once, and its element id is its type.
+ */
+export const BUILT_IN_SECTION_TYPES = [
+  "hero",
+  "features",
+  "how-it-works",
+  "social-proof",
+  "demo-form",
+] as const;
+
+/**
+ * Kinds of section the landing page is built from. The layout section
+ * lists them in page order (see shared/pageLayout.ts). FAQ and rich-text
+ * sections keep their content in the layout and can be placed any number
+ * of times, each under its own id.
+ */
+export const LAYOUT_SECTION_TYPES = [...BUILT_IN_SECTION_TYPES, "faq", "rich-text"] as const;
+
+export type BuiltInSectionType = (typeof BUILT_IN_SECTION_TYPES)[number];
+export type LayoutSectionType = (typeof LAYOUT_SECTION_TYPES)[number];
+
+/** Element ids of FAQ and rich-text sections, which navigation links point at. */
+export const SECTION_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const linkSchema = z.object({
+  label: text("Navigation label", 50),
+  sectionId: text("Section id", 100).optional(),
+  href: url("Link URL").optional(),
+});
+
+const brandingPayloadSchema = z
+  .object({
+    companyName: text("Company name", 255),
+    logo: url("Logo URL"),
+    // Generated from an uploaded logo (POST /api/v1/setup/upload-logo)
+    logoRetina: url("Retina logo URL"),
+    favicon: url("Favicon URL"),
+    appleTouchIcon: url("Apple touch icon URL"),
+    primaryColor: text("Primary color", 20),
+    secondaryColor: text("Secondary color", 20),
+    siteUrl: url("Site URL"),
+  })
+  .partial();
+
+const themeColorsSchema = z.record(
+  z.enum(THEME_COLOR_TOKENS),
+  z.string().regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, "Theme colors must be hex colors like #2563eb")
+);
+
+const themeSchema = z
+  .object({
+    // Tokens left out keep the defaults in index.css
+    colors: themeColorsSchema,
+    // Dark-mode counterparts of the colors, over the dark defaults in index.css
+    darkColors: themeColorsSchema,
+    mode: z.enum(COLOR_MODES),
+    // Whether the site header offers visitors a light/dark switch (shown by default)
+    showModeToggle: z.boolean(),
+    bodyFont: z.enum(THEME_FONT_NAMES),
+    headingFont: z.enum(THEME_FONT_NAMES),
+    radius: z.number().int().min(0).max(MAX_THEME_RADIUS),
+    shadow: z.enum(SHADOW_INTENSITY_NAMES),
+  })
+  .partial();
+
+const heroPayloadSchema = z
+  .object({
+    title: text("Hero title", 200),
+    description: text("Hero description", 1000),
+    ctaText: text("Hero button text", 100),
+    secondaryCtaText: text("Secondary button text", 100),
+    tertiaryCtaText: text("Tertiary button text", 100),
+    benefits: z.array(z.object({ text: text("Benefit", 200) })).max(20),
+  })
+  .partial();
+
+const formPayloadSchema = z
+  .object({
+    title: text("Form title", 200),
+    description: text("Form description", 1000),
+    submitText: text("Submit button text", 100),
+    fields: formFieldsSchema,
+  })
+  .partial();
+
+// Icons are names from SECTION_ICON_NAMES (shared/landingSections.ts); unknown names get a fallback icon
+const featureSchema = z.object({
+  title: text("Feature title", 200),
+  description: text("Feature description", 1000),
+  icon: text("Feature icon", 50).optional(),
+  detail: text("Feature detail", 100).optional(),
+});
+
+const featuresSchema = z.array(featureSchema).max(SECTION_ITEM_LIMITS.features);
+
+// Heading shared by the landing page sections. `hidden` only applies to
+// configurations without a layout (see shared/pageLayout.ts).
+const sectionFields = {
+  title: text("Section title", 200),
+  description: text("Section description", 1000),
+  hidden: z.boolean(),
+};
+
+const featuresSectionSchema = z.object(sectionFields).partial();
+
+const stepSchema = z.object({
+  title: text("Step title", 200),
+  description: text("Step description", 1000),
+  icon: text("Step icon", 50).optional(),
+});
+
+const howItWorksSchema = z
+  .object({ ...sectionFields, steps: z.array(stepSchema).max(SECTION_ITEM_LIMITS.steps) })
+  .partial();
+
+const testimonialSchema = z.object({
+  quote: text("Testimonial", 1000),
+  author: text("Testimonial author", 100),
+  role: text("Author role", 100).optional(),
+});
+
+const statSchema = z.object({
+  value: text("Stat value", 20),
+  label: text("Stat label", 50),
+  icon: text("Stat icon", 50).optional(),
+});
+
+const socialProofSchema = z
+  .object({
+    ...sectionFields,
+    testimonials: z.array(testimonialSchema).max(SECTION_ITEM_LIMITS.testimonials),
+    stats: z.array(statSchema).max(SECTION_ITEM_LIMITS.stats),
+  })
+  .partial();
+
+const sectionIdSchema = text("Section id", 50).regex(
+  SECTION_ID_PATTERN,
+  "Section ids start with a letter and use lowercase letters, numbers and dashes"
+);
+
+const faqItemSchema = z.object({
+  question: text("Question", 300),
+  answer: text("Answer", 5000),
+});
+
+// Answers and rich text are Markdown, sanitized when rendered (see shared/markdown.ts)
+const faqSectionSchema = z.object({
+  type: z.literal("faq"),
+  id: sectionIdSchema,
+  hidden: z.boolean().optional(),
+  title: text("Section title", 200).optional(),
+  items: z.array(faqItemSchema).max(SECTION_ITEM_LIMITS.faqs),
+});
+
+const richTextSectionSchema = z.object({
+  type: z.literal("rich-text"),
+  id: sectionIdSchema,
+  hidden: z.boolean().optional(),
+  title: text("Section title", 200).optional(),
+  markdown: text("Text", 20000),
+});
+
+const layoutSectionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.enum(BUILT_IN_SECTION_TYPES), hidden: z.boolean().optional() }),
+  faqSectionSchema,
+  richTextSectionSchema,
+]);
+
+const layoutSchema = z
+  .object({
+    sections: z
+      .array(layoutSectionSchema)
+      .max(MAX_LAYOUT_SECTIONS)
+      .refine((sections) => {
+        const ids = sections.map((section) => ("id" in section ? section.id : section.type));
+        return new Set(ids).size === ids.length;
+      }, "Each section needs its own id, and built-in sections can only be placed once"),
+  })
+  .partial();
+
+const headerSchema = z
+  .object({
+    navigation: z.array(linkSchema).max(20),
+    ctaText: text("Header button text", 100),
+  })
+  .partial();
+
+const footerSchema = z
+  .object({
+    description: text("Footer description", 1000),
+    socialLinks: z.record(z.string().max(50), url("Social link").optional()),
+    quickLinks: z.array(linkSchema).max(20),
+    resources: z
+      .array(z.object({ label: text("Resource label", 50), href: url("Resource URL") }))
+      .max(20),
+    copyright: text("Copyright", 200),
+    privacyPolicyUrl: url("Privacy policy URL"),
+    termsOfServiceUrl: url("Terms of service URL"),
+  })
+  .partial();
+
+const seoSchema = z
+  .object({
+    pageTitle: text("Page title", 100),
+    metaDescription: text("Meta description", 300),
+    ogImage: url("Open Graph image URL"),
+    ogTitle: text("Open Graph title", 100),
+    ogDescription: text("Open Graph description", 300),
+    twitterCard: text("Twitter card", 50),
+    twitterImage: url("Twitter image URL"),
+    canonicalUrl: url("Canonical URL"),
+    keywords: text("Keywords", 200),
+  })
+  .partial();
+
+const analyticsSchema = z
+  .object({
+    googleAnalyticsId: text("Google Analytics ID", 50),
+    googleTagManagerId: text("Google Tag Manager ID", 50),
+    facebookPixelId: text("Facebook Pixel ID", 50),
+    linkedinInsightTag: text("LinkedIn Insight Tag", 50),
+    customAnalyticsScript: text("Custom analytics script", 5000),
+  })
+  .partial();
+
+/**
+ * Sections of a BrandingConfigPayload, each optional field by field.
+ */
+export const configPayloadSectionSchemas = {
+  branding: brandingPayloadSchema,
+  theme: themeSchema,
+  content: z
+    .object({
+      hero: heroPayloadSchema,
+      form: formPayloadSchema,
+      features: featuresSchema,
+      featuresSection: featuresSectionSchema,
+      howItWorks: howItWorksSchema,
+      socialProof: socialProofSchema,
+    })
+    .partial(),
+  layout: layoutSchema,
+  header: headerSchema,
+  footer: footerSchema,
+  seo: seoSchema,
+  analytics: analyticsSchema,
+} satisfies Record<ConfigSection, z.ZodTypeAny>;
+
+/** Body of POST /api/v1/setup/branding. Unknown sections are rejected. */
+export const brandingConfigPayloadSchema = z.object(configPayloadSectionSchemas).partial().strict();
+
+export type BrandingConfigPayload = z.infer<typeof brandingConfigPayloadSchema>;
+
+/**
+ * Sections of an AppConfig. The site can't render without a company name
+ * and the hero and form copy, so those are required.
+ */
+export const appConfigSectionSchemas = {
+  ...configPayloadSectionSchemas,
+  branding: brandingPayloadSchema.required({ companyName: true }),
+  content: z.object({
+    hero: heroPayloadSchema.required({ title: true, description: true, ctaText: true }),
+    form: formPayloadSchema.required({ title: true, description: true, submitText: true }),
+    features: featuresSchema.optional(),
+    featuresSection: featuresSectionSchema.optional(),
+    howItWorks: howItWorksSchema.optional(),
+    socialProof: socialProofSchema.optional(),
+  }),
+};
+
+/** Response of GET /api/v1/config. */
+export const appConfigSchema = z.object({
+  branding: appConfigSectionSchemas.branding,
+  theme: themeSchema.optional(),
+  content: appConfigSectionSchemas.content,
+  layout: layoutSchema.optional(),
+  header: headerSchema.optional(),
+  footer: footerSchema.optional(),
+  seo: seoSchema.optional(),
+  analytics: analyticsSchema.optional(),
+});
+
+export type AppConfig = z.infer<typeof appConfigSchema>;
+
+export type FeatureItem = z.infer<typeof featureSchema>;
+export type HowItWorksStep = z.infer<typeof stepSchema>;
+export type Testimonial = z.infer<typeof testimonialSchema>;
+export type SocialProofStat = z.infer<typeof statSchema>;
+export type ThemeConfig = z.infer<typeof themeSchema>;
+export type FaqItem = z.infer<typeof faqItemSchema>;
+export type LayoutSectionConfig = z.infer<typeof layoutSectionSchema>;
+
+/**
+ * Parses a configuration section by section, replacing each section that
+ * is missing or doesn't match its schema with the fallback's, so one bad
+ * value only costs its own section.
+ *
+ * @returns The configuration, and the names of the sections that fell back
+ */
+export function parseAppConfig(
+  value: unknown,
+  fallback: AppConfig
+): { config: AppConfig; invalid: ConfigSection[] } {
+  const data =
+    typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  const config: Record<string, unknown> = {};
+  const invalid: ConfigSection[] = [];
+
+  for (const name of CONFIG_SECTIONS) {
+    if (data[name] === undefined) {
+      config[name] = fallback[name];
+      continue;
+    }
+    const parsed = appConfigSectionSchemas[name].safeParse(data[name]);
+    if (parsed.success) {
+      config[name] = parsed.data;
+    } else {
+      config[name] = fallback[name];
+      invalid.push(name);
+    }
+  }
+
+  return { config: config as AppConfig, invalid };
+}
+
+type StringSchema = z.ZodString | z.ZodOptional<z.ZodString>;
+
+function maxLength(schema: StringSchema): number {
+  const base = schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+  return base.maxLength ?? Infinity;
+}
+
+const { shape: branding } = brandingPayloadSchema;
+const { shape: hero } = heroPayloadSchema;
+const { shape: form } = formPayloadSchema;
+const { shape: header } = headerSchema;
+const { shape: footer } = footerSchema;
+const { shape: seo } = seoSchema;
+const { shape: analytics } = analyticsSchema;
+
+/**
+ * Longest value accepted for each wizard input, read from the schemas above.
+ */
+export const FIELD_MAX_LENGTHS = {
+  // Branding
+  companyName: maxLength(branding.companyName),
+  logo: maxLength(branding.logo),
+  primaryColor: maxLength(branding.primaryColor),
+  secondaryColor: maxLength(branding.secondaryColor),
+  siteUrl: maxLength(branding.siteUrl),
+
+  // Content - Hero
+  heroTitle: maxLength(hero.title),
+  heroDescription: maxLength(hero.description),
+  heroCtaText: maxLength(hero.ctaText),
+  heroSecondaryCtaText: maxLength(hero.secondaryCtaText),
+  heroTertiaryCtaText: maxLength(hero.tertiaryCtaText),
+
+  // Content - Form
+  formTitle: maxLength(form.title),
+  formDescription: maxLength(form.description),
+  formSubmitText: maxLength(form.submitText),
+
+  // Content - Landing page sections
+  sectionTitle: maxLength(sectionFields.title),
+  sectionDescription: maxLength(sectionFields.description),
+  featureTitle: maxLength(featureSchema.shape.title),
+  featureDescription: maxLength(featureSchema.shape.description),
+  featureDetail: maxLength(featureSchema.shape.detail),
+  stepTitle: maxLength(stepSchema.shape.title),
+  stepDescription: maxLength(stepSchema.shape.description),
+  testimonialQuote: maxLength(testimonialSchema.shape.quote),
+  testimonialAuthor: maxLength(testimonialSchema.shape.author),
+  testimonialRole: maxLength(testimonialSchema.shape.role),
+  statValue: maxLength(statSchema.shape.value),
+  statLabel: maxLength(statSchema.shape.label),
+  sectionId: maxLength(faqSectionSchema.shape.id),
+  faqQuestion: maxLength(faqItemSchema.shape.question),
+  faqAnswer: maxLength(faqItemSchema.shape.answer),
+  richText: maxLength(richTextSectionSchema.shape.markdown),
+
+  // Header/Footer
+  headerCtaText: maxLength(header.ctaText),
+  footerDescription: maxLength(footer.description),
+  navigationLabel: maxLength(linkSchema.shape.label),
+
+  // SEO
+  pageTitle: maxLength(seo.pageTitle),
+  metaDescription: maxLength(seo.metaDescription),
+  ogTitle: maxLength(seo.ogTitle),
+  ogDescription: maxLength(seo.ogDescription),
+  keywords: maxLength(seo.keywords),
+
+  // Analytics
+  googleAnalyticsId: maxLength(analytics.googleAnalyticsId),
+  googleTagManagerId: maxLength(analytics.googleTagManagerId),
+  facebookPixelId: maxLength(analytics.facebookPixelId),
+  linkedinInsightTag: maxLength(analytics.linkedinInsightTag),
+  customAnalyticsScript: maxLength(analytics.customAnalyticsScript),
+
+  // Social Links
+  socialLink: maxLength(footer.socialLinks.unwrap().valueSchema),
+
+  // URLs
+  url: URL_LENGTH,
+} as const;
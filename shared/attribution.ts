@@ -0,0 +1,128 @@
+/**
+ * Lead source attribution.
+ *
+ * Turns a landing URL and referrer into SourceData and a single readable
+ * `source` string ("google / cpc (spring-sale)", "news.ycombinator.com /
+ * referral", "direct"). The browser uses it to record touches and the
+ * server uses it to recompute `source`, so the value written to the lead
+ * sheet always follows the same rules.
+ *
+ * @author Lindsey Stead
+ */
+
+import type { LeadAttribution, SourceData } from "./schema";
+
+export type TouchData = Omit<SourceData, "source">;
+
+type UtmField = "utmSource" | "utmMedium" | "utmCampaign" | "utmTerm" | "utmContent";
+
+/** Query parameter read for each UTM field. */
+export const UTM_PARAMS: Readonly<Record<UtmField, string>> = {
+  utmSource: "utm_source",
+  utmMedium: "utm_medium",
+  utmCampaign: "utm_campaign",
+  utmTerm: "utm_term",
+  utmContent: "utm_content",
+};
+
+/**
+ * Query parameters /embed reads to learn about the page hosting the iframe,
+ * since the iframe's own URL says nothing about the visitor's campaign.
+ */
+export const EMBED_PAGE_URL_PARAM = "pageUrl";
+export const EMBED_REFERRER_PARAM = "pageReferrer";
+
+function parseUrl(value: string | null | undefined): URL | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Host without a leading "www.", so www.google.com and google.com count as one source. */
+function displayHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Builds the combined source string for a touch.
+ *
+ * UTM tags win over the referrer; source and medium are lowercased so
+ * "Google" and "google" don't show up as two sources.
+ */
+export function describeSource(touch: TouchData): string {
+  if (touch.utmSource) {
+    const medium = touch.utmMedium ? ` / ${touch.utmMedium.toLowerCase()}` : "";
+    const campaign = touch.utmCampaign ? ` (${touch.utmCampaign})` : "";
+    return `${touch.utmSource.toLowerCase()}${medium}${campaign}`;
+  }
+
+  const referrer = parseUrl(touch.referrer);
+  if (referrer) {
+    return `${displayHost(referrer)} / referral`;
+  }
+
+  return "direct";
+}
+
+export function withSource(touch: TouchData): SourceData {
+  return { ...touch, source: describeSource(touch) };
+}
+
+/**
+ * Reads a touch from the page a visitor landed on.
+ *
+ * Query strings are dropped from the stored landing page and referrer
+ * because they can carry emails or session tokens. A referrer from the
+ * landing page's own site is ignored: it is navigation, not a source.
+ */
+export function sourceFromUrl(pageUrl: string, referrer?: string | null): SourceData {
+  const page = parseUrl(pageUrl);
+  const ref = parseUrl(referrer);
+
+  const touch: TouchData = {
+    utmSource: null,
+    utmMedium: null,
+    utmCampaign: null,
+    utmTerm: null,
+    utmContent: null,
+    referrer: null,
+    landingPage: page ? `${page.origin}${page.pathname}` : null,
+  };
+
+  if (page) {
+    for (const [field, param] of Object.entries(UTM_PARAMS) as Array<[UtmField, string]>) {
+      touch[field] = page.searchParams.get(param)?.trim() || null;
+    }
+  }
+
+  if (ref && (!page || displayHost(ref) !== displayHost(page))) {
+    touch.referrer = `${ref.origin}${ref.pathname}`;
+  }
+
+  return withSource(touch);
+}
+
+/**
+ * Whether a touch names a campaign or an outside referrer. Only these
+ * replace the last touch; a direct visit keeps the earlier campaign.
+ */
+export function hasCampaignSignal(touch: TouchData): boolean {
+  return Boolean(touch.utmSource || touch.utmMedium || touch.utmCampaign || touch.referrer);
+}
+
+/**
+ * Recomputes `source` on both touches of submitted attribution.
+ */
+export function normalizeAttribution(attribution: {
+  firstTouch: TouchData;
+  lastTouch: TouchData;
+}): LeadAttribution {
+  return {
+    firstTouch: withSource(attribution.firstTouch),
+    lastTouch: withSource(attribution.lastTouch),
+  };
+}
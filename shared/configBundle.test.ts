@@ -0,0 +1,87 @@
+/**
+ * Config Bundle Tests
+ *
+ * Covers parsing bundles, picking exportable sections and diffing a bundle
+ * against the current configuration.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CONFIG_BUNDLE_VERSION,
+  configBundleSchema,
+  configImportRequestSchema,
+  diffConfigSections,
+  pickConfigSections,
+} from "./configBundle";
+
+const bundle = {
+  version: CONFIG_BUNDLE_VERSION,
+  exportedAt: "2026-10-01T09:30:00.000Z",
+  sections: {
+    branding: { companyName: "Acme", primaryColor: "#7c3aed" },
+    header: { ctaText: "Book a demo", navigation: [{ label: "Pricing", sectionId: "pricing" }] },
+  },
+};
+
+describe("configBundleSchema", () => {
+  it("strips keys outside the configuration sections", () => {
+    const parsed = configBundleSchema.parse({
+      ...bundle,
+      sections: {
+        ...bundle.sections,
+        credentials: { GOOGLE_CLIENT_SECRET: "GOCSPX-secret" },
+        branding: { ...bundle.sections.branding, apiKey: "sk-secret" },
+      },
+    });
+    expect(parsed.sections).toEqual(bundle.sections);
+  });
+
+  it("rejects bundles from a newer build", () => {
+    expect(configBundleSchema.safeParse({ ...bundle, version: 2 }).success).toBe(false);
+  });
+});
+
+describe("configImportRequestSchema", () => {
+  it("only imports sections the bundle has", () => {
+    expect(configImportRequestSchema.safeParse({ bundle, sections: ["branding"] }).success).toBe(
+      true
+    );
+    expect(configImportRequestSchema.safeParse({ bundle, sections: ["seo"] }).success).toBe(false);
+    expect(configImportRequestSchema.safeParse({ bundle, sections: [] }).success).toBe(false);
+  });
+});
+
+describe("pickConfigSections", () => {
+  it("leaves out sections that don't match the schema", () => {
+    expect(
+      pickConfigSections({ branding: { companyName: "Acme" }, seo: { pageTitle: 42 }, other: {} })
+    ).toEqual({ sections: { branding: { companyName: "Acme" } }, invalid: ["seo"] });
+  });
+});
+
+describe("diffConfigSections", () => {
+  it("lists changed, added and removed values of the incoming sections", () => {
+    const current = {
+      branding: { companyName: "Globex", primaryColor: "#7c3aed", siteUrl: "https://globex.test" },
+      header: { ctaText: "Book a demo", navigation: [] },
+      seo: { pageTitle: "Globex" },
+    };
+
+    expect(diffConfigSections(current, bundle.sections)).toEqual([
+      { section: "branding", path: "companyName", before: "Globex", after: "Acme" },
+      { section: "branding", path: "siteUrl", before: "https://globex.test", after: undefined },
+      {
+        section: "header",
+        path: "navigation",
+        before: [],
+        after: [{ label: "Pricing", sectionId: "pricing" }],
+      },
+    ]);
+  });
+
+  it("treats a missing current section as empty", () => {
+    expect(diffConfigSections({}, { seo: { pageTitle: "Acme" } })).toEqual([
+      { section: "seo", path: "pageTitle", before: undefined, after: "Acme" },
+    ]);
+  });
+});
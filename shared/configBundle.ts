@@ -0,0 +1,149 @@
+/**
+ * Configuration bundles.
+ *
+ * A bundle is a tenant's white-label configuration (branding, theme,
+ * content, page layout, header, footer, SEO and analytics) as a versioned JSON
+ * file. GET /api/v1/setup/config/export produces one and POST
+ * /api/v1/setup/config/import writes chosen sections of one, so a
+ * configured site can be used as the template for the next.
+ *
+ * Bundles never hold secrets: credentials and notification settings live
+ * outside these sections, and keys not in the schemas below are stripped
+ * when a bundle is parsed.
+ *
+ * @author Lindsey Stead
+ */
+
+import { z } from "zod";
+import { CONFIG_SECTIONS, configPayloadSectionSchemas, type ConfigSection } from "./appConfig";
+
+/** Version written by this build. */
+export const CONFIG_BUNDLE_VERSION = 1;
+
+export { CONFIG_SECTIONS, type ConfigSection };
+
+// Sections are checked with the same limits as POST /api/v1/setup/branding
+const sectionSchemas = configPayloadSectionSchemas;
+
+/** Any subset of the configuration sections. */
+export const configSectionsSchema = z.object(sectionSchemas).partial();
+
+export type ConfigSections = z.infer<typeof configSectionsSchema>;
+
+export const configBundleSchema = z.object({
+  version: z.literal(CONFIG_BUNDLE_VERSION),
+  /** When the bundle was exported (ISO 8601) */
+  exportedAt: z.string().datetime(),
+  sections: configSectionsSchema,
+});
+
+export type ConfigBundle = z.infer<typeof configBundleSchema>;
+
+/** Body of POST /api/v1/setup/config/import. */
+export const configImportRequestSchema = z
+  .object({
+    bundle: configBundleSchema,
+    /** Sections to write; each replaces the current section as a whole */
+    sections: z.array(z.enum(CONFIG_SECTIONS)).min(1, "Choose at least one section to import"),
+  })
+  .refine(({ bundle, sections }) => sections.every((section) => bundle.sections[section]), {
+    message: "Only sections included in the bundle can be imported",
+    path: ["sections"],
+  });
+
+export type ConfigImportRequest = z.infer<typeof configImportRequestSchema>;
+
+/**
+ * Keeps the sections of a stored configuration that match the bundle
+ * schema, e.g. to export them. Sections that don't match are left out.
+ *
+ * @returns The valid sections, and the names of those left out
+ */
+export function pickConfigSections(config: Record<string, unknown>): {
+  sections: ConfigSections;
+  invalid: ConfigSection[];
+} {
+  const sections: Record<string, unknown> = {};
+  const invalid: ConfigSection[] = [];
+
+  for (const section of CONFIG_SECTIONS) {
+    if (config[section] === undefined) continue;
+    const parsed = sectionSchemas[section].safeParse(config[section]);
+    if (parsed.success) {
+      sections[section] = parsed.data;
+    } else {
+      invalid.push(section);
+    }
+  }
+
+  return { sections: sections as ConfigSections, invalid };
+}
+
+/** One value that differs between two configurations. */
+export interface ConfigChange {
+  section: ConfigSection;
+  /** Dotted path within the section, e.g. "hero.title" */
+  path: string;
+  /** Undefined when the value was added */
+  before: unknown;
+  /** Undefined when the value was removed */
+  after: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Lists are compared as a whole: a reordered menu is one change, not one per item
+function collectChanges(
+  section: ConfigSection,
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: ConfigChange[]
+) {
+  if (isObject(before) && isObject(after)) {
+    const added = Object.keys(after).filter((key) => !(key in before));
+    for (const key of [...Object.keys(before), ...added]) {
+      collectChanges(section, path ? `${path}.${key}` : key, before[key], after[key], changes);
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ section, path, before, after });
+  }
+}
+
+/**
+ * Lists the values that differ between two configurations, section by
+ * section. A missing section compares as empty.
+ *
+ * @param sections - Sections to compare; all of them by default
+ */
+export function diffConfigs(
+  before: Partial<Record<ConfigSection, unknown>>,
+  after: Partial<Record<ConfigSection, unknown>>,
+  sections: readonly ConfigSection[] = CONFIG_SECTIONS
+): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  for (const section of sections) {
+    collectChanges(section, "", before[section] ?? {}, after[section] ?? {}, changes);
+  }
+  return changes;
+}
+
+/**
+ * Lists what importing `incoming` would change in `current`, value by
+ * value. Only sections present in `incoming` are compared, since the
+ * others are left alone.
+ */
+export function diffConfigSections(
+  current: ConfigSections,
+  incoming: ConfigSections
+): ConfigChange[] {
+  return diffConfigs(
+    current,
+    incoming,
+    CONFIG_SECTIONS.filter((section) => incoming[section] !== undefined)
+  );
+}
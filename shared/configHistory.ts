@@ -0,0 +1,45 @@
+/**
+ * Configuration history.
+ *
+ * Every save that changes the draft configuration (a wizard step, an
+ * import or a restore) is kept as a revision: a snapshot of the saved
+ * configuration with when, by whom and which sections changed. Revisions
+ * are never edited; restoring one saves its snapshot as a new revision.
+ *
+ * There are no user accounts, so the author is the name the owner enters in
+ * the history view, sent with each save in the CONFIG_AUTHOR_HEADER header.
+ *
+ * @author Lindsey Stead
+ */
+
+import type { ConfigSection } from "./appConfig";
+
+/** Request header naming who made a configuration change. */
+export const CONFIG_AUTHOR_HEADER = "X-Config-Author";
+
+/** Longest author name kept; longer names are cut. */
+export const MAX_CONFIG_AUTHOR_LENGTH = 100;
+
+/**
+ * What produced a revision. "initial" is the configuration saved before
+ * history was kept, recorded ahead of the first change.
+ */
+export type ConfigRevisionSource = "wizard" | "import" | "restore" | "initial";
+
+export interface ConfigRevision {
+  /** Increases by one per revision */
+  id: number;
+  /** ISO 8601 */
+  createdAt: string;
+  /** Null when the saver didn't give a name */
+  author: string | null;
+  source: ConfigRevisionSource;
+  changedSections: ConfigSection[];
+  /** For restores, the revision that was restored */
+  restoredFrom?: number;
+}
+
+/** A revision with the configuration as it was saved. */
+export interface ConfigRevisionDetail extends ConfigRevision {
+  config: Partial<Record<ConfigSection, Record<string, unknown>>>;
+}
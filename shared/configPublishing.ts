@@ -0,0 +1,27 @@
+/**
+ * Draft and published configuration.
+ *
+ * Setup saves (wizard steps and imports) change a draft of the white-label
+ * configuration; GET /api/v1/config keeps serving the published one until
+ * the owner publishes the draft. A signed preview link
+ * (`/?preview=<token>`) makes the site load the draft instead, so it can be
+ * reviewed on the real pages before it goes live.
+ *
+ * Restoring a revision from the history is a rollback: it replaces the
+ * draft and publishes it straight away.
+ *
+ * @author Lindsey Stead
+ */
+
+/** Query parameter carrying a preview token, on site URLs and on GET /api/v1/config. */
+export const CONFIG_PREVIEW_PARAM = "preview";
+
+/** How long a preview link keeps working. */
+export const CONFIG_PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the preview token from a query string, if there is one.
+ */
+export function getConfigPreviewToken(search: string): string | null {
+  return new URLSearchParams(search).get(CONFIG_PREVIEW_PARAM) || null;
+}
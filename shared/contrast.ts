@@ -0,0 +1,75 @@
+/**
+ * Color contrast.
+ *
+ * Hex parsing and the WCAG 2.x contrast ratio, shared by the client's
+ * palette tools (client/src/lib/palette.ts) and the server, which picks
+ * the text color of the generated Open Graph card.
+ *
+ * @author Lindsey Stead
+ */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/** Minimum contrast ratio for normal text under WCAG AA. */
+export const WCAG_AA_TEXT = 4.5;
+
+/** Minimum contrast ratio for large text and UI components under WCAG AA. */
+export const WCAG_AA_LARGE = 3;
+
+/** Foregrounds a color can get, matching the light and dark text of index.css. */
+export const LIGHT_FOREGROUND_HEX = "#f8fafc";
+export const DARK_FOREGROUND_HEX = "#0f172a";
+
+/**
+ * Channels of a hex color ("#2563eb", "2563eb" or "#26e"), or null when
+ * it isn't one.
+ */
+export function parseHex(hex: string): Rgb | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits =
+    match[1].length === 3
+      ? match[1]
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : match[1];
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+  };
+}
+
+function relativeLuminance({ r, g, b }: Rgb): number {
+  const [rl, gl, bl] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * rl + 0.7152 * gl + 0.0722 * bl;
+}
+
+/**
+ * WCAG 2.x contrast ratio of two hex colors, from 1 to 21, or null when
+ * either isn't a hex color.
+ */
+export function contrastRatio(a: string, b: string): number | null {
+  const rgbA = parseHex(a);
+  const rgbB = parseHex(b);
+  if (!rgbA || !rgbB) return null;
+  const [light, dark] = [relativeLuminance(rgbA), relativeLuminance(rgbB)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * The light or dark foreground, whichever contrasts more with `background`.
+ */
+export function pickForeground(background: string): string {
+  const onLight = contrastRatio(DARK_FOREGROUND_HEX, background) ?? 0;
+  const onDark = contrastRatio(LIGHT_FOREGROUND_HEX, background) ?? 0;
+  return onDark >= onLight ? LIGHT_FOREGROUND_HEX : DARK_FOREGROUND_HEX;
+}
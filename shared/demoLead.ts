@@ -0,0 +1,36 @@
+/**
+ * Demo lead.
+ *
+ * The sample lead the home page walks through (LEAD_DEMO in
+ * client/src/lib/constants.ts), with the score the scoring engine gives
+ * it; scoring.test.ts keeps the two in step.
+ *
+ * @author Lindsey Stead
+ */
+
+import type { LeadScore } from "./schema";
+
+export const DEMO_LEAD: {
+  name: string;
+  email: string;
+  phone: string;
+  message: string;
+  score: LeadScore;
+} = {
+  name: "John Smith",
+  email: "john@acme.com",
+  phone: "+1 (555) 123-4567",
+  message: "I'm interested in your services, ready to discuss pricing and implementation timeline.",
+  score: {
+    score: 75,
+    factors: {
+      messageIntent: 25,
+      messageUrgency: 10,
+      emailDomain: 20,
+      messageLength: 10,
+      phoneProvided: 10,
+    },
+    reasoning:
+      "High buying intent, urgent request, company email, phone provided, detailed message",
+  },
+};
@@ -0,0 +1,104 @@
+/**
+ * Email domain classification.
+ *
+ * Free-mail and disposable domain lists shared by lead scoring (client and
+ * server) and enrichment. Lists are plain arrays so callers can extend or
+ * replace them.
+ *
+ * @author Lindsey Stead
+ */
+
+/**
+ * Consumer mailbox providers. A lead from one of these tells us nothing
+ * about the company they work for.
+ */
+export const FREE_MAIL_DOMAINS: readonly string[] = [
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "yahoo.co.uk",
+  "ymail.com",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "outlook.com",
+  "live.com",
+  "msn.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.net",
+  "mail.com",
+  "zoho.com",
+  "yandex.com",
+  "yandex.ru",
+  "qq.com",
+  "163.com",
+  "fastmail.com",
+  "hey.com",
+  "tutanota.com",
+];
+
+/**
+ * Throwaway inbox providers, usually a sign of a low-quality or fake lead.
+ */
+export const DISPOSABLE_DOMAINS: readonly string[] = [
+  "mailinator.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "10minutemail.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "throwawaymail.com",
+  "yopmail.com",
+  "trashmail.com",
+  "getnada.com",
+  "dispostable.com",
+  "maildrop.cc",
+  "sharklasers.com",
+  "fakeinbox.com",
+];
+
+export type EmailDomainType = "company" | "free" | "disposable" | "invalid";
+
+export interface DomainLists {
+  freeMailDomains?: readonly string[];
+  disposableDomains?: readonly string[];
+}
+
+/**
+ * Extracts the lowercase domain from an email address, or null if there is none.
+ */
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  if (at === -1) return null;
+  const domain = email.slice(at + 1).trim().toLowerCase();
+  return domain.includes(".") ? domain : null;
+}
+
+/**
+ * Checks a domain against a list, also matching subdomains
+ * (mail.yahoo.com matches yahoo.com).
+ */
+function inList(domain: string, list: readonly string[]): boolean {
+  return list.some((entry) => domain === entry || domain.endsWith(`.${entry}`));
+}
+
+/**
+ * Classifies the domain of an email address.
+ *
+ * @example
+ * classifyEmailDomain("john@acme.com");      // "company"
+ * classifyEmailDomain("jane@gmail.com");     // "free"
+ * classifyEmailDomain("x@mailinator.com");   // "disposable"
+ */
+export function classifyEmailDomain(email: string, lists: DomainLists = {}): EmailDomainType {
+  const domain = getEmailDomain(email);
+  if (!domain) return "invalid";
+  if (inList(domain, lists.disposableDomains ?? DISPOSABLE_DOMAINS)) return "disposable";
+  if (inList(domain, lists.freeMailDomains ?? FREE_MAIL_DOMAINS)) return "free";
+  return "company";
+}
@@ -0,0 +1,128 @@
+/**
+ * Embed messaging protocol.
+ *
+ * The /embed page talks to the page hosting its iframe with postMessage.
+ * Every message is tagged with EMBED_MESSAGE_SOURCE and the frame id the
+ * host passed in the iframe URL, so a host page with several forms (or
+ * other iframes posting messages) can tell them apart.
+ *
+ * Host sites can listen for these messages directly, or load embed.js,
+ * which resizes the iframe and re-dispatches the events on the placeholder
+ * element as `smartsheetconnect:<type>` DOM events.
+ *
+ * Messages never carry what the visitor typed into the form.
+ *
+ * @author Lindsey Stead
+ */
+
+/** Value of the `source` field on every message posted by /embed. */
+export const EMBED_MESSAGE_SOURCE = "smartsheetconnect";
+
+/** Query parameter the loader uses to give each iframe an id. */
+export const EMBED_FRAME_ID_PARAM = "frameId";
+
+/** Attribute marking the elements embed.js turns into forms. */
+export const EMBED_ATTRIBUTE = "data-smartsheetconnect";
+
+/** Prefix of the DOM events embed.js dispatches on the placeholder element. */
+export const EMBED_DOM_EVENT_PREFIX = "smartsheetconnect:";
+
+/**
+ * Appearance options /embed accepts as query parameters (validated by
+ * embedOptionsSchema in shared/embedOptions.ts). embed.js forwards the
+ * matching data attributes, e.g. `data-primary-color` → `primaryColor`.
+ */
+export const EMBED_OPTION_KEYS = [
+  "primaryColor",
+  "radius",
+  "font",
+  "theme",
+  "compact",
+  "hideDescription",
+  "successMessage",
+] as const;
+
+export type EmbedOptionKey = (typeof EMBED_OPTION_KEYS)[number];
+
+/** Query parameter carrying a signed options token. */
+export const EMBED_TOKEN_PARAM = "token";
+
+interface EmbedMessageBase {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  /** Id from the iframe URL; empty when the iframe was written by hand */
+  frameId: string;
+}
+
+/** The content height changed; the host should resize the iframe. */
+export interface EmbedResizeMessage extends EmbedMessageBase {
+  type: "resize";
+  /** Height of the form in CSS pixels */
+  height: number;
+}
+
+/** The form finished loading its configuration and can be used. */
+export interface EmbedReadyMessage extends EmbedMessageBase {
+  type: "ready";
+}
+
+/** A lead was submitted. */
+export interface EmbedSubmitSuccessMessage extends EmbedMessageBase {
+  type: "submit-success";
+  /** Whether the email was already on file */
+  isDuplicate: boolean;
+  /** Lead score (0-100) when the server scored the lead */
+  score?: number;
+  /** Last-touch source string, e.g. "google / cpc (spring-sale)" */
+  leadSource?: string;
+}
+
+/** A submission was rejected or failed to reach the server. */
+export interface EmbedSubmitErrorMessage extends EmbedMessageBase {
+  type: "submit-error";
+  /** HTTP status, absent for network failures */
+  status?: number;
+  /** API error code, e.g. "VALIDATION_ERROR" */
+  code?: string;
+  message: string;
+}
+
+export type EmbedMessage =
+  | EmbedResizeMessage
+  | EmbedReadyMessage
+  | EmbedSubmitSuccessMessage
+  | EmbedSubmitErrorMessage;
+
+export type EmbedMessageType = EmbedMessage["type"];
+
+/** Message body without the fields every message carries. */
+export type EmbedMessagePayload = EmbedMessage extends infer M
+  ? M extends unknown
+    ? Omit<M, keyof EmbedMessageBase>
+    : never
+  : never;
+
+const MESSAGE_TYPES: readonly EmbedMessageType[] = [
+  "resize",
+  "ready",
+  "submit-success",
+  "submit-error",
+];
+
+/**
+ * Checks that a postMessage payload came from /embed.
+ *
+ * Anything can post to a window, so hosts should also compare
+ * `event.source` with the iframe's contentWindow.
+ */
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+  if (typeof data !== "object" || data === null) return false;
+  const message = data as Record<string, unknown>;
+  if (message.source !== EMBED_MESSAGE_SOURCE || typeof message.frameId !== "string") {
+    return false;
+  }
+  if (!MESSAGE_TYPES.includes(message.type as EmbedMessageType)) return false;
+  if (message.type === "resize") {
+    return typeof message.height === "number" && Number.isFinite(message.height);
+  }
+  return true;
+}
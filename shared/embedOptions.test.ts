@@ -0,0 +1,57 @@
+/**
+ * Embed Options Tests
+ *
+ * Covers reading per-embed options from the /embed query string.
+ */
+
+import { describe, it, expect } from "vitest";
+import { embedOptionsToQuery, parseEmbedOptionsQuery } from "./embedOptions";
+
+describe("parseEmbedOptionsQuery", () => {
+  it("converts query values to typed options", () => {
+    const { options, invalid } = parseEmbedOptionsQuery(
+      "?primaryColor=7C3AED&radius=12&font=serif&theme=dark&compact&hideDescription=false&successMessage=Thanks!"
+    );
+
+    expect(options).toEqual({
+      primaryColor: "#7C3AED",
+      radius: 12,
+      font: "serif",
+      theme: "dark",
+      compact: true,
+      hideDescription: false,
+      successMessage: "Thanks!",
+    });
+    expect(invalid).toEqual([]);
+  });
+
+  it("accepts auto for the theme", () => {
+    expect(parseEmbedOptionsQuery("?theme=auto").options).toEqual({ theme: "auto" });
+  });
+
+  it("drops invalid values without discarding the rest", () => {
+    const { options, invalid } = parseEmbedOptionsQuery(
+      "?primaryColor=red&radius=100&font=papyrus&theme=sepia&compact=maybe&successMessage=%20&title=x"
+    );
+
+    expect(options).toEqual({});
+    expect(invalid).toEqual([
+      "primaryColor",
+      "radius",
+      "font",
+      "theme",
+      "compact",
+      "successMessage",
+    ]);
+  });
+
+  it("round-trips through embedOptionsToQuery", () => {
+    const options = {
+      primaryColor: "#2563eb",
+      radius: 0,
+      compact: true,
+      successMessage: "Hi & bye",
+    };
+    expect(parseEmbedOptionsQuery(embedOptionsToQuery(options)).options).toEqual(options);
+  });
+});
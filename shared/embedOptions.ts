@@ -0,0 +1,139 @@
+/**
+ * Per-embed appearance options.
+ *
+ * A single /embed placement can restyle the form without touching the
+ * tenant's branding: color, corner radius, font, light/dark/auto, compact layout,
+ * hidden description and its own success message. Options come from query
+ * parameters (`/embed?primaryColor=7c3aed&compact=1`) or from a signed token
+ * (`/embed?token=...`) issued by POST /api/v1/embed/token, whose options
+ * can't be edited by whoever copies the URL and take precedence over the
+ * query.
+ *
+ * Kept apart from shared/embed.ts so the embed.js loader doesn't bundle Zod.
+ *
+ * @author Lindsey Stead
+ */
+
+import { z } from "zod";
+import { EMBED_OPTION_KEYS, type EmbedOptionKey } from "./embed";
+import { COLOR_MODES } from "./theme";
+
+/** Font stacks an embed can pick from. Only fonts the app already loads or the OS provides. */
+export const EMBED_FONTS = {
+  inter: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  system:
+    '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  serif: 'Georgia, Cambria, "Times New Roman", Times, serif',
+  mono: '"SF Mono", Monaco, "Cascadia Code", Menlo, Consolas, monospace',
+} as const;
+
+export type EmbedFont = keyof typeof EMBED_FONTS;
+
+/** Largest corner radius, in pixels. */
+export const MAX_EMBED_RADIUS = 24;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// One entry per EMBED_OPTION_KEYS name, so the loader and the schema can't drift apart
+const optionShape = {
+  primaryColor: z.string().regex(HEX_COLOR, "Primary color must be a hex color like #2563eb"),
+  radius: z.number().int().min(0).max(MAX_EMBED_RADIUS),
+  font: z.enum(Object.keys(EMBED_FONTS) as [EmbedFont, ...EmbedFont[]]),
+  // "auto" follows the visitor's system setting; left out, the site theme's mode applies
+  theme: z.enum(COLOR_MODES),
+  compact: z.boolean(),
+  hideDescription: z.boolean(),
+  successMessage: z.string().trim().min(1).max(200),
+} satisfies Record<EmbedOptionKey, z.ZodTypeAny>;
+
+export const embedOptionsSchema = z.object(optionShape).partial().strict();
+
+export type EmbedOptions = z.infer<typeof embedOptionsSchema>;
+
+/** Response of POST /api/v1/embed/token. */
+export interface EmbedTokenResponse {
+  success: true;
+  token: string;
+  /** The options as stored in the token, after validation */
+  options: EmbedOptions;
+}
+
+/** Response of GET /api/v1/embed/options. */
+export interface EmbedOptionsResponse {
+  success: true;
+  options: EmbedOptions;
+}
+
+const TRUE_VALUES = new Set(["", "1", "true", "yes"]);
+const FALSE_VALUES = new Set(["0", "false", "no"]);
+
+/**
+ * Converts a query parameter to the type its option expects.
+ * Unknown spellings are passed through for the schema to reject.
+ */
+function fromQueryValue(key: EmbedOptionKey, value: string): unknown {
+  switch (key) {
+    case "primaryColor":
+      // "#" has to be escaped in URLs, so accept the bare hex too
+      return value.startsWith("#") ? value : `#${value}`;
+    case "radius":
+      return value.trim() === "" ? value : Number(value);
+    case "compact":
+    case "hideDescription": {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return value;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reads embed options from a query string. Invalid values are dropped one
+ * by one, so a typo in one parameter doesn't discard the rest.
+ *
+ * @returns The valid options and the names of the parameters that were ignored
+ */
+export function parseEmbedOptionsQuery(search: string | URLSearchParams): {
+  options: EmbedOptions;
+  invalid: EmbedOptionKey[];
+} {
+  const params = typeof search === "string" ? new URLSearchParams(search) : search;
+  const options: Record<string, unknown> = {};
+  const invalid: EmbedOptionKey[] = [];
+
+  for (const key of EMBED_OPTION_KEYS) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+
+    const parsed = embedOptionsSchema.shape[key].safeParse(fromQueryValue(key, raw));
+    if (parsed.success && parsed.data !== undefined) {
+      options[key] = parsed.data;
+    } else {
+      invalid.push(key);
+    }
+  }
+
+  return { options: options as EmbedOptions, invalid };
+}
+
+/**
+ * Serializes options as query parameters (the inverse of parseEmbedOptionsQuery).
+ */
+export function embedOptionsToQuery(options: EmbedOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of EMBED_OPTION_KEYS) {
+    const value = options[key];
+    if (value === undefined) continue;
+    if (typeof value === "boolean") {
+      params.set(key, value ? "1" : "0");
+    } else if (key === "primaryColor") {
+      params.set(key, String(value).replace(/^#/, ""));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
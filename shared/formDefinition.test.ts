@@ -0,0 +1,145 @@
+/**
+ * Form Definition Tests
+ *
+ * Covers the rules a form definition must follow and the submission
+ * schema built from it.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildLeadSchema,
+  DEFAULT_FORM_FIELDS,
+  fieldIdFromLabel,
+  formFieldsSchema,
+  type FormFieldDefinition,
+} from "./formDefinition";
+
+const lead = {
+  name: "Jane Doe",
+  email: "jane@acme.com",
+  message: "Hello there",
+};
+
+const fields: FormFieldDefinition[] = [
+  ...DEFAULT_FORM_FIELDS,
+  { id: "company", kind: "text", label: "Company", required: true, maxLength: 20 },
+  { id: "budget", kind: "select", label: "Budget", required: false, options: ["Small", "Large"] },
+  { id: "seats", kind: "number", label: "Seats", required: false, min: 1, max: 500 },
+  { id: "terms", kind: "checkbox", label: "Terms", required: true },
+];
+
+function errorsFor(input: unknown): Record<string, string> {
+  const result = buildLeadSchema(fields).safeParse(input);
+  if (result.success) return {};
+  return Object.fromEntries(
+    result.error.issues.map((issue) => [issue.path.join("."), issue.message])
+  );
+}
+
+describe("buildLeadSchema", () => {
+  it("validates the default form like leadSubmissionSchema", () => {
+    const result = buildLeadSchema().safeParse({ ...lead, email: " JANE@ACME.COM " });
+    expect(result.success && result.data).toEqual({ ...lead, customFields: {} });
+  });
+
+  it("parses custom fields and drops unanswered and unknown ones", () => {
+    const result = buildLeadSchema(fields).safeParse({
+      ...lead,
+      customFields: {
+        company: " <b>Acme</b> ",
+        budget: "",
+        seats: "25",
+        terms: true,
+        admin: "yes",
+      },
+    });
+    expect(result.success && result.data.customFields).toEqual({
+      company: "Acme",
+      seats: 25,
+      terms: true,
+    });
+  });
+
+  it("reports custom field errors by path", () => {
+    expect(
+      errorsFor({
+        ...lead,
+        customFields: { company: "", budget: "Huge", seats: "0", terms: false },
+      })
+    ).toEqual({
+      "customFields.company": "Company is required",
+      "customFields.budget": "Please choose a valid Budget",
+      "customFields.seats": "Seats must be at least 1",
+      "customFields.terms": "Terms is required",
+    });
+    expect(errorsFor({ ...lead, customFields: { company: "x".repeat(21), terms: true } })).toEqual({
+      "customFields.company": "Company must be at most 20 characters",
+    });
+  });
+
+  it("requires custom fields when customFields is missing", () => {
+    expect(Object.keys(errorsFor(lead))).toEqual(["customFields.company", "customFields.terms"]);
+  });
+
+  it("can require the phone field", () => {
+    const schema = buildLeadSchema(
+      DEFAULT_FORM_FIELDS.map((field) =>
+        field.id === "phone" ? { ...field, required: true } : field
+      )
+    );
+    expect(schema.safeParse(lead).success).toBe(false);
+    expect(schema.safeParse({ ...lead, phone: "555-123-4567" }).success).toBe(true);
+  });
+});
+
+describe("formFieldsSchema", () => {
+  it("accepts the default form", () => {
+    expect(formFieldsSchema.safeParse(DEFAULT_FORM_FIELDS).success).toBe(true);
+  });
+
+  it.each([
+    [
+      "a missing core field",
+      DEFAULT_FORM_FIELDS.filter((field) => field.id !== "email"),
+      "must keep the email field",
+    ],
+    [
+      "an optional core field",
+      DEFAULT_FORM_FIELDS.map((field) => ({ ...field, required: false })),
+      "always required",
+    ],
+    [
+      "a changed core kind",
+      DEFAULT_FORM_FIELDS.map((field) => ({ ...field, kind: "text" as const })),
+      "must stay a email field",
+    ],
+    [
+      "duplicate ids",
+      [
+        ...DEFAULT_FORM_FIELDS,
+        { id: "name", kind: "text" as const, label: "Again", required: false },
+      ],
+      "Duplicate field id",
+    ],
+    [
+      "a select without options",
+      [
+        ...DEFAULT_FORM_FIELDS,
+        { id: "size", kind: "select" as const, label: "Size", required: false },
+      ],
+      "needs at least one option",
+    ],
+  ])("rejects %s", (_case, definition, message) => {
+    const result = formFieldsSchema.safeParse(definition);
+    expect(result.success).toBe(false);
+    expect(result.error?.errors.map((error) => error.message).join(" ")).toContain(message);
+  });
+});
+
+describe("fieldIdFromLabel", () => {
+  it("camel-cases labels into safe ids", () => {
+    expect(fieldIdFromLabel("Company size")).toBe("companySize");
+    expect(fieldIdFromLabel("  2024 Budget ($) ")).toBe("budget");
+    expect(fieldIdFromLabel("!!!")).toBe("field");
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Lead form definition.
+ *
+ * Describes the fields an admin designed in the setup wizard and builds the
+ * matching Zod schema at runtime. The client renders and validates the form
+ * from the same definition the server validates submissions against, so a
+ * field added in the wizard needs no code change on either side.
+ *
+ * The core fields (name, email, phone, message) keep their fixed rules from
+ * leadSubmissionSchema because duplicate detection, scoring and
+ * notifications depend on them; admins can relabel and reorder them, and
+ * remove or require the phone field. Every other field is a custom field
+ * submitted under `customFields`.
+ *
+ * @author Lindsey Stead
+ */
+
+import { z } from "zod";
+import { leadSubmissionSchema, phoneRegex, sanitizeInput, type LeadSubmission } from "./schema";
+
+export const FORM_FIELD_KINDS = [
+  "text",
+  "textarea",
+  "email",
+  "phone",
+  "number",
+  "select",
+  "checkbox",
+] as const;
+
+export type FormFieldKind = (typeof FORM_FIELD_KINDS)[number];
+
+/** Kind of each core field; core fields are validated by leadSubmissionSchema. */
+export const CORE_FORM_FIELDS = {
+  name: "text",
+  email: "email",
+  phone: "phone",
+  message: "textarea",
+} as const satisfies Record<keyof LeadSubmission, FormFieldKind>;
+
+export type CoreFieldId = keyof typeof CORE_FORM_FIELDS;
+
+/** Core fields every form must keep, always required. */
+export const REQUIRED_CORE_FIELDS: readonly CoreFieldId[] = ["name", "email", "message"];
+
+/** Limits on the definition itself and on custom field values. */
+export const FORM_FIELD_LIMITS = {
+  maxFields: 20,
+  maxOptions: 50,
+  idLength: 40,
+  labelLength: 100,
+  placeholderLength: 200,
+  helpTextLength: 300,
+  optionLength: 100,
+  /** Default and ceiling for maxLength on text fields */
+  textLength: 500,
+  /** Default and ceiling for maxLength on textarea fields */
+  textareaLength: 2000,
+} as const;
+
+/**
+ * One field of the lead form.
+ *
+ * @property id - Stable key; core ids map to LeadSubmission, others to customFields
+ * @property kind - Input type rendered and validated
+ * @property label - Label shown above the input and used in error messages
+ * @property required - Whether the field must be filled (checkboxes: must be checked)
+ * @property placeholder - Optional placeholder text
+ * @property helpText - Optional hint shown below the input
+ * @property options - Choices for select fields
+ * @property minLength - Minimum length for text and textarea fields
+ * @property maxLength - Maximum length for text and textarea fields
+ * @property min - Minimum value for number fields
+ * @property max - Maximum value for number fields
+ */
+export interface FormFieldDefinition {
+  id: string;
+  kind: FormFieldKind;
+  label: string;
+  required: boolean;
+  placeholder?: string;
+  helpText?: string;
+  options?: string[];
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+}
+
+export type CustomFieldValue = string | number | boolean;
+
+/** A submission validated against a form definition. */
+export interface LeadFormSubmission extends LeadSubmission {
+  customFields: Record<string, CustomFieldValue>;
+}
+
+/** Raw values held by a rendered form, before validation. */
+export interface LeadFormValues {
+  name: string;
+  email: string;
+  phone: string;
+  message: string;
+  customFields: Record<string, string | boolean>;
+}
+
+/** Fields used until an admin designs their own form. */
+export const DEFAULT_FORM_FIELDS: readonly FormFieldDefinition[] = [
+  { id: "name", kind: "text", label: "Name", required: true, placeholder: "John Smith" },
+  { id: "email", kind: "email", label: "Email", required: true, placeholder: "john@example.com" },
+  { id: "phone", kind: "phone", label: "Phone", required: false, placeholder: "+1 (555) 123-4567" },
+  {
+    id: "message",
+    kind: "textarea",
+    label: "Message",
+    required: true,
+    placeholder: "Tell us about your project or inquiry...",
+  },
+];
+
+export function isCoreField(id: string): id is CoreFieldId {
+  return Object.prototype.hasOwnProperty.call(CORE_FORM_FIELDS, id);
+}
+
+/**
+ * react-hook-form name of a field: core fields sit at the top level,
+ * custom fields under customFields.
+ */
+export function getFieldPath(field: Pick<FormFieldDefinition, "id">): string {
+  return isCoreField(field.id) ? field.id : `customFields.${field.id}`;
+}
+
+/**
+ * Turns a label into a field id ("Company size" -> "companySize").
+ */
+export function fieldIdFromLabel(label: string): string {
+  const id = label
+    .normalize("NFKD")
+    .replace(/[^A-Za-z0-9]+/g, " ")
+    // Ids must start with a letter
+    .replace(/^[\s0-9]+/, "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) =>
+      index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join("");
+  return (id || "field").slice(0, FORM_FIELD_LIMITS.idLength);
+}
+
+const optionalCount = z.number().int().min(0).optional();
+
+/**
+ * Zod schema for one field definition.
+ */
+export const formFieldDefinitionSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z][a-zA-Z0-9_]*$/,
+      "Field id must start with a letter and use only letters, numbers and _"
+    )
+    .max(FORM_FIELD_LIMITS.idLength),
+  kind: z.enum(FORM_FIELD_KINDS),
+  label: z.string().trim().min(1, "Field label is required").max(FORM_FIELD_LIMITS.labelLength),
+  required: z.boolean(),
+  placeholder: z.string().max(FORM_FIELD_LIMITS.placeholderLength).optional(),
+  helpText: z.string().max(FORM_FIELD_LIMITS.helpTextLength).optional(),
+  options: z
+    .array(z.string().trim().min(1, "Options cannot be blank").max(FORM_FIELD_LIMITS.optionLength))
+    .max(FORM_FIELD_LIMITS.maxOptions)
+    .optional(),
+  minLength: optionalCount,
+  maxLength: optionalCount,
+  min: z.number().finite().optional(),
+  max: z.number().finite().optional(),
+});
+
+/**
+ * Zod schema for a whole form definition. Checks the rules that span
+ * fields: unique ids, core fields present with their fixed kinds, select
+ * fields with options, and consistent limits.
+ */
+export const formFieldsSchema = z
+  .array(formFieldDefinitionSchema)
+  .min(1)
+  .max(FORM_FIELD_LIMITS.maxFields)
+  .superRefine((fields, ctx) => {
+    const issue = (message: string, index?: number) =>
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message,
+        path: index === undefined ? [] : [index],
+      });
+    const seen = new Set<string>();
+
+    fields.forEach((field, index) => {
+      if (seen.has(field.id)) issue(`Duplicate field id "${field.id}"`, index);
+      seen.add(field.id);
+
+      if (isCoreField(field.id)) {
+        if (field.kind !== CORE_FORM_FIELDS[field.id]) {
+          issue(`${field.label} must stay a ${CORE_FORM_FIELDS[field.id]} field`, index);
+        }
+        if (REQUIRED_CORE_FIELDS.includes(field.id) && !field.required) {
+          issue(`${field.label} is always required`, index);
+        }
+      }
+      if (field.kind === "select") {
+        if (!field.options?.length) {
+          issue(`${field.label} needs at least one option`, index);
+        } else if (new Set(field.options).size !== field.options.length) {
+          issue(`${field.label} has duplicate options`, index);
+        }
+      }
+      if (field.kind === "text" || field.kind === "textarea") {
+        const ceiling =
+          field.kind === "text" ? FORM_FIELD_LIMITS.textLength : FORM_FIELD_LIMITS.textareaLength;
+        if ((field.maxLength ?? 0) > ceiling) {
+          issue(`${field.label} can allow at most ${ceiling} characters`, index);
+        }
+      }
+      if (
+        field.minLength !== undefined &&
+        field.maxLength !== undefined &&
+        field.minLength > field.maxLength
+      ) {
+        issue(`${field.label} has a minimum length above its maximum`, index);
+      }
+      if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+        issue(`${field.label} has a minimum above its maximum`, index);
+      }
+    });
+
+    for (const id of REQUIRED_CORE_FIELDS) {
+      if (!seen.has(id)) issue(`The form must keep the ${id} field`);
+    }
+  });
+
+const emailSchema = z.string().email().max(255);
+
+/**
+ * Returns why a non-empty text value is invalid for its field, if it is.
+ */
+function textProblem(field: FormFieldDefinition, value: string): string | undefined {
+  switch (field.kind) {
+    case "email":
+      return emailSchema.safeParse(value).success
+        ? undefined
+        : `${field.label} must be a valid email address`;
+    case "phone":
+      return phoneRegex.test(value.replace(/\s/g, ""))
+        ? undefined
+        : `${field.label} must be a valid phone number`;
+    case "select":
+      return field.options?.includes(value) ? undefined : `Please choose a valid ${field.label}`;
+    default: {
+      const maxLength =
+        field.maxLength ??
+        (field.kind === "textarea"
+          ? FORM_FIELD_LIMITS.textareaLength
+          : FORM_FIELD_LIMITS.textLength);
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        return `${field.label} must be at least ${field.minLength} characters`;
+      }
+      if (value.length > maxLength) {
+        return `${field.label} must be at most ${maxLength} characters`;
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Builds the schema for one custom field. Empty optional values come out
+ * as undefined so they can be dropped from the submission.
+ */
+function customFieldSchema(field: FormFieldDefinition): z.ZodTypeAny {
+  const requiredMessage = `${field.label} is required`;
+
+  if (field.kind === "checkbox") {
+    const checkbox = z
+      .boolean({ invalid_type_error: `${field.label} must be checked or unchecked` })
+      .optional()
+      .transform((value) => value === true);
+    return field.required ? checkbox.refine((value) => value, requiredMessage) : checkbox;
+  }
+
+  if (field.kind === "number") {
+    let number = z.number({
+      required_error: requiredMessage,
+      invalid_type_error: `${field.label} must be a number`,
+    });
+    if (field.min !== undefined)
+      number = number.min(field.min, `${field.label} must be at least ${field.min}`);
+    if (field.max !== undefined)
+      number = number.max(field.max, `${field.label} must be at most ${field.max}`);
+    // Inputs hold strings; "" means not answered
+    return z.preprocess(
+      (value) =>
+        typeof value === "string" ? (value.trim() === "" ? undefined : Number(value)) : value,
+      field.required ? number : number.optional()
+    );
+  }
+
+  return (
+    z
+      .string({ invalid_type_error: `${field.label} must be text` })
+      .optional()
+      // Select values must match an option exactly, so only free text is sanitized
+      .transform((value) =>
+        field.kind === "select" ? (value ?? "").trim() : sanitizeInput(value ?? "")
+      )
+      .superRefine((value, ctx) => {
+        const message = value
+          ? textProblem(field, value)
+          : field.required
+            ? requiredMessage
+            : undefined;
+        if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      })
+      .transform((value) => value || undefined)
+  );
+}
+
+/**
+ * Builds the Zod schema for submissions of a form definition.
+ *
+ * @param fields - Form definition; DEFAULT_FORM_FIELDS when omitted
+ * @returns Schema whose output is a LeadFormSubmission; unknown custom fields are dropped
+ */
+export function buildLeadSchema(
+  fields: readonly FormFieldDefinition[] = DEFAULT_FORM_FIELDS
+): z.ZodType<LeadFormSubmission, z.ZodTypeDef, unknown> {
+  const phoneField = fields.find((field) => field.id === "phone");
+  const phone = phoneField?.required
+    ? leadSubmissionSchema.shape.phone.refine(
+        (value) => Boolean(value?.trim()),
+        `${phoneField.label} is required`
+      )
+    : leadSubmissionSchema.shape.phone;
+
+  const customShape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    if (!isCoreField(field.id)) customShape[field.id] = customFieldSchema(field);
+  }
+
+  return leadSubmissionSchema.extend({
+    phone,
+    customFields: z
+      .object(customShape)
+      .default({})
+      .transform(
+        (values) =>
+          Object.fromEntries(
+            Object.entries(values).filter(([, value]) => value !== undefined)
+          ) as Record<string, CustomFieldValue>
+      ),
+  });
+}
+
+/**
+ * Blank form values for a definition, for react-hook-form defaultValues.
+ */
+export function getDefaultFormValues(fields: readonly FormFieldDefinition[]): LeadFormValues {
+  const customFields: Record<string, string | boolean> = {};
+  for (const field of fields) {
+    if (!isCoreField(field.id)) customFields[field.id] = field.kind === "checkbox" ? false : "";
+  }
+  return { name: "", email: "", phone: "", message: "", customFields };
+}
+
+/**
+ * Custom field answers in form order with their labels, for spreadsheets
+ * and notifications.
+ */
+export function describeCustomFields(
+  fields: readonly FormFieldDefinition[],
+  values: Record<string, CustomFieldValue>
+): Array<{ id: string; label: string; value: CustomFieldValue }> {
+  return fields
+    .filter((field) => !isCoreField(field.id) && values[field.id] !== undefined)
+    .map((field) => ({ id: field.id, label: field.label, value: values[field.id] }));
+}
+
+/**
+ * Formats an answer for plain-text output ("Yes"/"No" for checkboxes).
+ */
+export function formatCustomFieldValue(value: CustomFieldValue): string {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+/**
+ * Reads a stored form definition, falling back to the default form when it
+ * is missing or no longer valid.
+ */
+export function resolveFormFields(value: unknown): readonly FormFieldDefinition[] {
+  const parsed = formFieldsSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_FORM_FIELDS;
+}
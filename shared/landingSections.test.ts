@@ -0,0 +1,46 @@
+/**
+ * Landing Sections Tests
+ *
+ * Covers the section defaults and the icon name check.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_FEATURES_SECTION,
+  DEFAULT_SOCIAL_PROOF,
+  isSectionIconName,
+  resolveFeaturesSection,
+  resolveHowItWorks,
+  resolveSocialProof,
+} from "./landingSections";
+
+describe("resolve section content", () => {
+  it("falls back to the defaults for what a configuration leaves out", () => {
+    expect(resolveFeaturesSection(undefined)).toEqual(DEFAULT_FEATURES_SECTION);
+    expect(resolveSocialProof({ socialProof: { title: "Loved by teams" } })).toEqual({
+      ...DEFAULT_SOCIAL_PROOF,
+      title: "Loved by teams",
+    });
+  });
+
+  it("uses configured items and headings", () => {
+    const features = resolveFeaturesSection({
+      features: [{ title: "Fast", description: "Really fast" }],
+      featuresSection: { title: "Why us" },
+    });
+    expect(features.title).toBe("Why us");
+    expect(features.description).toBe(DEFAULT_FEATURES_SECTION.description);
+    expect(features.items).toEqual([{ title: "Fast", description: "Really fast" }]);
+
+    expect(resolveHowItWorks({ howItWorks: { steps: [] } }).steps).toEqual([]);
+  });
+});
+
+describe("isSectionIconName", () => {
+  it("accepts only registered icon names", () => {
+    expect(isSectionIconName("sparkles")).toBe(true);
+    expect(isSectionIconName("Sparkles")).toBe(false);
+    expect(isSectionIconName("constructor")).toBe(false);
+    expect(isSectionIconName(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Landing page sections.
+ *
+ * The Features, How It Works and Social Proof sections render from
+ * AppConfig.content (`features` with `featuresSection`, `howItWorks`,
+ * `socialProof`). Anything a configuration leaves out falls back to the
+ * defaults below, and a section with nothing to list is not rendered.
+ * Where each section goes, and whether it is shown, is up to the page
+ * layout (shared/pageLayout.ts).
+ *
+ * Icons are stored by name and drawn from a fixed registry on the client
+ * (client/src/lib/sectionIcons.ts), so a configuration can never load an
+ * arbitrary component.
+ *
+ * @author Lindsey Stead
+ */
+
+import type {
+  BrandingConfigPayload,
+  FeatureItem,
+  HowItWorksStep,
+  SocialProofStat,
+  Testimonial,
+} from "./appConfig";
+
+/** Icons a section item can use. */
+export const SECTION_ICON_NAMES = [
+  "sheet",
+  "sparkles",
+  "trending-up",
+  "bar-chart",
+  "bell",
+  "message-square",
+  "file-text",
+  "database",
+  "mail",
+  "users",
+  "zap",
+  "shield",
+  "clock",
+  "globe",
+  "heart",
+  "star",
+  "target",
+  "rocket",
+  "check-circle",
+  "building",
+] as const;
+
+export type SectionIconName = (typeof SECTION_ICON_NAMES)[number];
+
+export function isSectionIconName(value: unknown): value is SectionIconName {
+  return (SECTION_ICON_NAMES as readonly unknown[]).includes(value);
+}
+
+interface SectionHeading {
+  title: string;
+  description: string;
+}
+
+export interface FeaturesSectionContent extends SectionHeading {
+  items: FeatureItem[];
+}
+
+export interface HowItWorksContent extends SectionHeading {
+  steps: HowItWorksStep[];
+}
+
+export interface SocialProofContent extends SectionHeading {
+  testimonials: Testimonial[];
+  stats: SocialProofStat[];
+}
+
+export const DEFAULT_FEATURES_SECTION: FeaturesSectionContent = {
+  title: "Features",
+  description: "Automated lead capture with Google Sheets integration and notifications",
+  items: [
+    {
+      icon: "sheet",
+      title: "Google Sheets Integration",
+      description:
+        "Automatically log all form submissions to Google Sheets with timestamps and details.",
+      detail: "Automatic logging",
+    },
+    {
+      icon: "sparkles",
+      title: "Lead Scoring",
+      description:
+        "Intelligent scoring system (0-100) with optional AI enhancement to prioritize high-value leads.",
+      detail: "Smart prioritization",
+    },
+    {
+      icon: "trending-up",
+      title: "Lead Enrichment",
+      description: "Automatically enrich leads with company data from email domains.",
+      detail: "Company insights",
+    },
+    {
+      icon: "bar-chart",
+      title: "Source Tracking",
+      description: "Track lead sources with UTM parameters and referrer data.",
+      detail: "Marketing attribution",
+    },
+    {
+      icon: "bell",
+      title: "Email Notifications",
+      description: "Receive instant email alerts when new leads are submitted.",
+      detail: "Real-time alerts",
+    },
+    {
+      icon: "message-square",
+      title: "Slack Notifications",
+      description: "Send formatted notifications to your Slack channels.",
+      detail: "Team coordination",
+    },
+  ],
+};
+
+export const DEFAULT_HOW_IT_WORKS: HowItWorksContent = {
+  title: "How It Works",
+  description: "Simple automated workflow for capturing and managing leads",
+  steps: [
+    {
+      icon: "file-text",
+      title: "Customer Submits Form",
+      description:
+        "A potential customer fills out your professional lead capture form with their contact information, needs, and message. Source tracking automatically captures UTM parameters and referrer data.",
+    },
+    {
+      icon: "sparkles",
+      title: "Automatically Enriches the Lead",
+      description:
+        "The system automatically extracts company data from the email domain - company name and website. This happens instantly using intelligent domain parsing to identify company information.",
+    },
+    {
+      icon: "trending-up",
+      title: "Intelligently Scores the Lead (0-100)",
+      description:
+        "Using the enriched company data and message content, the system analyzes buying intent, urgency, message quality, and company size to generate an intelligent lead score. Optional AI enhancement available for deeper sentiment analysis. High-scoring leads are prioritized automatically.",
+    },
+    {
+      icon: "database",
+      title: "Data Logged to Google Sheets",
+      description:
+        "All lead data, enrichment, score, reasoning, and source tracking are instantly logged to Google Sheets with 21 columns of intelligence. Your spreadsheet becomes a powerful CRM automatically.",
+    },
+    {
+      icon: "mail",
+      title: "Team Gets Notified with Intelligence",
+      description:
+        "Your team receives immediate email and Slack notifications with the complete lead intelligence card - including score, enrichment data, source tracking, and score reasoning for smart prioritization.",
+    },
+  ],
+};
+
+export const DEFAULT_SOCIAL_PROOF: SocialProofContent = {
+  title: "",
+  description: "",
+  testimonials: [
+    {
+      quote:
+        "SmartSheetConnect instantly enriched our leads with company data, scored them 0–100 using AI, and routed them automatically. Our team now responds 5x faster and prioritizes high-value leads with complete intelligence.",
+      author: "Jordan Lee",
+      role: "Growth & Technology Lead",
+    },
+  ],
+  stats: [
+    { icon: "trending-up", value: "0–100", label: "AI Lead Scores" },
+    { icon: "zap", value: "16", label: "Intel Fields" },
+    { icon: "users", value: "5x", label: "Faster Prioritization" },
+  ],
+};
+
+// Accepts a saved or imported content section as well as a full AppConfig one
+type Content = BrandingConfigPayload["content"];
+
+/**
+ * The Features section of a configuration, with defaults for what it leaves out.
+ */
+export function resolveFeaturesSection(content: Content): FeaturesSectionContent {
+  return {
+    ...DEFAULT_FEATURES_SECTION,
+    ...content?.featuresSection,
+    items: content?.features ?? DEFAULT_FEATURES_SECTION.items,
+  };
+}
+
+export function resolveHowItWorks(content: Content): HowItWorksContent {
+  return { ...DEFAULT_HOW_IT_WORKS, ...content?.howItWorks };
+}
+
+export function resolveSocialProof(content: Content): SocialProofContent {
+  return { ...DEFAULT_SOCIAL_PROOF, ...content?.socialProof };
+}
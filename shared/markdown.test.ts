@@ -0,0 +1,41 @@
+/**
+ * Markdown Tests
+ *
+ * Covers rendering configured Markdown to sanitized HTML and to plain text.
+ */
+
+import { describe, it, expect } from "vitest";
+import { markdownToText, renderMarkdown } from "./markdown";
+
+describe("renderMarkdown", () => {
+  it("keeps text formatting, lists and links", () => {
+    const html = renderMarkdown(
+      "## Plans\n\n**Bold** and *italic*\n\n- [Docs](https://example.com)"
+    );
+    expect(html).toContain("<h2>Plans</h2>");
+    expect(html).toContain("<strong>Bold</strong>");
+    expect(html).toContain("<em>italic</em>");
+    expect(html).toContain('<a href="https://example.com">Docs</a>');
+  });
+
+  it("strips scripts, event handlers and javascript: links", () => {
+    const html = renderMarkdown(
+      '<script>alert(1)</script>\n\n<img src="x" onerror="alert(1)">\n\n[click](javascript:alert(1)) <b onclick="alert(1)">hi</b>'
+    );
+    expect(html).not.toMatch(/<script|<img|onerror|onclick|javascript:/i);
+    expect(html).toContain("click");
+  });
+
+  it("turns top-level headings into text", () => {
+    expect(renderMarkdown("# Title")).not.toContain("<h1");
+    expect(renderMarkdown("# Title")).toContain("Title");
+  });
+});
+
+describe("markdownToText", () => {
+  it("drops the formatting and markup", () => {
+    expect(
+      markdownToText("**Yes**, see [the docs](https://example.com).\n\n<script>x</script>")
+    ).toBe("Yes, see the docs.");
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Markdown for configured copy (FAQ answers, rich-text sections).
+ *
+ * The Markdown comes from whoever runs the setup wizard and is shown to
+ * every visitor, so the HTML it renders to is sanitized with the same
+ * DOMPurify used by sanitizeInput (shared/schema.ts) and limited to
+ * text formatting and links. Scripts, styles, images, embeds and event
+ * handlers never make it through.
+ *
+ * @author Lindsey Stead
+ */
+
+import DOMPurify from "isomorphic-dompurify";
+import { marked } from "marked";
+
+const ALLOWED_TAGS = [
+  "p",
+  "br",
+  "hr",
+  "h2",
+  "h3",
+  "h4",
+  "strong",
+  "em",
+  "del",
+  "code",
+  "pre",
+  "blockquote",
+  "ul",
+  "ol",
+  "li",
+  "a",
+];
+
+const ALLOWED_ATTR = ["href", "title"];
+
+/**
+ * Renders Markdown to sanitized HTML. Top-level headings become text, as
+ * the page already has its title.
+ */
+export function renderMarkdown(markdown: string): string {
+  const html = marked.parse(markdown, { async: false, gfm: true });
+  return DOMPurify.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR });
+}
+
+/**
+ * The text of some Markdown without any formatting, e.g. for structured data.
+ */
+export function markdownToText(markdown: string): string {
+  const html = marked.parse(markdown, { async: false, gfm: true });
+  const fragment = DOMPurify.sanitize(html, { ALLOWED_TAGS, RETURN_DOM_FRAGMENT: true });
+  return (fragment.textContent ?? "").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,151 @@
+/**
+ * Page Layout Tests
+ *
+ * Covers resolving the layout of a configuration, checking navigation
+ * links against it and the FAQ structured data.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  BUILT_IN_SECTION_TYPES,
+  faqPageJsonLd,
+  findBrokenSectionLinks,
+  linksOnPage,
+  resolveLayout,
+} from "./pageLayout";
+import { brandingConfigPayloadSchema } from "./appConfig";
+
+describe("resolveLayout", () => {
+  it("shows every built-in section in the default order without a layout", () => {
+    expect(resolveLayout({})).toEqual(
+      BUILT_IN_SECTION_TYPES.map((type) => ({ type, hidden: false }))
+    );
+  });
+
+  it("keeps sections hidden through their content before layouts", () => {
+    const layout = resolveLayout({ content: { howItWorks: { hidden: true } } });
+    expect(layout.find((section) => section.type === "how-it-works")?.hidden).toBe(true);
+  });
+
+  it("follows a saved layout over the content flags", () => {
+    expect(
+      resolveLayout({
+        layout: { sections: [{ type: "demo-form" }, { type: "features", hidden: true }] },
+        content: { featuresSection: { hidden: false } },
+      })
+    ).toEqual([
+      { type: "demo-form", hidden: false },
+      { type: "features", hidden: true },
+    ]);
+  });
+
+  it("fills in what custom sections leave out", () => {
+    expect(
+      resolveLayout({
+        layout: {
+          sections: [
+            { type: "faq", id: "faq", items: [] },
+            { type: "rich-text", id: "about", markdown: "Hi" },
+          ],
+        },
+      })
+    ).toEqual([
+      { type: "faq", id: "faq", hidden: false, title: "", items: [] },
+      { type: "rich-text", id: "about", hidden: false, title: "", markdown: "Hi" },
+    ]);
+  });
+});
+
+describe("layout schema", () => {
+  it("rejects a section placed twice", () => {
+    const result = brandingConfigPayloadSchema.safeParse({
+      layout: { sections: [{ type: "hero" }, { type: "hero" }] },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects custom sections sharing an id", () => {
+    const result = brandingConfigPayloadSchema.safeParse({
+      layout: {
+        sections: [
+          { type: "faq", id: "help", items: [] },
+          { type: "rich-text", id: "help", markdown: "Hello" },
+        ],
+      },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects section ids that can't be a link anchor", () => {
+    const result = brandingConfigPayloadSchema.safeParse({
+      layout: { sections: [{ type: "rich-text", id: "About Us", markdown: "Hello" }] },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("section links", () => {
+  const layout = resolveLayout({
+    layout: { sections: [{ type: "hero" }, { type: "features", hidden: true }] },
+  });
+  const links = [
+    { label: "Top", sectionId: "hero" },
+    { label: "Features", sectionId: "features" },
+    { label: "Contact", sectionId: "demo-form" },
+    { label: "Blog", sectionId: "", href: "https://example.com/blog" },
+  ];
+
+  it("finds links to sections the layout doesn't have", () => {
+    expect(findBrokenSectionLinks(links, layout)).toEqual([links[2]]);
+  });
+
+  it("keeps only links that lead somewhere on the page", () => {
+    expect(linksOnPage(links, layout)).toEqual([links[0], links[3]]);
+  });
+});
+
+describe("faqPageJsonLd", () => {
+  const faq = (hidden: boolean) =>
+    resolveLayout({
+      layout: {
+        sections: [
+          {
+            type: "faq",
+            id: "faq",
+            hidden,
+            items: [
+              {
+                question: "Is it </script> safe?",
+                answer: "**Yes**, [very](https://example.com).",
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+  it("lists the questions of visible FAQ sections with plain-text answers", () => {
+    const json = faqPageJsonLd(faq(false));
+    expect(json).not.toBeNull();
+    expect(JSON.parse(json!)).toEqual({
+      "@context": "https://schema.org",
+      "@type": "FAQPage",
+      mainEntity: [
+        {
+          "@type": "Question",
+          name: "Is it </script> safe?",
+          acceptedAnswer: { "@type": "Answer", text: "Yes, very." },
+        },
+      ],
+    });
+  });
+
+  it("can't close the script element it's placed in", () => {
+    expect(faqPageJsonLd(faq(false))).not.toContain("</script>");
+  });
+
+  it("is null without visible questions", () => {
+    expect(faqPageJsonLd(faq(true))).toBeNull();
+    expect(faqPageJsonLd(resolveLayout({}))).toBeNull();
+  });
+});
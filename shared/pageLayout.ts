@@ -0,0 +1,181 @@
+/**
+ * Landing page layout.
+ *
+ * The `layout` configuration section lists the sections of the landing
+ * page in order, each of which can be hidden while keeping its place.
+ * Built-in sections take their content from the content section; FAQ and
+ * rich-text sections carry their own, in Markdown (see shared/markdown.ts).
+ * Without a layout the page shows every built-in section in the default
+ * order, leaving out those whose content is marked hidden. Navigation
+ * links (header navigation, footer quick links) point at a section by its
+ * element id, so they are checked against the sections the layout has.
+ *
+ * @author Lindsey Stead
+ */
+
+import {
+  BUILT_IN_SECTION_TYPES,
+  LAYOUT_SECTION_TYPES,
+  type BrandingConfigPayload,
+  type BuiltInSectionType,
+  type FaqItem,
+  type LayoutSectionType,
+} from "./appConfig";
+import { markdownToText } from "./markdown";
+
+export { BUILT_IN_SECTION_TYPES, LAYOUT_SECTION_TYPES, type LayoutSectionType };
+
+export interface BuiltInLayoutSection {
+  type: BuiltInSectionType;
+  hidden: boolean;
+}
+
+export interface FaqLayoutSection {
+  type: "faq";
+  id: string;
+  hidden: boolean;
+  title: string;
+  items: FaqItem[];
+}
+
+export interface RichTextLayoutSection {
+  type: "rich-text";
+  id: string;
+  hidden: boolean;
+  title: string;
+  markdown: string;
+}
+
+export type LayoutSection = BuiltInLayoutSection | FaqLayoutSection | RichTextLayoutSection;
+
+export const LAYOUT_SECTION_LABELS: Record<LayoutSectionType, string> = {
+  hero: "Hero",
+  features: "Features",
+  "how-it-works": "How It Works",
+  "social-proof": "Testimonials & Stats",
+  "demo-form": "Lead Form",
+  faq: "FAQ",
+  "rich-text": "Text",
+};
+
+/** A stored or drafted section, with whatever it leaves out. */
+export interface LayoutSectionInput {
+  type: LayoutSectionType;
+  hidden?: boolean;
+  id?: string;
+  title?: string;
+  items?: FaqItem[];
+  markdown?: string;
+}
+
+/**
+ * A section with defaults for the fields it leaves out.
+ */
+export function normalizeLayoutSection(section: LayoutSectionInput): LayoutSection {
+  const hidden = section.hidden ?? false;
+  const { type } = section;
+  if (type === "faq") {
+    return {
+      type,
+      id: section.id ?? type,
+      hidden,
+      title: section.title ?? "",
+      items: section.items ?? [],
+    };
+  }
+  if (type === "rich-text") {
+    return {
+      type,
+      id: section.id ?? type,
+      hidden,
+      title: section.title ?? "",
+      markdown: section.markdown ?? "",
+    };
+  }
+  return { type, hidden };
+}
+
+// Accepts a saved or imported configuration as well as a full AppConfig
+type LayoutSource = Pick<BrandingConfigPayload, "layout" | "content">;
+
+/**
+ * The sections of the landing page in order, hidden ones included.
+ */
+export function resolveLayout({ layout, content }: LayoutSource): LayoutSection[] {
+  if (layout?.sections) {
+    return layout.sections.map(normalizeLayoutSection);
+  }
+
+  // Before layouts, sections were hidden through their content
+  const hiddenByContent: Partial<Record<BuiltInSectionType, boolean>> = {
+    features: content?.featuresSection?.hidden,
+    "how-it-works": content?.howItWorks?.hidden,
+    "social-proof": content?.socialProof?.hidden,
+  };
+  return BUILT_IN_SECTION_TYPES.map((type) => ({ type, hidden: hiddenByContent[type] ?? false }));
+}
+
+/**
+ * Element id of a section on the page, which navigation links point at.
+ */
+export function layoutSectionId(section: LayoutSection): string {
+  return "id" in section ? section.id : section.type;
+}
+
+/**
+ * What the wizard calls a section: its title, or the name of its type.
+ */
+export function layoutSectionLabel(section: LayoutSection): string {
+  return ("title" in section && section.title.trim()) || LAYOUT_SECTION_LABELS[section.type];
+}
+
+interface SectionLink {
+  label: string;
+  sectionId?: string;
+}
+
+/**
+ * Links that lead somewhere: those without a `sectionId` and those to a
+ * section visitors can see.
+ */
+export function linksOnPage<T extends SectionLink>(
+  links: readonly T[],
+  layout: readonly LayoutSection[]
+): T[] {
+  const ids = new Set(layout.filter((section) => !section.hidden).map(layoutSectionId));
+  return links.filter((link) => !link.sectionId || ids.has(link.sectionId));
+}
+
+/**
+ * Links whose `sectionId` is not a section of the layout.
+ */
+export function findBrokenSectionLinks<T extends SectionLink>(
+  links: readonly T[],
+  layout: readonly LayoutSection[]
+): T[] {
+  const ids = new Set(layout.map(layoutSectionId));
+  return links.filter((link) => (link.sectionId ? !ids.has(link.sectionId) : false));
+}
+
+/**
+ * FAQPage structured data (JSON-LD) for the questions of the visible FAQ
+ * sections, or null when there are none. Safe to place in a script tag.
+ */
+export function faqPageJsonLd(layout: readonly LayoutSection[]): string | null {
+  const items = layout.flatMap((section) =>
+    section.type === "faq" && !section.hidden ? section.items : []
+  );
+  if (items.length === 0) return null;
+
+  const data = {
+    "@context": "https://schema.org",
+    "@type": "FAQPage",
+    mainEntity: items.map(({ question, answer }) => ({
+      "@type": "Question",
+      name: question,
+      acceptedAnswer: { "@type": "Answer", text: markdownToText(answer) },
+    })),
+  };
+  // "<" can't end the script element early when escaped
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
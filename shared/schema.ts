@@ -9,12 +9,16 @@
 
 import { z } from "zod";
 import DOMPurify from "isomorphic-dompurify";
+import type { EmailDomainType } from "./domains";
 
 // ============================================================================
 // SANITIZATION UTILITIES
 // ============================================================================
 
-function sanitizeInput(input: string): string {
+/**
+ * Strips all HTML from user input and trims it.
+ */
+export function sanitizeInput(input: string): string {
   return DOMPurify.sanitize(input, {
     ALLOWED_TAGS: [], // Remove all HTML tags
     ALLOWED_ATTR: [], // Remove all attributes
@@ -41,7 +45,7 @@ function sanitizeInput(input: string): string {
  * - [0-9]{4,6} - Four to six digits (subscriber number)
  * - $ - End of string
  */
-const phoneRegex = /^[+]?[(]?[0-9]{3}[)]?[-\s.]?[0-9]{3}[-\s.]?[0-9]{4,6}$/;
+export const phoneRegex = /^[+]?[(]?[0-9]{3}[)]?[-\s.]?[0-9]{3}[-\s.]?[0-9]{4,6}$/;
 
 // ============================================================================
 // LEAD SUBMISSION SCHEMA
@@ -115,8 +119,33 @@ export const leadSubmissionSchema = z.object({
  */
 export type LeadSubmission = z.infer<typeof leadSubmissionSchema>;
 
+/**
+ * Company fields produced by lead enrichment.
+ */
+export type EnrichmentField =
+  | "companyName"
+  | "companyDomain"
+  | "industry"
+  | "employeeCount"
+  | "location"
+  | "website";
+
+/**
+ * Where an enriched field came from and how much to trust it.
+ *
+ * @property source - Name of the provider that supplied the value (e.g. "directory")
+ * @property confidence - 0-1; curated data scores high, guesses from the domain score low
+ */
+export interface EnrichmentProvenance {
+  source: string;
+  confidence: number;
+}
+
 /**
  * Enrichment data structure.
+ *
+ * Company fields are null when no provider knew the value. Free-mail and
+ * disposable addresses are never enriched; `emailDomainType` says why.
  */
 export interface EnrichmentData {
   companyName: string | null;
@@ -125,6 +154,10 @@ export interface EnrichmentData {
   employeeCount: string | null;
   location: string | null;
   website: string | null;
+  /** Classification of the email domain */
+  emailDomainType?: EmailDomainType;
+  /** Source and confidence of each non-null field */
+  provenance?: Partial<Record<EnrichmentField, EnrichmentProvenance>>;
 }
 
 /**
@@ -156,6 +189,59 @@ export interface SourceData {
   source: string; // Combined source string
 }
 
+/**
+ * Nullable attribution value; blank strings are stored as null. Long values
+ * are cut to `maxLength` rather than rejected, so one oversized UTM tag
+ * doesn't cost the lead the rest of its attribution.
+ */
+function attributionField(maxLength: number) {
+  return z
+    .string()
+    .trim()
+    .nullish()
+    .transform((value) => value?.slice(0, maxLength) || null);
+}
+
+/**
+ * Zod schema for one attribution touch sent with a lead.
+ *
+ * The combined `source` string is optional here because the server
+ * recomputes it (see describeSource in shared/attribution.ts) rather than
+ * trusting the browser's copy.
+ */
+export const sourceDataSchema = z.object({
+  utmSource: attributionField(200),
+  utmMedium: attributionField(200),
+  utmCampaign: attributionField(200),
+  utmTerm: attributionField(200),
+  utmContent: attributionField(200),
+  referrer: attributionField(2048),
+  landingPage: attributionField(2048),
+  source: z
+    .string()
+    .optional()
+    .transform((value) => value?.slice(0, 500)),
+});
+
+/**
+ * Zod schema for the attribution attached to a lead submission.
+ */
+export const leadAttributionSchema = z.object({
+  firstTouch: sourceDataSchema,
+  lastTouch: sourceDataSchema,
+});
+
+/**
+ * First-touch and last-touch attribution for a lead.
+ *
+ * @property firstTouch - How the visitor originally found the site
+ * @property lastTouch - The most recent campaign or referral that brought them back
+ */
+export interface LeadAttribution {
+  firstTouch: SourceData;
+  lastTouch: SourceData;
+}
+
 /**
  * API response type for lead submission endpoint.
  *
@@ -202,14 +288,104 @@ export interface LeadSubmissionResponse {
   enrichment?: EnrichmentData;
 
   /**
-   * Lead score (0-100) with factors and reasoning.
-   * Only present when scoring is enabled.
+   * Lead score (0-100) with factors and reasoning (see shared/scoring.ts).
+   * Present when a new lead was stored.
    */
   score?: LeadScore;
 
   /**
-   * Source tracking data (UTM parameters, referrer, etc.).
-   * Always present if available.
+   * Last-touch source tracking data (UTM parameters, referrer, etc.).
+   * Present when the form sent attribution with a new lead.
    */
   source?: SourceData;
 }
+
+/**
+ * API response type for the setup status endpoint.
+ *
+ * Returned by GET /api/v1/setup/status and polled by the setup wizard.
+ *
+ * @property configured - Whether every required setup item is complete
+ * @property missing - Human-readable names of the items still missing
+ * @property details - Per-item completion flags keyed by item id
+ */
+export interface SetupStatus {
+  configured: boolean;
+  missing: string[];
+  details: Record<string, boolean>;
+}
+
+/**
+ * Destinations a submitted lead can be written to.
+ *
+ * - google-sheets: The connected Google Sheet (requires Google authorization)
+ * - csv: A local CSV workbook on the server (works offline)
+ * - memory: Process memory only (tests and demos; lost on restart)
+ */
+export const LEAD_SINK_KINDS = ["google-sheets", "csv", "memory"] as const;
+
+export type LeadSinkKind = (typeof LEAD_SINK_KINDS)[number];
+
+// ============================================================================
+// API ERRORS
+// ============================================================================
+
+/**
+ * Machine-readable codes sent with every API error response.
+ *
+ * Clients branch on these, never on `message`, which is written for people
+ * and may change.
+ */
+export const API_ERROR_CODES = [
+  /** Request body failed validation; see `fieldErrors` */
+  "VALIDATION_ERROR",
+  /** Required setup fields are empty; `details.missing` lists them */
+  "MISSING_FIELDS",
+  /** Leads can't be accepted until the setup wizard is finished */
+  "SETUP_INCOMPLETE",
+  /** Google rejected the stored authorization; the owner must reconnect */
+  "GOOGLE_AUTH_FAILED",
+  /** The lead sink failed to store a lead */
+  "LEAD_STORAGE_FAILED",
+  /** Missing or mismatched X-CSRF-Token header; fetch a new token and retry */
+  "CSRF_INVALID",
+  /** The setup and admin endpoints need a setup session; sign in with the setup token */
+  "UNAUTHORIZED",
+  "RATE_LIMITED",
+  /** A signed token was malformed, tampered with or expired */
+  "INVALID_TOKEN",
+  "INVALID_FILE_TYPE",
+  /** The upload can't be decoded as an image, or isn't the image type it was sent as */
+  "INVALID_IMAGE",
+  "FILE_TOO_LARGE",
+  "NO_FILE",
+  "UPLOAD_ERROR",
+  "NOT_FOUND",
+  "BAD_REQUEST",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/**
+ * Validation messages keyed by form field path ("email",
+ * "customFields.budget"), matching the names the client forms use.
+ * Problems with the body as a whole are keyed "form".
+ */
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * Zod schema for the body of every API error response.
+ */
+export const apiErrorResponseSchema = z.object({
+  success: z.literal(false),
+  /** Human-readable explanation */
+  message: z.string(),
+  code: z.enum(API_ERROR_CODES),
+  /** Extra data for some codes, e.g. `{ missing }` for MISSING_FIELDS */
+  details: z.unknown().optional(),
+  /** Per-field messages for VALIDATION_ERROR */
+  fieldErrors: z.record(z.array(z.string())).optional(),
+});
+
+export type ApiErrorResponse = z.infer<typeof apiErrorResponseSchema>;
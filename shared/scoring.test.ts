@@ -0,0 +1,64 @@
+/**
+ * Lead Scoring Tests
+ *
+ * Golden-file tests for the scoring engine in shared/scoring.ts.
+ *
+ * @fileoverview
+ * Each case in __golden__/scoring.json pairs an input (and optional
+ * scoring options) with the exact expected LeadScore. After an intentional
+ * change to the engine, regenerate the file and review the diff:
+ *
+ *   UPDATE_GOLDEN=1 npx vitest run shared/scoring.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import {
+  scoreLead,
+  DEFAULT_SCORING_WEIGHTS,
+  type ScoringInput,
+  type ScoringOptions,
+} from "./scoring";
+import { DEMO_LEAD } from "./demoLead";
+import type { LeadScore } from "./schema";
+
+interface GoldenCase {
+  name: string;
+  input: ScoringInput;
+  options?: ScoringOptions;
+  expected: LeadScore;
+}
+
+const goldenPath = path.join(__dirname, "__golden__", "scoring.json");
+const cases: GoldenCase[] = JSON.parse(readFileSync(goldenPath, "utf8"));
+
+if (process.env.UPDATE_GOLDEN) {
+  const updated = cases.map((c) => ({ ...c, expected: scoreLead(c.input, c.options) }));
+  writeFileSync(goldenPath, `${JSON.stringify(updated, null, 2)}\n`);
+}
+
+describe("scoreLead", () => {
+  it.each(cases.map((c) => [c.name, c] as const))("%s", (_name, c) => {
+    expect(scoreLead(c.input, c.options)).toEqual(c.expected);
+  });
+
+  it("reproduces the demo lead shown on the home page", () => {
+    expect(scoreLead(DEMO_LEAD)).toEqual(DEMO_LEAD.score);
+  });
+
+  it("never lets a factor exceed its weight", () => {
+    const score = scoreLead({
+      email: "ceo@bigco.com",
+      phone: "555-123-4567",
+      message:
+        "Urgent: need pricing, a quote, a demo, a trial, the contract and a proposal ASAP, immediately, today.",
+    });
+    for (const [factor, points] of Object.entries(score.factors)) {
+      expect(points).toBeLessThanOrEqual(
+        DEFAULT_SCORING_WEIGHTS[factor as keyof typeof DEFAULT_SCORING_WEIGHTS]
+      );
+    }
+    expect(score.score).toBe(100);
+  });
+});
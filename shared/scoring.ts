@@ -0,0 +1,213 @@
+/**
+ * Lead scoring engine.
+ *
+ * Deterministic, explainable scoring that runs the same on client and
+ * server. Each factor earns points up to its weight; the factors add up to
+ * a 0-100 score and a one-sentence explanation.
+ *
+ * @author Lindsey Stead
+ */
+
+import type { LeadScore } from "./schema";
+import { classifyEmailDomain, type EmailDomainType } from "./domains";
+
+export type ScoreFactor = keyof LeadScore["factors"];
+
+/**
+ * Maximum points each factor can contribute. Defaults add up to 100.
+ */
+export const DEFAULT_SCORING_WEIGHTS: Readonly<Record<ScoreFactor, number>> = {
+  messageIntent: 40,
+  messageUrgency: 20,
+  emailDomain: 20,
+  messageLength: 10,
+  phoneProvided: 10,
+};
+
+/**
+ * Buying-intent phrases and the points each earns. Matches add up and are
+ * capped at the messageIntent weight.
+ */
+export const DEFAULT_INTENT_KEYWORDS: Readonly<Record<string, number>> = {
+  pricing: 10,
+  price: 10,
+  quote: 10,
+  purchase: 10,
+  buy: 10,
+  demo: 10,
+  trial: 10,
+  contract: 10,
+  proposal: 10,
+  budget: 10,
+  interested: 5,
+  implementation: 5,
+  discuss: 5,
+  consultation: 5,
+  "learn more": 5,
+  "sign up": 5,
+};
+
+/**
+ * Urgency phrases and the points each earns, capped at the messageUrgency weight.
+ */
+export const DEFAULT_URGENCY_KEYWORDS: Readonly<Record<string, number>> = {
+  urgent: 20,
+  asap: 20,
+  immediately: 20,
+  "right away": 20,
+  today: 10,
+  "this week": 10,
+  deadline: 10,
+  soon: 5,
+  ready: 5,
+  timeline: 5,
+  quickly: 5,
+};
+
+export interface ScoringOptions {
+  /** Maximum points per factor */
+  weights?: Partial<Record<ScoreFactor, number>>;
+  /** Replaces the default intent dictionary */
+  intentKeywords?: Readonly<Record<string, number>>;
+  /** Replaces the default urgency dictionary */
+  urgencyKeywords?: Readonly<Record<string, number>>;
+  /** Replaces the default free-mail domain list */
+  freeMailDomains?: readonly string[];
+  /** Replaces the default disposable domain list */
+  disposableDomains?: readonly string[];
+  /** Character count at which a message counts as detailed (full messageLength points) */
+  detailedMessageLength?: number;
+  /** Character count below which a message earns no messageLength points */
+  minimumMessageLength?: number;
+}
+
+export interface ScoringInput {
+  email: string;
+  message: string;
+  phone?: string | null;
+}
+
+/** Share of the emailDomain weight earned by each domain type. */
+const DOMAIN_SHARE: Record<EmailDomainType, number> = {
+  company: 1,
+  free: 0.25,
+  disposable: 0,
+  invalid: 0,
+};
+
+const DOMAIN_PHRASE: Record<EmailDomainType, string> = {
+  company: "company email",
+  free: "personal email",
+  disposable: "disposable email",
+  invalid: "invalid email",
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Adds up the points of every dictionary phrase found in the text.
+ * Phrases match on word boundaries, case-insensitively, and count once each.
+ */
+function keywordPoints(text: string, dictionary: Readonly<Record<string, number>>): number {
+  let total = 0;
+  for (const [phrase, points] of Object.entries(dictionary)) {
+    const pattern = new RegExp(`\\b${escapeRegExp(phrase.toLowerCase())}\\b`);
+    if (pattern.test(text)) total += points;
+  }
+  return total;
+}
+
+function clamp(value: number, max: number): number {
+  return Math.max(0, Math.min(max, Math.round(value)));
+}
+
+/**
+ * Scores a lead.
+ *
+ * @example
+ * scoreLead({
+ *   email: "john@acme.com",
+ *   phone: "+1 (555) 123-4567",
+ *   message: "I'm interested in your services, ready to discuss pricing and implementation timeline.",
+ * });
+ * // => { score: 75, factors: { messageIntent: 25, messageUrgency: 10, ... },
+ * //      reasoning: "High buying intent, urgent request, company email, phone provided, detailed message" }
+ */
+export function scoreLead(input: ScoringInput, options: ScoringOptions = {}): LeadScore {
+  const weights = { ...DEFAULT_SCORING_WEIGHTS, ...options.weights };
+  const detailedLength = options.detailedMessageLength ?? 80;
+  const minimumLength = options.minimumMessageLength ?? 20;
+
+  const message = input.message.trim();
+  const text = message.toLowerCase();
+  const domainType = classifyEmailDomain(input.email, options);
+  const hasPhone = Boolean(input.phone?.trim());
+
+  const lengthShare =
+    message.length >= detailedLength ? 1 : message.length >= minimumLength ? 0.5 : 0;
+
+  const factors: LeadScore["factors"] = {
+    messageIntent: clamp(
+      keywordPoints(text, options.intentKeywords ?? DEFAULT_INTENT_KEYWORDS),
+      weights.messageIntent
+    ),
+    messageUrgency: clamp(
+      keywordPoints(text, options.urgencyKeywords ?? DEFAULT_URGENCY_KEYWORDS),
+      weights.messageUrgency
+    ),
+    emailDomain: clamp(weights.emailDomain * DOMAIN_SHARE[domainType], weights.emailDomain),
+    messageLength: clamp(weights.messageLength * lengthShare, weights.messageLength),
+    phoneProvided: hasPhone ? clamp(weights.phoneProvided, weights.phoneProvided) : 0,
+  };
+
+  // Normalize to 0-100 so custom weights that don't add up to 100 still work
+  const maxTotal = Object.values(weights).reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  const earned = Object.values(factors).reduce((sum, points) => sum + points, 0);
+  const score = maxTotal > 0 ? clamp((earned / maxTotal) * 100, 100) : 0;
+
+  return { score, factors, reasoning: explain(factors, weights, domainType, lengthShare) };
+}
+
+/**
+ * Builds the reasoning sentence, one phrase per factor in factor order.
+ */
+function explain(
+  factors: LeadScore["factors"],
+  weights: Record<ScoreFactor, number>,
+  domainType: EmailDomainType,
+  lengthShare: number
+): string {
+  const intent =
+    factors.messageIntent === 0
+      ? "no clear buying intent"
+      : factors.messageIntent >= weights.messageIntent / 2
+        ? "high buying intent"
+        : "some buying intent";
+
+  const urgency =
+    factors.messageUrgency === 0
+      ? "no stated urgency"
+      : factors.messageUrgency >= weights.messageUrgency
+        ? "very urgent request"
+        : "urgent request";
+
+  const length =
+    lengthShare === 1
+      ? "detailed message"
+      : lengthShare > 0
+        ? "short message"
+        : "very brief message";
+
+  const phrases = [
+    intent,
+    urgency,
+    DOMAIN_PHRASE[domainType],
+    factors.phoneProvided > 0 ? "phone provided" : "no phone",
+    length,
+  ];
+
+  const sentence = phrases.join(", ");
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
@@ -0,0 +1,93 @@
+/**
+ * Setup Draft Tests
+ *
+ * Covers migrating stored drafts to the current version and stripping
+ * secrets from draft state.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  migrateSetupDraft,
+  parseStoredSetupDraft,
+  setupDraftSchema,
+  SETUP_DRAFT_VERSION,
+} from "./setupDraft";
+
+describe("migrateSetupDraft", () => {
+  it("upgrades the step number stored before drafts", () => {
+    expect(parseStoredSetupDraft("3")).toEqual({
+      version: SETUP_DRAFT_VERSION,
+      savedAt: null,
+      stepId: "content",
+      state: {},
+    });
+    expect(parseStoredSetupDraft("4")?.stepId).toBe("header-footer");
+    expect(parseStoredSetupDraft("8")?.stepId).toBe("google-auth");
+    // Without the owner's choices, step 9 is the completion screen as it was before drafts
+    expect(parseStoredSetupDraft("9")?.stepId).toBe("complete");
+    expect(parseStoredSetupDraft("42")?.stepId).toBe("welcome");
+  });
+
+  it("upgrades a bare step id", () => {
+    expect(parseStoredSetupDraft("header-footer")?.stepId).toBe("header-footer");
+  });
+
+  it("reads current drafts as they are", () => {
+    const draft = {
+      version: SETUP_DRAFT_VERSION,
+      savedAt: "2026-10-01T09:30:00.000Z",
+      stepId: "branding",
+      state: { branding: { companyName: "Acme" }, hideBranding: true },
+    };
+    expect(parseStoredSetupDraft(JSON.stringify(draft))).toEqual(draft);
+  });
+
+  it("drops drafts it can't read", () => {
+    expect(parseStoredSetupDraft(null)).toBeNull();
+    expect(migrateSetupDraft({ version: SETUP_DRAFT_VERSION + 1, stepId: "branding" })).toBeNull();
+    expect(migrateSetupDraft({ stepId: "branding" })).toBeNull();
+    expect(
+      migrateSetupDraft({
+        version: SETUP_DRAFT_VERSION,
+        savedAt: "yesterday",
+        stepId: "branding",
+        state: {},
+      })
+    ).toBeNull();
+  });
+});
+
+describe("setupDraftSchema", () => {
+  it("strips secrets and the logo file from draft state", () => {
+    const { state } = setupDraftSchema.parse({
+      version: SETUP_DRAFT_VERSION,
+      savedAt: null,
+      stepId: "credentials",
+      state: {
+        branding: { companyName: "Acme", logoPreview: "data:image/png;base64,AAAA" },
+        credentials: {
+          GOOGLE_CLIENT_ID: "id.apps.googleusercontent.com",
+          GOOGLE_CLIENT_SECRET: "GOCSPX-secret",
+          OPENAI_API_KEY: "sk-secret",
+          SLACK_WEBHOOK_URL: "https://hooks.slack.com/services/T/B/x",
+          WEBHOOK_URL: "https://example.com/hook?token=x",
+        },
+      },
+    });
+
+    expect(state.branding).toEqual({ companyName: "Acme" });
+    expect(state.credentials).toEqual({ GOOGLE_CLIENT_ID: "id.apps.googleusercontent.com" });
+  });
+
+  it("keeps form fields that are still being edited", () => {
+    const parsed = setupDraftSchema.safeParse({
+      version: SETUP_DRAFT_VERSION,
+      savedAt: null,
+      stepId: "form-fields",
+      state: {
+        formFields: [{ id: "budget", kind: "select", label: "", required: false, options: [""] }],
+      },
+    });
+    expect(parsed.success).toBe(true);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Setup wizard drafts.
+ *
+ * A draft is everything the owner has typed into the setup wizard plus the
+ * step they were on, so an unfinished setup survives a reload and can be
+ * picked up on another machine. The wizard autosaves drafts to
+ * localStorage and to PUT /api/v1/setup/draft.
+ *
+ * Drafts carry a version. Older drafts are upgraded by migrateSetupDraft
+ * one version at a time; anything that still doesn't match the current
+ * schema is dropped.
+ *
+ * Secrets never go into a draft: the Google client secret, API keys and
+ * webhook URLs (which embed their own tokens) are not in the credentials
+ * schema below and are stripped when a draft is parsed.
+ *
+ * @author Lindsey Stead
+ */
+
+import { z } from "zod";
+import {
+  configPayloadSectionSchemas,
+  FIELD_MAX_LENGTHS,
+  LAYOUT_SECTION_TYPES,
+  MAX_LAYOUT_SECTIONS,
+  SECTION_ITEM_LIMITS,
+} from "./appConfig";
+import { FORM_FIELD_LIMITS, formFieldDefinitionSchema } from "./formDefinition";
+
+/** Version written by this build. */
+export const SETUP_DRAFT_VERSION = 1;
+
+const text = z.string().max(10_000);
+
+// Fields mid-edit may have an empty label or option, so the draft only checks lengths
+const draftFormFieldSchema = formFieldDefinitionSchema.extend({
+  label: z.string().max(FORM_FIELD_LIMITS.labelLength),
+  options: z
+    .array(z.string().max(FORM_FIELD_LIMITS.optionLength))
+    .max(FORM_FIELD_LIMITS.maxOptions)
+    .optional(),
+});
+
+/**
+ * Wizard state kept in a draft. Every section is optional and partial; the
+ * wizard fills the gaps with its defaults.
+ */
+export const setupDraftStateSchema = z
+  .object({
+    notificationPreferences: z
+      .object({ wantsEmail: z.boolean(), wantsSlack: z.boolean(), wantsWebhook: z.boolean() })
+      .partial(),
+    branding: z
+      .object({
+        companyName: text,
+        logo: text,
+        logoRetina: text,
+        favicon: text,
+        appleTouchIcon: text,
+        primaryColor: text,
+        secondaryColor: text,
+        siteUrl: text,
+      })
+      .partial(),
+    // The theme editor only produces valid values, so drafts keep the saved shape
+    theme: configPayloadSectionSchemas.theme,
+    content: z
+      .object({
+        heroTitle: text,
+        heroDescription: text,
+        heroCtaText: text,
+        heroSecondaryCtaText: text,
+        heroTertiaryCtaText: text,
+        heroBenefits: z.array(text).max(20),
+        formTitle: text,
+        formDescription: text,
+        formSubmitText: text,
+      })
+      .partial(),
+    sections: z
+      .object({
+        featuresTitle: text,
+        featuresDescription: text,
+        features: z
+          .array(z.object({ title: text, description: text, icon: text, detail: text }))
+          .max(SECTION_ITEM_LIMITS.features),
+        howItWorksTitle: text,
+        howItWorksDescription: text,
+        steps: z
+          .array(z.object({ title: text, description: text, icon: text }))
+          .max(SECTION_ITEM_LIMITS.steps),
+        socialProofTitle: text,
+        socialProofDescription: text,
+        testimonials: z
+          .array(z.object({ quote: text, author: text, role: text }))
+          .max(SECTION_ITEM_LIMITS.testimonials),
+        stats: z
+          .array(z.object({ value: text, label: text, icon: text }))
+          .max(SECTION_ITEM_LIMITS.stats),
+      })
+      .partial(),
+    layout: z
+      .array(
+        z.object({
+          type: z.enum(LAYOUT_SECTION_TYPES),
+          hidden: z.boolean(),
+          id: text.optional(),
+          title: text.optional(),
+          items: z
+            .array(z.object({ question: text, answer: text }))
+            .max(SECTION_ITEM_LIMITS.faqs)
+            .optional(),
+          markdown: z.string().max(FIELD_MAX_LENGTHS.richText).optional(),
+        })
+      )
+      .max(MAX_LAYOUT_SECTIONS),
+    formFields: z.array(draftFormFieldSchema).max(FORM_FIELD_LIMITS.maxFields),
+    headerFooter: z
+      .object({
+        headerCtaText: text,
+        navigation: z
+          .array(z.object({ label: text, sectionId: text, href: text.optional() }))
+          .max(20),
+        footerDescription: text,
+        socialGithub: text,
+        socialTwitter: text,
+        socialLinkedin: text,
+        socialFacebook: text,
+        socialInstagram: text,
+        socialYouTube: text,
+        socialTikTok: text,
+        socialPinterest: text,
+        socialSnapchat: text,
+        socialDiscord: text,
+        privacyPolicyUrl: text,
+        termsOfServiceUrl: text,
+      })
+      .partial(),
+    seo: z
+      .object({
+        pageTitle: text,
+        metaDescription: text,
+        ogImage: text,
+        ogTitle: text,
+        ogDescription: text,
+        twitterCard: text,
+        twitterImage: text,
+        canonicalUrl: text,
+        keywords: text,
+      })
+      .partial(),
+    analytics: z
+      .object({
+        googleAnalyticsId: text,
+        googleTagManagerId: text,
+        facebookPixelId: text,
+        linkedinInsightTag: text,
+        customAnalyticsScript: text,
+      })
+      .partial(),
+    credentials: z
+      .object({
+        GOOGLE_CLIENT_ID: text,
+        NOTIFICATION_EMAIL: text,
+        ENABLE_SLACK_NOTIFICATIONS: text,
+        ENABLE_EMAIL_NOTIFICATIONS: text,
+        ENABLE_WEBHOOK_NOTIFICATIONS: text,
+        ENABLE_AUTO_RESPONDER: text,
+        ORGANIZATION_NAME: text,
+        AUTO_RESPONDER_SUBJECT: text,
+        AUTO_RESPONDER_BODY: text,
+        SPREADSHEET_ID: text,
+        LEAD_SINK: text,
+      })
+      .partial(),
+    emailTemplate: z
+      .object({ subject: text, introMessage: text, closingSignature: text })
+      .partial(),
+    hideBranding: z.boolean(),
+    selectedWebhookService: z.string().max(100).nullable(),
+  })
+  .partial();
+
+export type SetupDraftState = z.infer<typeof setupDraftStateSchema>;
+
+export const setupDraftSchema = z.object({
+  version: z.literal(SETUP_DRAFT_VERSION),
+  /** When the owner last edited the draft (ISO 8601); null when unknown */
+  savedAt: z.string().datetime().nullable(),
+  /** Id of the open step, see client/src/pages/Setup/steps/registry.tsx */
+  stepId: z.string().min(1).max(64),
+  state: setupDraftStateSchema,
+});
+
+export type SetupDraft = z.infer<typeof setupDraftSchema>;
+
+// Step ids for the numbered steps the wizard stored before drafts existed,
+// 1-8; the form fields step came later and has no number
+const LEGACY_STEP_IDS = [
+  "welcome",
+  "branding",
+  "content",
+  "header-footer",
+  "notifications",
+  "google-setup",
+  "credentials",
+  "google-auth",
+];
+
+// Step 9 was Slack setup for owners who wanted Slack and the completion screen otherwise
+function legacyStepId(step: number, state: SetupDraftState): string {
+  if (step === 9) return state.notificationPreferences?.wantsSlack ? "slack" : "complete";
+  return LEGACY_STEP_IDS[step - 1] ?? "welcome";
+}
+
+/**
+ * Upgrades from each version to the next, keyed by the version they read.
+ * Version 0 is the step-only value stored before drafts: a step number
+ * (1-9) or, later, a step id.
+ */
+const MIGRATIONS: Record<number, (draft: unknown) => unknown> = {
+  0: (step) => {
+    // The step was stored on its own, so none of the owner's choices come with it
+    const state: SetupDraftState = {};
+    return {
+      version: 1,
+      savedAt: null,
+      stepId: typeof step === "number" ? legacyStepId(step, state) : step,
+      state,
+    };
+  },
+};
+
+function versionOf(draft: unknown): number | null {
+  if (typeof draft === "number" || typeof draft === "string") return 0;
+  if (typeof draft !== "object" || draft === null) return null;
+  const { version } = draft as { version?: unknown };
+  return typeof version === "number" && Number.isInteger(version) ? version : null;
+}
+
+/**
+ * Brings a stored draft up to the current version.
+ *
+ * @returns The draft, or null when it is unreadable or from a newer build
+ */
+export function migrateSetupDraft(stored: unknown): SetupDraft | null {
+  let draft = stored;
+  let version = versionOf(draft);
+
+  while (version !== null && version < SETUP_DRAFT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    draft = migrate(draft);
+    version = versionOf(draft);
+  }
+
+  const parsed = setupDraftSchema.safeParse(draft);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Reads a draft as stored in localStorage: JSON, or the bare step id
+ * written before drafts existed.
+ */
+export function parseStoredSetupDraft(raw: string | null): SetupDraft | null {
+  if (!raw) return null;
+  try {
+    return migrateSetupDraft(JSON.parse(raw));
+  } catch {
+    return migrateSetupDraft(raw);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Site theme (design tokens).
+ *
+ * The `theme` configuration section overrides the CSS variables that
+ * tailwind.config.ts reads, whose defaults live in client/src/index.css:
+ * every color token except --primary and --secondary, which follow the
+ * brand colors, and their foregrounds, which are picked for WCAG contrast
+ * with them; plus the body and heading fonts, the corner radius and how
+ * strong shadows are. Colors are stored as hex like the brand colors.
+ * Fonts come from a curated list, so the site only ever loads stylesheets
+ * it knows about. The site can be light, dark or follow the visitor's
+ * system setting, with its own colors for each.
+ *
+ * @author Lindsey Stead
+ */
+
+/** Color variables a theme can set, named as in index.css without the leading "--". */
+export const THEME_COLOR_TOKENS = [
+  "background",
+  "foreground",
+  "border",
+  "input",
+  "ring",
+  "card",
+  "card-foreground",
+  "card-border",
+  "popover",
+  "popover-foreground",
+  "popover-border",
+  "muted",
+  "muted-foreground",
+  "accent",
+  "accent-foreground",
+  "destructive",
+  "destructive-foreground",
+  "chart-1",
+  "chart-2",
+  "chart-3",
+  "chart-4",
+  "chart-5",
+  "sidebar",
+  "sidebar-foreground",
+  "sidebar-border",
+  "sidebar-ring",
+  "sidebar-primary",
+  "sidebar-primary-foreground",
+  "sidebar-accent",
+  "sidebar-accent-foreground",
+] as const;
+
+export type ThemeColorToken = (typeof THEME_COLOR_TOKENS)[number];
+
+interface ThemeFont {
+  label: string;
+  /** Value of --font-sans or --font-heading */
+  stack: string;
+  /** Google Fonts family to load; left out for fonts the page already has */
+  googleFamily?: string;
+}
+
+const SANS_FALLBACK = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+const SERIF_FALLBACK = 'Georgia, Cambria, "Times New Roman", Times, serif';
+
+/** Fonts a theme can use for body text and headings. */
+export const THEME_FONTS = {
+  // index.html already loads Inter
+  inter: { label: "Inter", stack: `Inter, ${SANS_FALLBACK}` },
+  "dm-sans": { label: "DM Sans", stack: `"DM Sans", ${SANS_FALLBACK}`, googleFamily: "DM Sans" },
+  montserrat: {
+    label: "Montserrat",
+    stack: `Montserrat, ${SANS_FALLBACK}`,
+    googleFamily: "Montserrat",
+  },
+  poppins: { label: "Poppins", stack: `Poppins, ${SANS_FALLBACK}`, googleFamily: "Poppins" },
+  "source-sans": {
+    label: "Source Sans 3",
+    stack: `"Source Sans 3", ${SANS_FALLBACK}`,
+    googleFamily: "Source Sans 3",
+  },
+  lora: { label: "Lora", stack: `Lora, ${SERIF_FALLBACK}`, googleFamily: "Lora" },
+  "playfair-display": {
+    label: "Playfair Display",
+    stack: `"Playfair Display", ${SERIF_FALLBACK}`,
+    googleFamily: "Playfair Display",
+  },
+  system: {
+    label: "System UI",
+    stack:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  },
+  georgia: { label: "Georgia", stack: SERIF_FALLBACK },
+} satisfies Record<string, ThemeFont>;
+
+export type ThemeFontName = keyof typeof THEME_FONTS;
+
+export const THEME_FONT_NAMES = Object.keys(THEME_FONTS) as [ThemeFontName, ...ThemeFontName[]];
+
+/** How strong shadows are, as a multiple of their default opacity (--shadow-strength). */
+export const SHADOW_INTENSITIES = {
+  none: 0,
+  subtle: 0.5,
+  medium: 1,
+  strong: 1.75,
+} as const;
+
+export type ShadowIntensity = keyof typeof SHADOW_INTENSITIES;
+
+export const SHADOW_INTENSITY_NAMES = Object.keys(SHADOW_INTENSITIES) as [
+  ShadowIntensity,
+  ...ShadowIntensity[],
+];
+
+/** Color schemes a site can use; "auto" follows the visitor's system setting. */
+export const COLOR_MODES = ["light", "dark", "auto"] as const;
+
+export type ColorModeSetting = (typeof COLOR_MODES)[number];
+
+/** Default corner radius (--radius), in pixels. */
+export const DEFAULT_THEME_RADIUS = 8;
+
+/** Largest corner radius, in pixels. */
+export const MAX_THEME_RADIUS = 24;
+
+const GOOGLE_FONT_WEIGHTS = "400;500;600;700";
+
+/**
+ * Google Fonts stylesheet for the given fonts, or null when none of them
+ * needs loading.
+ */
+export function googleFontsUrl(fonts: readonly (ThemeFontName | undefined)[]): string | null {
+  const families: string[] = [];
+  for (const name of fonts) {
+    const font: ThemeFont | undefined = name ? THEME_FONTS[name] : undefined;
+    if (font?.googleFamily && !families.includes(font.googleFamily)) {
+      families.push(font.googleFamily);
+    }
+  }
+  if (families.length === 0) return null;
+
+  const query = families
+    .map((family) => `family=${family.replace(/ /g, "+")}:wght@${GOOGLE_FONT_WEIGHTS}`)
+    .join("&");
+  return `https://fonts.googleapis.com/css2?${query}&display=swap`;
+}
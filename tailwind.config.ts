@@ -5,10 +5,12 @@ export default {
   content: ["./client/index.html", "./client/src/**/*.{js,jsx,ts,tsx}"],
   theme: {
     extend: {
+      // Derived from --radius (.5rem = 8px) so an embed can change every corner at once
       borderRadius: {
-        lg: ".5625rem", /* 9px */
-        md: ".375rem", /* 6px */
-        sm: ".1875rem", /* 3px */
+        xl: "calc(var(--radius) + 4px)", /* 12px */
+        lg: "calc(var(--radius) + 1px)", /* 9px */
+        md: "calc(var(--radius) - 2px)", /* 6px */
+        sm: "calc(var(--radius) - 5px)", /* 3px */
       },
       spacing: {
         '18': '4.5rem', /* 72px */
@@ -20,6 +22,13 @@ export default {
         '9xl': '96rem', /* 1536px */
       },
       boxShadow: {
+        // Tailwind's default scale, with its opacity multiplied by --shadow-strength (the theme's shadow intensity)
+        sm: '0 1px 2px 0 rgb(0 0 0 / calc(0.05 * var(--shadow-strength)))',
+        DEFAULT: '0 1px 3px 0 rgb(0 0 0 / calc(0.1 * var(--shadow-strength))), 0 1px 2px -1px rgb(0 0 0 / calc(0.1 * var(--shadow-strength)))',
+        md: '0 4px 6px -1px rgb(0 0 0 / calc(0.1 * var(--shadow-strength))), 0 2px 4px -2px rgb(0 0 0 / calc(0.1 * var(--shadow-strength)))',
+        lg: '0 10px 15px -3px rgb(0 0 0 / calc(0.1 * var(--shadow-strength))), 0 4px 6px -4px rgb(0 0 0 / calc(0.1 * var(--shadow-strength)))',
+        xl: '0 20px 25px -5px rgb(0 0 0 / calc(0.1 * var(--shadow-strength))), 0 8px 10px -6px rgb(0 0 0 / calc(0.1 * var(--shadow-strength)))',
+        '2xl': '0 25px 50px -12px rgb(0 0 0 / calc(0.25 * var(--shadow-strength)))',
         'glow': '0 0 20px rgba(59, 130, 246, 0.15)',
         'glow-lg': '0 0 40px rgba(59, 130, 246, 0.2)',
         'inner-lg': 'inset 0 2px 4px 0 rgba(0, 0, 0, 0.1)',
@@ -141,6 +150,7 @@ export default {
       },
       fontFamily: {
         sans: ["var(--font-sans)"],
+        heading: ["var(--font-heading)"],
         serif: ["var(--font-serif)"],
         mono: ["var(--font-mono)"],
       },
@@ -20,6 +20,11 @@ export default defineConfig({
     emptyOutDir: true,
   },
   server: {
+    // Forward API calls and uploaded assets to the Express server (npm run dev:server)
+    proxy: {
+      "/api": "http://localhost:5000",
+      "/uploads": "http://localhost:5000",
+    },
     fs: {
       strict: true,
       deny: ["**/.*"],
@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the standalone embed.js loader (client/src/embed) into dist/public,
+// next to the app built by vite.config.ts. Run after the app build, which
+// empties the folder.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  build: {
+    outDir: path.resolve(import.meta.dirname, "dist/public"),
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(import.meta.dirname, "client/src/embed/index.ts"),
+      name: "SmartSheetConnectEmbed",
+      formats: ["iife"],
+      fileName: () => "embed.js",
+    },
+  },
+});
@@ -0,0 +1,30 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import path from "path";
+
+// Builds lead-capture-form.js, the <lead-capture-form> custom element with
+// React and its stylesheet bundled in, into dist/public. Run after the app
+// build, which empties the folder.
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  // Library builds leave process.env alone; React reads it to pick its production build
+  define: {
+    "process.env.NODE_ENV": JSON.stringify("production"),
+  },
+  build: {
+    outDir: path.resolve(import.meta.dirname, "dist/public"),
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(import.meta.dirname, "client/src/embed/webComponent.ts"),
+      name: "SmartSheetConnectForm",
+      formats: ["iife"],
+      fileName: () => "lead-capture-form.js",
+    },
+  },
+});